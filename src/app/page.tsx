@@ -1,10 +1,16 @@
 "use client";
 
 import * as React from "react";
-import { useWalletStore, useTelegram } from "@/hooks";
-import { hasStoredWallet, getWalletsList } from "@/lib/storage";
-import { isLockedOut, getLockoutRemaining } from "@/lib/storage/encryption";
-import { WalletDashboard, MnemonicDisplay, MnemonicInput } from "@/components/wallet";
+import { useWalletStore, useTelegram, useAutoLock, usePinAttempts } from "@/hooks";
+import { hasStoredWallet, getWalletsList, getActiveWalletId } from "@/lib/storage";
+import { getWalletInfo, type WalletUnlock } from "@/lib/storage/encryption";
+import {
+  WalletDashboard,
+  MnemonicDisplay,
+  MnemonicInput,
+  MnemonicQuiz,
+  BiometricUnlockButton,
+} from "@/components/wallet";
 import { Card, Button, PinInput, Input } from "@/components/ui";
 import { WalletAsset } from "@/lib/cardano";
 
@@ -16,6 +22,8 @@ const StakingScreen = React.lazy(() => import("@/components/wallet/StakingScreen
 const SwapScreen = React.lazy(() => import("@/components/wallet/SwapScreen").then(m => ({ default: m.SwapScreen })));
 const GovernanceScreen = React.lazy(() => import("@/components/wallet/GovernanceScreen").then(m => ({ default: m.GovernanceScreen })));
 const MultiSendScreen = React.lazy(() => import("@/components/wallet/MultiSendScreen").then(m => ({ default: m.MultiSendScreen })));
+const UtxoManager = React.lazy(() => import("@/components/wallet/UtxoManager").then(m => ({ default: m.UtxoManager })));
+const LegacyRestoreScreen = React.lazy(() => import("@/components/wallet/LegacyRestoreScreen").then(m => ({ default: m.LegacyRestoreScreen })));
 
 // Loading fallback for lazy components
 const LazyLoadingFallback = () => (
@@ -27,7 +35,10 @@ const LazyLoadingFallback = () => (
   </div>
 );
 
-type AppView = "loading" | "setup" | "create" | "import" | "import-pin" | "backup" | "unlock" | "dashboard" | "send" | "receive" | "asset-detail" | "staking" | "swap" | "governance" | "multi-send";
+type AppView = "loading" | "setup" | "create" | "import" | "import-pin" | "watch" | "backup" | "unlock" | "dashboard" | "send" | "receive" | "asset-detail" | "staking" | "swap" | "governance" | "multi-send" | "utxos" | "legacy";
+
+// Views of an unlocked wallet, returned to after the wallet locks and is unlocked again
+const UNLOCKED_VIEWS: AppView[] = ["dashboard", "send", "receive", "asset-detail", "staking", "swap", "governance", "multi-send", "utxos", "legacy"];
 
 // Hydration safe hook - prevents SSR mismatch
 function useHydrated() {
@@ -45,11 +56,15 @@ export default function WalletPage() {
     isLoggedIn,
     isLoading,
     error,
+    isWatchOnly,
     createNewWallet,
     importWallet,
     unlockWallet,
+    addWatchOnlyWallet,
     clearError,
     deleteAllWallets,
+    markBackedUp,
+    _mnemonic: unlockedMnemonic,
   } = useWalletStore();
 
   const { isInTelegram, ready, expand, hapticFeedback, user } = useTelegram();
@@ -58,11 +73,21 @@ export default function WalletPage() {
   const [pin, setPin] = React.useState("");
   const [confirmPin, setConfirmPin] = React.useState("");
   const [mnemonic, setMnemonic] = React.useState("");
+  const [backupStep, setBackupStep] = React.useState<"display" | "quiz">("display");
   const [importMnemonic, setImportMnemonic] = React.useState("");
+  const [importPassphrase, setImportPassphrase] = React.useState<string | undefined>();
+  const [showPassphrase, setShowPassphrase] = React.useState(false);
+  const [passphrase, setPassphrase] = React.useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = React.useState("");
+  const [watchInput, setWatchInput] = React.useState("");
   const [pinError, setPinError] = React.useState("");
   const [walletName, setWalletName] = React.useState("");
   const [isAddingWallet, setIsAddingWallet] = React.useState(false);
   const [selectedAsset, setSelectedAsset] = React.useState<WalletAsset | null>(null);
+  const resumeViewRef = React.useRef<AppView | null>(null);
+
+  useAutoLock();
+  const pinAttempts = usePinAttempts(hydrated ? getActiveWalletId() : null);
 
   // Initialize Telegram WebApp
   React.useEffect(() => {
@@ -92,7 +117,22 @@ export default function WalletPage() {
   // Update view when login status changes (only for initial login)
   React.useEffect(() => {
     if (isLoggedIn && (view === "loading" || view === "unlock")) {
-      setView("dashboard");
+      setView(resumeViewRef.current || "dashboard");
+      resumeViewRef.current = null;
+    }
+  }, [isLoggedIn, view]);
+
+  // Wallet locked (auto-lock, lock button, network change): remember the view
+  // and never leave a recovery phrase on screen
+  React.useEffect(() => {
+    if (isLoggedIn) return;
+    if (UNLOCKED_VIEWS.includes(view)) {
+      resumeViewRef.current = view;
+      setView("unlock");
+    } else if (view === "backup") {
+      setMnemonic("");
+      setIsAddingWallet(false);
+      setView("unlock");
     }
   }, [isLoggedIn, view]);
 
@@ -103,6 +143,9 @@ export default function WalletPage() {
     setPin("");
     setConfirmPin("");
     setWalletName("");
+    setShowPassphrase(false);
+    setPassphrase("");
+    setConfirmPassphrase("");
   }, [view, clearError]);
 
   // Handle adding a new wallet from dashboard
@@ -131,11 +174,16 @@ export default function WalletPage() {
       setPinError("PINs do not match");
       return;
     }
+    if (showPassphrase && passphrase !== confirmPassphrase) {
+      setPinError("Passphrases do not match");
+      return;
+    }
 
     try {
       const name = walletName.trim() || undefined;
-      const newMnemonic = await createNewWallet(pin, name);
+      const newMnemonic = await createNewWallet(pin, name, 24, (showPassphrase && passphrase) || undefined);
       setMnemonic(newMnemonic);
+      setBackupStep("display");
       setView("backup");
       if (isInTelegram) {
         hapticFeedback.notificationOccurred("success");
@@ -166,13 +214,14 @@ export default function WalletPage() {
     }
 
     const name = walletName.trim() || undefined;
-    const success = await importWallet(importMnemonic, pin, name);
+    const success = await importWallet(importMnemonic, pin, name, importPassphrase);
     if (success) {
       if (isInTelegram) {
         hapticFeedback.notificationOccurred("success");
       }
       setIsAddingWallet(false);
       setImportMnemonic(""); // Clear mnemonic from state
+      setImportPassphrase(undefined);
       setView("dashboard");
     } else {
       // Error is already set by the store
@@ -182,17 +231,43 @@ export default function WalletPage() {
     }
   };
 
-  // Handle unlock
-  const handleUnlock = async (enteredPin: string) => {
-    const success = await unlockWallet(enteredPin);
+  // Handle adding a watch-only wallet
+  const handleWatchWallet = async () => {
+    if (!watchInput.trim()) {
+      setPinError("Please enter an address, stake address or $handle");
+      return;
+    }
+
+    const name = walletName.trim() || undefined;
+    const success = await addWatchOnlyWallet(watchInput, name);
     if (success) {
       if (isInTelegram) {
         hapticFeedback.notificationOccurred("success");
       }
+      setIsAddingWallet(false);
+      setWatchInput("");
       setView("dashboard");
+    } else if (isInTelegram) {
+      hapticFeedback.notificationOccurred("error");
+    }
+  };
+
+  // Handle unlock
+  const handleUnlock = async (unlock: WalletUnlock) => {
+    const success = await unlockWallet(unlock);
+    if (success) {
+      // The login effect returns to the view the wallet was locked on
+      if (isInTelegram) {
+        hapticFeedback.notificationOccurred("success");
+      }
     } else {
       setPinError("Invalid PIN");
       setPin("");
+      pinAttempts.refresh();
+      if (!hasStoredWallet()) {
+        // The last wallet was erased after too many failed attempts
+        setView("setup");
+      }
       if (isInTelegram) {
         hapticFeedback.notificationOccurred("error");
       }
@@ -258,6 +333,14 @@ export default function WalletPage() {
           >
             Import Existing Wallet
           </Button>
+          <Button
+            variant="ghost"
+            size="lg"
+            fullWidth
+            onClick={() => setView("watch")}
+          >
+            Watch an Address
+          </Button>
         </div>
 
         <p className="mt-8 text-xs text-gray-400 dark:text-gray-500 text-center max-w-sm">
@@ -318,6 +401,34 @@ export default function WalletPage() {
             />
           </div>
 
+          {showPassphrase ? (
+            <div className="space-y-3">
+              <Input
+                type="password"
+                label="Passphrase (25th word)"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoComplete="new-password"
+                helperText="Write it down with your recovery phrase. Without it the wallet cannot be restored."
+              />
+              <Input
+                type="password"
+                label="Confirm Passphrase"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                autoComplete="new-password"
+              />
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setShowPassphrase(true)}
+              className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400"
+            >
+              Add a passphrase (advanced)
+            </button>
+          )}
+
           {error && (
             <p className="text-sm text-red-500 text-center">{String(error)}</p>
           )}
@@ -357,8 +468,9 @@ export default function WalletPage() {
         </p>
 
         <MnemonicInput
-          onSubmit={(mnemonic) => {
+          onSubmit={(mnemonic, passphrase) => {
             setImportMnemonic(mnemonic);
+            setImportPassphrase(passphrase);
             setView("import-pin");
           }}
           error={error || undefined}
@@ -367,6 +479,57 @@ export default function WalletPage() {
     );
   }
 
+  // Render watch-only wallet flow
+  if (view === "watch") {
+    return (
+      <div className="min-h-screen p-6 bg-gray-50 dark:bg-gray-900">
+        <button
+          onClick={handleBack}
+          className="mb-6 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 flex items-center gap-1"
+        >
+          <BackIcon className="w-5 h-5" />
+          Back
+        </button>
+
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+          Watch an Address
+        </h1>
+        <p className="text-gray-500 dark:text-gray-400 mb-6">
+          Follow a wallet&apos;s balance, history and staking without its recovery phrase.
+          Nothing can be sent from a watch-only wallet.
+        </p>
+
+        <div className="space-y-4">
+          <Input
+            label="Address, Stake Address or $handle"
+            placeholder="addr1..., stake1... or $handle"
+            value={watchInput}
+            onChange={(e) => setWatchInput(e.target.value)}
+            autoFocus
+          />
+          <Input
+            label="Wallet Name (Optional)"
+            placeholder="e.g. Cold Storage"
+            value={walletName}
+            onChange={(e) => setWalletName(e.target.value)}
+            maxLength={30}
+            error={pinError || error || undefined}
+          />
+          <Button
+            variant="primary"
+            size="lg"
+            fullWidth
+            onClick={handleWatchWallet}
+            isLoading={isLoading}
+            disabled={!watchInput.trim()}
+          >
+            Watch Wallet
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   // Render import wallet flow - Step 2: Set PIN
   if (view === "import-pin") {
     return (
@@ -434,8 +597,16 @@ export default function WalletPage() {
     );
   }
 
-  // Render backup screen (after wallet creation)
+  // Render backup screen (after wallet creation), then the quiz
+  // The dashboard is only reached by passing the quiz or skipping it explicitly
   if (view === "backup") {
+    const finishBackup = (passed: boolean) => {
+      if (passed) markBackedUp();
+      setMnemonic(""); // Clear mnemonic from state
+      setIsAddingWallet(false);
+      setView("dashboard");
+    };
+
     return (
       <div className="min-h-screen p-6 bg-gray-50 dark:bg-gray-900">
         <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
@@ -445,22 +616,30 @@ export default function WalletPage() {
           Save your recovery phrase securely
         </p>
 
-        <MnemonicDisplay
-          mnemonic={mnemonic}
-          onConfirmed={() => {
-            setMnemonic(""); // Clear mnemonic from state
-            setIsAddingWallet(false);
-            setView("dashboard");
-          }}
-        />
+        {backupStep === "display" ? (
+          <MnemonicDisplay
+            mnemonic={mnemonic}
+            requireVerification={false}
+            onConfirmed={() => setBackupStep("quiz")}
+          />
+        ) : (
+          <MnemonicQuiz
+            mnemonic={mnemonic}
+            onPassed={() => finishBackup(true)}
+            onSkip={() => finishBackup(false)}
+            onBack={() => setBackupStep("display")}
+          />
+        )}
       </div>
     );
   }
 
   // Render unlock screen
   if (view === "unlock") {
-    const locked = isLockedOut();
-    const lockoutSeconds = getLockoutRemaining();
+    const lockoutSeconds = pinAttempts.status.lockoutRemaining;
+    const locked = lockoutSeconds > 0;
+    const activeWalletId = getActiveWalletId();
+    const watchOnly = activeWalletId ? !!getWalletInfo(activeWalletId)?.watchOnly : false;
     
     return (
       <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-gray-50 dark:bg-gray-900">
@@ -474,12 +653,16 @@ export default function WalletPage() {
             Welcome Back, {user?.first_name || "User"}
           </h1>
           <p className="text-sm text-gray-500 dark:text-gray-400">
-            Enter your PIN to unlock your wallet
+            {watchOnly ? "Your active wallet is watch-only" : "Enter your PIN to unlock your wallet"}
           </p>
         </div>
 
         <Card padding="lg" className="w-full max-w-sm">
-          {locked ? (
+          {watchOnly ? (
+            <Button variant="primary" size="lg" fullWidth onClick={() => handleUnlock("")} isLoading={isLoading}>
+              Open Watch-Only Wallet
+            </Button>
+          ) : locked ? (
             <div className="text-center py-4">
               <div className="text-red-500 mb-2">
                 <svg className="w-12 h-12 mx-auto" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -488,7 +671,9 @@ export default function WalletPage() {
               </div>
               <p className="text-red-500 font-medium">Too many failed attempts</p>
               <p className="text-gray-500 text-sm mt-1">
-                Try again in {Math.ceil(lockoutSeconds / 60)} minute{lockoutSeconds > 60 ? 's' : ''}
+                {lockoutSeconds < 60
+                  ? `Try again in ${lockoutSeconds} second${lockoutSeconds === 1 ? "" : "s"}`
+                  : `Try again in ${Math.ceil(lockoutSeconds / 60)} minute${lockoutSeconds > 60 ? "s" : ""}`}
               </p>
             </div>
           ) : (
@@ -499,6 +684,14 @@ export default function WalletPage() {
                 onComplete={handleUnlock}
                 error={pinError}
                 autoFocus
+                {...pinAttempts.inputProps}
+              />
+
+              <BiometricUnlockButton
+                walletId={activeWalletId}
+                onUnlock={handleUnlock}
+                disabled={isLoading}
+                className="mt-6"
               />
 
               {isLoading && (
@@ -561,10 +754,14 @@ export default function WalletPage() {
             setSelectedAsset(null);
             setView("dashboard");
           }}
-          onSend={() => {
-            // TODO: Pre-select this asset in SendScreen
-            setView("send");
-          }}
+          onSend={
+            isWatchOnly
+              ? undefined
+              : () => {
+                  // TODO: Pre-select this asset in SendScreen
+                  setView("send");
+                }
+          }
         />
       </React.Suspense>
     );
@@ -581,6 +778,14 @@ export default function WalletPage() {
         onSwap={() => setView("swap")}
         onGovernance={() => setView("governance")}
         onMultiSend={() => setView("multi-send")}
+        onUtxos={() => setView("utxos")}
+        onRestoreLegacy={() => setView("legacy")}
+        onVerifyBackup={() => {
+          if (!unlockedMnemonic) return;
+          setMnemonic(unlockedMnemonic);
+          setBackupStep("quiz");
+          setView("backup");
+        }}
         onAssetClick={(asset) => {
           setSelectedAsset(asset);
           setView("asset-detail");
@@ -633,6 +838,28 @@ export default function WalletPage() {
     );
   }
 
+  // Render UTxO manager (coin control)
+  if (view === "utxos") {
+    return (
+      <React.Suspense fallback={<LazyLoadingFallback />}>
+        <UtxoManager
+          onBack={() => setView("dashboard")}
+        />
+      </React.Suspense>
+    );
+  }
+
+  // Render legacy (Byron, Ledger) wallet restore
+  if (view === "legacy") {
+    return (
+      <React.Suspense fallback={<LazyLoadingFallback />}>
+        <LegacyRestoreScreen
+          onBack={() => setView("dashboard")}
+        />
+      </React.Suspense>
+    );
+  }
+
   return null;
 }
 
@@ -1,8 +1,9 @@
 "use client";
 
 import * as React from "react";
-import { useWalletStore } from "@/hooks";
-import { injectEduchainmagWallet } from "@/lib/cardano/cip30";
+import { useWalletStore, useTransactionReview } from "@/hooks";
+import { TransactionReviewModal } from "@/components/wallet/TransactionReviewModal";
+import { injectEduchainmagWallet, setTxReviewer } from "@/lib/cardano/cip30";
 
 interface ProvidersProps {
   children: React.ReactNode;
@@ -13,6 +14,7 @@ interface ProvidersProps {
  */
 export const Providers: React.FC<ProvidersProps> = ({ children }) => {
   const { _walletInstance, network } = useWalletStore();
+  const { requestReview, reviewProps } = useTransactionReview();
 
   // Global wallet injection for dApps/Widgets
   React.useEffect(() => {
@@ -21,9 +23,16 @@ export const Providers: React.FC<ProvidersProps> = ({ children }) => {
     }
   }, [_walletInstance, network]);
 
+  // dApp signTx requests are confirmed on the decoded transaction
+  React.useEffect(() => {
+    setTxReviewer(requestReview);
+    return () => setTxReviewer(null);
+  }, [requestReview]);
+
   return (
     <React.Fragment>
       {children}
+      <TransactionReviewModal {...reviewProps} origin="a connected dApp" />
     </React.Fragment>
   );
 };
@@ -9,8 +9,17 @@ export interface PinInputProps {
   disabled?: boolean;
   autoFocus?: boolean;
   mask?: boolean;
+  attemptsLeft?: number; // Shown after a failed attempt
+  eraseWarning?: boolean; // attemptsLeft counts down to erasing the wallet, not to a lockout
+  lockoutSeconds?: number; // Disables the inputs while locked out
 }
 
+const formatLockout = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+  return `${Math.ceil(seconds / 3600)}h`;
+};
+
 export const PinInput: React.FC<PinInputProps> = ({
   length = 6,
   value,
@@ -20,7 +29,11 @@ export const PinInput: React.FC<PinInputProps> = ({
   disabled = false,
   autoFocus = true,
   mask = true,
+  attemptsLeft,
+  eraseWarning = false,
+  lockoutSeconds = 0,
 }) => {
+  const isLockedOut = lockoutSeconds > 0;
   const inputRefs = React.useRef<(HTMLInputElement | null)[]>([]);
 
   // Focus first input on mount
@@ -111,7 +124,7 @@ export const PinInput: React.FC<PinInputProps> = ({
             onChange={(e) => handleChange(index, e)}
             onKeyDown={(e) => handleKeyDown(index, e)}
             onPaste={handlePaste}
-            disabled={disabled}
+            disabled={disabled || isLockedOut}
             className={`
               w-12 h-14 text-center text-xl font-semibold
               rounded-xl border-2
@@ -125,9 +138,21 @@ export const PinInput: React.FC<PinInputProps> = ({
           />
         ))}
       </div>
-      {error && (
+      {error && !isLockedOut && (
         <p className="mt-2 text-sm text-red-500">{String(error)}</p>
       )}
+      {isLockedOut ? (
+        <p className="mt-2 text-sm text-red-500">
+          Too many failed attempts. Try again in {formatLockout(lockoutSeconds)}.
+        </p>
+      ) : (
+        attemptsLeft !== undefined && (
+          <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+            {attemptsLeft} attempt{attemptsLeft === 1 ? "" : "s"} left before{" "}
+            {eraseWarning ? "this wallet is erased" : "a lockout"}
+          </p>
+        )
+      )}
     </div>
   );
 };
@@ -0,0 +1,224 @@
+"use client";
+
+import * as React from "react";
+import { Button, Input } from "@/components/ui";
+import { useWalletStore } from "@/hooks";
+import { shortenAddress } from "@/lib/cardano";
+import {
+  getAddressBook,
+  removeContact,
+  saveContact,
+  type AddressBookEntry,
+} from "@/lib/storage/address-book";
+
+export interface AddressBookPickerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelect: (entry: AddressBookEntry) => void;
+}
+
+export interface SaveContactFormProps {
+  address: string;
+  handle?: string; // "$handle" the address was resolved from
+  initial?: Pick<AddressBookEntry, "label" | "note">;
+  onSaved?: (entry: AddressBookEntry) => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Label + note form that saves an address to the current network's address book
+ */
+export const SaveContactForm: React.FC<SaveContactFormProps> = ({ address, handle, initial, onSaved, onCancel }) => {
+  const { network } = useWalletStore();
+  const [label, setLabel] = React.useState(initial?.label || handle || "");
+  const [note, setNote] = React.useState(initial?.note || "");
+  const [error, setError] = React.useState<string | null>(null);
+
+  const handleSave = () => {
+    const entry = saveContact(network, { address, label, note, handle });
+    if (!entry) {
+      setError("Enter a name for this contact");
+      return;
+    }
+    onSaved?.(entry);
+  };
+
+  return (
+    <div className="space-y-3 text-left">
+      <Input
+        label="Name"
+        value={label}
+        onChange={(e) => {
+          setLabel(e.target.value);
+          setError(null);
+        }}
+        placeholder="e.g. Alice"
+        maxLength={50}
+        error={error || undefined}
+      />
+      <Input
+        label="Note"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Optional"
+        maxLength={200}
+      />
+      <p className="text-xs text-gray-500 font-mono break-all">{address}</p>
+      <div className="grid grid-cols-2 gap-3">
+        {onCancel && (
+          <Button variant="outline" fullWidth onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button variant="primary" fullWidth onClick={handleSave} className={onCancel ? "" : "col-span-2"}>
+          Save Contact
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Modal listing saved contacts for the current network
+ * Used by SendScreen and MultiSendScreen to fill in recipients.
+ */
+export const AddressBookPicker: React.FC<AddressBookPickerProps> = ({ isOpen, onClose, onSelect }) => {
+  const { network } = useWalletStore();
+  const [entries, setEntries] = React.useState<AddressBookEntry[]>([]);
+  const [search, setSearch] = React.useState("");
+  const [editing, setEditing] = React.useState<AddressBookEntry | null>(null);
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    setEntries(getAddressBook(network));
+    setSearch("");
+    setEditing(null);
+  }, [isOpen, network]);
+
+  const filtered = React.useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return entries;
+    return entries.filter((entry) =>
+      [entry.label, entry.handle, entry.note, entry.address].some((value) => value?.toLowerCase().includes(query))
+    );
+  }, [entries, search]);
+
+  const handleDelete = (entry: AddressBookEntry) => {
+    if (!confirm(`Remove ${entry.label} from your contacts?`)) return;
+    removeContact(network, entry.id);
+    setEntries(getAddressBook(network));
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-md max-h-[85vh] flex flex-col bg-white dark:bg-gray-800 rounded-2xl p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white">
+            {editing ? "Edit Contact" : "Contacts"}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg">
+            <CloseIcon className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {editing ? (
+          <SaveContactForm
+            address={editing.address}
+            handle={editing.handle}
+            initial={editing}
+            onSaved={() => {
+              setEntries(getAddressBook(network));
+              setEditing(null);
+            }}
+            onCancel={() => setEditing(null)}
+          />
+        ) : entries.length === 0 ? (
+          <p className="text-center text-sm text-gray-500 py-8">
+            No contacts yet. You can save a recipient after sending to them.
+          </p>
+        ) : (
+          <>
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search name, $handle or address"
+            />
+            <div className="flex-1 overflow-y-auto mt-3 space-y-2">
+              {filtered.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex items-start gap-3 rounded-xl p-3 bg-gray-50 dark:bg-gray-900 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer"
+                  onClick={() => {
+                    onSelect(entry);
+                    onClose();
+                  }}
+                >
+                  <div className="w-9 h-9 rounded-full bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center flex-shrink-0">
+                    <span className="text-sm font-bold text-blue-600">{entry.label.charAt(0).toUpperCase()}</span>
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium text-gray-900 dark:text-white truncate">
+                      {entry.label}
+                      {entry.handle && <span className="ml-2 text-xs text-green-600">{entry.handle}</span>}
+                    </p>
+                    <p className="text-xs text-gray-500 font-mono">{shortenAddress(entry.address, 10)}</p>
+                    {entry.note && <p className="text-xs text-gray-500 truncate">{entry.note}</p>}
+                  </div>
+                  <div className="flex gap-1 flex-shrink-0">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setEditing(entry);
+                      }}
+                      className="p-1.5 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg"
+                      title="Edit contact"
+                    >
+                      <EditIcon className="w-4 h-4 text-gray-500" />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(entry);
+                      }}
+                      className="p-1.5 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg"
+                      title="Remove contact"
+                    >
+                      <TrashIcon className="w-4 h-4 text-red-500" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+              {filtered.length === 0 && (
+                <p className="text-center text-sm text-gray-500 py-6">No contacts match &quot;{search}&quot;</p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Icons
+const CloseIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+  </svg>
+);
+
+const EditIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+  </svg>
+);
+
+const TrashIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+  </svg>
+);
+
+SaveContactForm.displayName = "SaveContactForm";
+AddressBookPicker.displayName = "AddressBookPicker";
@@ -78,7 +78,9 @@ function decodeAssetName(asset: WalletAsset): string {
 
 export interface BalanceCardProps {
   balance: WalletBalance | null;
+  balanceError?: string | null; // Shown instead of the amount when the lookup failed
   address: string | null;
+  addressCount?: number; // Addresses the balance is summed over
   network: CardanoNetwork;
   isLoading?: boolean;
   onRefresh?: () => void;
@@ -88,7 +90,9 @@ export interface BalanceCardProps {
 
 export const BalanceCard: React.FC<BalanceCardProps> = ({
   balance,
+  balanceError,
   address,
+  addressCount = 1,
   network,
   isLoading = false,
   onRefresh,
@@ -320,6 +324,8 @@ export const BalanceCard: React.FC<BalanceCardProps> = ({
             <div className="animate-pulse">
               <div className="h-10 bg-gray-200 dark:bg-gray-700 rounded-lg w-32 mx-auto" />
             </div>
+          ) : balanceError ? (
+            <p className="py-2 text-sm text-red-600 dark:text-red-400">{balanceError}. Try refreshing.</p>
           ) : (
             <>
               <div className="flex items-center justify-center gap-2">
@@ -361,6 +367,7 @@ export const BalanceCard: React.FC<BalanceCardProps> = ({
                 <div className="flex items-center gap-1 mb-0.5">
                   <p className="text-xs text-gray-500 dark:text-gray-400">
                     Wallet Address
+                    {addressCount > 1 && ` · balance across ${addressCount} addresses`}
                   </p>
                   {copied && (
                     <span className="text-xs text-green-500">✓ Copied!</span>
@@ -0,0 +1,67 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui";
+import { useBiometricUnlock } from "@/hooks/useBiometricUnlock";
+import type { BiometricUnlock } from "@/lib/storage/encryption";
+
+export interface BiometricUnlockButtonProps {
+  walletId?: string | null;
+  onUnlock: (unlock: BiometricUnlock) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Unlock with Face ID or fingerprint instead of typing the PIN
+ * Shown next to a PinInput, and only when the wallet opted in on this device.
+ */
+export const BiometricUnlockButton: React.FC<BiometricUnlockButtonProps> = ({
+  walletId,
+  onUnlock,
+  disabled,
+  className,
+}) => {
+  const { canUnlock, label, unlock } = useBiometricUnlock(walletId);
+  const [failed, setFailed] = React.useState(false);
+
+  if (!canUnlock) return null;
+
+  const handleClick = async () => {
+    setFailed(false);
+    const result = await unlock();
+    if (result) {
+      onUnlock(result);
+    } else {
+      setFailed(true);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <Button variant="outline" fullWidth onClick={handleClick} disabled={disabled}>
+        <FingerprintIcon className="w-5 h-5 mr-2" />
+        Use {label}
+      </Button>
+      {failed && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 text-center mt-2">
+          {label} did not work. Enter your PIN instead.
+        </p>
+      )}
+    </div>
+  );
+};
+
+// Icons
+const FingerprintIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={2}
+      d="M12 11c0 3.517-1.009 6.799-2.753 9.571m-3.44-2.04l.054-.09A13.916 13.916 0 008 11a4 4 0 118 0c0 1.017-.07 2.019-.203 3m-2.118 6.844A21.88 21.88 0 0015.171 17m3.839 1.132c.645-2.266.99-4.659.99-7.132A8 8 0 008 4.07M3 15.364c.64-1.319 1-2.8 1-4.364 0-1.457.39-2.823 1.07-4"
+    />
+  </svg>
+);
+
+BiometricUnlockButton.displayName = "BiometricUnlockButton";
@@ -0,0 +1,152 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui";
+import { useWalletStore } from "@/hooks";
+import { lovelaceToAda, type CoinControl } from "@/lib/cardano";
+import { getFrozenUtxos } from "@/lib/storage";
+import { UtxoRow, useAssetNames, useWalletUtxos } from "./UtxoManager";
+
+export interface CoinControlPickerProps {
+  selected: string[]; // Chosen UTxO references; empty means automatic selection
+  onChange: (selected: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Coin control for a transaction: chosen inputs plus the wallet's frozen UTxOs
+ */
+export const buildCoinControl = (walletId: string | null, selected: string[]): CoinControl => ({
+  inputs: selected,
+  frozen: walletId ? getFrozenUtxos(walletId) : [],
+});
+
+/**
+ * Compact "inputs" row with a modal to pick which UTxOs a transaction may spend
+ * Used by SendScreen, MultiSendScreen and StakingScreen.
+ */
+export const CoinControlPicker: React.FC<CoinControlPickerProps> = ({ selected, onChange, disabled = false }) => {
+  const { network } = useWalletStore();
+  const { utxos, frozen, isLoading } = useWalletUtxos();
+  const assetNames = useAssetNames();
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [draft, setDraft] = React.useState<string[]>(selected);
+
+  // Drop selections that were spent in the meantime
+  React.useEffect(() => {
+    if (isLoading || selected.length === 0) return;
+    const available = new Set(utxos.map((utxo) => utxo.ref));
+    const stillAvailable = selected.filter((ref) => available.has(ref));
+    if (stillAvailable.length !== selected.length) {
+      onChange(stillAvailable);
+    }
+  }, [utxos, isLoading, selected, onChange]);
+
+  const selectedLovelace = utxos
+    .filter((utxo) => selected.includes(utxo.ref))
+    .reduce((sum, utxo) => sum + BigInt(utxo.lovelace), BigInt(0));
+  const frozenCount = utxos.filter((utxo) => frozen.includes(utxo.ref)).length;
+
+  const openPicker = () => {
+    setDraft(selected);
+    setIsOpen(true);
+  };
+
+  const toggleDraft = (ref: string) => {
+    setDraft((prev) => (prev.includes(ref) ? prev.filter((r) => r !== ref) : [...prev, ref]));
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-3 text-sm">
+        <div className="min-w-0">
+          <p className="text-gray-500">Inputs</p>
+          <p className="text-gray-900 dark:text-white">
+            {selected.length > 0
+              ? `${selected.length} UTxO${selected.length > 1 ? "s" : ""} selected (${lovelaceToAda(selectedLovelace.toString())} ADA)`
+              : `Automatic${frozenCount > 0 ? ` · ${frozenCount} frozen excluded` : ""}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-3 flex-shrink-0">
+          {selected.length > 0 && !disabled && (
+            <button onClick={() => onChange([])} className="text-xs text-gray-500 hover:text-gray-700">
+              Reset
+            </button>
+          )}
+          <button
+            onClick={openPicker}
+            disabled={disabled}
+            className="text-sm text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+          >
+            Coin Control
+          </button>
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-4">
+          <div className="w-full max-w-md max-h-[85vh] flex flex-col bg-white dark:bg-gray-800 rounded-2xl p-4">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-lg font-bold text-gray-900 dark:text-white">Choose Inputs</h2>
+              <button onClick={() => setIsOpen(false)} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg">
+                <CloseIcon className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mb-3">
+              Only the selected UTxOs will be spent. Leave everything unselected for automatic
+              selection, which skips frozen UTxOs.
+            </p>
+
+            <div className="flex-1 overflow-y-auto space-y-2">
+              {isLoading && utxos.length === 0 ? (
+                <p className="text-center text-sm text-gray-500 py-6">Loading UTxOs...</p>
+              ) : (
+                utxos.map((utxo) => (
+                  <UtxoRow
+                    key={utxo.ref}
+                    utxo={utxo}
+                    network={network}
+                    isFrozen={frozen.includes(utxo.ref)}
+                    assetNames={assetNames}
+                    action={
+                      <input
+                        type="checkbox"
+                        checked={draft.includes(utxo.ref)}
+                        onChange={() => toggleDraft(utxo.ref)}
+                        className="w-5 h-5 mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                    }
+                  />
+                ))
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 mt-4">
+              <Button variant="outline" fullWidth onClick={() => setDraft([])}>
+                Clear
+              </Button>
+              <Button
+                variant="primary"
+                fullWidth
+                onClick={() => {
+                  onChange(draft);
+                  setIsOpen(false);
+                }}
+              >
+                {draft.length > 0 ? `Use ${draft.length}` : "Automatic"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+const CloseIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+  </svg>
+);
+
+CoinControlPicker.displayName = "CoinControlPicker";
@@ -4,13 +4,14 @@ import * as React from "react";
 import { Card, Button } from "@/components/ui";
 import { useWalletStore } from "@/hooks";
 import { getCollateralStatus, setupCollateral, type CollateralStatus } from "@/lib/cardano";
+import { buildCoinControl } from "./CoinControlPicker";
 
 export interface CollateralManagerProps {
   onBack?: () => void;
 }
 
 export const CollateralManager: React.FC<CollateralManagerProps> = ({ onBack }) => {
-  const { balance } = useWalletStore();
+  const { balance, activeWalletId } = useWalletStore();
   const [collateralStatus, setCollateralStatus] = React.useState<CollateralStatus | null>(null);
   const [isLoading, setIsLoading] = React.useState(true);
   const [isSettingUp, setIsSettingUp] = React.useState(false);
@@ -49,7 +50,7 @@ export const CollateralManager: React.FC<CollateralManagerProps> = ({ onBack })
         throw new Error("Wallet not initialized");
       }
 
-      const result = await setupCollateral(walletInstance);
+      const result = await setupCollateral(walletInstance, buildCoinControl(activeWalletId, []));
 
       if (result.success) {
         if (result.txHash === "already_setup") {
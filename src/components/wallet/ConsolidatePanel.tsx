@@ -0,0 +1,246 @@
+"use client";
+
+import * as React from "react";
+import { Card, Button, PinInput } from "@/components/ui";
+import { useWalletStore, usePinAttempts } from "@/hooks";
+import {
+  consolidateUtxos,
+  lovelaceToAda,
+  previewConsolidation,
+  type ConsolidationOptions,
+  type ConsolidationPlan,
+} from "@/lib/cardano";
+import { verifyWalletPin, type WalletUnlock } from "@/lib/storage/encryption";
+import { BiometricUnlockButton } from "./BiometricUnlockButton";
+
+export interface ConsolidatePanelProps {
+  frozen: string[]; // Frozen UTxO references, never merged
+  onComplete?: (txHashes: string[]) => void;
+}
+
+// UTxOs at or below this amount count as dust
+const DUST_THRESHOLD_LOVELACE = "2000000"; // 2 ADA
+
+type ConsolidateStep = "idle" | "preview" | "pin" | "submitting" | "done";
+
+/**
+ * Merge small UTxOs back into the wallet, keeping the collateral UTxO intact
+ * Shown in the UTxO manager.
+ */
+export const ConsolidatePanel: React.FC<ConsolidatePanelProps> = ({ frozen, onComplete }) => {
+  const { activeWalletId, network, refreshBalance } = useWalletStore();
+  const pinAttempts = usePinAttempts(activeWalletId);
+  const [dustOnly, setDustOnly] = React.useState(false);
+  const [step, setStep] = React.useState<ConsolidateStep>("idle");
+  const [plan, setPlan] = React.useState<ConsolidationPlan | null>(null);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [txHashes, setTxHashes] = React.useState<string[]>([]);
+  const [pin, setPin] = React.useState("");
+  const [pinError, setPinError] = React.useState<string | null>(null);
+
+  const buildOptions = (): ConsolidationOptions => ({
+    coinControl: { frozen },
+    dustThreshold: dustOnly ? DUST_THRESHOLD_LOVELACE : undefined,
+  });
+
+  const reset = () => {
+    setStep("idle");
+    setPlan(null);
+    setError(null);
+  };
+
+  const handlePreview = async () => {
+    setIsLoading(true);
+    setError(null);
+    setPlan(null);
+    try {
+      const walletInstance = useWalletStore.getState()._walletInstance;
+      if (!walletInstance) {
+        throw new Error("Wallet not initialized");
+      }
+
+      const result = await previewConsolidation(walletInstance, network, buildOptions());
+      if (!result.success || !result.plan) {
+        throw new Error(result.error || "Could not plan consolidation");
+      }
+
+      setPlan(result.plan);
+      setStep("preview");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not plan consolidation");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConsolidate = async () => {
+    setStep("submitting");
+    setError(null);
+    let submitted: string[] = [];
+    try {
+      const walletInstance = useWalletStore.getState()._walletInstance;
+      if (!walletInstance) {
+        throw new Error("Wallet not initialized");
+      }
+
+      const result = await consolidateUtxos(walletInstance, network, buildOptions());
+      submitted = result.txHashes;
+      setTxHashes(submitted);
+      if (submitted.length > 0) {
+        refreshBalance();
+        onComplete?.(result.txHashes);
+      }
+      if (!result.success) {
+        throw new Error(result.error || "Consolidation failed");
+      }
+
+      setStep("done");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Consolidation failed");
+      // Partially submitted consolidations cannot be retried from the old preview
+      setStep(submitted.length > 0 ? "done" : "preview");
+    }
+  };
+
+  // Verify PIN and consolidate
+  const handlePinComplete = async (unlock: WalletUnlock) => {
+    setPinError(null);
+    try {
+      const isValid = await verifyWalletPin(unlock, activeWalletId || undefined);
+      if (!isValid) {
+        setPinError("Invalid PIN. Please try again.");
+        pinAttempts.refresh();
+        setPin("");
+        return;
+      }
+      await handleConsolidate();
+    } catch (err) {
+      console.error("PIN verification error:", err);
+      setPinError("Verification failed. Please try again.");
+      setPin("");
+    }
+  };
+
+  return (
+    <Card padding="md">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="font-semibold text-gray-900 dark:text-white">Consolidate</h2>
+        {step !== "idle" && step !== "submitting" && (
+          <button onClick={reset} className="text-xs text-gray-500 hover:text-gray-700">
+            {step === "done" ? "Close" : "Cancel"}
+          </button>
+        )}
+      </div>
+
+      {step === "idle" && (
+        <>
+          <p className="text-xs text-gray-500 mb-3">
+            Merge many small UTxOs into as few as possible. Your 5 ADA collateral UTxO and frozen
+            UTxOs are left untouched.
+          </p>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 mb-3">
+            <input
+              type="checkbox"
+              checked={dustOnly}
+              onChange={(e) => setDustOnly(e.target.checked)}
+              className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Dust only (UTxOs up to {lovelaceToAda(DUST_THRESHOLD_LOVELACE)} ADA)
+          </label>
+          {error && <p className="text-sm text-red-500 mb-3">{error}</p>}
+          <Button variant="outline" fullWidth onClick={handlePreview} isLoading={isLoading}>
+            Preview Consolidation
+          </Button>
+        </>
+      )}
+
+      {(step === "preview" || step === "pin" || step === "submitting") && plan && (
+        <>
+          <div className="bg-gray-50 dark:bg-gray-900 rounded-xl p-3 space-y-2 text-sm mb-3">
+            <SummaryRow label="UTxOs merged" value={`${plan.inputCount} → ${plan.outputCount}`} />
+            <SummaryRow label="Transactions" value={String(plan.batches.length)} />
+            <SummaryRow label="Total fee" value={`${lovelaceToAda(plan.totalFee)} ADA`} />
+            <SummaryRow label="Left untouched" value={String(plan.skippedCount)} />
+          </div>
+
+          {plan.batches.length > 1 && (
+            <ul className="space-y-1 text-xs text-gray-500 mb-3">
+              {plan.batches.map((batch, index) => (
+                <li key={index} className="flex justify-between gap-2">
+                  <span>
+                    Tx {index + 1}: {batch.inputs.length} UTxOs
+                    {batch.assetCount > 0 ? `, ${batch.assetCount} tokens` : ""}
+                  </span>
+                  <span>{lovelaceToAda(batch.fee)} ADA fee</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <p className="text-xs text-gray-500 mb-3">
+            {plan.collateralRef
+              ? "Your collateral UTxO is kept for smart contract interactions."
+              : "No collateral UTxO found. Set one up after consolidating if you use dApps."}
+          </p>
+
+          {error && <p className="text-sm text-red-500 mb-3">{error}</p>}
+
+          {step === "pin" ? (
+            <div className="text-center">
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">Enter your PIN to confirm</p>
+              <PinInput
+                value={pin}
+                onChange={setPin}
+                onComplete={handlePinComplete}
+                error={pinError || undefined}
+                autoFocus
+                {...pinAttempts.inputProps}
+              />
+              <BiometricUnlockButton walletId={activeWalletId} onUnlock={handlePinComplete} className="mt-4" />
+            </div>
+          ) : (
+            <Button
+              variant="primary"
+              fullWidth
+              isLoading={step === "submitting"}
+              onClick={() => {
+                setPin("");
+                setPinError(null);
+                setStep("pin");
+              }}
+            >
+              {plan.batches.length > 1 ? `Sign ${plan.batches.length} Transactions` : "Consolidate"}
+            </Button>
+          )}
+        </>
+      )}
+
+      {step === "done" && (
+        <div className="space-y-2">
+          {error ? (
+            <p className="text-sm text-red-500">{error}</p>
+          ) : (
+            <p className="text-sm text-green-600">
+              Consolidation submitted. Your UTxOs will update once the transactions confirm.
+            </p>
+          )}
+          {txHashes.map((hash) => (
+            <p key={hash} className="font-mono text-xs text-gray-500 break-all">
+              {hash}
+            </p>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+const SummaryRow: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="flex justify-between gap-4">
+    <span className="text-gray-500">{label}</span>
+    <span className="text-gray-900 dark:text-white text-right">{value}</span>
+  </div>
+);
+
+ConsolidatePanel.displayName = "ConsolidatePanel";
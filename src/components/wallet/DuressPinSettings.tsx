@@ -0,0 +1,167 @@
+"use client";
+
+import * as React from "react";
+import { Button, PinInput } from "@/components/ui";
+import { useWalletData } from "@/hooks/useWalletStore";
+import { getMnemonicId } from "@/lib/storage";
+import { removeDuressPin, setDuressPin } from "@/lib/storage/encryption";
+
+type DuressMode = "set" | "remove";
+
+/**
+ * Set or remove the duress PIN of the active wallet
+ * Whether a duress PIN is set is not stored in the clear, so both actions are
+ * always offered.
+ */
+export const DuressPinSettings: React.FC = () => {
+  const { wallets, activeWalletId } = useWalletData();
+
+  const [mode, setMode] = React.useState<DuressMode | null>(null);
+  const [decoyId, setDecoyId] = React.useState("");
+  const [pin, setPin] = React.useState("");
+  const [decoyPin, setDecoyPin] = React.useState("");
+  const [duressPin, setDuressPinValue] = React.useState("");
+  const [confirmDuressPin, setConfirmDuressPin] = React.useState("");
+  const [error, setError] = React.useState<string | null>(null);
+  const [result, setResult] = React.useState<string | null>(null);
+  const [isWorking, setIsWorking] = React.useState(false);
+
+  const activeWallet = wallets.find((w) => w.id === activeWalletId);
+  const decoys = activeWallet
+    ? wallets.filter((w) => !w.watchOnly && getMnemonicId(w) !== getMnemonicId(activeWallet))
+    : [];
+  const decoy = decoys.find((w) => w.id === decoyId) || decoys[0];
+
+  const reset = (next: DuressMode | null) => {
+    setMode(next);
+    setPin("");
+    setDecoyPin("");
+    setDuressPinValue("");
+    setConfirmDuressPin("");
+    setError(null);
+    setResult(null);
+  };
+
+  const handleSet = async () => {
+    if (!decoy) return;
+    if (duressPin !== confirmDuressPin) {
+      setError("Duress PINs do not match");
+      return;
+    }
+    setError(null);
+    setIsWorking(true);
+    const saved = await setDuressPin(pin, duressPin, decoy.id, decoyPin, activeWalletId || undefined);
+    setIsWorking(false);
+    if (!saved.success) {
+      setError(saved.error || "Could not save the duress PIN");
+      setPin("");
+      setDecoyPin("");
+      return;
+    }
+    reset(null);
+    setResult(`The duress PIN now opens "${decoy.name}".`);
+  };
+
+  const handleRemove = async () => {
+    setError(null);
+    setIsWorking(true);
+    const removed = await removeDuressPin(pin, activeWalletId || undefined);
+    setIsWorking(false);
+    if (!removed) {
+      setError("Invalid PIN");
+      setPin("");
+      return;
+    }
+    reset(null);
+    setResult("The duress PIN was removed.");
+  };
+
+  return (
+    <div>
+      <p className="text-sm font-medium text-gray-900 dark:text-white">Duress PIN</p>
+      <p className="text-xs text-gray-500 mb-2">
+        A second PIN that opens a decoy wallet instead of this one, with the same screens and timing.
+      </p>
+
+      {mode === null ? (
+        <>
+          {result && <p className="text-sm text-green-600 mb-2">{result}</p>}
+          {decoys.length === 0 ? (
+            <p className="text-xs text-gray-500">
+              Add another wallet with a small balance first, to open as the decoy.
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant="secondary" size="sm" onClick={() => reset("set")}>
+                Set Duress PIN
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => reset("remove")}>
+                Remove
+              </Button>
+            </div>
+          )}
+        </>
+      ) : (
+        <div className="space-y-3">
+          {mode === "set" && (
+            <>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Decoy wallet
+                <select
+                  value={decoy?.id}
+                  onChange={(e) => setDecoyId(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+                >
+                  {decoys.map((w) => (
+                    <option key={w.id} value={w.id}>
+                      {w.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <div>
+                <p className="text-xs text-gray-500 text-center mb-1">PIN of the decoy wallet</p>
+                <PinInput value={decoyPin} onChange={setDecoyPin} autoFocus={false} />
+              </div>
+              <div>
+                <p className="text-xs text-gray-500 text-center mb-1">New duress PIN</p>
+                <PinInput value={duressPin} onChange={setDuressPinValue} autoFocus={false} />
+              </div>
+              <div>
+                <p className="text-xs text-gray-500 text-center mb-1">Confirm duress PIN</p>
+                <PinInput value={confirmDuressPin} onChange={setConfirmDuressPin} autoFocus={false} />
+              </div>
+            </>
+          )}
+          <div>
+            <p className="text-xs text-gray-500 text-center mb-1">Your PIN for &quot;{activeWallet?.name}&quot;</p>
+            <PinInput value={pin} onChange={setPin} autoFocus={false} />
+          </div>
+
+          {error && <p className="text-sm text-red-500 text-center">{error}</p>}
+          <div className="flex gap-3">
+            <Button variant="secondary" fullWidth onClick={() => reset(null)}>
+              Cancel
+            </Button>
+            {mode === "set" ? (
+              <Button
+                fullWidth
+                onClick={handleSet}
+                disabled={pin.length < 6 || decoyPin.length < 6 || duressPin.length < 6 || confirmDuressPin.length < 6}
+                isLoading={isWorking}
+              >
+                Save
+              </Button>
+            ) : (
+              <Button variant="danger" fullWidth onClick={handleRemove} disabled={pin.length < 6} isLoading={isWorking}>
+                Remove
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+DuressPinSettings.displayName = "DuressPinSettings";
@@ -0,0 +1,241 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui";
+import { useWalletStore } from "@/hooks";
+import { useCurrency } from "@/hooks/useCurrency";
+import {
+  buildRewardsExport,
+  buildTransactionExport,
+  getCurrentEpoch,
+  getFullTransactionHistory,
+  getRewardHistory,
+  getRewardPaidTime,
+  getStakeAddressFromAddress,
+  type ExportFormat,
+} from "@/lib/cardano";
+import { fetchAdaPriceHistory, findAdaPriceAt, getCurrencyInfo } from "@/lib/currency";
+
+export interface ExportHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  walletAddress?: string;
+}
+
+type ExportContent = "transactions" | "rewards";
+
+const FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: "csv", label: "CSV", description: "All columns, for spreadsheets" },
+  { value: "koinly", label: "Koinly", description: "Koinly universal import" },
+  { value: "cointracking", label: "CoinTracking", description: "CoinTracking CSV import" },
+];
+
+// Decode hex asset name to readable string
+const decodeAssetName = (unit: string): string => {
+  const name = unit.slice(56);
+  try {
+    const decoded = Buffer.from(name, "hex").toString("utf8");
+    if (name && /^[\x20-\x7E]+$/.test(decoded)) {
+      return decoded;
+    }
+  } catch {
+    // If decode fails, return original
+  }
+  return unit;
+};
+
+/**
+ * Save text as a file through a temporary download link
+ */
+const downloadCsv = (filename: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Export the full transaction history or staking rewards as CSV
+ * Fiat values use the currency chosen in settings, at the time of each transaction.
+ */
+export const ExportHistoryModal: React.FC<ExportHistoryModalProps> = ({ isOpen, onClose, walletAddress }) => {
+  const { network } = useWalletStore();
+  const { currency } = useCurrency();
+  const [content, setContent] = React.useState<ExportContent>("transactions");
+  const [format, setFormat] = React.useState<ExportFormat>("csv");
+  const [isExporting, setIsExporting] = React.useState(false);
+  const [progress, setProgress] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [result, setResult] = React.useState<{ filename: string; csv: string; rows: number } | null>(null);
+  const [copied, setCopied] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    setResult(null);
+    setError(null);
+    setProgress(null);
+    setCopied(false);
+  }, [isOpen]);
+
+  const buildTransactions = async (address: string) => {
+    setProgress("Loading transactions...");
+    const transactions = await getFullTransactionHistory(address, network, (loaded) =>
+      setProgress(`Loaded ${loaded} transactions...`)
+    );
+    const times = transactions.map((tx) => tx.blockTime).filter((t): t is number => t !== undefined);
+
+    setProgress("Loading prices...");
+    const prices = times.length > 0 ? await fetchAdaPriceHistory(currency, Math.min(...times), Math.max(...times)) : [];
+
+    const csv = buildTransactionExport(transactions, format, {
+      currency,
+      priceAt: (timestamp) => findAdaPriceAt(prices, timestamp),
+      assetName: decodeAssetName,
+    });
+    return { csv, rows: transactions.length };
+  };
+
+  const buildRewards = async (address: string) => {
+    setProgress("Loading rewards...");
+    const stakeAddress = await getStakeAddressFromAddress(address);
+    if (!stakeAddress) {
+      throw new Error("This wallet has no stake key on chain yet");
+    }
+
+    const [rewards, epoch] = await Promise.all([
+      getRewardHistory(stakeAddress, Number.POSITIVE_INFINITY),
+      getCurrentEpoch(),
+    ]);
+    if (!epoch) {
+      throw new Error("Could not load epoch information");
+    }
+    const entries = rewards.map((reward) => ({ ...reward, paidAt: getRewardPaidTime(reward.epoch, epoch) }));
+    const times = entries.map((reward) => reward.paidAt);
+
+    setProgress("Loading prices...");
+    const prices = times.length > 0 ? await fetchAdaPriceHistory(currency, Math.min(...times), Math.max(...times)) : [];
+
+    const csv = buildRewardsExport(entries, format, {
+      currency,
+      priceAt: (timestamp) => findAdaPriceAt(prices, timestamp),
+    });
+    return { csv, rows: entries.length };
+  };
+
+  const handleExport = async () => {
+    if (!walletAddress) return;
+    setIsExporting(true);
+    setError(null);
+    setResult(null);
+    setCopied(false);
+
+    try {
+      const { csv, rows } = content === "transactions" ? await buildTransactions(walletAddress) : await buildRewards(walletAddress);
+      const date = new Date().toISOString().slice(0, 10);
+      const filename = `cardano-${content}-${format}-${network}-${date}.csv`;
+      setResult({ filename, csv, rows });
+      downloadCsv(filename, csv);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setIsExporting(false);
+      setProgress(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!result) return;
+    try {
+      await navigator.clipboard.writeText(result.csv);
+      setCopied(true);
+    } catch {
+      setError("Could not copy to clipboard");
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-md max-h-[85vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-2xl p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white">Export History</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg">
+            <CloseIcon className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {(["transactions", "rewards"] as const).map((value) => (
+            <button
+              key={value}
+              onClick={() => setContent(value)}
+              className={`py-2 rounded-lg text-sm font-medium transition-colors ${
+                content === value
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-100 dark:bg-gray-900 text-gray-700 dark:text-gray-300"
+              }`}
+            >
+              {value === "transactions" ? "Transactions" : "Staking Rewards"}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          {FORMATS.map((option) => (
+            <label
+              key={option.value}
+              className="flex items-center gap-3 p-3 rounded-xl bg-gray-50 dark:bg-gray-900 cursor-pointer"
+            >
+              <input
+                type="radio"
+                name="export-format"
+                checked={format === option.value}
+                onChange={() => setFormat(option.value)}
+                className="w-4 h-4 text-blue-600"
+              />
+              <div>
+                <p className="text-sm font-medium text-gray-900 dark:text-white">{option.label}</p>
+                <p className="text-xs text-gray-500">{option.description}</p>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Values in {getCurrencyInfo(currency).name} at the time of each{" "}
+          {content === "transactions" ? "transaction" : "reward payout"}. Prices older than a year are
+          left blank.
+        </p>
+
+        {progress && <p className="text-sm text-gray-500 text-center">{progress}</p>}
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        {result && (
+          <div className="text-sm text-green-600 space-y-2">
+            <p>
+              Exported {result.rows} {content === "transactions" ? "transactions" : "epochs"} to {result.filename}
+            </p>
+            <Button variant="outline" fullWidth onClick={handleCopy}>
+              {copied ? "Copied!" : "Copy CSV"}
+            </Button>
+          </div>
+        )}
+
+        <Button variant="primary" fullWidth onClick={handleExport} isLoading={isExporting} disabled={!walletAddress}>
+          Export
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Icons
+const CloseIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+  </svg>
+);
+
+ExportHistoryModal.displayName = "ExportHistoryModal";
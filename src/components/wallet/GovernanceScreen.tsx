@@ -2,13 +2,14 @@
 
 import * as React from "react";
 import { Card, Button, PinInput } from "@/components/ui";
-import { useWalletStore, useTelegram } from "@/hooks";
+import { useWalletStore, useTelegram, usePinAttempts } from "@/hooks";
 import {
   getDRepInfo,
   DEFAULT_DREP_ID,
   DRepInfo,
   shortenAddress,
   createWalletFromMnemonic,
+  getWalletDerivation,
   getStakingInfo,
   getStakeAddressFromAddress,
   listDReps,
@@ -16,7 +17,9 @@ import {
   getDRepDelegators,
   searchDReps,
 } from "@/lib/cardano";
-import { verifyPin, getStoredWalletForVerification, decryptWallet } from "@/lib/storage/encryption";
+import { verifyWalletPin, decryptWallet, type WalletUnlock } from "@/lib/storage/encryption";
+import { BiometricUnlockButton } from "./BiometricUnlockButton";
+import { buildCoinControl } from "./CoinControlPicker";
 
 export interface GovernanceScreenProps {
   onBack: () => void;
@@ -63,7 +66,8 @@ const formatVotingPower = (amount: string): string => {
 };
 
 export const GovernanceScreen: React.FC<GovernanceScreenProps> = ({ onBack }) => {
-  const { activeWalletId, network, _walletInstance } = useWalletStore();
+  const { activeWalletId, network, walletAddress, isWatchOnly, _walletInstance } = useWalletStore();
+  const pinAttempts = usePinAttempts(activeWalletId);
   const { initData } = useTelegram();
 
   const [step, setStep] = React.useState<Step>("overview");
@@ -149,15 +153,16 @@ export const GovernanceScreen: React.FC<GovernanceScreenProps> = ({ onBack }) =>
   }, [sortBy]);
 
   const loadCurrentDelegation = async () => {
-    if (!_walletInstance) {
+    if (!_walletInstance && !(isWatchOnly && walletAddress)) {
       setLoadingCurrent(false);
       return;
     }
     
     setLoadingCurrent(true);
     try {
-      const addresses = await _walletInstance.getUsedAddresses();
-      const address = addresses[0] || await _walletInstance.getChangeAddress();
+      // Watch-only wallets have no instance, read the watched address instead
+      const addresses = _walletInstance ? await _walletInstance.getUsedAddresses() : [];
+      const address = addresses[0] || (_walletInstance ? await _walletInstance.getChangeAddress() : walletAddress);
       
       if (!address) {
         setLoadingCurrent(false);
@@ -278,25 +283,34 @@ export const GovernanceScreen: React.FC<GovernanceScreenProps> = ({ onBack }) =>
     setStep("pin");
   };
 
-  const handlePinComplete = async (enteredPin: string) => {
-    const stored = getStoredWalletForVerification(activeWalletId || undefined);
-    if (!stored || !verifyPin(enteredPin, stored.pinHash)) {
+  const handlePinComplete = async (unlock: WalletUnlock) => {
+    if (!(await verifyWalletPin(unlock, activeWalletId || undefined))) {
       setError("Invalid PIN");
+      pinAttempts.refresh();
       return;
     }
-    await executeDelegation(enteredPin);
+    await executeDelegation(unlock);
   };
 
-  const executeDelegation = async (pin: string) => {
+  const executeDelegation = async (unlock: WalletUnlock) => {
     if (!selectedDRep) return;
     setStep("processing");
     try {
-      const mnemonic = decryptWallet(pin, activeWalletId || undefined);
+      const mnemonic = await decryptWallet(unlock, activeWalletId || undefined);
       if (!mnemonic) throw new Error("Wallet auth failed");
 
       const { delegateToDRepMesh } = await import("@/lib/cardano/mesh-governance");
-      const walletInstance = await createWalletFromMnemonic(mnemonic, network);
-      const result = await delegateToDRepMesh(walletInstance.wallet, selectedDRep.drepId, network);
+      const walletInstance = await createWalletFromMnemonic(
+        mnemonic,
+        network,
+        _walletInstance ? getWalletDerivation(_walletInstance) : {}
+      );
+      const result = await delegateToDRepMesh(
+        walletInstance.wallet,
+        selectedDRep.drepId,
+        network,
+        buildCoinControl(activeWalletId, [])
+      );
       
       if (result.success && result.txHash) {
         setTxHash(result.txHash);
@@ -501,7 +515,11 @@ export const GovernanceScreen: React.FC<GovernanceScreenProps> = ({ onBack }) =>
           </Card>
 
           {/* Staking Required Warning */}
-          {!loadingCurrent && !stakingStatus.isStaked ? (
+          {isWatchOnly ? (
+            <p className="text-sm text-center text-gray-500 dark:text-gray-400">
+              Watch-only wallet: DRep delegation needs the wallet&apos;s keys.
+            </p>
+          ) : !loadingCurrent && !stakingStatus.isStaked ? (
             <Card padding="lg" className="bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-800">
               <div className="flex items-center gap-2 mb-2">
                 <span className="text-red-600 dark:text-red-400 text-lg">⚠️</span>
@@ -727,8 +745,9 @@ export const GovernanceScreen: React.FC<GovernanceScreenProps> = ({ onBack }) =>
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4 flex flex-col items-center justify-center">
         <h1 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">Enter PIN</h1>
-        <PinInput value={pin} onChange={setPin} onComplete={handlePinComplete} autoFocus />
+        <PinInput value={pin} onChange={setPin} onComplete={handlePinComplete} autoFocus {...pinAttempts.inputProps} />
         {error && <p className="text-red-500 mt-2">{error}</p>}
+        <BiometricUnlockButton walletId={activeWalletId} onUnlock={handlePinComplete} className="mt-6 w-full max-w-xs" />
       </div>
     );
   }
@@ -0,0 +1,248 @@
+"use client";
+
+import * as React from "react";
+import { Card, Button } from "@/components/ui";
+import { useWalletStore } from "@/hooks";
+import {
+  buildMigrationTransaction,
+  lovelaceToAda,
+  scanLegacyWallet,
+  shortenAddress,
+  submitMigrationTransaction,
+  validateLegacyMnemonic,
+  LEGACY_WORD_COUNTS,
+  type LegacyWalletScan,
+  type LegacyWalletType,
+  type MigrationTransaction,
+} from "@/lib/cardano";
+
+export interface LegacyRestoreScreenProps {
+  onBack: () => void;
+}
+
+const WALLET_TYPES: { type: LegacyWalletType; label: string; description: string }[] = [
+  {
+    type: "yoroi",
+    label: "Yoroi Byron",
+    description: "15-word Yoroi wallet from before Shelley (Ae2... addresses).",
+  },
+  {
+    type: "daedalus",
+    label: "Daedalus Byron",
+    description:
+      "12-word Daedalus wallet or 27-word paper wallet (DdzFF... addresses). 24-word Daedalus wallets are regular wallets: use Import instead.",
+  },
+  {
+    type: "ledger",
+    label: "Ledger",
+    description: "Recovery phrase of a Ledger device. Finds Byron and Shelley funds of account 0.",
+  },
+];
+
+type RestoreStep = "input" | "review" | "submitting" | "done";
+
+/**
+ * Restore a Byron or Ledger wallet and move its funds to the current wallet
+ * The legacy phrase is only kept in this screen's state.
+ */
+export const LegacyRestoreScreen: React.FC<LegacyRestoreScreenProps> = ({ onBack }) => {
+  const { walletAddress, walletName, network, refreshBalance } = useWalletStore();
+  const [walletType, setWalletType] = React.useState<LegacyWalletType>("yoroi");
+  const [mnemonic, setMnemonic] = React.useState("");
+  const [addresses, setAddresses] = React.useState("");
+  const [step, setStep] = React.useState<RestoreStep>("input");
+  const [scan, setScan] = React.useState<LegacyWalletScan | null>(null);
+  const [migration, setMigration] = React.useState<MigrationTransaction | null>(null);
+  const [txHash, setTxHash] = React.useState<string | null>(null);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const selected = WALLET_TYPES.find((t) => t.type === walletType)!;
+  const addressList = addresses.split(/\s+/).filter(Boolean);
+  const canScan =
+    validateLegacyMnemonic(mnemonic, walletType) && (walletType !== "daedalus" || addressList.length > 0);
+
+  const reset = () => {
+    setStep("input");
+    setScan(null);
+    setMigration(null);
+    setError(null);
+  };
+
+  const handleScan = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      if (!walletAddress) {
+        throw new Error("Wallet not initialized");
+      }
+      const result = await scanLegacyWallet(mnemonic, walletType, network, addressList);
+      setScan(result);
+      setMigration(await buildMigrationTransaction(mnemonic, result, walletAddress));
+      setStep("review");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not restore this wallet");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMigrate = async () => {
+    if (!migration) return;
+    setStep("submitting");
+    setError(null);
+
+    const result = await submitMigrationTransaction(migration, network);
+    if (!result.success) {
+      setError(result.error || "Migration failed");
+      setStep("review");
+      return;
+    }
+
+    setTxHash(result.txHash || migration.txHash);
+    setMnemonic("");
+    setStep("done");
+    refreshBalance();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
+      <header className="flex items-center gap-3 mb-6">
+        <button onClick={onBack} className="p-2 hover:bg-gray-200 dark:hover:bg-gray-800 rounded-lg">
+          <BackIcon className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+        </button>
+        <h1 className="text-xl font-bold text-gray-900 dark:text-white">Restore Legacy Wallet</h1>
+      </header>
+
+      <div className="space-y-4">
+        {step === "input" && (
+          <Card padding="md">
+            <div className="grid grid-cols-3 gap-2 mb-3">
+              {WALLET_TYPES.map(({ type, label }) => (
+                <button
+                  key={type}
+                  onClick={() => {
+                    setWalletType(type);
+                    setError(null);
+                  }}
+                  className={`px-2 py-2 text-xs font-medium rounded-lg ${
+                    walletType === type
+                      ? "text-white bg-blue-600"
+                      : "text-blue-600 bg-blue-50 dark:bg-blue-900/30 hover:bg-blue-100"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mb-4">{selected.description}</p>
+
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Recovery phrase ({LEGACY_WORD_COUNTS[walletType].join(" or ")} words)
+            </label>
+            <textarea
+              value={mnemonic}
+              onChange={(e) => setMnemonic(e.target.value)}
+              rows={4}
+              autoComplete="off"
+              autoCapitalize="off"
+              spellCheck={false}
+              className="w-full px-3 py-2 text-sm rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+
+            {walletType === "daedalus" && (
+              <>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mt-3 mb-1">
+                  Wallet addresses
+                </label>
+                <textarea
+                  value={addresses}
+                  onChange={(e) => setAddresses(e.target.value)}
+                  rows={3}
+                  placeholder="DdzFF..."
+                  spellCheck={false}
+                  className="w-full px-3 py-2 font-mono text-xs rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Daedalus picked these addresses at random, so they cannot be found from the phrase
+                  alone. Paste every address that holds funds, one per line.
+                </p>
+              </>
+            )}
+
+            {error && <p className="text-sm text-red-500 mt-3">{error}</p>}
+            <Button variant="primary" fullWidth className="mt-4" onClick={handleScan} disabled={!canScan} isLoading={isLoading}>
+              Find Funds
+            </Button>
+          </Card>
+        )}
+
+        {(step === "review" || step === "submitting") && scan && migration && (
+          <Card padding="md">
+            <h2 className="font-semibold text-gray-900 dark:text-white mb-2">Funds found</h2>
+            <div className="bg-gray-50 dark:bg-gray-900 rounded-xl p-3 space-y-2 text-sm mb-3">
+              <SummaryRow label="Balance" value={`${lovelaceToAda(scan.lovelace)} ADA`} />
+              {scan.assetCount > 0 && <SummaryRow label="Tokens" value={String(scan.assetCount)} />}
+              <SummaryRow label="Fee" value={`${lovelaceToAda(migration.fee)} ADA`} />
+              <SummaryRow label="You receive" value={`${lovelaceToAda(migration.lovelace)} ADA`} />
+              <SummaryRow label="To" value={walletName || shortenAddress(walletAddress || "")} />
+            </div>
+
+            <ul className="space-y-1 mb-3">
+              {scan.addresses.map(({ address, era, utxos }) => (
+                <li key={address} className="flex justify-between gap-2 text-xs">
+                  <span className="font-mono text-gray-500 truncate">{shortenAddress(address, 10)}</span>
+                  <span className="text-gray-900 dark:text-white shrink-0">
+                    {era === "byron" ? "Byron" : "Shelley"} · {utxos.length} UTxO{utxos.length > 1 ? "s" : ""}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            <p className="text-xs text-gray-500 mb-3">
+              All ADA and tokens move to this wallet in one transaction. The old wallet is left empty.
+            </p>
+
+            {error && <p className="text-sm text-red-500 mb-3">{error}</p>}
+            <div className="flex gap-3">
+              <Button variant="secondary" fullWidth onClick={reset} disabled={step === "submitting"}>
+                Back
+              </Button>
+              <Button variant="primary" fullWidth onClick={handleMigrate} isLoading={step === "submitting"}>
+                Migrate Funds
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        {step === "done" && (
+          <Card padding="md">
+            <p className="text-sm text-green-600 mb-2">
+              Migration submitted. Your balance will update once the transaction confirms.
+            </p>
+            {txHash && <p className="font-mono text-xs text-gray-500 break-all mb-4">{txHash}</p>}
+            <Button variant="primary" fullWidth onClick={onBack}>
+              Done
+            </Button>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const SummaryRow: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="flex justify-between gap-4">
+    <span className="text-gray-500">{label}</span>
+    <span className="text-gray-900 dark:text-white text-right">{value}</span>
+  </div>
+);
+
+// Icons
+const BackIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+  </svg>
+);
+
+LegacyRestoreScreen.displayName = "LegacyRestoreScreen";
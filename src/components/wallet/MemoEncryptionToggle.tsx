@@ -0,0 +1,61 @@
+"use client";
+
+import * as React from "react";
+import { Input } from "@/components/ui";
+
+export interface MemoEncryptionToggleProps {
+  enabled: boolean;
+  passphrase: string;
+  onEnabledChange: (enabled: boolean) => void;
+  onPassphraseChange: (passphrase: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Checkbox + passphrase field for CIP-20 encrypted memos (enc: "basic")
+ * Shared by SendScreen and MultiSendScreen below the memo textarea.
+ */
+export const MemoEncryptionToggle: React.FC<MemoEncryptionToggleProps> = ({
+  enabled,
+  passphrase,
+  onEnabledChange,
+  onPassphraseChange,
+  disabled = false,
+}) => {
+  return (
+    <div className="mt-3 space-y-3">
+      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          disabled={disabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        <LockIcon className="w-4 h-4 text-gray-500" />
+        Encrypt note with a passphrase
+      </label>
+
+      {enabled && (
+        <Input
+          type="password"
+          value={passphrase}
+          onChange={(e) => onPassphraseChange(e.target.value)}
+          placeholder="Shared passphrase"
+          autoComplete="off"
+          disabled={disabled}
+          error={!passphrase ? "Enter the passphrase the recipient will use to read this note" : undefined}
+          helperText="Only people with this passphrase can read the note (CIP-20 encrypted message)"
+        />
+      )}
+    </div>
+  );
+};
+
+const LockIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+  </svg>
+);
+
+MemoEncryptionToggle.displayName = "MemoEncryptionToggle";
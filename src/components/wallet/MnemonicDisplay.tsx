@@ -2,6 +2,7 @@
 
 import * as React from "react";
 import { Card, Button, Input } from "@/components/ui";
+import { MnemonicSharesPanel } from "./MnemonicShares";
 
 export interface MnemonicDisplayProps {
   mnemonic: string;
@@ -11,6 +12,7 @@ export interface MnemonicDisplayProps {
   warning?: string;
   requireVerification?: boolean; // New: require word verification before continue
   verificationWordCount?: number; // New: how many words to verify (default 3)
+  allowShares?: boolean; // Offer splitting the phrase into Shamir shares
 }
 
 export const MnemonicDisplay: React.FC<MnemonicDisplayProps> = ({
@@ -21,6 +23,7 @@ export const MnemonicDisplay: React.FC<MnemonicDisplayProps> = ({
   warning = "Write down these words in order and keep them safe. Anyone with this phrase can access your funds. NEVER share this with anyone!",
   requireVerification = true,
   verificationWordCount = 3,
+  allowShares = true,
 }) => {
   const [copied, setCopied] = React.useState(false);
   const [confirmed, setConfirmed] = React.useState(false);
@@ -28,6 +31,7 @@ export const MnemonicDisplay: React.FC<MnemonicDisplayProps> = ({
   const [showVerification, setShowVerification] = React.useState(false);
   const [verificationInputs, setVerificationInputs] = React.useState<Record<number, string>>({});
   const [verificationError, setVerificationError] = React.useState<string | null>(null);
+  const [showShares, setShowShares] = React.useState(false);
 
   const words = mnemonic.split(" ");
 
@@ -89,6 +93,11 @@ export const MnemonicDisplay: React.FC<MnemonicDisplayProps> = ({
     (index) => verificationInputs[index]?.length > 0
   );
 
+  // Shamir Shares Screen
+  if (showShares) {
+    return <MnemonicSharesPanel mnemonic={mnemonic} onBack={() => setShowShares(false)} />;
+  }
+
   // Verification Screen
   if (showVerification) {
     return (
@@ -227,6 +236,12 @@ export const MnemonicDisplay: React.FC<MnemonicDisplayProps> = ({
           </Button>
         )}
 
+        {allowShares && revealed && (
+          <Button variant="outline" fullWidth onClick={() => setShowShares(true)}>
+            Split Into Shares
+          </Button>
+        )}
+
         {onConfirmed && revealed && (
           <div className="space-y-3">
             <label className="flex items-start gap-2 cursor-pointer">
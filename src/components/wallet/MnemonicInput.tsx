@@ -1,18 +1,20 @@
 "use client";
 
 import * as React from "react";
-import { Card, Button } from "@/components/ui";
+import { Card, Button, Input } from "@/components/ui";
+import { MnemonicShareInput } from "./MnemonicShares";
 
 export interface MnemonicInputProps {
   wordCount?: 12 | 15 | 18 | 21 | 24;
-  onSubmit: (mnemonic: string) => void;
+  onSubmit: (mnemonic: string, passphrase?: string) => void;
   isLoading?: boolean;
   error?: string;
 }
 
 /**
  * MnemonicInput Component
- * Input mnemonic word by word for better UX during wallet restore
+ * Input mnemonic word by word for better UX during wallet restore,
+ * or recombine it from Shamir shares
  */
 export const MnemonicInput: React.FC<MnemonicInputProps> = ({
   wordCount = 24,
@@ -22,6 +24,10 @@ export const MnemonicInput: React.FC<MnemonicInputProps> = ({
 }) => {
   const [words, setWords] = React.useState<string[]>(Array(wordCount).fill(""));
   const [selectedWordCount, setSelectedWordCount] = React.useState(wordCount);
+  const [showPassphrase, setShowPassphrase] = React.useState(false);
+  const [passphrase, setPassphrase] = React.useState("");
+  const [useShares, setUseShares] = React.useState(false);
+  const [sharesMnemonic, setSharesMnemonic] = React.useState<string | null>(null);
   const inputRefs = React.useRef<(HTMLInputElement | null)[]>([]);
 
   // Update words array when word count changes
@@ -98,8 +104,9 @@ export const MnemonicInput: React.FC<MnemonicInputProps> = ({
   };
 
   const handleSubmit = () => {
-    const mnemonic = words.join(" ").trim();
-    onSubmit(mnemonic);
+    const mnemonic = useShares ? sharesMnemonic || "" : words.join(" ").trim();
+    // Passphrases are used exactly as typed, spaces included
+    onSubmit(mnemonic, showPassphrase && passphrase ? passphrase : undefined);
   };
 
   const handleClear = () => {
@@ -108,87 +115,131 @@ export const MnemonicInput: React.FC<MnemonicInputProps> = ({
   };
 
   const filledCount = words.filter((w) => w.length > 0).length;
-  const isComplete = filledCount === selectedWordCount;
+  const isComplete = useShares ? sharesMnemonic !== null : filledCount === selectedWordCount;
 
   return (
     <Card padding="lg" className="space-y-4">
-      {/* Word Count Selector */}
-      <div>
-        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-          Recovery Phrase Length
-        </label>
-        <div className="flex flex-wrap gap-2">
-          {[12, 15, 18, 21, 24].map((count) => (
-            <button
-              key={count}
-              type="button"
-              onClick={() => setSelectedWordCount(count as 12 | 15 | 18 | 21 | 24)}
-              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
-                selectedWordCount === count
-                  ? "bg-blue-600 text-white"
-                  : "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
-              }`}
-            >
-              {count} words
-            </button>
-          ))}
-        </div>
-      </div>
-
-      {/* Progress */}
-      <div className="flex items-center justify-between text-sm">
-        <span className="text-gray-500 dark:text-gray-400">
-          {filledCount} of {selectedWordCount} words entered
-        </span>
-        {filledCount > 0 && (
+      {/* Phrase / Shares Mode */}
+      <div className="grid grid-cols-2 gap-2">
+        {[false, true].map((shares) => (
           <button
+            key={String(shares)}
             type="button"
-            onClick={handleClear}
-            className="text-red-500 hover:text-red-600 text-sm"
+            onClick={() => setUseShares(shares)}
+            className={`py-2 rounded-lg text-sm font-medium transition-colors ${
+              useShares === shares
+                ? "bg-blue-600 text-white"
+                : "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+            }`}
           >
-            Clear all
+            {shares ? "Shares" : "Recovery Phrase"}
           </button>
-        )}
+        ))}
       </div>
 
-      {/* Word Grid */}
-      <div 
-        className="grid grid-cols-3 gap-2"
-        onPaste={handlePaste}
-      >
-        {words.map((word, index) => (
-          <div key={index} className="relative">
-            <span className="absolute left-2 top-1/2 -translate-y-1/2 text-xs text-gray-400 w-5">
-              {index + 1}.
+      {useShares ? (
+        <MnemonicShareInput onChange={setSharesMnemonic} />
+      ) : (
+        <>
+          {/* Word Count Selector */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Recovery Phrase Length
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {[12, 15, 18, 21, 24].map((count) => (
+                <button
+                  key={count}
+                  type="button"
+                  onClick={() => setSelectedWordCount(count as 12 | 15 | 18 | 21 | 24)}
+                  className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                    selectedWordCount === count
+                      ? "bg-blue-600 text-white"
+                      : "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+                  }`}
+                >
+                  {count} words
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Progress */}
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-500 dark:text-gray-400">
+              {filledCount} of {selectedWordCount} words entered
             </span>
-            <input
-              ref={(el) => { inputRefs.current[index] = el; }}
-              type="text"
-              value={word}
-              onChange={(e) => handleWordChange(index, e.target.value)}
-              onKeyDown={(e) => handleKeyDown(index, e)}
-              placeholder="word"
-              autoComplete="off"
-              autoCorrect="off"
-              autoCapitalize="off"
-              spellCheck={false}
-              className={`
-                w-full pl-7 pr-2 py-2 text-sm rounded-lg border
-                bg-white dark:bg-gray-800
-                text-gray-900 dark:text-white
-                placeholder-gray-400
-                focus:ring-2 focus:ring-blue-500 focus:border-blue-500
-                ${word ? "border-green-300 dark:border-green-700" : "border-gray-200 dark:border-gray-700"}
-              `}
-            />
+            {filledCount > 0 && (
+              <button
+                type="button"
+                onClick={handleClear}
+                className="text-red-500 hover:text-red-600 text-sm"
+              >
+                Clear all
+              </button>
+            )}
+          </div>
+
+          {/* Word Grid */}
+          <div 
+            className="grid grid-cols-3 gap-2"
+            onPaste={handlePaste}
+          >
+            {words.map((word, index) => (
+              <div key={index} className="relative">
+                <span className="absolute left-2 top-1/2 -translate-y-1/2 text-xs text-gray-400 w-5">
+                  {index + 1}.
+                </span>
+                <input
+                  ref={(el) => { inputRefs.current[index] = el; }}
+                  type="text"
+                  value={word}
+                  onChange={(e) => handleWordChange(index, e.target.value)}
+                  onKeyDown={(e) => handleKeyDown(index, e)}
+                  placeholder="word"
+                  autoComplete="off"
+                  autoCorrect="off"
+                  autoCapitalize="off"
+                  spellCheck={false}
+                  className={`
+                    w-full pl-7 pr-2 py-2 text-sm rounded-lg border
+                    bg-white dark:bg-gray-800
+                    text-gray-900 dark:text-white
+                    placeholder-gray-400
+                    focus:ring-2 focus:ring-blue-500 focus:border-blue-500
+                    ${word ? "border-green-300 dark:border-green-700" : "border-gray-200 dark:border-gray-700"}
+                  `}
+                />
+              </div>
+            ))}
           </div>
-        ))}
-      </div>
 
-      {/* Paste Hint */}
-      <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
-        💡 Tip: You can paste your entire recovery phrase at once
-      </p>
+          {/* Paste Hint */}
+          <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
+            💡 Tip: You can paste your entire recovery phrase at once
+          </p>
+        </>
+      )}
+
+      {/* BIP-39 Passphrase */}
+      {showPassphrase ? (
+        <Input
+          type="password"
+          label="Passphrase (25th word)"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoComplete="off"
+          helperText="Only if the wallet was created with one. A different passphrase opens a different, empty wallet."
+        />
+      ) : (
+        <button
+          type="button"
+          onClick={() => setShowPassphrase(true)}
+          className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400"
+        >
+          My wallet uses a passphrase
+        </button>
+      )}
 
       {/* Error */}
       {error && (
@@ -205,7 +256,11 @@ export const MnemonicInput: React.FC<MnemonicInputProps> = ({
         disabled={!isComplete || isLoading}
         isLoading={isLoading}
       >
-        {isComplete ? "Verify & Import Wallet" : `Enter ${selectedWordCount - filledCount} more words`}
+        {isComplete
+          ? "Verify & Import Wallet"
+          : useShares
+            ? "Enter enough shares"
+            : `Enter ${selectedWordCount - filledCount} more words`}
       </Button>
     </Card>
   );
@@ -0,0 +1,172 @@
+"use client";
+
+import * as React from "react";
+import { Card, Button } from "@/components/ui";
+
+export interface MnemonicQuizProps {
+  mnemonic: string;
+  onPassed: () => void;
+  onSkip: () => void;
+  onBack?: () => void; // Show the phrase again
+  questionCount?: number;
+  choiceCount?: number;
+}
+
+interface QuizQuestion {
+  position: number; // 0-based word index
+  choices: string[];
+}
+
+/**
+ * Pick random items without repeats
+ */
+const pickRandom = <T,>(items: T[], count: number): T[] => {
+  const pool = [...items];
+  const picked: T[] = [];
+  while (picked.length < count && pool.length > 0) {
+    picked.push(pool.splice(Math.floor(Math.random() * pool.length), 1)[0]);
+  }
+  return picked;
+};
+
+/**
+ * Ask for random word positions, with decoys taken from the other words of
+ * the phrase so only the position proves the phrase was written down in order
+ */
+const createQuiz = (words: string[], questionCount: number, choiceCount: number): QuizQuestion[] => {
+  const positions = pickRandom(
+    words.map((_, i) => i),
+    questionCount
+  ).sort((a, b) => a - b);
+
+  return positions.map((position) => {
+    const decoys = pickRandom(
+      Array.from(new Set(words.filter((word) => word !== words[position]))),
+      choiceCount - 1
+    );
+    return { position, choices: pickRandom([words[position], ...decoys], decoys.length + 1) };
+  });
+};
+
+/**
+ * MnemonicQuiz Component
+ * Multiple-choice check that the recovery phrase was recorded, shown after
+ * MnemonicDisplay when a wallet is created
+ */
+export const MnemonicQuiz: React.FC<MnemonicQuizProps> = ({
+  mnemonic,
+  onPassed,
+  onSkip,
+  onBack,
+  questionCount = 3,
+  choiceCount = 4,
+}) => {
+  const words = React.useMemo(() => mnemonic.trim().split(/\s+/), [mnemonic]);
+  const [questions, setQuestions] = React.useState<QuizQuestion[]>([]);
+  const [answers, setAnswers] = React.useState<Record<number, string>>({});
+  const [error, setError] = React.useState<string | null>(null);
+  const [confirmSkip, setConfirmSkip] = React.useState(false);
+
+  React.useEffect(() => {
+    setQuestions(createQuiz(words, questionCount, choiceCount));
+    setAnswers({});
+  }, [words, questionCount, choiceCount]);
+
+  const allAnswered = questions.length > 0 && questions.every((q) => answers[q.position]);
+
+  const handleSelect = (position: number, word: string) => {
+    setAnswers((prev) => ({ ...prev, [position]: word }));
+    setError(null);
+  };
+
+  const handleCheck = () => {
+    const wrong = questions.find((q) => answers[q.position] !== words[q.position]);
+    if (!wrong) {
+      onPassed();
+      return;
+    }
+    // New positions on every attempt, so the answers cannot be found by elimination
+    setError(`Word #${wrong.position + 1} is not correct. Check your written phrase and try again.`);
+    setQuestions(createQuiz(words, questionCount, choiceCount));
+    setAnswers({});
+  };
+
+  if (confirmSkip) {
+    return (
+      <Card variant="elevated" padding="lg">
+        <div className="text-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Skip Backup Check?</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            If your recovery phrase was not written down correctly, losing this device means losing your
+            funds. You will be reminded on the dashboard until you verify it.
+          </p>
+        </div>
+        <div className="space-y-3">
+          <Button variant="primary" fullWidth onClick={() => setConfirmSkip(false)}>
+            Verify Now
+          </Button>
+          <Button variant="danger" fullWidth onClick={onSkip}>
+            Skip Anyway
+          </Button>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card variant="elevated" padding="lg">
+      <div className="text-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Verify Your Recovery Phrase</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          Pick the correct word for each position from your written phrase
+        </p>
+      </div>
+
+      <div className="space-y-4 mb-6">
+        {questions.map(({ position, choices }) => (
+          <div key={position}>
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Word #{position + 1}</p>
+            <div className="grid grid-cols-2 gap-2">
+              {choices.map((choice) => (
+                <button
+                  key={choice}
+                  type="button"
+                  onClick={() => handleSelect(position, choice)}
+                  className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    answers[position] === choice
+                      ? "bg-blue-600 text-white"
+                      : "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+                  }`}
+                >
+                  {choice}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-3 mb-4">
+          <p className="text-sm text-red-600 dark:text-red-400 text-center">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <Button variant="primary" fullWidth onClick={handleCheck} disabled={!allAnswered}>
+          Verify & Continue
+        </Button>
+        {onBack && (
+          <Button variant="outline" fullWidth onClick={onBack}>
+            ← Back to Recovery Phrase
+          </Button>
+        )}
+        <Button variant="ghost" fullWidth onClick={() => setConfirmSkip(true)}>
+          Skip for now
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+MnemonicQuiz.displayName = "MnemonicQuiz";
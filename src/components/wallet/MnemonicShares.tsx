@@ -0,0 +1,256 @@
+"use client";
+
+import * as React from "react";
+import QRCode from "qrcode";
+import { Card, Button } from "@/components/ui";
+import { combineShares, parseShare, splitMnemonic, SHAMIR_MAX_SHARES } from "@/lib/cardano";
+
+export interface MnemonicSharesPanelProps {
+  mnemonic: string;
+  onBack: () => void;
+}
+
+export interface MnemonicShareInputProps {
+  onChange: (mnemonic: string | null) => void;
+}
+
+const SHARE_COUNTS = Array.from({ length: SHAMIR_MAX_SHARES - 1 }, (_, i) => i + 2);
+
+/**
+ * Split a recovery phrase into N-of-M Shamir shares
+ * Each share is shown on its own, as words or as a QR code.
+ */
+export const MnemonicSharesPanel: React.FC<MnemonicSharesPanelProps> = ({ mnemonic, onBack }) => {
+  const [shareCount, setShareCount] = React.useState(3);
+  const [threshold, setThreshold] = React.useState(2);
+  const [shares, setShares] = React.useState<string[] | null>(null);
+  const [current, setCurrent] = React.useState(0);
+  const [showQr, setShowQr] = React.useState(false);
+  const [qrCodeUrl, setQrCodeUrl] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const share = shares?.[current];
+
+  React.useEffect(() => {
+    setQrCodeUrl(null);
+    if (share && showQr) {
+      QRCode.toDataURL(share, { width: 256, margin: 2 })
+        .then((url) => setQrCodeUrl(url))
+        .catch((err) => console.error("QR generation error:", err));
+    }
+  }, [share, showQr]);
+
+  const handleShareCount = (count: number) => {
+    setShareCount(count);
+    setThreshold((t) => Math.min(t, count));
+  };
+
+  const handleSplit = () => {
+    try {
+      setShares(splitMnemonic(mnemonic, threshold, shareCount));
+      setCurrent(0);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not split the recovery phrase");
+    }
+  };
+
+  if (!shares || !share) {
+    return (
+      <Card variant="elevated" padding="lg">
+        <div className="text-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Split Into Shares</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Give each person one share. Any {threshold} of the {shareCount} shares restore this wallet; fewer
+            reveal nothing about it.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Shares
+            <select
+              value={shareCount}
+              onChange={(e) => handleShareCount(Number(e.target.value))}
+              className="mt-1 w-full px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            >
+              {SHARE_COUNTS.map((count) => (
+                <option key={count} value={count}>
+                  {count}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Needed to restore
+            <select
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className="mt-1 w-full px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            >
+              {SHARE_COUNTS.filter((count) => count <= shareCount).map((count) => (
+                <option key={count} value={count}>
+                  {count}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          Shares only work in this app. Keep your recovery phrase too until every share is stored safely.
+        </p>
+
+        {error && <p className="text-sm text-red-500 mb-3">{error}</p>}
+        <div className="space-y-3">
+          <Button variant="primary" fullWidth onClick={handleSplit}>
+            Create Shares
+          </Button>
+          <Button variant="outline" fullWidth onClick={onBack}>
+            ← Back to Recovery Phrase
+          </Button>
+        </div>
+      </Card>
+    );
+  }
+
+  const words = share.split(" ");
+
+  return (
+    <Card variant="elevated" padding="lg">
+      <div className="text-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Share {current + 1} of {shares.length}
+        </h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          {threshold} of {shares.length} needed · {words.length} words
+        </p>
+      </div>
+
+      {showQr ? (
+        <div className="flex justify-center mb-4">
+          <div className="bg-white p-4 rounded-2xl shadow-sm">
+            {qrCodeUrl ? (
+              <img src={qrCodeUrl} alt={`Share ${current + 1} QR Code`} className="w-48 h-48" />
+            ) : (
+              <div className="w-48 h-48 bg-gray-100 animate-pulse rounded-lg" />
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-3 gap-2 p-4 mb-4 bg-gray-50 dark:bg-gray-900 rounded-xl">
+          {words.map((word, index) => (
+            <div
+              key={index}
+              className="flex items-center gap-1.5 bg-white dark:bg-gray-800 rounded-lg px-2 py-1.5 border border-gray-200 dark:border-gray-700"
+            >
+              <span className="text-xs text-gray-400 w-5">{index + 1}.</span>
+              <span className="text-sm font-medium text-gray-900 dark:text-white">{word}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <Button variant="outline" fullWidth onClick={() => setShowQr((v) => !v)}>
+          {showQr ? "Show Words" : "Show QR Code"}
+        </Button>
+        <div className="flex gap-3">
+          <Button variant="secondary" fullWidth onClick={() => setCurrent((i) => i - 1)} disabled={current === 0}>
+            Previous
+          </Button>
+          {current < shares.length - 1 ? (
+            <Button variant="primary" fullWidth onClick={() => setCurrent((i) => i + 1)}>
+              Next Share
+            </Button>
+          ) : (
+            <Button variant="primary" fullWidth onClick={onBack}>
+              Done
+            </Button>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+/**
+ * Enter Shamir shares one by one until enough are there to restore the phrase
+ */
+export const MnemonicShareInput: React.FC<MnemonicShareInputProps> = ({ onChange }) => {
+  const [shares, setShares] = React.useState<string[]>(["", ""]);
+
+  const filled = shares.map((s) => s.trim()).filter(Boolean);
+  const statuses = shares.map((share) => {
+    if (!share.trim()) return null;
+    try {
+      const { index, threshold } = parseShare(share);
+      return { text: `Share ${index} · ${threshold} needed`, error: false };
+    } catch (err) {
+      return { text: err instanceof Error ? err.message : "Invalid share", error: true };
+    }
+  });
+
+  let combined: string | null = null;
+  let combineError: string | null = null;
+  if (filled.length > 0 && statuses.every((status) => !status?.error)) {
+    try {
+      combined = combineShares(filled);
+    } catch (err) {
+      combineError = err instanceof Error ? err.message : "Could not combine shares";
+    }
+  }
+
+  React.useEffect(() => {
+    onChange(combined);
+  }, [combined, onChange]);
+
+  const updateShare = (index: number, value: string) => {
+    setShares((prev) => prev.map((share, i) => (i === index ? value : share)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {shares.map((share, index) => (
+        <div key={index}>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Share {index + 1}</label>
+          <textarea
+            value={share}
+            onChange={(e) => updateShare(index, e.target.value)}
+            rows={3}
+            placeholder="Words of one share"
+            autoComplete="off"
+            autoCapitalize="off"
+            spellCheck={false}
+            className="w-full px-3 py-2 text-sm rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {statuses[index] && (
+            <p className={`text-xs mt-1 ${statuses[index]!.error ? "text-red-500" : "text-green-600"}`}>
+              {statuses[index]!.text}
+            </p>
+          )}
+        </div>
+      ))}
+
+      {shares.length < SHAMIR_MAX_SHARES && (
+        <button
+          type="button"
+          onClick={() => setShares((prev) => [...prev, ""])}
+          className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400"
+        >
+          + Add another share
+        </button>
+      )}
+
+      {combineError && <p className="text-sm text-gray-500 dark:text-gray-400">{combineError}</p>}
+      {combined && (
+        <p className="text-sm text-green-600">
+          Recovery phrase restored ({combined.split(" ").length} words)
+        </p>
+      )}
+    </div>
+  );
+};
+
+MnemonicSharesPanel.displayName = "MnemonicSharesPanel";
+MnemonicShareInput.displayName = "MnemonicShareInput";
@@ -2,6 +2,7 @@
 
 import React, { useState, useCallback, useMemo, useEffect } from "react";
 import { useWalletStore } from "@/hooks/useWalletStore";
+import { usePinAttempts } from "@/hooks/usePinAttempts";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import { Card } from "@/components/ui/Card";
@@ -15,7 +16,12 @@ import {
   type BatchSendResult,
 } from "@/lib/cardano/multi-send";
 import { isAdaHandle, resolveRecipient } from "@/lib/cardano";
-import { verifyPin, getStoredWalletForVerification } from "@/lib/storage/encryption";
+import { verifyWalletPin, type WalletUnlock } from "@/lib/storage/encryption";
+import { BiometricUnlockButton } from "./BiometricUnlockButton";
+import { MemoEncryptionToggle } from "./MemoEncryptionToggle";
+import { CoinControlPicker, buildCoinControl } from "./CoinControlPicker";
+import { AddressBookPicker, SaveContactForm } from "./AddressBookPicker";
+import { findContact, getContactLabels, markContactUsed } from "@/lib/storage/address-book";
 
 interface RecipientRow {
   id: string;
@@ -60,7 +66,8 @@ const decodeAssetName = (name: string): string => {
 };
 
 export function MultiSendScreen({ onClose }: MultiSendScreenProps) {
-  const { _walletInstance: wallet, balance, refreshBalance, activeWalletId } = useWalletStore();
+  const { _walletInstance: wallet, balance, refreshBalance, activeWalletId, network } = useWalletStore();
+  const pinAttempts = usePinAttempts(activeWalletId);
   
   // Mode: same amount for all or different amounts
   const [mode, setMode] = useState<SendMode>("same");
@@ -74,6 +81,11 @@ export function MultiSendScreen({ onClose }: MultiSendScreenProps) {
   
   // Transaction note/memo
   const [memo, setMemo] = useState("");
+  const [encryptMemo, setEncryptMemo] = useState(false);
+  const [memoPassphrase, setMemoPassphrase] = useState("");
+
+  // Coin control: UTxOs chosen as inputs (empty = automatic)
+  const [selectedInputs, setSelectedInputs] = useState<string[]>([]);
   
   // List of recipients
   const [rows, setRows] = useState<RecipientRow[]>([
@@ -103,6 +115,16 @@ export function MultiSendScreen({ onClose }: MultiSendScreenProps) {
   // Handle resolution tracking
   const [isResolvingHandles, setIsResolvingHandles] = useState(false);
 
+  // Address book
+  const [contactPickerRowId, setContactPickerRowId] = useState<string | null>(null);
+  const [contactLabels, setContactLabels] = useState<Record<string, string>>({});
+  const [unsavedRecipients, setUnsavedRecipients] = useState<{ address: string; handle?: string }[]>([]);
+  const [savingContact, setSavingContact] = useState<string | null>(null);
+
+  useEffect(() => {
+    setContactLabels(getContactLabels(network));
+  }, [network]);
+
   // Fetch token info from API and build available tokens list
   useEffect(() => {
     const buildTokensList = async () => {
@@ -443,6 +465,8 @@ export function MultiSendScreen({ onClose }: MultiSendScreenProps) {
     setRows([{ id: crypto.randomUUID(), address: "", amount: "" }]);
     setGlobalAmount("5");
     setMemo("");
+    setMemoPassphrase("");
+    setSelectedInputs([]);
     setCsvContent("");
     setShowCsvImport(false);
   }, []);
@@ -478,6 +502,11 @@ export function MultiSendScreen({ onClose }: MultiSendScreenProps) {
       return;
     }
 
+    if (encryptMemo && memo.trim() && !memoPassphrase) {
+      setError("Please enter a passphrase for the encrypted note");
+      return;
+    }
+
     // Store recipients before showing PIN (to avoid state issues)
     setPendingRecipients(recipients);
     
@@ -485,7 +514,7 @@ export function MultiSendScreen({ onClose }: MultiSendScreenProps) {
     setShowPinInput(true);
     setPin("");
     setPinError(null);
-  }, [wallet, buildRecipientList, totalToSend, selectedTokenInfo]);
+  }, [wallet, buildRecipientList, totalToSend, selectedTokenInfo, encryptMemo, memo, memoPassphrase]);
 
   // Send transaction (called after PIN verification)
   const handleSend = useCallback(async () => {
@@ -502,15 +531,22 @@ export function MultiSendScreen({ onClose }: MultiSendScreenProps) {
       return;
     }
 
+    const messageOptions = {
+      message: memo,
+      messagePassphrase: encryptMemo ? memoPassphrase : undefined,
+      coinControl: buildCoinControl(activeWalletId, selectedInputs),
+    };
+
     try {
       if (recipients.length <= 40) {
-        const txHash = await sendMultiTransaction(wallet!, recipients);
+        const txHash = await sendMultiTransaction(wallet!, recipients, messageOptions);
         setSuccess(`✅ Transaction submitted!\nTx Hash: ${txHash}`);
       } else {
         const result = await sendMultiTransactionBatched(
           wallet!,
           recipients,
-          handleBatchComplete
+          handleBatchComplete,
+          messageOptions
         );
         
         if (result.failedBatches === 0) {
@@ -526,6 +562,19 @@ export function MultiSendScreen({ onClose }: MultiSendScreenProps) {
         }
       }
 
+      // Move paid contacts up in the picker and offer to save the others
+      const sentAddresses = Array.from(new Set(recipients.map((r) => r.address)));
+      const handles = new Map(
+        rows.filter((r) => r.isHandle && r.resolvedAddress).map((r) => [r.resolvedAddress!, r.address])
+      );
+      markContactUsed(network, sentAddresses);
+      setUnsavedRecipients(
+        sentAddresses
+          .filter((address) => !findContact(network, address))
+          .map((address) => ({ address, handle: handles.get(address) }))
+      );
+      setSavingContact(null);
+
       // Reset form after successful send
       resetForm();
 
@@ -540,20 +589,16 @@ export function MultiSendScreen({ onClose }: MultiSendScreenProps) {
       setProgress(0);
       setPendingRecipients([]); // Clear pending recipients
     }
-  }, [wallet, pendingRecipients, handleBatchComplete, refreshBalance, resetForm]);
+  }, [wallet, pendingRecipients, memo, encryptMemo, memoPassphrase, activeWalletId, selectedInputs, handleBatchComplete, refreshBalance, resetForm, rows, network]);
 
   // Verify PIN and send
-  const handlePinComplete = useCallback(async (enteredPin: string) => {
+  const handlePinComplete = useCallback(async (unlock: WalletUnlock) => {
     setPinError(null);
     try {
-      const storedWallet = getStoredWalletForVerification(activeWalletId || undefined);
-      if (!storedWallet || !storedWallet.pinHash) {
-        setPinError("Wallet configuration error");
-        return;
-      }
-      const isValid = verifyPin(enteredPin, storedWallet.pinHash);
+      const isValid = await verifyWalletPin(unlock, activeWalletId || undefined);
       if (!isValid) {
         setPinError("Invalid PIN. Please try again.");
+        pinAttempts.refresh();
         setPin("");
         return;
       }
@@ -566,7 +611,7 @@ export function MultiSendScreen({ onClose }: MultiSendScreenProps) {
       setPinError("Verification failed. Please try again.");
       setPin("");
     }
-  }, [activeWalletId, handleSend]);
+  }, [activeWalletId, handleSend, pinAttempts]);
 
   // Count valid recipients (address must be present, and if handle, must be resolved)
   const validRecipientCount = rows.filter((r) => {
@@ -788,7 +833,16 @@ export function MultiSendScreen({ onClose }: MultiSendScreenProps) {
                 
                 {/* Address field */}
                 <div className="relative">
-                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Address or $handle</label>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-xs text-gray-500 dark:text-gray-400">Address or $handle</label>
+                    <button
+                      type="button"
+                      onClick={() => setContactPickerRowId(row.id)}
+                      className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      Contacts
+                    </button>
+                  </div>
                   <Input
                     value={row.address}
                     onChange={(e) => updateRow(row.id, "address", e.target.value)}
@@ -819,6 +873,13 @@ export function MultiSendScreen({ onClose }: MultiSendScreenProps) {
                   )}
                 </div>
                 
+                {/* Saved contact label */}
+                {row.resolvedAddress && contactLabels[row.resolvedAddress] && (
+                  <p className="text-xs text-blue-600 dark:text-blue-400 truncate">
+                    👤 {contactLabels[row.resolvedAddress]}
+                  </p>
+                )}
+
                 {/* Resolved address display */}
                 {row.isHandle && row.resolvedAddress && (
                   <p className="text-xs text-green-600 dark:text-green-400 truncate">
@@ -911,6 +972,18 @@ export function MultiSendScreen({ onClose }: MultiSendScreenProps) {
             className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 text-gray-900 dark:text-white text-sm resize-none focus:ring-2 focus:ring-blue-500"
           />
           <p className="text-xs text-gray-400 dark:text-gray-500 mt-1 text-right">{memo.length}/256</p>
+          <MemoEncryptionToggle
+            enabled={encryptMemo}
+            passphrase={memoPassphrase}
+            onEnabledChange={setEncryptMemo}
+            onPassphraseChange={setMemoPassphrase}
+            disabled={isLoading}
+          />
+        </Card>
+
+        {/* Coin Control */}
+        <Card className="p-4 bg-white dark:bg-gray-900 border-gray-200 dark:border-gray-800">
+          <CoinControlPicker selected={selectedInputs} onChange={setSelectedInputs} disabled={isLoading} />
         </Card>
 
         {/* Error/Success Messages */}
@@ -925,6 +998,50 @@ export function MultiSendScreen({ onClose }: MultiSendScreenProps) {
           </div>
         )}
 
+        {/* Save new recipients to the address book */}
+        {!isLoading && unsavedRecipients.length > 0 && (
+          <Card className="p-4 bg-white dark:bg-gray-900 border-gray-200 dark:border-gray-800">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-gray-900 dark:text-white">Save recipients to contacts?</h3>
+              <button
+                onClick={() => setUnsavedRecipients([])}
+                className="text-xs text-gray-500 hover:text-gray-700"
+              >
+                Dismiss
+              </button>
+            </div>
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {unsavedRecipients.map(({ address, handle }) =>
+                savingContact === address ? (
+                  <SaveContactForm
+                    key={address}
+                    address={address}
+                    handle={handle}
+                    onSaved={() => {
+                      setUnsavedRecipients((prev) => prev.filter((r) => r.address !== address));
+                      setSavingContact(null);
+                      setContactLabels(getContactLabels(network));
+                    }}
+                    onCancel={() => setSavingContact(null)}
+                  />
+                ) : (
+                  <div key={address} className="flex items-center justify-between gap-2">
+                    <span className="text-xs font-mono text-gray-600 dark:text-gray-400 truncate">
+                      {handle || `${address.slice(0, 20)}...${address.slice(-10)}`}
+                    </span>
+                    <button
+                      onClick={() => setSavingContact(address)}
+                      className="text-xs text-blue-600 dark:text-blue-400 hover:underline flex-shrink-0"
+                    >
+                      Save
+                    </button>
+                  </div>
+                )
+              )}
+            </div>
+          </Card>
+        )}
+
         {/* Progress Bar */}
         {isLoading && progress > 0 && (
           <div className="w-full bg-gray-200 dark:bg-gray-800 rounded-full h-2">
@@ -989,11 +1106,14 @@ export function MultiSendScreen({ onClose }: MultiSendScreenProps) {
               onComplete={handlePinComplete}
               error={pinError || undefined}
               autoFocus
+              {...pinAttempts.inputProps}
             />
             
             {pinError && (
               <p className="text-sm text-red-500 text-center mt-2">{pinError}</p>
             )}
+
+            <BiometricUnlockButton walletId={activeWalletId} onUnlock={handlePinComplete} className="mt-4" />
             
             <div className="flex gap-3 mt-4">
               <Button
@@ -1011,6 +1131,17 @@ export function MultiSendScreen({ onClose }: MultiSendScreenProps) {
           </Card>
         </div>
       )}
+
+      <AddressBookPicker
+        isOpen={contactPickerRowId !== null}
+        onClose={() => {
+          setContactPickerRowId(null);
+          setContactLabels(getContactLabels(network));
+        }}
+        onSelect={(entry) => {
+          if (contactPickerRowId) updateRow(contactPickerRowId, "address", entry.address);
+        }}
+      />
     </div>
   );
 }
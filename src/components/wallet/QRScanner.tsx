@@ -3,9 +3,10 @@
 import * as React from "react";
 import { Html5Qrcode } from "html5-qrcode";
 import { Button, Card } from "@/components/ui";
+import { isCip13Uri, parseCip13Uri } from "@/lib/cardano";
 
 export interface QRScannerProps {
-  onScan: (result: string) => void;
+  onScan: (result: string) => void; // Bare address or a valid web+cardano URI
   onClose: () => void;
   isOpen: boolean;
 }
@@ -20,6 +21,35 @@ export const QRScanner: React.FC<QRScannerProps> = ({
   const scannerRef = React.useRef<Html5Qrcode | null>(null);
   const containerRef = React.useRef<HTMLDivElement>(null);
 
+  // Latest callbacks, so a parent re-render does not restart the camera
+  const onScanRef = React.useRef(onScan);
+  const onCloseRef = React.useRef(onClose);
+  React.useEffect(() => {
+    onScanRef.current = onScan;
+    onCloseRef.current = onClose;
+  });
+
+  const stopScanner = React.useCallback(async () => {
+    try {
+      if (scannerRef.current?.isScanning) {
+        await scannerRef.current.stop();
+      }
+      scannerRef.current = null;
+      setIsScanning(false);
+    } catch (err) {
+      console.error("Error stopping scanner:", err);
+    }
+  }, []);
+
+  const handleSuccess = React.useCallback(
+    (result: string) => {
+      stopScanner();
+      onScanRef.current(result);
+      onCloseRef.current();
+    },
+    [stopScanner]
+  );
+
   // Start scanner when modal opens
   React.useEffect(() => {
     if (!isOpen) return;
@@ -63,11 +93,10 @@ export const QRScanner: React.FC<QRScannerProps> = ({
                 decodedText.startsWith("addr_test1")
               ) {
                 handleSuccess(decodedText);
-              } else if (decodedText.startsWith("web+cardano://")) {
-                // Handle Cardano payment URI
-                const address = extractAddressFromUri(decodedText);
-                if (address) {
-                  handleSuccess(address);
+              } else if (isCip13Uri(decodedText)) {
+                // CIP-13 link (payment, stake, claim or browse); the caller parses it
+                if (parseCip13Uri(decodedText)) {
+                  handleSuccess(decodedText);
                 } else {
                   setError("Invalid Cardano payment URI");
                 }
@@ -75,7 +104,7 @@ export const QRScanner: React.FC<QRScannerProps> = ({
                 setError("Not a valid Cardano address");
               }
             },
-            (errorMessage) => {
+            () => {
               // Error callback (ignore - this fires continuously when no QR found)
             }
           );
@@ -104,35 +133,7 @@ export const QRScanner: React.FC<QRScannerProps> = ({
     return () => {
       stopScanner();
     };
-  }, [isOpen]);
-
-  const handleSuccess = (address: string) => {
-    stopScanner();
-    onScan(address);
-    onClose();
-  };
-
-  const stopScanner = async () => {
-    try {
-      if (scannerRef.current?.isScanning) {
-        await scannerRef.current.stop();
-      }
-      scannerRef.current = null;
-      setIsScanning(false);
-    } catch (err) {
-      console.error("Error stopping scanner:", err);
-    }
-  };
-
-  const extractAddressFromUri = (uri: string): string | null => {
-    try {
-      // web+cardano://addr1xxx or web+cardano://addr_test1xxx
-      const match = uri.match(/web\+cardano:\/\/(addr[a-z0-9_]+)/i);
-      return match ? match[1] : null;
-    } catch {
-      return null;
-    }
-  };
+  }, [isOpen, handleSuccess, stopScanner]);
 
   const handleClose = () => {
     stopScanner();
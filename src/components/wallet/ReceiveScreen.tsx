@@ -1,24 +1,71 @@
 "use client";
 
 import * as React from "react";
-import { Card, Button } from "@/components/ui";
+import { Card, Button, Input } from "@/components/ui";
 import { useWalletStore } from "@/hooks";
-import { shortenAddress } from "@/lib/cardano";
+import {
+  buildCip13PaymentUri,
+  getFreshReceiveAddress,
+  parseAdaAmount,
+  parseDecimalAmount,
+  shortenAddress,
+} from "@/lib/cardano";
+import { getLastReceiveIndex, setLastReceiveIndex } from "@/lib/storage";
 import QRCode from "qrcode";
 
 export interface ReceiveScreenProps {
   onBack: () => void;
 }
 
+type ReceiveMode = "address" | "request";
+
 export const ReceiveScreen: React.FC<ReceiveScreenProps> = ({ onBack }) => {
-  const { walletAddress, network } = useWalletStore();
+  const { walletAddress, network, balance, activeWalletId, _addressDiscovery } = useWalletStore();
+  // Fresh unused address handed out on request (the first address otherwise)
+  const [freshAddress, setFreshAddress] = React.useState<{ address: string; index: number } | null>(null);
+  const receiveAddress = freshAddress?.address || walletAddress;
   const [copied, setCopied] = React.useState(false);
   const [qrCodeUrl, setQrCodeUrl] = React.useState<string>("");
+  const [mode, setMode] = React.useState<ReceiveMode>("address");
+  const [requestAda, setRequestAda] = React.useState("");
+  const [requestAssetUnit, setRequestAssetUnit] = React.useState("");
+  const [requestAssetAmount, setRequestAssetAmount] = React.useState("");
+  const [requestMemo, setRequestMemo] = React.useState("");
+
+  const requestAsset = balance?.assets.find((asset) => asset.unit === requestAssetUnit);
+  const requestLovelace = requestAda ? parseAdaAmount(requestAda) : null;
+  const requestQuantity = requestAsset && requestAssetAmount
+    ? parseDecimalAmount(requestAssetAmount, requestAsset.metadata?.decimals ?? 0)
+    : null;
+  const adaError = requestAda && requestLovelace === null ? "Enter an ADA amount with up to 6 decimals" : undefined;
+  const assetError = requestAsset && requestAssetAmount && requestQuantity === null ? "Invalid token amount" : undefined;
+
+  // CIP-13 payment link for the request
+  const paymentUri = React.useMemo(() => {
+    if (!receiveAddress) return "";
+    return buildCip13PaymentUri({
+      address: receiveAddress,
+      lovelace: requestLovelace || undefined,
+      asset: requestAsset && requestQuantity ? { unit: requestAsset.unit, quantity: requestQuantity } : undefined,
+      memo: requestMemo,
+    });
+  }, [receiveAddress, requestLovelace, requestAsset, requestQuantity, requestMemo]);
+
+  // What the QR code, copy and share buttons use
+  const shareText = mode === "request" ? paymentUri : receiveAddress;
+
+  const handleFreshAddress = () => {
+    if (!_addressDiscovery || !activeWalletId) return;
+    const next = getFreshReceiveAddress(_addressDiscovery, getLastReceiveIndex(activeWalletId));
+    setLastReceiveIndex(activeWalletId, next.index);
+    setFreshAddress({ address: next.address, index: next.index });
+    setCopied(false);
+  };
 
   // Generate QR code
   React.useEffect(() => {
-    if (walletAddress) {
-      QRCode.toDataURL(walletAddress, {
+    if (shareText) {
+      QRCode.toDataURL(shareText, {
         width: 256,
         margin: 2,
         color: {
@@ -29,19 +76,19 @@ export const ReceiveScreen: React.FC<ReceiveScreenProps> = ({ onBack }) => {
         .then((url) => setQrCodeUrl(url))
         .catch((err) => console.error("QR generation error:", err));
     }
-  }, [walletAddress]);
+  }, [shareText]);
 
   const handleCopy = async () => {
-    if (!walletAddress) return;
+    if (!shareText) return;
     
     try {
       // Try modern clipboard API first
       if (navigator.clipboard && window.isSecureContext) {
-        await navigator.clipboard.writeText(walletAddress);
+        await navigator.clipboard.writeText(shareText);
       } else {
         // Fallback for older browsers or non-secure contexts (like Telegram Mini App)
         const textArea = document.createElement('textarea');
-        textArea.value = walletAddress;
+        textArea.value = shareText;
         textArea.style.position = 'fixed';
         textArea.style.left = '-999999px';
         textArea.style.top = '-999999px';
@@ -63,7 +110,7 @@ export const ReceiveScreen: React.FC<ReceiveScreenProps> = ({ onBack }) => {
       // Try one more fallback
       try {
         const textArea = document.createElement('textarea');
-        textArea.value = walletAddress;
+        textArea.value = shareText;
         textArea.style.position = 'fixed';
         textArea.style.opacity = '0';
         document.body.appendChild(textArea);
@@ -74,17 +121,17 @@ export const ReceiveScreen: React.FC<ReceiveScreenProps> = ({ onBack }) => {
         setCopied(true);
         setTimeout(() => setCopied(false), 2000);
       } catch (e) {
-        alert('Please copy manually: ' + walletAddress);
+        alert('Please copy manually: ' + shareText);
       }
     }
   };
 
   const handleShare = async () => {
-    if (walletAddress && navigator.share) {
+    if (shareText && navigator.share) {
       try {
         await navigator.share({
-          title: "My Cardano Address",
-          text: walletAddress,
+          title: mode === "request" ? "Cardano Payment Request" : "My Cardano Address",
+          text: shareText,
         });
       } catch (err) {
         // User cancelled or share not supported
@@ -116,6 +163,76 @@ export const ReceiveScreen: React.FC<ReceiveScreenProps> = ({ onBack }) => {
         </h1>
       </header>
 
+      {/* Mode Tabs */}
+      <div className="grid grid-cols-2 gap-2 mb-4 p-1 bg-gray-200 dark:bg-gray-800 rounded-xl">
+        {(["address", "request"] as const).map((tab) => (
+          <button
+            key={tab}
+            onClick={() => {
+              setMode(tab);
+              setCopied(false);
+            }}
+            className={`py-2 text-sm font-medium rounded-lg transition-colors ${
+              mode === tab
+                ? "bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm"
+                : "text-gray-500 dark:text-gray-400"
+            }`}
+          >
+            {tab === "address" ? "Address" : "Request Payment"}
+          </button>
+        ))}
+      </div>
+
+      {/* Request Details */}
+      {mode === "request" && (
+        <Card padding="lg" className="space-y-3 mb-4">
+          <Input
+            label="Amount (ADA)"
+            inputMode="decimal"
+            value={requestAda}
+            onChange={(e) => setRequestAda(e.target.value.trim())}
+            placeholder="Optional"
+            error={adaError}
+          />
+          {balance && balance.assets.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">Token</label>
+              <select
+                value={requestAssetUnit}
+                onChange={(e) => {
+                  setRequestAssetUnit(e.target.value);
+                  setRequestAssetAmount("");
+                }}
+                className="w-full px-4 py-2.5 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+              >
+                <option value="">None</option>
+                {balance.assets.map((asset) => (
+                  <option key={asset.unit} value={asset.unit}>
+                    {asset.metadata?.ticker || asset.metadata?.name || shortenAddress(asset.unit, 8)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {requestAsset && (
+            <Input
+              label="Token Amount"
+              inputMode="decimal"
+              value={requestAssetAmount}
+              onChange={(e) => setRequestAssetAmount(e.target.value.trim())}
+              placeholder="0"
+              error={assetError}
+            />
+          )}
+          <Input
+            label="Memo"
+            value={requestMemo}
+            onChange={(e) => setRequestMemo(e.target.value.slice(0, 256))}
+            placeholder="e.g. Invoice #42 (optional)"
+          />
+        </Card>
+      )}
+
       <Card padding="lg" className="space-y-6">
         {/* Network Badge */}
         <div className="flex justify-center">
@@ -145,14 +262,20 @@ export const ReceiveScreen: React.FC<ReceiveScreenProps> = ({ onBack }) => {
           onClick={handleCopy}
         >
           <div className="flex items-center justify-center gap-2 mb-2">
-            <p className="text-xs text-gray-500">Your Wallet Address</p>
+            <p className="text-xs text-gray-500">
+              {mode === "request"
+                ? "Payment Link"
+                : freshAddress
+                  ? `Fresh Address #${freshAddress.index + 1}`
+                  : "Your Wallet Address"}
+            </p>
             <button
               onClick={(e) => {
                 e.stopPropagation();
                 handleCopy();
               }}
               className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
-              title="Copy address"
+              title={mode === "request" ? "Copy link" : "Copy address"}
             >
               {copied ? (
                 <CheckIcon className="w-4 h-4 text-green-500" />
@@ -162,10 +285,12 @@ export const ReceiveScreen: React.FC<ReceiveScreenProps> = ({ onBack }) => {
             </button>
           </div>
           <p className="text-sm font-mono text-gray-900 dark:text-white break-all text-center leading-relaxed">
-            {walletAddress}
+            {shareText}
           </p>
           {copied && (
-            <p className="text-xs text-green-500 text-center mt-2">✓ Address copied to clipboard!</p>
+            <p className="text-xs text-green-500 text-center mt-2">
+              ✓ {mode === "request" ? "Link" : "Address"} copied to clipboard!
+            </p>
           )}
         </div>
 
@@ -200,6 +325,12 @@ export const ReceiveScreen: React.FC<ReceiveScreenProps> = ({ onBack }) => {
           </Button>
         </div>
 
+        {_addressDiscovery && (
+          <Button variant="ghost" fullWidth onClick={handleFreshAddress}>
+            Generate New Address
+          </Button>
+        )}
+
         {/* Info */}
         <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl p-3">
           <div className="flex items-start gap-2">
@@ -207,7 +338,9 @@ export const ReceiveScreen: React.FC<ReceiveScreenProps> = ({ onBack }) => {
             <div className="text-sm text-blue-800 dark:text-blue-200">
               <p className="font-medium mb-1">Receive ADA & Native Assets</p>
               <p className="text-xs opacity-80">
-                Share this address to receive ADA, tokens, and NFTs on the Cardano {networkLabel.text.toLowerCase()}.
+                {mode === "request"
+                  ? "Wallets that support CIP-13 links fill in the amount for the payer. Others still read your address and ADA amount."
+                  : `Share this address to receive ADA, tokens, and NFTs on the Cardano ${networkLabel.text.toLowerCase()}.`}
               </p>
             </div>
           </div>
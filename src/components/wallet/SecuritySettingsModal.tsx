@@ -0,0 +1,178 @@
+"use client";
+
+import * as React from "react";
+import { PinInput } from "@/components/ui";
+import { AUTO_LOCK_OPTIONS, useBiometricUnlock, useWalletStore } from "@/hooks";
+import { getPinWipeAfter, setPinWipeAfter, PIN_WIPE_OPTIONS } from "@/lib/storage/encryption";
+import { DuressPinSettings } from "./DuressPinSettings";
+
+export interface SecuritySettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatAutoLock = (minutes: number): string => {
+  if (minutes === 0) return "Never";
+  return minutes === 1 ? "1 minute" : `${minutes} minutes`;
+};
+
+/**
+ * Security settings of the app
+ * The wallet also locks right away when the app goes to the background,
+ * unless auto-lock is off. Biometric unlock is opted into per wallet.
+ */
+export const SecuritySettingsModal: React.FC<SecuritySettingsModalProps> = ({ isOpen, onClose }) => {
+  const autoLockMinutes = useWalletStore((s) => s.autoLockMinutes);
+  const setAutoLockMinutes = useWalletStore((s) => s.setAutoLockMinutes);
+  const activeWalletId = useWalletStore((s) => s.activeWalletId);
+  const isWatchOnly = useWalletStore((s) => s.isWatchOnly);
+  const biometric = useBiometricUnlock(activeWalletId);
+
+  const [showBiometricPin, setShowBiometricPin] = React.useState(false);
+  const [pin, setPin] = React.useState("");
+  const [biometricError, setBiometricError] = React.useState<string | null>(null);
+  const [isEnabling, setIsEnabling] = React.useState(false);
+  const [wipeAfter, setWipeAfter] = React.useState(getPinWipeAfter);
+
+  React.useEffect(() => {
+    if (!isOpen) {
+      setShowBiometricPin(false);
+      setPin("");
+      setBiometricError(null);
+    }
+  }, [isOpen]);
+
+  const handleEnableBiometric = async (enteredPin: string) => {
+    setBiometricError(null);
+    setIsEnabling(true);
+    const result = await biometric.enable(enteredPin);
+    setIsEnabling(false);
+    setPin("");
+    if (!result.success) {
+      setBiometricError(result.error || "Could not enable biometric unlock");
+      return;
+    }
+    setShowBiometricPin(false);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-md max-h-[85vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-2xl p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white">Security</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg">
+            <CloseIcon className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-900 dark:text-white">Auto-lock</p>
+          <p className="text-xs text-gray-500 mb-2">
+            Lock the wallet after this long without activity, and whenever the app is minimized.
+          </p>
+          <div className="grid grid-cols-3 gap-2">
+            {AUTO_LOCK_OPTIONS.map((minutes) => (
+              <button
+                key={minutes}
+                onClick={() => setAutoLockMinutes(minutes)}
+                className={`py-2 rounded-lg text-sm font-medium transition-colors ${
+                  autoLockMinutes === minutes
+                    ? "bg-blue-600 text-white"
+                    : "bg-gray-100 dark:bg-gray-900 text-gray-700 dark:text-gray-300"
+                }`}
+              >
+                {formatAutoLock(minutes)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-900 dark:text-white">Erase after failed PINs</p>
+          <p className="text-xs text-gray-500 mb-2">
+            After 5 wrong PINs each further attempt locks the wallet for twice as long. Optionally erase it from
+            this device instead; only the recovery phrase can restore it then.
+          </p>
+          <div className="grid grid-cols-4 gap-2">
+            {PIN_WIPE_OPTIONS.map((failures) => (
+              <button
+                key={failures}
+                onClick={() => {
+                  setPinWipeAfter(failures);
+                  setWipeAfter(failures);
+                }}
+                className={`py-2 rounded-lg text-sm font-medium transition-colors ${
+                  wipeAfter === failures
+                    ? "bg-blue-600 text-white"
+                    : "bg-gray-100 dark:bg-gray-900 text-gray-700 dark:text-gray-300"
+                }`}
+              >
+                {failures === 0 ? "Never" : failures}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {!isWatchOnly && <DuressPinSettings />}
+
+        {biometric.isSupported && !isWatchOnly && (
+          <div>
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900 dark:text-white">Unlock with {biometric.label}</p>
+                <p className="text-xs text-gray-500">
+                  Use {biometric.label} instead of your PIN for this wallet. The PIN still works.
+                </p>
+              </div>
+              <button
+                role="switch"
+                aria-checked={biometric.isEnabled}
+                onClick={() => {
+                  setBiometricError(null);
+                  if (biometric.isEnabled) {
+                    biometric.disable();
+                  } else {
+                    setShowBiometricPin((v) => !v);
+                  }
+                }}
+                className={`relative shrink-0 w-11 h-6 rounded-full transition-colors ${
+                  biometric.isEnabled ? "bg-blue-600" : "bg-gray-300 dark:bg-gray-600"
+                }`}
+              >
+                <span
+                  className={`absolute top-0.5 left-0.5 w-5 h-5 rounded-full bg-white transition-transform ${
+                    biometric.isEnabled ? "translate-x-5" : ""
+                  }`}
+                />
+              </button>
+            </div>
+
+            {showBiometricPin && !biometric.isEnabled && (
+              <div className="mt-3 space-y-2">
+                <p className="text-xs text-gray-500 text-center">Enter your PIN to turn it on</p>
+                <PinInput
+                  value={pin}
+                  onChange={setPin}
+                  onComplete={handleEnableBiometric}
+                  disabled={isEnabling}
+                />
+              </div>
+            )}
+            {biometricError && <p className="text-sm text-red-500 text-center mt-2">{biometricError}</p>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Icons
+const CloseIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+  </svg>
+);
+
+SecuritySettingsModal.displayName = "SecuritySettingsModal";
@@ -2,17 +2,29 @@
 
 import * as React from "react";
 import { Card, Button, PinInput } from "@/components/ui";
-import { useWalletStore, useTelegram } from "@/hooks";
+import { useWalletStore, useTelegram, usePinAttempts } from "@/hooks";
 import { 
   shortenAddress, 
   adaToLovelace, 
   WalletAsset, 
   isAdaHandle, 
   resolveRecipient,
-  type MultiAssetOutput 
+  lovelaceToAda,
+  formatAdaAmount,
+  isCip13Uri,
+  parseCip13Uri,
+  type Cip13PaymentRequest,
+  type MultiAssetOutput,
+  type MultiAssetSendOptions,
+  type TransactionEstimate,
 } from "@/lib/cardano";
-import { verifyPin, getStoredWalletForVerification } from "@/lib/storage/encryption";
+import { verifyWalletPin, type WalletUnlock } from "@/lib/storage/encryption";
+import { BiometricUnlockButton } from "./BiometricUnlockButton";
+import { findContact, markContactUsed, type AddressBookEntry } from "@/lib/storage/address-book";
 import { QRScanner } from "./QRScanner";
+import { AddressBookPicker, SaveContactForm } from "./AddressBookPicker";
+import { MemoEncryptionToggle } from "./MemoEncryptionToggle";
+import { CoinControlPicker, buildCoinControl } from "./CoinControlPicker";
 
 export interface SendScreenProps {
   onBack: () => void;
@@ -55,6 +67,7 @@ interface ResolvedRecipient {
 
 export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) => {
   const { walletAddress, balance, network, activeWalletId } = useWalletStore();
+  const pinAttempts = usePinAttempts(activeWalletId);
   const { initData } = useTelegram();
   
   // State
@@ -67,11 +80,22 @@ export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) =>
   const [error, setError] = React.useState<string | null>(null);
   const [txHash, setTxHash] = React.useState<string | null>(null);
   const [isLoading, setIsLoading] = React.useState(false);
-  const [estimatedFee] = React.useState<string>("0.20");
+  const [estimate, setEstimate] = React.useState<TransactionEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = React.useState(false);
+  const [estimateError, setEstimateError] = React.useState<string | null>(null);
+  const [sendMaxAda, setSendMaxAda] = React.useState(false); // Send all ADA left after fees
+  const [isEmptyingWallet, setIsEmptyingWallet] = React.useState(false); // Send every asset
+  const [selectedInputs, setSelectedInputs] = React.useState<string[]>([]); // Coin control
   const [pin, setPin] = React.useState("");
   const [pinError, setPinError] = React.useState<string | null>(null);
   const [showQRScanner, setShowQRScanner] = React.useState(false);
   const [memo, setMemo] = React.useState(""); // Transaction note/memo
+  const [encryptMemo, setEncryptMemo] = React.useState(false);
+  const [memoPassphrase, setMemoPassphrase] = React.useState("");
+  const [uriNotice, setUriNotice] = React.useState<string | null>(null); // Feedback on scanned web+cardano links
+  const [showAddressBook, setShowAddressBook] = React.useState(false);
+  const [showSaveContact, setShowSaveContact] = React.useState(false);
+  const [savedContact, setSavedContact] = React.useState<AddressBookEntry | null>(null);
 
   // Decode hex asset name to readable string
   const decodeAssetName = (name: string): string => {
@@ -258,12 +282,19 @@ export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) =>
     return () => clearTimeout(timer);
   }, [recipient]);
 
+  // Saved contact for the current recipient, if any
+  const finalRecipientAddress = resolvedRecipient?.address || (isValidAddress ? recipient : "");
+  const recipientContact = finalRecipientAddress ? findContact(network, finalRecipientAddress) : undefined;
+
   // Calculate if can proceed
   const canProceed = React.useMemo(() => {
     const hasValidRecipient = isValidAddress || (resolvedRecipient?.address && !handleError);
-    const hasAssets = assetsToSend.some(a => parseFloat(a.amount) > 0);
-    return hasValidRecipient && hasAssets && !isResolvingHandle;
-  }, [isValidAddress, resolvedRecipient, handleError, assetsToSend, isResolvingHandle]);
+    const hasAssets = isEmptyingWallet || sendMaxAda || assetsToSend.some(a => parseFloat(a.amount) > 0);
+    const memoReady = !encryptMemo || !memo.trim() || memoPassphrase.length > 0;
+    return hasValidRecipient && hasAssets && memoReady && !isResolvingHandle;
+  }, [isValidAddress, resolvedRecipient, handleError, assetsToSend, isEmptyingWallet, sendMaxAda, encryptMemo, memo, memoPassphrase, isResolvingHandle]);
+
+  const isSendAll = sendMaxAda || isEmptyingWallet;
 
   // Update asset amount
   const updateAssetAmount = (unit: string, amount: string) => {
@@ -272,15 +303,18 @@ export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) =>
     ));
   };
 
+  // Fee from the last dry-run, or a typical fee before one has run
+  const estimatedFee = estimate ? lovelaceToAda(estimate.fee) : "0.20";
+
   // Set max for asset
   const setMaxAmount = (unit: string) => {
     const asset = assetsToSend.find(a => a.unit === unit);
     if (!asset) return;
     
     if (unit === "lovelace") {
-      // For ADA, maxAmount is already in ADA format, subtract fee
-      const max = Math.max(0, parseFloat(asset.maxAmount) - parseFloat(estimatedFee) - 1);
-      updateAssetAmount(unit, max.toFixed(6));
+      // For ADA, the exact amount after fees and min-UTxO of kept tokens is computed by the dry-run
+      updateAssetAmount(unit, "");
+      setSendMaxAda(true);
     } else {
       // For tokens, maxAmount is raw quantity - need to format with decimals
       const formattedMax = formatRawQuantity(asset.maxAmount, asset.decimals);
@@ -309,12 +343,165 @@ export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) =>
     setAssetsToSend(prev => prev.filter(a => a.unit !== unit));
   };
 
+  // Prefill recipient, amounts and memo from a CIP-13 payment request
+  const applyPaymentRequest = (request: Cip13PaymentRequest) => {
+    const notices: string[] = [];
+    const ada = availableAssets.find(a => a.unit === "lovelace");
+    const token = request.asset ? availableAssets.find(a => a.unit === request.asset!.unit) : undefined;
+
+    if (request.asset && !token) {
+      notices.push("The requested token is not in this wallet.");
+    }
+
+    setRecipient(request.address);
+    setIsEmptyingWallet(false);
+    setSendMaxAda(false);
+    setAssetsToSend(prev => {
+      const next: AssetToSend[] = prev.some(a => a.unit === "lovelace") || !ada ? [...prev] : [{
+        unit: "lovelace",
+        name: "Cardano",
+        ticker: "ADA",
+        type: "ada",
+        amount: "",
+        maxAmount: ada.quantity,
+        decimals: 6,
+      }];
+
+      const adaAmount = request.lovelace ? formatAdaAmount(request.lovelace) : "";
+      const withAda = next.map(a => (a.unit === "lovelace" ? { ...a, amount: adaAmount } : a));
+
+      if (!token || !request.asset) return withAda;
+      const tokenAmount = formatRawQuantity(request.asset.quantity, token.decimals);
+      if (withAda.some(a => a.unit === token.unit)) {
+        return withAda.map(a => (a.unit === token.unit ? { ...a, amount: tokenAmount } : a));
+      }
+      return [...withAda, {
+        unit: token.unit,
+        name: token.name,
+        ticker: token.ticker,
+        type: token.type,
+        amount: tokenAmount,
+        maxAmount: token.quantity,
+        decimals: token.decimals,
+        image: token.image,
+      }];
+    });
+
+    if (request.memo) {
+      setMemo(request.memo.slice(0, 256));
+      setEncryptMemo(false);
+    }
+
+    setUriNotice(notices.length > 0 ? notices.join(" ") : "Payment request loaded. Check the details before sending.");
+  };
+
+  // Recipient text: bare address, $handle or a web+cardano link
+  // The raw text stays in the field until a link parses, so a partial or mistyped link can still be edited.
+  const handleRecipientInput = (text: string) => {
+    setUriNotice(null);
+    setRecipient(text);
+    if (!isCip13Uri(text)) return;
+
+    const uri = parseCip13Uri(text);
+    if (!uri) {
+      setUriNotice("Invalid Cardano payment link");
+      return;
+    }
+
+    switch (uri.type) {
+      case "payment":
+        applyPaymentRequest(uri);
+        break;
+      case "stake":
+        setUriNotice(`This is a delegation link for ${uri.pools.map(p => shortenAddress(p.pool, 8)).join(", ")}. Use Staking to delegate.`);
+        break;
+      case "claim":
+        setUriNotice("This is a token claim link, not a payment request.");
+        break;
+      case "browse":
+        setUriNotice(`This link opens a dApp (${uri.url}), not a payment request.`);
+        break;
+    }
+  };
+
   // Handle QR scan
-  const handleQRScan = (scannedAddress: string) => {
-    setRecipient(scannedAddress);
+  const handleQRScan = (scanned: string) => {
+    handleRecipientInput(scanned);
     setShowQRScanner(false);
   };
 
+  // Build transaction outputs from the entered amounts
+  const buildOutputs = (): MultiAssetOutput[] => {
+    const outputs: MultiAssetOutput[] = [];
+
+    if (isEmptyingWallet) return outputs;
+
+    for (const asset of assetsToSend) {
+      if (asset.unit === "lovelace" && sendMaxAda) continue;
+      const amount = parseFloat(asset.amount);
+      if (amount > 0) {
+        if (asset.unit === "lovelace") {
+          outputs.push({
+            unit: "lovelace",
+            quantity: adaToLovelace(asset.amount),
+          });
+        } else {
+          // Convert to smallest unit based on decimals
+          // e.g., 10.5 with 6 decimals = 10500000
+          const multiplier = Math.pow(10, asset.decimals);
+          const rawQuantity = Math.floor(amount * multiplier).toString();
+          outputs.push({
+            unit: asset.unit,
+            quantity: rawQuantity,
+          });
+        }
+      }
+    }
+
+    return outputs;
+  };
+
+  // Memo and send-all options shared by the dry-run and the real send
+  const buildSendOptions = (): MultiAssetSendOptions => ({
+    message: memo,
+    messagePassphrase: encryptMemo ? memoPassphrase : undefined,
+    sendAll: isSendAll,
+    sweepAssets: isEmptyingWallet,
+    coinControl: buildCoinControl(activeWalletId, selectedInputs),
+  });
+
+  // Dry-run the exact transaction to get the real fee, min-ADA and change
+  const runEstimate = async () => {
+    setEstimate(null);
+    setEstimateError(null);
+
+    const walletInstance = useWalletStore.getState()._walletInstance;
+    if (!walletInstance) {
+      setEstimateError("Wallet not initialized");
+      return;
+    }
+
+    setIsEstimating(true);
+    try {
+      const { estimateMultiAssetTransaction } = await import("@/lib/cardano");
+      const result = await estimateMultiAssetTransaction(
+        walletInstance,
+        resolvedRecipient?.address || recipient,
+        buildOutputs(),
+        network,
+        buildSendOptions()
+      );
+
+      if (result.success && result.estimate) {
+        setEstimate(result.estimate);
+      } else {
+        setEstimateError(result.error || "Could not estimate transaction");
+      }
+    } finally {
+      setIsEstimating(false);
+    }
+  };
+
   // Continue to confirmation
   const handleContinue = () => {
     setError(null);
@@ -327,10 +514,13 @@ export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) =>
         setError("Invalid recipient address or ADA Handle");
       } else if (!assetsToSend.some(a => parseFloat(a.amount) > 0)) {
         setError("Please enter an amount");
+      } else if (encryptMemo && !memoPassphrase) {
+        setError("Please enter a passphrase for the encrypted note");
       }
       return;
     }
     setStep("confirm");
+    runEstimate();
   };
 
   // Confirm and go to PIN
@@ -341,17 +531,13 @@ export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) =>
   };
 
   // Verify PIN and send
-  const handlePinComplete = async (enteredPin: string) => {
+  const handlePinComplete = async (unlock: WalletUnlock) => {
     setPinError(null);
     try {
-      const storedWallet = getStoredWalletForVerification(activeWalletId || undefined);
-      if (!storedWallet || !storedWallet.pinHash) {
-        setPinError("Wallet configuration error");
-        return;
-      }
-      const isValid = verifyPin(enteredPin, storedWallet.pinHash);
+      const isValid = await verifyWalletPin(unlock, activeWalletId || undefined);
       if (!isValid) {
         setPinError("Invalid PIN. Please try again.");
+        pinAttempts.refresh();
         setPin("");
         return;
       }
@@ -383,39 +569,26 @@ export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) =>
       }
 
       // Build outputs
-      const outputs: MultiAssetOutput[] = [];
-      
-      for (const asset of assetsToSend) {
-        const amount = parseFloat(asset.amount);
-        if (amount > 0) {
-          if (asset.unit === "lovelace") {
-            outputs.push({
-              unit: "lovelace",
-              quantity: adaToLovelace(asset.amount),
-            });
-          } else {
-            // Convert to smallest unit based on decimals
-            // e.g., 10.5 with 6 decimals = 10500000
-            const multiplier = Math.pow(10, asset.decimals);
-            const rawQuantity = Math.floor(amount * multiplier).toString();
-            outputs.push({
-              unit: asset.unit,
-              quantity: rawQuantity,
-            });
-          }
-        }
-      }
+      const outputs = buildOutputs();
 
-      if (outputs.length === 0) {
+      if (outputs.length === 0 && !isSendAll) {
         throw new Error("No assets to send");
       }
 
       // Use multi-asset transaction with current network
       const { sendMultiAssetTransaction } = await import("@/lib/cardano");
-      const result = await sendMultiAssetTransaction(walletInstance, finalRecipient, outputs, network);
+      const result = await sendMultiAssetTransaction(
+        walletInstance,
+        finalRecipient,
+        outputs,
+        network,
+        buildSendOptions()
+      );
 
       if (result.success && result.txHash) {
         setTxHash(result.txHash);
+        markContactUsed(network, [finalRecipient]);
+        setShowSaveContact(false);
         setStep("success");
         onSuccess?.(result.txHash);
 
@@ -493,19 +666,28 @@ export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) =>
           <Card padding="lg">
             <div className="flex items-center justify-between mb-2">
               <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
-                Recipient Address or ADA Handle
+                Recipient Address, ADA Handle or Payment Link
               </label>
-              <button
-                onClick={() => setShowQRScanner(true)}
-                className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 font-medium"
-              >
-                <QRCodeIcon className="w-4 h-4" />
-                Scan QR
-              </button>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => setShowAddressBook(true)}
+                  className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  <ContactsIcon className="w-4 h-4" />
+                  Contacts
+                </button>
+                <button
+                  onClick={() => setShowQRScanner(true)}
+                  className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  <QRCodeIcon className="w-4 h-4" />
+                  Scan QR
+                </button>
+              </div>
             </div>
             <textarea
               value={recipient}
-              onChange={(e) => setRecipient(e.target.value.trim())}
+              onChange={(e) => handleRecipientInput(e.target.value.trim())}
               placeholder={network === "mainnet" ? "addr1... or $handle" : "addr_test1... or $handle"}
               rows={2}
               className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm font-mono resize-none focus:ring-2 focus:ring-blue-500"
@@ -518,6 +700,7 @@ export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) =>
               </p>
             )}
             {handleError && <p className="text-sm text-red-500 mt-2">{handleError}</p>}
+            {uriNotice && <p className="text-sm text-blue-600 dark:text-blue-400 mt-2">{uriNotice}</p>}
             {resolvedRecipient?.isHandle && resolvedRecipient.address && (
               <div className="mt-2 p-2 bg-green-50 dark:bg-green-900/20 rounded-lg">
                 <p className="text-sm text-green-600 dark:text-green-400 flex items-center gap-1">
@@ -531,7 +714,7 @@ export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) =>
             )}
             {recipient && !isAdaHandle(recipient) && isValidAddress && (
               <p className="text-sm text-green-500 mt-2 flex items-center gap-1">
-                <CheckIcon className="w-4 h-4" /> Valid address
+                <CheckIcon className="w-4 h-4" /> {recipientContact ? recipientContact.label : "Valid address"}
               </p>
             )}
           </Card>
@@ -540,88 +723,129 @@ export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) =>
           <Card padding="lg">
             <div className="flex items-center justify-between mb-4">
               <h3 className="font-medium text-gray-900 dark:text-white">Assets to Send</h3>
-              {assetsNotAdded.length > 0 && (
+              <div className="flex items-center gap-3">
+                {!isEmptyingWallet && assetsNotAdded.length > 0 && (
+                  <button
+                    onClick={() => setStep("add-asset")}
+                    className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    <PlusIcon className="w-4 h-4" />
+                    Add Asset
+                  </button>
+                )}
+                {!isEmptyingWallet && (
+                  <button
+                    onClick={() => setIsEmptyingWallet(true)}
+                    className="text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 font-medium"
+                  >
+                    Send All
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {isEmptyingWallet ? (
+              <div className="bg-blue-50 dark:bg-blue-900/20 rounded-xl p-4 space-y-3">
+                <p className="text-sm text-blue-800 dark:text-blue-200">
+                  {selectedInputs.length > 0
+                    ? "Everything in the selected UTxOs will be sent to the recipient: all ADA after fees and every token they hold."
+                    : `Everything in this wallet will be sent to the recipient: all ADA after fees${
+                        availableAssets.length > 1 ? ` and ${availableAssets.length - 1} token${availableAssets.length > 2 ? "s" : ""}` : ""
+                      }.`}
+                </p>
+                <p className="text-xs text-blue-700 dark:text-blue-300">
+                  Large token bundles are split over several outputs automatically.
+                </p>
                 <button
-                  onClick={() => setStep("add-asset")}
-                  className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                  onClick={() => setIsEmptyingWallet(false)}
+                  className="text-sm text-blue-600 hover:text-blue-700 font-medium"
                 >
-                  <PlusIcon className="w-4 h-4" />
-                  Add Asset
+                  Choose assets instead
                 </button>
-              )}
-            </div>
-
-            <div className="space-y-4">
-              {assetsToSend.map((asset) => (
-                <div key={asset.unit} className="bg-gray-50 dark:bg-gray-900 rounded-xl p-4">
-                  <div className="flex items-center justify-between mb-3">
-                    <div className="flex items-center gap-3">
-                      <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
-                        asset.type === "ada" 
-                          ? "bg-blue-100 dark:bg-blue-900/30"
-                          : asset.type === "nft"
-                          ? "bg-purple-100 dark:bg-purple-900/30"
-                          : "bg-green-100 dark:bg-green-900/30"
-                      }`}>
-                        {asset.type === "ada" ? (
-                          <span className="text-xl font-bold text-blue-600">₳</span>
-                        ) : asset.type === "nft" ? (
-                          <NFTIcon className="w-5 h-5 text-purple-600" />
-                        ) : (
-                          <TokenIcon className="w-5 h-5 text-green-600" />
-                        )}
-                      </div>
-                      <div>
-                        <p className="font-medium text-gray-900 dark:text-white">{asset.name}</p>
-                        <p className="text-xs text-gray-500">
-                          Balance: {asset.type === "ada" 
-                            ? formatQuantity(asset.maxAmount, asset.decimals, asset.ticker)
-                            : `${formatDisplayNumber(parseFloat(formatRawQuantity(asset.maxAmount, asset.decimals)), asset.decimals)} ${asset.ticker || ""}`
-                          }
-                        </p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {assetsToSend.map((asset) => (
+                  <div key={asset.unit} className="bg-gray-50 dark:bg-gray-900 rounded-xl p-4">
+                    <div className="flex items-center justify-between mb-3">
+                      <div className="flex items-center gap-3">
+                        <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
+                          asset.type === "ada" 
+                            ? "bg-blue-100 dark:bg-blue-900/30"
+                            : asset.type === "nft"
+                            ? "bg-purple-100 dark:bg-purple-900/30"
+                            : "bg-green-100 dark:bg-green-900/30"
+                        }`}>
+                          {asset.type === "ada" ? (
+                            <span className="text-xl font-bold text-blue-600">₳</span>
+                          ) : asset.type === "nft" ? (
+                            <NFTIcon className="w-5 h-5 text-purple-600" />
+                          ) : (
+                            <TokenIcon className="w-5 h-5 text-green-600" />
+                          )}
+                        </div>
+                        <div>
+                          <p className="font-medium text-gray-900 dark:text-white">{asset.name}</p>
+                          <p className="text-xs text-gray-500">
+                            Balance: {asset.type === "ada" 
+                              ? formatQuantity(asset.maxAmount, asset.decimals, asset.ticker)
+                              : `${formatDisplayNumber(parseFloat(formatRawQuantity(asset.maxAmount, asset.decimals)), asset.decimals)} ${asset.ticker || ""}`
+                            }
+                          </p>
+                        </div>
                       </div>
+                      {asset.unit !== "lovelace" && (
+                        <button
+                          onClick={() => removeAsset(asset.unit)}
+                          className="p-1 text-gray-400 hover:text-red-500"
+                        >
+                          <XIcon className="w-5 h-5" />
+                        </button>
+                      )}
                     </div>
-                    {asset.unit !== "lovelace" && (
-                      <button
-                        onClick={() => removeAsset(asset.unit)}
-                        className="p-1 text-gray-400 hover:text-red-500"
-                      >
-                        <XIcon className="w-5 h-5" />
-                      </button>
+  
+                    {asset.type === "nft" ? (
+                      <div className="text-center py-2 bg-purple-50 dark:bg-purple-900/20 rounded-lg">
+                        <p className="text-sm text-purple-600 dark:text-purple-400">1 NFT (whole unit)</p>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2">
+                        <input
+                          type="number"
+                          value={asset.amount}
+                          onChange={(e) => {
+                            if (asset.unit === "lovelace") setSendMaxAda(false);
+                            updateAssetAmount(asset.unit, e.target.value);
+                          }}
+                          placeholder={asset.unit === "lovelace" && sendMaxAda ? "All ADA after fees" : "0.00"}
+                          className="flex-1 px-4 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                        />
+                        <button
+                          onClick={() => setMaxAmount(asset.unit)}
+                          className={`px-3 py-2 text-sm font-medium rounded-lg ${
+                            asset.unit === "lovelace" && sendMaxAda
+                              ? "text-white bg-blue-600 hover:bg-blue-700"
+                              : "text-blue-600 bg-blue-50 dark:bg-blue-900/30 hover:bg-blue-100"
+                          }`}
+                        >
+                          MAX
+                        </button>
+                      </div>
                     )}
                   </div>
-
-                  {asset.type === "nft" ? (
-                    <div className="text-center py-2 bg-purple-50 dark:bg-purple-900/20 rounded-lg">
-                      <p className="text-sm text-purple-600 dark:text-purple-400">1 NFT (whole unit)</p>
-                    </div>
-                  ) : (
-                    <div className="flex gap-2">
-                      <input
-                        type="number"
-                        value={asset.amount}
-                        onChange={(e) => updateAssetAmount(asset.unit, e.target.value)}
-                        placeholder="0.00"
-                        className="flex-1 px-4 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
-                      />
-                      <button
-                        onClick={() => setMaxAmount(asset.unit)}
-                        className="px-3 py-2 text-sm font-medium text-blue-600 bg-blue-50 dark:bg-blue-900/30 rounded-lg hover:bg-blue-100"
-                      >
-                        MAX
-                      </button>
-                    </div>
-                  )}
-                </div>
-              ))}
-            </div>
+                ))}
+              </div>
+            )}
           </Card>
 
-          {/* Fee Info */}
-          <Card padding="md">
+          {/* Inputs and Fee Info */}
+          <Card padding="md" className="space-y-3">
+            <CoinControlPicker selected={selectedInputs} onChange={setSelectedInputs} />
             <div className="flex justify-between text-sm">
               <span className="text-gray-500">Estimated Fee</span>
-              <span className="text-gray-900 dark:text-white">~{estimatedFee} ADA</span>
+              <span className="text-gray-900 dark:text-white">
+                {estimate ? `${estimatedFee} ADA` : "Calculated on confirm"}
+              </span>
             </div>
           </Card>
 
@@ -639,6 +863,12 @@ export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) =>
               className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm resize-none focus:ring-2 focus:ring-blue-500"
             />
             <p className="text-xs text-gray-400 mt-1 text-right">{memo.length}/256</p>
+            <MemoEncryptionToggle
+              enabled={encryptMemo}
+              passphrase={memoPassphrase}
+              onEnabledChange={setEncryptMemo}
+              onPassphraseChange={setMemoPassphrase}
+            />
           </Card>
 
           {error && (
@@ -659,6 +889,11 @@ export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) =>
         </div>
 
         <QRScanner isOpen={showQRScanner} onScan={handleQRScan} onClose={() => setShowQRScanner(false)} />
+        <AddressBookPicker
+          isOpen={showAddressBook}
+          onClose={() => setShowAddressBook(false)}
+          onSelect={(entry) => handleRecipientInput(entry.address)}
+        />
       </div>
     );
   }
@@ -736,6 +971,16 @@ export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) =>
   // STEP: Confirm
   // =====================
   if (step === "confirm") {
+    // Send-all amounts are only known from the dry-run
+    const sentLovelace = (estimate?.outputs || []).reduce(
+      (sum, output) => sum + BigInt(output.amounts[0]?.quantity || "0"),
+      BigInt(0)
+    );
+    const sentTokenCount = (estimate?.outputs || []).reduce(
+      (count, output) => count + output.amounts.length - 1,
+      0
+    );
+
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
         <header className="flex items-center gap-3 mb-6">
@@ -750,11 +995,26 @@ export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) =>
           <div className="text-center py-4">
             <p className="text-sm text-gray-500 mb-2">You are sending</p>
             <div className="space-y-1">
-              {assetsToSend.filter(a => parseFloat(a.amount) > 0).map((asset) => (
-                <p key={asset.unit} className="text-xl font-bold text-gray-900 dark:text-white">
-                  {asset.amount} {asset.ticker || asset.name}
+              {isSendAll && (
+                <p className="text-xl font-bold text-gray-900 dark:text-white">
+                  {estimate ? lovelaceToAda(sentLovelace.toString()) : "All"} ADA
                 </p>
-              ))}
+              )}
+              {isEmptyingWallet ? (
+                sentTokenCount > 0 && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    + {sentTokenCount} token{sentTokenCount > 1 ? "s" : ""} (entire wallet)
+                  </p>
+                )
+              ) : (
+                assetsToSend
+                  .filter(a => parseFloat(a.amount) > 0 && !(a.unit === "lovelace" && sendMaxAda))
+                  .map((asset) => (
+                    <p key={asset.unit} className="text-xl font-bold text-gray-900 dark:text-white">
+                      {asset.amount} {asset.ticker || asset.name}
+                    </p>
+                  ))
+              )}
             </div>
           </div>
 
@@ -773,6 +1033,9 @@ export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) =>
 
             <div className="bg-gray-50 dark:bg-gray-900 rounded-xl p-4">
               <p className="text-xs text-gray-500 mb-1">To</p>
+              {recipientContact && (
+                <p className="text-sm font-medium text-gray-900 dark:text-white mb-1">{recipientContact.label}</p>
+              )}
               {resolvedRecipient?.isHandle && (
                 <p className="text-sm font-medium text-blue-600 mb-1">{resolvedRecipient.handleName}</p>
               )}
@@ -784,7 +1047,9 @@ export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) =>
             {/* Memo/Note */}
             {memo && (
               <div className="bg-gray-50 dark:bg-gray-900 rounded-xl p-4">
-                <p className="text-xs text-gray-500 mb-1">Note / Memo</p>
+                <p className="text-xs text-gray-500 mb-1">
+                  Note / Memo{encryptMemo ? " (encrypted)" : ""}
+                </p>
                 <p className="text-sm text-gray-900 dark:text-white">{memo}</p>
               </div>
             )}
@@ -800,19 +1065,63 @@ export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) =>
             </div>
           </div>
 
-          {/* Fee */}
-          <div className="bg-gray-50 dark:bg-gray-900 rounded-xl p-4">
-            <div className="flex justify-between text-sm">
-              <span className="text-gray-500">Network Fee</span>
-              <span className="text-gray-900 dark:text-white">~{estimatedFee} ADA</span>
-            </div>
+          {/* Fee, min-ADA and change from the dry-run */}
+          <div className="bg-gray-50 dark:bg-gray-900 rounded-xl p-4 space-y-2 text-sm">
+            {isEstimating ? (
+              <p className="text-gray-500 text-center">Calculating fee...</p>
+            ) : estimateError ? (
+              <p className="text-red-600">{estimateError}</p>
+            ) : estimate ? (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-gray-500">Network Fee</span>
+                  <span className="text-gray-900 dark:text-white">{lovelaceToAda(estimate.fee)} ADA</span>
+                </div>
+                {estimate.outputs.map((output, index) => {
+                  const outputAda = lovelaceToAda(output.amounts[0]?.quantity || "0");
+                  const enteredAda = assetsToSend.find(a => a.unit === "lovelace")?.amount || "0";
+                  const isToppedUp = !isSendAll && parseFloat(outputAda) > parseFloat(enteredAda || "0");
+                  return (
+                    <React.Fragment key={index}>
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Min ADA for output</span>
+                        <span className="text-gray-900 dark:text-white">{lovelaceToAda(output.minLovelace)} ADA</span>
+                      </div>
+                      {isToppedUp && (
+                        <p className="text-xs text-yellow-700 dark:text-yellow-300">
+                          {outputAda} ADA will be sent with the tokens to cover the minimum UTxO deposit
+                        </p>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+                {estimate.change.map((output, index) => (
+                  <div key={index} className="flex justify-between">
+                    <span className="text-gray-500">Change back to you</span>
+                    <span className="text-gray-900 dark:text-white text-right">
+                      {lovelaceToAda(output.amounts[0]?.quantity || "0")} ADA
+                      {output.amounts.length > 1 && (
+                        <span className="block text-xs text-gray-500">
+                          + {output.amounts.length - 1} token{output.amounts.length > 2 ? "s" : ""}
+                        </span>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </>
+            ) : null}
           </div>
 
           <div className="grid grid-cols-2 gap-3">
             <Button variant="outline" fullWidth onClick={() => setStep("input")}>
               Edit
             </Button>
-            <Button variant="primary" fullWidth onClick={handleConfirm}>
+            <Button
+              variant="primary"
+              fullWidth
+              onClick={handleConfirm}
+              disabled={isEstimating || !estimate}
+            >
               Confirm
             </Button>
           </div>
@@ -837,7 +1146,15 @@ export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) =>
         <Card padding="lg" className="text-center">
           <LockIcon className="w-12 h-12 text-blue-600 mx-auto mb-4" />
           <p className="text-gray-600 dark:text-gray-400 mb-6">Enter your PIN to confirm the transaction</p>
-          <PinInput value={pin} onChange={setPin} onComplete={handlePinComplete} error={pinError || undefined} autoFocus />
+          <PinInput
+            value={pin}
+            onChange={setPin}
+            onComplete={handlePinComplete}
+            error={pinError || undefined}
+            autoFocus
+            {...pinAttempts.inputProps}
+          />
+          <BiometricUnlockButton walletId={activeWalletId} onUnlock={handlePinComplete} className="mt-6" />
         </Card>
       </div>
     );
@@ -876,6 +1193,28 @@ export const SendScreen: React.FC<SendScreenProps> = ({ onBack, onSuccess }) =>
               <p className="text-sm font-mono text-gray-900 dark:text-white break-all">{txHash}</p>
             </div>
           )}
+          {finalRecipientAddress && !recipientContact && (
+            <div className="mb-4">
+              {showSaveContact ? (
+                <SaveContactForm
+                  address={finalRecipientAddress}
+                  handle={resolvedRecipient?.isHandle ? resolvedRecipient.handleName : undefined}
+                  onSaved={(entry) => {
+                    setSavedContact(entry);
+                    setShowSaveContact(false);
+                  }}
+                  onCancel={() => setShowSaveContact(false)}
+                />
+              ) : (
+                <Button variant="outline" fullWidth onClick={() => setShowSaveContact(true)}>
+                  Save Recipient to Contacts
+                </Button>
+              )}
+            </div>
+          )}
+          {savedContact && (
+            <p className="text-sm text-green-600 mb-4">Saved {savedContact.label} to your contacts</p>
+          )}
           <Button variant="primary" fullWidth onClick={onBack}>
             Done
           </Button>
@@ -931,6 +1270,12 @@ const XIcon: React.FC<{ className?: string }> = ({ className }) => (
   </svg>
 );
 
+const ContactsIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
+  </svg>
+);
+
 const PlusIcon: React.FC<{ className?: string }> = ({ className }) => (
   <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
@@ -2,7 +2,7 @@
 
 import * as React from "react";
 import { Card, Button, PinInput } from "@/components/ui";
-import { useWalletStore, useTelegram } from "@/hooks";
+import { useWalletStore, useTelegram, usePinAttempts } from "@/hooks";
 import {
   getStakeAddressFromAddress,
   getStakingInfo,
@@ -15,11 +15,14 @@ import {
   withdrawRewards, // Keep this for now or replace if Lucid has one
   getCurrentEpoch,
   lovelaceToAda,
+  getWalletDerivation,
   type StakingInfo,
   type StakePoolInfo,
   type EpochReward,
 } from "@/lib/cardano";
-import { verifyPin, getStoredWalletForVerification, decryptWallet } from "@/lib/storage/encryption";
+import { verifyWalletPin, decryptWallet, type WalletUnlock } from "@/lib/storage/encryption";
+import { BiometricUnlockButton } from "./BiometricUnlockButton";
+import { CoinControlPicker, buildCoinControl } from "./CoinControlPicker";
 
 export interface StakingScreenProps {
   onBack: () => void;
@@ -28,7 +31,8 @@ export interface StakingScreenProps {
 type StakingStep = "overview" | "search" | "pool-detail" | "confirm" | "pin" | "processing" | "success" | "error";
 
 export const StakingScreen: React.FC<StakingScreenProps> = ({ onBack }) => {
-  const { walletAddress, activeWalletId, network } = useWalletStore();
+  const { walletAddress, activeWalletId, network, isWatchOnly, _walletInstance } = useWalletStore();
+  const pinAttempts = usePinAttempts(activeWalletId);
   const { initData } = useTelegram();
 
   // State
@@ -55,6 +59,7 @@ export const StakingScreen: React.FC<StakingScreenProps> = ({ onBack }) => {
   const [pinError, setPinError] = React.useState<string | null>(null);
   const [error, setError] = React.useState<string | null>(null);
   const [txHash, setTxHash] = React.useState<string | null>(null);
+  const [selectedInputs, setSelectedInputs] = React.useState<string[]>([]); // Coin control
 
   // Load staking data
   React.useEffect(() => {
@@ -224,21 +229,17 @@ export const StakingScreen: React.FC<StakingScreenProps> = ({ onBack }) => {
   };
 
   // Verify PIN and execute action
-  const handlePinComplete = async (enteredPin: string) => {
+  const handlePinComplete = async (unlock: WalletUnlock) => {
     setPinError(null);
     try {
-      const storedWallet = getStoredWalletForVerification(activeWalletId || undefined);
-      if (!storedWallet || !storedWallet.pinHash) {
-        setPinError("Wallet configuration error");
-        return;
-      }
-      const isValid = verifyPin(enteredPin, storedWallet.pinHash);
+      const isValid = await verifyWalletPin(unlock, activeWalletId || undefined);
       if (!isValid) {
         setPinError("Invalid PIN. Please try again.");
+        pinAttempts.refresh();
         setPin("");
         return;
       }
-      await executeAction(enteredPin);
+      await executeAction(unlock);
     } catch (err) {
       console.error("PIN verification error:", err);
       setPinError("Verification failed. Please try again.");
@@ -247,13 +248,13 @@ export const StakingScreen: React.FC<StakingScreenProps> = ({ onBack }) => {
   };
 
   // Execute delegation or withdrawal
-  const executeAction = async (pin: string) => {
+  const executeAction = async (unlock: WalletUnlock) => {
     setStep("processing");
     setError(null);
 
     try {
-      // Decrypt mnemonic using PIN
-      const mnemonic = decryptWallet(pin, activeWalletId || undefined);
+      // Decrypt mnemonic using PIN or biometrics
+      const mnemonic = await decryptWallet(unlock, activeWalletId || undefined);
       if (!mnemonic) {
         throw new Error("Failed to authenticate wallet. Please try again.");
       }
@@ -262,6 +263,8 @@ export const StakingScreen: React.FC<StakingScreenProps> = ({ onBack }) => {
       const { delegateToPoolLucid, withdrawRewardsLucid, deregisterStakeLucid } = await import('@/lib/cardano/lucid-stake');
 
       let result: { success: boolean; txHash?: string; error?: string; _debug?: any };
+      const coinControl = buildCoinControl(activeWalletId, selectedInputs);
+      const derivation = _walletInstance ? getWalletDerivation(_walletInstance) : {};
 
       if (action === "delegate" && selectedPool) {
         // Diagnostic: log selected pool (non-sensitive)
@@ -272,13 +275,13 @@ export const StakingScreen: React.FC<StakingScreenProps> = ({ onBack }) => {
           // ignore logging errors
         }
         // Use Lucid for delegation
-        result = await delegateToPoolLucid(mnemonic, selectedPool.poolId, network);
+        result = await delegateToPoolLucid(mnemonic, selectedPool.poolId, network, coinControl, derivation);
       } else if (action === "withdraw") {
         // Use Lucid for withdrawal
-        result = await withdrawRewardsLucid(mnemonic, network);
+        result = await withdrawRewardsLucid(mnemonic, network, coinControl, derivation);
       } else if (action === "undelegate") {
         // Use Lucid for deregistration
-        result = await deregisterStakeLucid(mnemonic, network);
+        result = await deregisterStakeLucid(mnemonic, network, coinControl, derivation);
       } else {
         throw new Error("Invalid action");
       }
@@ -377,14 +380,16 @@ export const StakingScreen: React.FC<StakingScreenProps> = ({ onBack }) => {
                         [{currentPool.ticker}] {currentPool.name}
                       </p>
                     </div>
-                    <Button 
-                      variant="outline" 
-                      size="sm" 
-                      className="ml-2 border-red-200 text-red-600 hover:bg-red-50 dark:border-red-800 dark:text-red-400 dark:hover:bg-red-900/20"
-                      onClick={handleStartUndelegation}
-                    >
-                      Undelegate
-                    </Button>
+                    {!isWatchOnly && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="ml-2 border-red-200 text-red-600 hover:bg-red-50 dark:border-red-800 dark:text-red-400 dark:hover:bg-red-900/20"
+                        onClick={handleStartUndelegation}
+                      >
+                        Undelegate
+                      </Button>
+                    )}
                   </div>
                   
                   {/* Pool Details */}
@@ -507,6 +512,11 @@ export const StakingScreen: React.FC<StakingScreenProps> = ({ onBack }) => {
             )}
 
             {/* Actions */}
+            {isWatchOnly ? (
+              <p className="text-sm text-center text-gray-500 dark:text-gray-400">
+                Watch-only wallet: delegation and withdrawals need the wallet&apos;s keys.
+              </p>
+            ) : (
             <div className="space-y-3">
               {stakingInfo?.active ? (
                 <>
@@ -554,6 +564,7 @@ export const StakingScreen: React.FC<StakingScreenProps> = ({ onBack }) => {
                 </>
               )}
             </div>
+            )}
 
             {/* Info Card */}
             <Card padding="md" className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800">
@@ -1012,6 +1023,11 @@ export const StakingScreen: React.FC<StakingScreenProps> = ({ onBack }) => {
             </>
           )}
 
+          {/* Inputs used to pay the fee (and deposit) */}
+          <div className="bg-gray-50 dark:bg-gray-900 rounded-xl p-4">
+            <CoinControlPicker selected={selectedInputs} onChange={setSelectedInputs} />
+          </div>
+
           <div className="grid grid-cols-2 gap-3">
             <Button variant="outline" fullWidth onClick={() => setStep("overview")}>
               Cancel
@@ -1043,7 +1059,15 @@ export const StakingScreen: React.FC<StakingScreenProps> = ({ onBack }) => {
           <p className="text-gray-600 dark:text-gray-400 mb-6">
             Enter your PIN to confirm the {action === "delegate" ? "delegation" : action === "withdraw" ? "withdrawal" : "undelegation"}
           </p>
-          <PinInput value={pin} onChange={setPin} onComplete={handlePinComplete} error={pinError || undefined} autoFocus />
+          <PinInput
+            value={pin}
+            onChange={setPin}
+            onComplete={handlePinComplete}
+            error={pinError || undefined}
+            autoFocus
+            {...pinAttempts.inputProps}
+          />
+          <BiometricUnlockButton walletId={activeWalletId} onUnlock={handlePinComplete} className="mt-6" />
         </Card>
       </div>
     );
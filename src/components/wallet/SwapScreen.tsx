@@ -1,7 +1,7 @@
 "use client";
 
 import * as React from "react";
-import { useWalletStore, useTelegram } from "@/hooks";
+import { useWalletStore, useTelegram, useTransactionReview } from "@/hooks";
 import {
   Token,
   ADA_TOKEN,
@@ -14,12 +14,14 @@ import {
   lovelaceToAda,
   DexHunterError,
 } from "@/lib/dexhunter-api";
+import { getWalletDerivation } from "@/lib/cardano";
+import { TransactionReviewModal } from "./TransactionReviewModal";
 
 export interface SwapScreenProps {
   onBack: () => void;
 }
 
-type SwapStatus = 'idle' | 'estimating' | 'building' | 'signing' | 'submitting' | 'success' | 'error';
+type SwapStatus = 'idle' | 'estimating' | 'building' | 'reviewing' | 'signing' | 'submitting' | 'success' | 'error';
 
 // Token Icon Component with fallback and IPFS support
 const TokenIcon: React.FC<{ token: Token; size?: 'sm' | 'md' | 'lg' }> = ({ token, size = 'md' }) => {
@@ -69,6 +71,7 @@ const TokenIcon: React.FC<{ token: Token; size?: 'sm' | 'md' | 'lg' }> = ({ toke
 export const SwapScreen: React.FC<SwapScreenProps> = ({ onBack }) => {
   const { _walletInstance, _mnemonic, network, balance, refreshBalance } = useWalletStore();
   const { initData, colorScheme } = useTelegram();
+  const { requestReview, reviewProps } = useTransactionReview();
   
   // Swap state
   const [tokenIn, setTokenIn] = React.useState<Token>(ADA_TOKEN);
@@ -387,10 +390,22 @@ export const SwapScreen: React.FC<SwapScreenProps> = ({ onBack }) => {
       const address = await getWalletAddress();
       const buildResult = await buildSwapTransaction(address, tokenIn.id, tokenOut.id, amountValue, slippage);
 
+      // Confirm the decoded transaction, not just the estimate
+      setStatus('reviewing');
+      if (!(await requestReview(buildResult.cbor))) {
+        throw new Error('Transaction was cancelled');
+      }
+
       // Sign and submit
       setStatus('signing');
       setStatus('submitting');
-      const hash = await signAndSubmitWithLucid(buildResult.cbor, _mnemonic, network === 'mainnet' ? 'mainnet' : 'preprod');
+      const hash = await signAndSubmitWithLucid(
+        buildResult.cbor,
+        _mnemonic,
+        network,
+        getWalletDerivation(_walletInstance).accountIndex,
+        getWalletDerivation(_walletInstance).password
+      );
 
       setTxHash(hash);
       setStatus('success');
@@ -461,6 +476,7 @@ export const SwapScreen: React.FC<SwapScreenProps> = ({ onBack }) => {
     if (status === 'success') return { text: 'Swap Again', disabled: false, color: 'bg-green-500 hover:bg-green-600' };
     if (status === 'estimating') return { text: 'Getting quote...', disabled: true, color: 'bg-gray-400' };
     if (status === 'building') return { text: 'Building...', disabled: true, color: 'bg-gray-400' };
+    if (status === 'reviewing') return { text: 'Review transaction...', disabled: true, color: 'bg-gray-400' };
     if (status === 'signing') return { text: 'Signing...', disabled: true, color: 'bg-gray-400' };
     if (status === 'submitting') return { text: 'Submitting...', disabled: true, color: 'bg-gray-400' };
     if (!isMainnet) return { text: 'Switch to Mainnet', disabled: true, color: 'bg-gray-400' };
@@ -897,6 +913,8 @@ The rest comes back to you!`;
           </div>
         </div>
       )}
+
+      <TransactionReviewModal {...reviewProps} origin="DexHunter" />
     </div>
   );
 };
@@ -0,0 +1,342 @@
+"use client";
+
+import * as React from "react";
+import { Card, Button, Input } from "@/components/ui";
+import {
+  getTransactionDetails,
+  decryptCip20Message,
+  formatTimestamp,
+  lovelaceToAda,
+  shortenAddress,
+  type TransactionCertificate,
+  type TransactionInfo,
+  type TransactionKind,
+  type TransactionUTxO,
+  type CardanoNetwork,
+} from "@/lib/cardano";
+
+export interface TransactionDetailProps {
+  transaction: TransactionInfo | null;
+  network: CardanoNetwork;
+  isOpen: boolean;
+  onClose: () => void;
+  ownAddresses?: string[]; // Wallet addresses, highlighted in inputs/outputs
+}
+
+const KIND_TITLES: Record<TransactionKind, string> = {
+  send: "Sent",
+  receive: "Received",
+  self: "Sent to Self",
+  swap: "Swap",
+  delegation: "Stake Delegation",
+  vote_delegation: "Vote Delegation",
+  withdrawal: "Rewards Withdrawn",
+  mint: "Minted",
+};
+
+const CERTIFICATE_TITLES: Record<TransactionCertificate["type"], string> = {
+  stake_registration: "Stake key registration",
+  stake_deregistration: "Stake key deregistration",
+  stake_delegation: "Delegate to pool",
+  vote_delegation: "Delegate voting power",
+  stake_vote_delegation: "Delegate to pool and DRep",
+  drep_registration: "DRep registration",
+  drep_deregistration: "DRep retirement",
+  drep_update: "DRep update",
+  other: "Other certificate",
+};
+
+const describeDRep = (drep: string): string => {
+  if (drep === "always_abstain") return "Always Abstain";
+  if (drep === "always_no_confidence") return "Always No Confidence";
+  return shortenAddress(drep, 12);
+};
+
+// Decode hex asset name to readable string
+const decodeAssetName = (name: string): string => {
+  if (!name) return "Unknown";
+  try {
+    const decoded = Buffer.from(name, "hex").toString("utf8");
+    if (/^[\x20-\x7E]+$/.test(decoded)) {
+      return decoded;
+    }
+  } catch {
+    // If decode fails, return original
+  }
+  return shortenAddress(name, 6);
+};
+
+const formatUnit = (unit: string): string => decodeAssetName(unit.slice(56));
+
+const explorerTxUrl = (network: CardanoNetwork, hash: string): string => {
+  const prefix = network === "mainnet" ? "" : `${network}.`;
+  return `https://${prefix}cardanoscan.io/transaction/${hash}`;
+};
+
+export const TransactionDetail: React.FC<TransactionDetailProps> = ({
+  transaction,
+  network,
+  isOpen,
+  onClose,
+  ownAddresses,
+}) => {
+  const [details, setDetails] = React.useState<TransactionInfo | null>(null);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [passphrase, setPassphrase] = React.useState("");
+  const [decrypted, setDecrypted] = React.useState<string | null>(null);
+  const [decryptError, setDecryptError] = React.useState<string | null>(null);
+
+  // Load full details whenever a different transaction is opened
+  React.useEffect(() => {
+    setDetails(null);
+    setPassphrase("");
+    setDecrypted(null);
+    setDecryptError(null);
+
+    if (!isOpen || !transaction?.hash) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    getTransactionDetails(transaction.hash, ownAddresses, network)
+      .then((result) => {
+        if (!cancelled) setDetails(result);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, transaction?.hash, network, ownAddresses]);
+
+  if (!isOpen || !transaction) return null;
+
+  // List data (direction/amount) merged with fetched details (fee/size/metadata)
+  const tx: TransactionInfo = { ...transaction, ...(details || {}) };
+  const isIncoming = tx.direction === "incoming";
+  const isOutgoing = tx.direction === "outgoing";
+
+  const handleDecrypt = () => {
+    if (!tx.encryptedMessage) return;
+    const message = decryptCip20Message(tx.encryptedMessage, passphrase);
+    if (message === null) {
+      setDecryptError("Wrong passphrase or unreadable message");
+      setDecrypted(null);
+      return;
+    }
+    setDecryptError(null);
+    setDecrypted(message);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-4">
+      <Card padding="lg" className="w-full max-w-md max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+            {tx.kind ? KIND_TITLES[tx.kind] : isIncoming ? "Received" : isOutgoing ? "Sent" : "Transaction"}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg"
+          >
+            <CloseIcon className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {tx.amount && parseFloat(String(tx.amount)) > 0 && (
+            <p
+              className={`text-2xl font-bold text-center ${
+                isIncoming ? "text-green-600" : isOutgoing ? "text-red-600" : "text-gray-900 dark:text-white"
+              }`}
+            >
+              {isIncoming ? "+" : isOutgoing ? "-" : ""}{String(tx.amount)} ADA
+            </p>
+          )}
+
+          {/* Net token movements */}
+          {tx.assetMovements && tx.assetMovements.length > 0 && (
+            <div className="space-y-1">
+              {tx.assetMovements.map((movement) => (
+                <p
+                  key={movement.unit}
+                  className={`text-sm text-center font-medium ${
+                    movement.quantity.startsWith("-") ? "text-red-600" : "text-green-600"
+                  }`}
+                >
+                  {movement.quantity.startsWith("-") ? "" : "+"}
+                  {movement.quantity} {formatUnit(movement.unit)}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="bg-gray-50 dark:bg-gray-900 rounded-xl p-4 space-y-3 text-sm">
+            <DetailRow label="Date" value={tx.blockTime ? formatTimestamp(tx.blockTime) : "Pending"} />
+            {tx.blockHeight !== undefined && <DetailRow label="Block" value={String(tx.blockHeight)} />}
+            <DetailRow
+              label="Network Fee"
+              value={tx.fees ? `${lovelaceToAda(tx.fees)} ADA` : isLoading ? "Loading..." : "-"}
+            />
+            {tx.size !== undefined && <DetailRow label="Size" value={`${tx.size} bytes`} />}
+            {tx.deposit && tx.deposit !== "0" && (
+              <DetailRow label="Deposit" value={`${lovelaceToAda(tx.deposit)} ADA`} />
+            )}
+            {tx.withdrawal && <DetailRow label="Rewards Withdrawn" value={`${lovelaceToAda(tx.withdrawal)} ADA`} />}
+            <div>
+              <p className="text-gray-500 mb-1">Transaction Hash</p>
+              <a
+                href={explorerTxUrl(network, tx.hash)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-mono text-xs text-blue-600 hover:underline break-all"
+              >
+                {tx.hash}
+              </a>
+            </div>
+          </div>
+
+          {/* Plain CIP-20 message */}
+          {tx.message && (
+            <div className="bg-gray-50 dark:bg-gray-900 rounded-xl p-4">
+              <p className="text-xs text-gray-500 mb-1">Note / Memo</p>
+              <p className="text-sm text-gray-900 dark:text-white whitespace-pre-line break-words">{tx.message}</p>
+            </div>
+          )}
+
+          {/* Encrypted CIP-20 message */}
+          {tx.encryptedMessage && (
+            <div className="bg-gray-50 dark:bg-gray-900 rounded-xl p-4 space-y-3">
+              <p className="text-xs text-gray-500 flex items-center gap-1">
+                <LockIcon className="w-3.5 h-3.5" />
+                Encrypted Note
+              </p>
+              {decrypted !== null ? (
+                <p className="text-sm text-gray-900 dark:text-white whitespace-pre-line break-words">{decrypted}</p>
+              ) : (
+                <>
+                  <Input
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    placeholder="Passphrase"
+                    autoComplete="off"
+                    error={decryptError || undefined}
+                  />
+                  <Button variant="outline" fullWidth onClick={handleDecrypt}>
+                    Decrypt Note
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Certificates */}
+          {tx.certificates && tx.certificates.length > 0 && (
+            <div className="bg-gray-50 dark:bg-gray-900 rounded-xl p-4 space-y-2">
+              <p className="text-xs text-gray-500">Certificates</p>
+              {tx.certificates.map((cert, index) => (
+                <div key={index} className="text-sm">
+                  <p className="text-gray-900 dark:text-white">{CERTIFICATE_TITLES[cert.type]}</p>
+                  {cert.pool && <p className="text-xs text-gray-500 font-mono break-all">Pool: {cert.pool}</p>}
+                  {cert.drep && <p className="text-xs text-gray-500 font-mono break-all">DRep: {describeDRep(cert.drep)}</p>}
+                  {cert.deposit && <p className="text-xs text-gray-500">Deposit: {lovelaceToAda(cert.deposit)} ADA</p>}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Inputs and outputs */}
+          {tx.inputs && <UtxoSection title="Inputs" utxos={tx.inputs} ownAddresses={ownAddresses || []} />}
+          {tx.outputs && <UtxoSection title="Outputs" utxos={tx.outputs} ownAddresses={ownAddresses || []} />}
+
+          {/* Raw metadata */}
+          {tx.metadata && tx.metadata.length > 0 && (
+            <div className="bg-gray-50 dark:bg-gray-900 rounded-xl p-4 space-y-2">
+              <p className="text-xs text-gray-500">Metadata</p>
+              {tx.metadata.map((entry) => (
+                <div key={entry.label}>
+                  <p className="text-xs font-medium text-gray-700 dark:text-gray-300">Label {entry.label}</p>
+                  <pre className="text-xs text-gray-600 dark:text-gray-400 whitespace-pre-wrap break-all max-h-40 overflow-y-auto">
+                    {JSON.stringify(entry.json, null, 2)}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {isLoading && !details && <p className="text-center text-sm text-gray-500">Loading details...</p>}
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+const DetailRow: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="flex justify-between gap-4">
+    <span className="text-gray-500">{label}</span>
+    <span className="text-gray-900 dark:text-white text-right">{value}</span>
+  </div>
+);
+
+const UtxoSection: React.FC<{ title: string; utxos: TransactionUTxO[]; ownAddresses: string[] }> = ({
+  title,
+  utxos,
+  ownAddresses,
+}) => {
+  const [expanded, setExpanded] = React.useState(false);
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-900 rounded-xl p-4">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex justify-between text-xs text-gray-500"
+      >
+        <span>
+          {title} ({utxos.length})
+        </span>
+        <span>{expanded ? "Hide" : "Show"}</span>
+      </button>
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          {utxos.map((utxo, index) => {
+            const lovelace = utxo.amount.find((asset) => asset.unit === "lovelace")?.quantity || "0";
+            const tokens = utxo.amount.filter((asset) => asset.unit !== "lovelace");
+            const isOwn = ownAddresses.includes(utxo.address);
+            return (
+              <div key={`${utxo.txHash}#${utxo.outputIndex}-${index}`} className="text-xs">
+                <p className="font-mono text-gray-700 dark:text-gray-300 break-all">
+                  {shortenAddress(utxo.address, 14)}
+                  {isOwn && <span className="ml-2 font-sans text-blue-600">You</span>}
+                </p>
+                <p className="text-gray-900 dark:text-white">{lovelaceToAda(lovelace)} ADA</p>
+                {tokens.map((asset) => (
+                  <p key={asset.unit} className="text-gray-500">
+                    {asset.quantity} {formatUnit(asset.unit)}
+                  </p>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Icons
+const CloseIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+  </svg>
+);
+
+const LockIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+  </svg>
+);
+
+TransactionDetail.displayName = "TransactionDetail";
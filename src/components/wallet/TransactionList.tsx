@@ -2,20 +2,67 @@
 
 import * as React from "react";
 import { Card } from "@/components/ui";
-import { TransactionInfo, formatTimestamp, shortenAddress } from "@/lib/cardano";
+import {
+  TransactionInfo,
+  formatTimestamp,
+  shortenAddress,
+  type AssetMovement,
+  type TransactionKind,
+} from "@/lib/cardano";
+import { ExportHistoryModal } from "./ExportHistoryModal";
 
 export interface TransactionListProps {
   transactions: TransactionInfo[];
   walletAddress?: string;
   isLoading?: boolean;
   onTransactionClick?: (tx: TransactionInfo) => void;
+  contactLabels?: Record<string, string>; // Address book labels by address
+  hasMore?: boolean; // More history can be loaded
+  onLoadMore?: () => Promise<void>;
 }
 
+// Title shown for each transaction kind
+const KIND_LABELS: Record<TransactionKind, string> = {
+  send: "Sent",
+  receive: "Received",
+  self: "Sent to Self",
+  swap: "Swap",
+  delegation: "Delegation",
+  vote_delegation: "Vote Delegation",
+  withdrawal: "Rewards Withdrawn",
+  mint: "Minted",
+};
+
+// Decode hex asset name to readable string
+const decodeAssetName = (name: string): string => {
+  if (!name) return "Unknown";
+  try {
+    const decoded = Buffer.from(name, "hex").toString("utf8");
+    if (/^[\x20-\x7E]+$/.test(decoded)) {
+      return decoded;
+    }
+  } catch {
+    // If decode fails, return original
+  }
+  return shortenAddress(name, 6);
+};
+
+/**
+ * "+100 HOSKY" style label for a token movement
+ */
+const formatMovement = (movement: AssetMovement): string => {
+  const sign = movement.quantity.startsWith("-") ? "" : "+";
+  return `${sign}${movement.quantity} ${decodeAssetName(movement.unit.slice(56))}`;
+};
+
 export const TransactionList: React.FC<TransactionListProps> = ({
   transactions,
   walletAddress,
   isLoading = false,
   onTransactionClick,
+  contactLabels,
+  hasMore = false,
+  onLoadMore,
 }) => {
   // Debug logging - only in development
   React.useEffect(() => {
@@ -25,6 +72,18 @@ export const TransactionList: React.FC<TransactionListProps> = ({
   }, [transactions?.length]);
 
   const [showAll, setShowAll] = React.useState(false);
+  const [isLoadingMore, setIsLoadingMore] = React.useState(false);
+  const [showExport, setShowExport] = React.useState(false);
+
+  const handleLoadMore = async () => {
+    if (!onLoadMore) return;
+    setIsLoadingMore(true);
+    try {
+      await onLoadMore();
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
   
   // Memoize displayed transactions to avoid recalculation
   const displayedTransactions = React.useMemo(() => 
@@ -72,6 +131,7 @@ export const TransactionList: React.FC<TransactionListProps> = ({
             key={tx.hash || index}
             transaction={tx}
             walletAddress={walletAddress}
+            contactLabels={contactLabels}
             onClick={() => onTransactionClick?.(tx)}
           />
         ))}
@@ -86,6 +146,29 @@ export const TransactionList: React.FC<TransactionListProps> = ({
           </button>
         </div>
       )}
+      {showAll && hasMore && onLoadMore && (
+        <div className="p-3 border-t border-gray-200 dark:border-gray-700 text-center">
+          <button
+            onClick={handleLoadMore}
+            disabled={isLoadingMore}
+            className="text-sm text-blue-600 dark:text-blue-400 font-medium hover:underline disabled:opacity-50"
+          >
+            {isLoadingMore ? "Loading..." : "Load Older Transactions"}
+          </button>
+        </div>
+      )}
+      {walletAddress && (
+        <div className="p-3 border-t border-gray-200 dark:border-gray-700 text-center">
+          <button
+            onClick={() => setShowExport(true)}
+            className="inline-flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400 font-medium hover:underline"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            Export History
+          </button>
+        </div>
+      )}
+      <ExportHistoryModal isOpen={showExport} onClose={() => setShowExport(false)} walletAddress={walletAddress} />
     </Card>
   );
 };
@@ -93,20 +176,26 @@ export const TransactionList: React.FC<TransactionListProps> = ({
 interface TransactionItemProps {
   transaction: TransactionInfo;
   walletAddress?: string;
+  contactLabels?: Record<string, string>;
   onClick?: () => void;
 }
 
 // Memoized transaction item to prevent unnecessary re-renders
 const TransactionItem: React.FC<TransactionItemProps> = React.memo(({
   transaction,
+  contactLabels,
   onClick,
 }) => {
-  const { hash, blockTime, direction, amount } = transaction;
+  const { hash, blockTime, direction, amount, message, encryptedMessage, counterparties, kind, assetMovements } =
+    transaction;
 
   // Default to neutral if direction not determined
   const isIncoming = direction === "incoming";
   const isOutgoing = direction === "outgoing";
 
+  // Show who the transaction was with when they are a saved contact
+  const contactLabel = counterparties?.map((addr) => contactLabels?.[addr]).find(Boolean);
+
   return (
     <div
       className="flex items-center gap-3 p-4 hover:bg-gray-50 dark:hover:bg-gray-800/50 cursor-pointer transition-colors"
@@ -134,7 +223,7 @@ const TransactionItem: React.FC<TransactionItemProps> = React.memo(({
       <div className="flex-1 min-w-0">
         <div className="flex items-center gap-2">
           <span className="font-medium text-gray-900 dark:text-white">
-            {isIncoming ? "Received" : isOutgoing ? "Sent" : "Transaction"}
+            {kind ? KIND_LABELS[kind] : isIncoming ? "Received" : isOutgoing ? "Sent" : "Transaction"}
           </span>
           {/* IN/OUT Badge */}
           {(isIncoming || isOutgoing) && (
@@ -164,10 +253,38 @@ const TransactionItem: React.FC<TransactionItemProps> = React.memo(({
             </span>
           </div>
         )}
+        {assetMovements && assetMovements.length > 0 && (
+          <p className="text-xs text-gray-600 dark:text-gray-300 truncate mt-0.5">
+            {assetMovements.slice(0, 2).map(formatMovement).join(", ")}
+            {assetMovements.length > 2 && ` +${assetMovements.length - 2} more`}
+          </p>
+        )}
+        {message && (
+          <div className="flex items-start gap-1 mt-0.5">
+            <NoteIcon className="w-3.5 h-3.5 text-gray-400 flex-shrink-0 mt-0.5" />
+            <span className="text-xs text-gray-600 dark:text-gray-300 italic line-clamp-2 whitespace-pre-line break-words">
+              {message}
+            </span>
+          </div>
+        )}
+        {!message && encryptedMessage && (
+          <div className="flex items-center gap-1 mt-0.5">
+            <NoteIcon className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" />
+            <span className="text-xs text-gray-500 dark:text-gray-400 italic">
+              Encrypted note — tap to decrypt
+            </span>
+          </div>
+        )}
         <div className="flex items-center gap-2 mt-0.5">
-          <span className="text-xs text-gray-500 dark:text-gray-400 font-mono">
-            {shortenAddress(hash, 8)}
-          </span>
+          {contactLabel ? (
+            <span className="text-xs text-gray-700 dark:text-gray-300 truncate">
+              {isIncoming ? "From" : "To"} {contactLabel}
+            </span>
+          ) : (
+            <span className="text-xs text-gray-500 dark:text-gray-400 font-mono">
+              {shortenAddress(hash, 8)}
+            </span>
+          )}
           {blockTime && (
             <>
               <span className="text-gray-300 dark:text-gray-600">•</span>
@@ -188,6 +305,12 @@ const TransactionItem: React.FC<TransactionItemProps> = React.memo(({
 TransactionItem.displayName = "TransactionItem";
 
 // Icons
+const DownloadIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+  </svg>
+);
+
 const EmptyIcon: React.FC<{ className?: string }> = ({ className }) => (
   <svg
     className={className}
@@ -256,6 +379,23 @@ const SwapIcon: React.FC<{ className?: string }> = ({ className }) => (
   </svg>
 );
 
+const NoteIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg
+    className={className}
+    fill="none"
+    stroke="currentColor"
+    viewBox="0 0 24 24"
+    xmlns="http://www.w3.org/2000/svg"
+  >
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={2}
+      d="M7 8h10M7 12h4m1 8l-4-4H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-3l-4 4z"
+    />
+  </svg>
+);
+
 const ChevronRightIcon: React.FC<{ className?: string }> = ({ className }) => (
   <svg
     className={className}
@@ -0,0 +1,350 @@
+"use client";
+
+import * as React from "react";
+import { Card, Button } from "@/components/ui";
+import { useWalletStore } from "@/hooks";
+import {
+  reviewTransaction,
+  lovelaceToAda,
+  shortenAddress,
+  type ReviewAsset,
+  type ReviewInput,
+  type TransactionCertificate,
+  type TransactionReview,
+} from "@/lib/cardano";
+
+export interface TransactionReviewModalProps {
+  cbor: string | null; // Open while set
+  onConfirm: () => void;
+  onReject: () => void;
+  origin?: string; // Who asked for the signature, e.g. "DexHunter"
+}
+
+const CERTIFICATE_TITLES: Record<TransactionCertificate["type"], string> = {
+  stake_registration: "Stake key registration",
+  stake_deregistration: "Stake key deregistration",
+  stake_delegation: "Delegate to pool",
+  vote_delegation: "Delegate voting power",
+  stake_vote_delegation: "Delegate to pool and DRep",
+  drep_registration: "DRep registration",
+  drep_deregistration: "DRep retirement",
+  drep_update: "DRep update",
+  other: "Other certificate",
+};
+
+// Decode hex asset name to readable string
+const decodeAssetName = (name: string): string => {
+  if (!name) return "Unknown";
+  try {
+    const decoded = Buffer.from(name, "hex").toString("utf8");
+    if (/^[\x20-\x7E]+$/.test(decoded)) {
+      return decoded;
+    }
+  } catch {
+    // If decode fails, return original
+  }
+  return shortenAddress(name, 6);
+};
+
+const formatUnit = (unit: string): string => (unit === "lovelace" ? "ADA" : decodeAssetName(unit.slice(56)));
+
+const formatQuantity = (asset: ReviewAsset): string =>
+  asset.unit === "lovelace" ? lovelaceToAda(asset.quantity.replace("-", "")) : asset.quantity.replace("-", "");
+
+const formatSlotTime = (slot?: string, time?: number): string => {
+  if (!slot) return "-";
+  return time ? `${new Date(time).toLocaleString()} (slot ${slot})` : `Slot ${slot}`;
+};
+
+/**
+ * Decoded view of a transaction, confirmed before it is signed
+ *
+ * Used for swaps and for CIP-30 signTx requests from dApps. Signing stays
+ * disabled until the CBOR is decoded; a transaction that cannot be decoded
+ * can only be rejected.
+ */
+export const TransactionReviewModal: React.FC<TransactionReviewModalProps> = ({
+  cbor,
+  onConfirm,
+  onReject,
+  origin,
+}) => {
+  const walletAddresses = useWalletStore((s) => s.walletAddresses);
+  const network = useWalletStore((s) => s.network);
+
+  const [review, setReview] = React.useState<TransactionReview | null>(null);
+  const [isLoading, setIsLoading] = React.useState(false);
+
+  // Decode whenever a different transaction is opened
+  React.useEffect(() => {
+    setReview(null);
+    if (!cbor) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    reviewTransaction(cbor, walletAddresses, network)
+      .then((result) => {
+        if (!cancelled) setReview(result);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cbor, walletAddresses, network]);
+
+  if (!cbor) return null;
+
+  const ownInputs = review?.inputs.filter((input) => input.isOwn) || [];
+  const otherInputs = (review?.inputs.length || 0) - ownInputs.length;
+  const foreignSigners = review?.requiredSigners.filter((signer) => !signer.isOwn) || [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-4">
+      <Card padding="lg" className="w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="mb-4">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">Review Transaction</h2>
+          {origin && <p className="text-sm text-gray-500">Requested by {origin}</p>}
+        </div>
+
+        {isLoading && !review && <p className="text-center text-sm text-gray-500 py-8">Decoding transaction...</p>}
+
+        {!isLoading && !review && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-xl mb-4">
+            <p className="text-sm text-red-600 dark:text-red-400">
+              This transaction could not be decoded, so it cannot be signed.
+            </p>
+          </div>
+        )}
+
+        {review && (
+          <div className="space-y-4">
+            {/* Net change of the wallet */}
+            <div className="bg-gray-50 dark:bg-gray-900 rounded-xl p-4">
+              <p className="text-xs text-gray-500 mb-2">Your balance change (fee included)</p>
+              {review.netChange.length === 0 ? (
+                <p className="text-sm text-gray-900 dark:text-white">No change</p>
+              ) : (
+                review.netChange.map((asset) => (
+                  <p
+                    key={asset.unit}
+                    className={`text-lg font-semibold ${
+                      asset.quantity.startsWith("-") ? "text-red-600" : "text-green-600"
+                    }`}
+                  >
+                    {asset.quantity.startsWith("-") ? "-" : "+"}
+                    {formatQuantity(asset)} {formatUnit(asset.unit)}
+                  </p>
+                ))
+              )}
+              {!review.inputsResolved && (
+                <p className="text-xs text-yellow-600 dark:text-yellow-400 mt-2">
+                  Some inputs could not be looked up, so the balance change may be incomplete.
+                </p>
+              )}
+            </div>
+
+            <div className="bg-gray-50 dark:bg-gray-900 rounded-xl p-4 space-y-3 text-sm">
+              <DetailRow label="Network Fee" value={`${lovelaceToAda(review.fee)} ADA`} />
+              <DetailRow label="Valid From" value={formatSlotTime(review.validFrom, review.validFromTime)} />
+              <DetailRow label="Valid Until" value={formatSlotTime(review.validUntil, review.validUntilTime)} />
+              <div>
+                <p className="text-gray-500 mb-1">Transaction Hash</p>
+                <p className="font-mono text-xs text-gray-700 dark:text-gray-300 break-all">{review.txHash}</p>
+              </div>
+            </div>
+
+            {/* Inputs */}
+            <Section title={`Your inputs (${ownInputs.length})`}>
+              {ownInputs.map((input) => (
+                <div key={`${input.txHash}#${input.outputIndex}`} className="text-xs">
+                  <p className="font-mono text-gray-700 dark:text-gray-300 break-all">
+                    {shortenAddress(input.txHash, 10)}#{input.outputIndex}
+                  </p>
+                  <AssetLines assets={input.amount || []} />
+                </div>
+              ))}
+              {otherInputs > 0 && (
+                <p className="text-xs text-gray-500">
+                  {otherInputs} other input{otherInputs === 1 ? "" : "s"} not from this wallet
+                </p>
+              )}
+            </Section>
+
+            {/* Outputs */}
+            <Section title={`Outputs (${review.outputs.length})`}>
+              {review.outputs.map((output, index) => (
+                <div key={index} className="text-xs">
+                  <p className="font-mono text-gray-700 dark:text-gray-300 break-all">
+                    {output.address}
+                    {output.isOwn && <span className="ml-2 font-sans text-blue-600">You</span>}
+                  </p>
+                  <AssetLines assets={output.amount} />
+                  {output.datumHash && (
+                    <p className="text-gray-500 font-mono break-all">Datum hash: {output.datumHash}</p>
+                  )}
+                  {output.inlineDatum && (
+                    <p className="text-gray-500 font-mono break-all max-h-20 overflow-y-auto">
+                      Inline datum: {output.inlineDatum}
+                    </p>
+                  )}
+                  {output.hasScriptRef && <p className="text-gray-500">Carries a reference script</p>}
+                </div>
+              ))}
+            </Section>
+
+            {(review.collateral.length > 0 || review.collateralReturn) && (
+              <Section title="Collateral (taken only if a script fails)">
+                {review.collateral.map((input) => (
+                  <InputLine key={`${input.txHash}#${input.outputIndex}`} input={input} />
+                ))}
+                {review.totalCollateral && (
+                  <DetailRow label="Total collateral" value={`${lovelaceToAda(review.totalCollateral)} ADA`} />
+                )}
+                {review.collateralReturn && (
+                  <div className="text-xs">
+                    <p className="text-gray-500">
+                      Returned to{" "}
+                      {review.collateralReturn.isOwn ? "you" : shortenAddress(review.collateralReturn.address, 14)}
+                    </p>
+                    <AssetLines assets={review.collateralReturn.amount} />
+                  </div>
+                )}
+              </Section>
+            )}
+
+            {review.referenceInputs.length > 0 && (
+              <Section title={`Reference inputs (${review.referenceInputs.length}, read but not spent)`}>
+                {review.referenceInputs.map((input) => (
+                  <InputLine key={`${input.txHash}#${input.outputIndex}`} input={input} />
+                ))}
+              </Section>
+            )}
+
+            {review.certificates.length > 0 && (
+              <Section title="Certificates">
+                {review.certificates.map((cert, index) => (
+                  <div key={index} className="text-sm">
+                    <p className="text-gray-900 dark:text-white">{CERTIFICATE_TITLES[cert.type]}</p>
+                    {cert.pool && <p className="text-xs text-gray-500 font-mono break-all">Pool: {cert.pool}</p>}
+                    {cert.drep && <p className="text-xs text-gray-500 font-mono break-all">DRep: {cert.drep}</p>}
+                    {cert.deposit && (
+                      <p className="text-xs text-gray-500">Deposit: {lovelaceToAda(cert.deposit)} ADA</p>
+                    )}
+                  </div>
+                ))}
+              </Section>
+            )}
+
+            {review.withdrawals.length > 0 && (
+              <Section title="Withdrawals">
+                {review.withdrawals.map((withdrawal) => (
+                  <div key={withdrawal.rewardAddress} className="text-xs">
+                    <p className="font-mono text-gray-700 dark:text-gray-300 break-all">
+                      {shortenAddress(withdrawal.rewardAddress, 14)}
+                      {withdrawal.isOwn && <span className="ml-2 font-sans text-blue-600">You</span>}
+                    </p>
+                    <p className="text-gray-900 dark:text-white">{lovelaceToAda(withdrawal.amount)} ADA</p>
+                  </div>
+                ))}
+              </Section>
+            )}
+
+            {review.mint.length > 0 && (
+              <Section title="Mint / Burn">
+                {review.mint.map((asset) => (
+                  <p
+                    key={asset.unit}
+                    className={`text-sm ${asset.quantity.startsWith("-") ? "text-red-600" : "text-green-600"}`}
+                  >
+                    {asset.quantity.startsWith("-") ? "Burn" : "Mint"} {asset.quantity.replace("-", "")}{" "}
+                    {formatUnit(asset.unit)}
+                  </p>
+                ))}
+              </Section>
+            )}
+
+            {review.requiredSigners.length > 0 && (
+              <Section title="Required signers">
+                {review.requiredSigners.map((signer) => (
+                  <p key={signer.keyHash} className="text-xs font-mono text-gray-700 dark:text-gray-300 break-all">
+                    {signer.keyHash}
+                    <span className={`ml-2 font-sans ${signer.isOwn ? "text-blue-600" : "text-gray-500"}`}>
+                      {signer.isOwn ? "You" : "Other key"}
+                    </span>
+                  </p>
+                ))}
+                {foreignSigners.length > 0 && (
+                  <p className="text-xs text-gray-500">Other keys must also sign before this transaction is valid.</p>
+                )}
+              </Section>
+            )}
+
+            {review.metadata.length > 0 && (
+              <Section title="Metadata">
+                {review.metadata.map((entry) => (
+                  <div key={entry.label}>
+                    <p className="text-xs font-medium text-gray-700 dark:text-gray-300">Label {entry.label}</p>
+                    <pre className="text-xs text-gray-600 dark:text-gray-400 whitespace-pre-wrap break-all max-h-40 overflow-y-auto">
+                      {JSON.stringify(entry.json, null, 2)}
+                    </pre>
+                  </div>
+                ))}
+              </Section>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <Button variant="secondary" fullWidth onClick={onReject}>
+            Reject
+          </Button>
+          <Button fullWidth onClick={onConfirm} disabled={!review}>
+            Sign
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+const DetailRow: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="flex justify-between gap-4">
+    <span className="text-gray-500">{label}</span>
+    <span className="text-gray-900 dark:text-white text-right">{value}</span>
+  </div>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="bg-gray-50 dark:bg-gray-900 rounded-xl p-4 space-y-3">
+    <p className="text-xs text-gray-500">{title}</p>
+    {children}
+  </div>
+);
+
+const InputLine: React.FC<{ input: ReviewInput }> = ({ input }) => (
+  <div className="text-xs">
+    <p className="font-mono text-gray-700 dark:text-gray-300 break-all">
+      {shortenAddress(input.txHash, 10)}#{input.outputIndex}
+      {input.isOwn && <span className="ml-2 font-sans text-blue-600">You</span>}
+    </p>
+    {input.amount ? <AssetLines assets={input.amount} /> : <p className="text-gray-500">Not found on chain</p>}
+  </div>
+);
+
+const AssetLines: React.FC<{ assets: ReviewAsset[] }> = ({ assets }) => (
+  <>
+    {assets.map((asset) => (
+      <p
+        key={asset.unit}
+        className={asset.unit === "lovelace" ? "text-gray-900 dark:text-white" : "text-gray-500"}
+      >
+        {formatQuantity(asset)} {formatUnit(asset.unit)}
+      </p>
+    ))}
+  </>
+);
+
+TransactionReviewModal.displayName = "TransactionReviewModal";
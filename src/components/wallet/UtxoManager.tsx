@@ -0,0 +1,239 @@
+"use client";
+
+import * as React from "react";
+import { Card } from "@/components/ui";
+import { useWalletStore } from "@/hooks";
+import { getWalletUtxos, lovelaceToAda, shortenAddress, type WalletUtxo, type CardanoNetwork } from "@/lib/cardano";
+import { getFrozenUtxos, toggleFrozenUtxo } from "@/lib/storage";
+import { ConsolidatePanel } from "./ConsolidatePanel";
+
+export interface UtxoManagerProps {
+  onBack: () => void;
+}
+
+const explorerTxUrl = (network: CardanoNetwork, hash: string): string => {
+  const prefix = network === "mainnet" ? "" : `${network}.`;
+  return `https://${prefix}cardanoscan.io/transaction/${hash}`;
+};
+
+/**
+ * Load wallet UTxOs and the active wallet's frozen list
+ * Shared by the UTxO manager and the coin control picker.
+ */
+export const useWalletUtxos = () => {
+  const { activeWalletId, balance } = useWalletStore();
+  const [utxos, setUtxos] = React.useState<WalletUtxo[]>([]);
+  const [frozen, setFrozen] = React.useState<string[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+
+  const load = React.useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const walletInstance = useWalletStore.getState()._walletInstance;
+      setUtxos(walletInstance ? await getWalletUtxos(walletInstance) : []);
+      setFrozen(activeWalletId ? getFrozenUtxos(activeWalletId) : []);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [activeWalletId]);
+
+  // Reload when the balance changes (new or spent UTxOs)
+  React.useEffect(() => {
+    load();
+  }, [load, balance]);
+
+  const toggleFrozen = (ref: string) => {
+    if (!activeWalletId) return;
+    setFrozen(toggleFrozenUtxo(activeWalletId, ref));
+  };
+
+  return { utxos, frozen, isLoading, reload: load, toggleFrozen };
+};
+
+export interface UtxoRowProps {
+  utxo: WalletUtxo;
+  network: CardanoNetwork;
+  isFrozen: boolean;
+  assetNames?: Record<string, string>;
+  action?: React.ReactNode; // Freeze toggle or selection checkbox
+}
+
+/**
+ * One UTxO: reference, ADA, tokens and collateral/frozen badges
+ */
+export const UtxoRow: React.FC<UtxoRowProps> = ({ utxo, network, isFrozen, assetNames = {}, action }) => {
+  const [showAssets, setShowAssets] = React.useState(false);
+
+  return (
+    <div
+      className={`rounded-xl p-3 border ${
+        isFrozen
+          ? "border-blue-200 dark:border-blue-800 bg-blue-50/50 dark:bg-blue-900/10"
+          : "border-gray-100 dark:border-gray-800 bg-gray-50 dark:bg-gray-900"
+      }`}
+    >
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0 flex-1">
+          <p className="font-semibold text-gray-900 dark:text-white">{lovelaceToAda(utxo.lovelace)} ADA</p>
+          <a
+            href={explorerTxUrl(network, utxo.txHash)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-mono text-xs text-blue-600 hover:underline"
+          >
+            {shortenAddress(utxo.txHash, 10)}#{utxo.outputIndex}
+          </a>
+          <div className="flex flex-wrap gap-1 mt-1">
+            {utxo.isCollateral && (
+              <span className="px-2 py-0.5 text-[10px] font-bold uppercase rounded-full bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                Collateral
+              </span>
+            )}
+            {isFrozen && (
+              <span className="px-2 py-0.5 text-[10px] font-bold uppercase rounded-full bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400">
+                Frozen
+              </span>
+            )}
+            {utxo.assets.length > 0 && (
+              <button
+                onClick={() => setShowAssets(!showAssets)}
+                className="px-2 py-0.5 text-[10px] font-bold uppercase rounded-full bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+              >
+                {utxo.assets.length} token{utxo.assets.length > 1 ? "s" : ""}
+              </button>
+            )}
+          </div>
+        </div>
+        {action}
+      </div>
+
+      {showAssets && (
+        <ul className="mt-2 space-y-1 text-xs">
+          {utxo.assets.map((asset) => (
+            <li key={asset.unit} className="flex justify-between gap-2">
+              <span className="text-gray-600 dark:text-gray-400 truncate">
+                {assetNames[asset.unit] || shortenAddress(asset.unit, 10)}
+              </span>
+              <span className="text-gray-900 dark:text-white">{asset.quantity}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Readable names for native assets held by the wallet
+ */
+export const useAssetNames = (): Record<string, string> => {
+  const { balance } = useWalletStore();
+  return React.useMemo(() => {
+    const names: Record<string, string> = {};
+    for (const asset of balance?.assets || []) {
+      const name = asset.metadata?.ticker || asset.metadata?.name;
+      if (name) names[asset.unit] = name;
+    }
+    return names;
+  }, [balance]);
+};
+
+export const UtxoManager: React.FC<UtxoManagerProps> = ({ onBack }) => {
+  const { network } = useWalletStore();
+  const { utxos, frozen, isLoading, reload, toggleFrozen } = useWalletUtxos();
+  const assetNames = useAssetNames();
+
+  const frozenLovelace = utxos
+    .filter((utxo) => frozen.includes(utxo.ref))
+    .reduce((sum, utxo) => sum + BigInt(utxo.lovelace), BigInt(0));
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
+      <header className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <button onClick={onBack} className="p-2 hover:bg-gray-200 dark:hover:bg-gray-800 rounded-lg">
+            <BackIcon className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900 dark:text-white">UTxOs</h1>
+        </div>
+        <button
+          onClick={reload}
+          disabled={isLoading}
+          className={`p-2 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-800 ${isLoading ? "animate-spin" : ""}`}
+          title="Refresh UTxOs"
+        >
+          <RefreshIcon className="w-5 h-5 text-gray-500" />
+        </button>
+      </header>
+
+      <div className="space-y-4">
+        <Card padding="md">
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-500">Unspent outputs</span>
+            <span className="text-gray-900 dark:text-white">{utxos.length}</span>
+          </div>
+          <div className="flex justify-between text-sm mt-1">
+            <span className="text-gray-500">Frozen</span>
+            <span className="text-gray-900 dark:text-white">
+              {frozen.length} ({lovelaceToAda(frozenLovelace.toString())} ADA)
+            </span>
+          </div>
+          <p className="text-xs text-gray-500 mt-3">
+            Frozen UTxOs are never spent by automatic coin selection. You can still pick them
+            manually with coin control when sending.
+          </p>
+        </Card>
+
+        {utxos.length > 1 && <ConsolidatePanel frozen={frozen} onComplete={() => reload()} />}
+
+        {isLoading && utxos.length === 0 ? (
+          <p className="text-center text-sm text-gray-500 py-8">Loading UTxOs...</p>
+        ) : utxos.length === 0 ? (
+          <p className="text-center text-sm text-gray-500 py-8">No UTxOs in this wallet</p>
+        ) : (
+          <div className="space-y-2">
+            {utxos.map((utxo) => {
+              const isFrozen = frozen.includes(utxo.ref);
+              return (
+                <UtxoRow
+                  key={utxo.ref}
+                  utxo={utxo}
+                  network={network}
+                  isFrozen={isFrozen}
+                  assetNames={assetNames}
+                  action={
+                    <button
+                      onClick={() => toggleFrozen(utxo.ref)}
+                      className={`px-3 py-1.5 text-xs font-medium rounded-lg ${
+                        isFrozen
+                          ? "text-white bg-blue-600 hover:bg-blue-700"
+                          : "text-blue-600 bg-blue-50 dark:bg-blue-900/30 hover:bg-blue-100"
+                      }`}
+                    >
+                      {isFrozen ? "Unfreeze" : "Freeze"}
+                    </button>
+                  }
+                />
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Icons
+const BackIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+  </svg>
+);
+
+const RefreshIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+  </svg>
+);
+
+UtxoManager.displayName = "UtxoManager";
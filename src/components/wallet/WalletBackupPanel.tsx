@@ -0,0 +1,259 @@
+"use client";
+
+import * as React from "react";
+import { Button, Card, Input, PinInput } from "@/components/ui";
+import { useWalletActions, useWalletData } from "@/hooks/useWalletStore";
+import {
+  decryptWalletBackup,
+  exportWalletBackup,
+  getBackupDuplicates,
+  validateBackupPassword,
+  type WalletBackupContents,
+} from "@/lib/storage/encryption";
+
+export type WalletBackupMode = "export" | "import";
+
+export interface WalletBackupPanelProps {
+  mode: WalletBackupMode;
+  onClose: () => void;
+}
+
+type ExportScope = "wallet" | "all";
+
+/**
+ * Save text as a file through a temporary download link
+ */
+const downloadBackup = (filename: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Export wallets to a password-encrypted backup file, or import one
+ * Imported wallets are re-encrypted under a new PIN on this device.
+ */
+export const WalletBackupPanel: React.FC<WalletBackupPanelProps> = ({ mode, onClose }) => {
+  const { wallets, activeWalletId } = useWalletData();
+  const { importBackup } = useWalletActions();
+
+  const [scope, setScope] = React.useState<ExportScope>("wallet");
+  const [pin, setPin] = React.useState("");
+  const [password, setPassword] = React.useState("");
+  const [confirmPassword, setConfirmPassword] = React.useState("");
+  const [fileText, setFileText] = React.useState<string | null>(null);
+  const [fileName, setFileName] = React.useState("");
+  const [contents, setContents] = React.useState<WalletBackupContents | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [result, setResult] = React.useState<string | null>(null);
+  const [isWorking, setIsWorking] = React.useState(false);
+
+  const activeWallet = wallets.find((w) => w.id === activeWalletId);
+  const passwordCheck = validateBackupPassword(password);
+  const duplicates = contents ? getBackupDuplicates(contents) : [];
+  const newCount = contents ? contents.wallets.length - duplicates.length : 0;
+
+  const handleExport = async () => {
+    setError(null);
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setIsWorking(true);
+    const backup = await exportWalletBackup(pin, password, scope === "wallet" ? activeWalletId || undefined : undefined);
+    setIsWorking(false);
+    if (!backup) {
+      setError("Invalid PIN");
+      setPin("");
+      return;
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBackup(`cardano-wallet-backup-${date}.json`, backup.file);
+    setPin("");
+    setPassword("");
+    setConfirmPassword("");
+    setResult(
+      `Exported ${backup.walletCount} wallet${backup.walletCount === 1 ? "" : "s"}.` +
+        (backup.skipped.length > 0 ? ` Skipped (different PIN): ${backup.skipped.join(", ")}.` : "")
+    );
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setError(null);
+    setContents(null);
+    if (!file) return;
+    setFileName(file.name);
+    setFileText(await file.text());
+  };
+
+  const handleDecrypt = async () => {
+    if (!fileText) return;
+    setError(null);
+    setIsWorking(true);
+    try {
+      setContents(await decryptWalletBackup(fileText, password));
+      setPassword("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read backup file");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!contents) return;
+    setError(null);
+    setIsWorking(true);
+    const imported = await importBackup(contents, pin);
+    setIsWorking(false);
+    setPin("");
+    if (!imported.success) {
+      setError(imported.error || "Failed to import backup");
+      return;
+    }
+    setContents(null);
+    setResult(
+      `Imported ${imported.imported} wallet${imported.imported === 1 ? "" : "s"}` +
+        (imported.duplicates > 0 ? `, ${imported.duplicates} already on this device.` : ".")
+    );
+  };
+
+  const title = mode === "export" ? "Export Backup" : "Import Backup";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md max-h-[85vh] overflow-y-auto p-6 bg-gray-900">
+        <h2 className="text-xl font-bold text-white mb-2">{title}</h2>
+
+        {result ? (
+          <>
+            <p className="text-green-500 text-sm mb-6">{result}</p>
+            <Button fullWidth onClick={onClose}>
+              Done
+            </Button>
+          </>
+        ) : mode === "export" ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              {(["wallet", "all"] as const).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setScope(value)}
+                  className={`py-2 rounded-lg text-sm font-medium transition-colors ${
+                    scope === value ? "bg-blue-600 text-white" : "bg-gray-800 text-gray-300"
+                  }`}
+                >
+                  {value === "wallet" ? "This Wallet" : "All Wallets"}
+                </button>
+              ))}
+            </div>
+            <p className="text-gray-400 text-sm">
+              {scope === "wallet"
+                ? `Backs up "${activeWallet?.name || "this wallet"}" with its recovery phrase.`
+                : "Backs up every wallet, its accounts, address book and settings."}{" "}
+              Anyone with the file and its password can spend your funds.
+            </p>
+
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Backup password"
+              error={password && !passwordCheck.valid ? passwordCheck.error : undefined}
+            />
+            <Input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              placeholder="Confirm password"
+            />
+
+            <p className="text-gray-400 text-sm">Enter your PIN</p>
+            <PinInput length={6} value={pin} onChange={setPin} autoFocus={false} />
+
+            {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+            <div className="flex gap-3">
+              <Button variant="secondary" fullWidth onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                fullWidth
+                onClick={handleExport}
+                disabled={pin.length < 6 || !passwordCheck.valid || !confirmPassword}
+                isLoading={isWorking}
+              >
+                Export
+              </Button>
+            </div>
+          </div>
+        ) : !contents ? (
+          <div className="space-y-4">
+            <p className="text-gray-400 text-sm">Choose a backup file exported from this app.</p>
+            <label className="block p-3 rounded-xl border border-dashed border-gray-700 text-center text-sm text-gray-300 cursor-pointer hover:bg-gray-800">
+              {fileName || "Select backup file"}
+              <input type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+            </label>
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Backup password"
+            />
+
+            {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+            <div className="flex gap-3">
+              <Button variant="secondary" fullWidth onClick={onClose}>
+                Cancel
+              </Button>
+              <Button fullWidth onClick={handleDecrypt} disabled={!fileText || !password} isLoading={isWorking}>
+                Open
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <ul className="space-y-1">
+              {contents.wallets.map((wallet) => (
+                <li key={wallet.address} className="flex justify-between gap-2 text-sm">
+                  <span className="text-white truncate">{wallet.name}</span>
+                  <span className="text-gray-500 shrink-0">
+                    {duplicates.includes(wallet) ? "Already added" : wallet.watchOnly ? "Watch-only" : wallet.network}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            {newCount > 0 ? (
+              <>
+                <p className="text-gray-400 text-sm">
+                  Choose a PIN for the {newCount} imported wallet{newCount === 1 ? "" : "s"}.
+                </p>
+                <PinInput length={6} value={pin} onChange={setPin} />
+              </>
+            ) : (
+              <p className="text-gray-400 text-sm">Every wallet in this backup is already on this device.</p>
+            )}
+
+            {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+            <div className="flex gap-3">
+              <Button variant="secondary" fullWidth onClick={onClose}>
+                Cancel
+              </Button>
+              <Button fullWidth onClick={handleImport} disabled={newCount === 0 || pin.length < 6} isLoading={isWorking}>
+                Import
+              </Button>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+WalletBackupPanel.displayName = "WalletBackupPanel";
@@ -2,43 +2,57 @@
 
 import * as React from "react";
 import { useWalletStore, useTelegram } from "@/hooks";
-import { BalanceCard, TransactionList, NetworkSelector } from "@/components/wallet";
+import { BalanceCard, TransactionList, TransactionDetail, NetworkSelector } from "@/components/wallet";
 import { WalletSelector } from "@/components/wallet/WalletSelector";
+import { SecuritySettingsModal } from "@/components/wallet/SecuritySettingsModal";
 import { Button } from "@/components/ui";
 import { debugLogObject, safeString } from "@/lib/utils/safeRender";
-import { type CardanoNetwork, WalletAsset } from "@/lib/cardano";
+import { type CardanoNetwork, type TransactionInfo, WalletAsset } from "@/lib/cardano";
+import { getContactLabels } from "@/lib/storage/address-book";
+import { isWalletBackedUp } from "@/lib/storage";
 
 interface WalletDashboardProps {
   onSend?: () => void;
   onReceive?: () => void;
-  onSettings?: () => void;
   onAddWallet?: () => void;
   onStaking?: () => void;
   onSwap?: () => void;
   onGovernance?: () => void;
   onMultiSend?: () => void;
+  onUtxos?: () => void;
+  onRestoreLegacy?: () => void;
+  onVerifyBackup?: () => void;
   onAssetClick?: (asset: WalletAsset) => void;
 }
 
 export const WalletDashboard: React.FC<WalletDashboardProps> = ({
   onSend,
   onReceive,
-  onSettings,
   onAddWallet,
   onStaking,
   onSwap,
   onGovernance,
   onMultiSend,
+  onUtxos,
+  onRestoreLegacy,
+  onVerifyBackup,
   onAssetClick,
 }) => {
   const {
     walletAddress,
     walletName,
     balance,
+    balanceError,
     transactions,
+    hasMoreTransactions,
+    loadMoreTransactions,
+    _historyCursor: historyCursor,
+    walletAddresses,
+    isWatchOnly,
     network,
     isLoading,
     wallets,
+    activeWalletId,
     refreshBalance,
     lockWallet,
     changeNetwork,
@@ -63,8 +77,13 @@ export const WalletDashboard: React.FC<WalletDashboardProps> = ({
   const [isRefreshing, setIsRefreshing] = React.useState(false);
   const [showWalletSelector, setShowWalletSelector] = React.useState(false);
   const [showNetworkSelector, setShowNetworkSelector] = React.useState(false);
+  const [showSecuritySettings, setShowSecuritySettings] = React.useState(false);
+  const [selectedTransaction, setSelectedTransaction] = React.useState<TransactionInfo | null>(null);
   const [userPoints, setUserPoints] = React.useState<number | null>(null);
   const prevBalanceRef = React.useRef<number | null>(null);
+
+  // Read on every render, so contacts saved after a send show up on return
+  const contactLabels = getContactLabels(network);
   const prevAssetsCountRef = React.useRef<number | null>(null);
 
   // Refresh data on mount
@@ -202,10 +221,15 @@ export const WalletDashboard: React.FC<WalletDashboardProps> = ({
               <h1 className="text-lg font-semibold text-gray-900 dark:text-white leading-tight">
                 {safeString(walletName, "Cardano Wallet")}
               </h1>
-              {wallets && wallets.length > 1 && (
-                <span className="text-xs text-gray-500">
-                  {safeString(wallets.length)} wallets
-                </span>
+              {isWatchOnly ? (
+                <span className="text-xs text-amber-600 dark:text-amber-400">Watch-only</span>
+              ) : (
+                wallets &&
+                wallets.length > 1 && (
+                  <span className="text-xs text-gray-500">
+                    {safeString(wallets.length)} wallets
+                  </span>
+                )
               )}
             </div>
             <ChevronDownIcon className="w-4 h-4 text-gray-400 ml-1" />
@@ -222,7 +246,7 @@ export const WalletDashboard: React.FC<WalletDashboardProps> = ({
               </span>
             </button>
             <button
-              onClick={onSettings}
+              onClick={() => setShowSecuritySettings(true)}
               className="p-2 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
             >
               <SettingsIcon className="w-5 h-5" />
@@ -245,6 +269,10 @@ export const WalletDashboard: React.FC<WalletDashboardProps> = ({
           setShowWalletSelector(false);
           onAddWallet?.();
         }}
+        onRestoreLegacy={() => {
+          setShowWalletSelector(false);
+          onRestoreLegacy?.();
+        }}
       />
 
       {/* Main Content */}
@@ -277,10 +305,25 @@ export const WalletDashboard: React.FC<WalletDashboardProps> = ({
           </div>
         </div>
 
+        {/* Unverified Backup Reminder */}
+        {!isWatchOnly && activeWalletId && !isWalletBackedUp(activeWalletId) && (
+          <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-2xl p-4">
+            <p className="text-sm font-semibold text-amber-800 dark:text-amber-200">Recovery phrase not verified</p>
+            <p className="text-xs text-amber-700 dark:text-amber-300 mt-1 mb-3">
+              Confirm you wrote it down correctly. Without it, a lost or reset device means lost funds.
+            </p>
+            <Button variant="primary" size="sm" onClick={onVerifyBackup}>
+              Verify Backup
+            </Button>
+          </div>
+        )}
+
         {/* Balance Card */}
         <BalanceCard
           balance={balance}
+          balanceError={balanceError}
           address={walletAddress}
+          addressCount={walletAddresses.length}
           network={network}
           isLoading={isLoading || isRefreshing}
           onRefresh={handleRefresh}
@@ -290,16 +333,18 @@ export const WalletDashboard: React.FC<WalletDashboardProps> = ({
 
         {/* Action Buttons */}
         <div className="flex flex-wrap justify-between gap-y-4 gap-x-2">
-          <Button
-            variant="primary"
-            onClick={() => onSend?.()}
-            className="flex-1 min-w-[70px] flex flex-col items-center justify-center gap-1.5 py-3 h-auto rounded-2xl shadow-sm"
-          >
-            <div className="bg-white/20 p-2 rounded-xl">
-              <SendIcon className="w-5 h-5" />
-            </div>
-            <span className="text-[11px] font-bold uppercase tracking-tight">Send</span>
-          </Button>
+          {!isWatchOnly && (
+            <Button
+              variant="primary"
+              onClick={() => onSend?.()}
+              className="flex-1 min-w-[70px] flex flex-col items-center justify-center gap-1.5 py-3 h-auto rounded-2xl shadow-sm"
+            >
+              <div className="bg-white/20 p-2 rounded-xl">
+                <SendIcon className="w-5 h-5" />
+              </div>
+              <span className="text-[11px] font-bold uppercase tracking-tight">Send</span>
+            </Button>
+          )}
           <Button
             variant="primary"
             onClick={() => onReceive?.()}
@@ -310,16 +355,18 @@ export const WalletDashboard: React.FC<WalletDashboardProps> = ({
             </div>
             <span className="text-[11px] font-bold uppercase tracking-tight">Receive</span>
           </Button>
-          <Button
-            variant="primary"
-            onClick={() => onSwap?.()}
-            className="flex-1 min-w-[70px] flex flex-col items-center justify-center gap-1.5 py-3 h-auto rounded-2xl shadow-sm bg-gradient-to-br from-blue-600 to-indigo-600 border-none"
-          >
-            <div className="bg-white/20 p-2 rounded-xl">
-              <SwapIcon className="w-5 h-5" />
-            </div>
-            <span className="text-[11px] font-bold uppercase tracking-tight">Swap</span>
-          </Button>
+          {!isWatchOnly && (
+            <Button
+              variant="primary"
+              onClick={() => onSwap?.()}
+              className="flex-1 min-w-[70px] flex flex-col items-center justify-center gap-1.5 py-3 h-auto rounded-2xl shadow-sm bg-gradient-to-br from-blue-600 to-indigo-600 border-none"
+            >
+              <div className="bg-white/20 p-2 rounded-xl">
+                <SwapIcon className="w-5 h-5" />
+              </div>
+              <span className="text-[11px] font-bold uppercase tracking-tight">Swap</span>
+            </Button>
+          )}
           <Button
             variant="outline"
             onClick={() => onStaking?.()}
@@ -340,16 +387,30 @@ export const WalletDashboard: React.FC<WalletDashboardProps> = ({
             </div>
             <span className="text-[11px] font-bold uppercase tracking-tight text-gray-700 dark:text-gray-300">Gov</span>
           </Button>
-          <Button
-            variant="outline"
-            onClick={() => onMultiSend?.()}
-            className="flex-1 min-w-[70px] flex flex-col items-center justify-center gap-1.5 py-3 h-auto rounded-2xl border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
-          >
-            <div className="bg-orange-50 dark:bg-orange-900/30 p-2 rounded-xl">
-              <MultiSendIcon className="w-5 h-5 text-orange-600" />
-            </div>
-            <span className="text-[11px] font-bold uppercase tracking-tight text-gray-700 dark:text-gray-300">Bulk</span>
-          </Button>
+          {!isWatchOnly && (
+            <Button
+              variant="outline"
+              onClick={() => onMultiSend?.()}
+              className="flex-1 min-w-[70px] flex flex-col items-center justify-center gap-1.5 py-3 h-auto rounded-2xl border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+            >
+              <div className="bg-orange-50 dark:bg-orange-900/30 p-2 rounded-xl">
+                <MultiSendIcon className="w-5 h-5 text-orange-600" />
+              </div>
+              <span className="text-[11px] font-bold uppercase tracking-tight text-gray-700 dark:text-gray-300">Bulk</span>
+            </Button>
+          )}
+          {!isWatchOnly && (
+            <Button
+              variant="outline"
+              onClick={() => onUtxos?.()}
+              className="flex-1 min-w-[70px] flex flex-col items-center justify-center gap-1.5 py-3 h-auto rounded-2xl border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+            >
+              <div className="bg-green-50 dark:bg-green-900/30 p-2 rounded-xl">
+                <CoinsIcon className="w-5 h-5 text-green-600" />
+              </div>
+              <span className="text-[11px] font-bold uppercase tracking-tight text-gray-700 dark:text-gray-300">UTxOs</span>
+            </Button>
+          )}
         </div>
 
         {/* Transaction History */}
@@ -371,10 +432,23 @@ export const WalletDashboard: React.FC<WalletDashboardProps> = ({
             transactions={transactions}
             walletAddress={walletAddress || undefined}
             isLoading={isLoading || isRefreshing}
+            onTransactionClick={setSelectedTransaction}
+            contactLabels={contactLabels}
+            hasMore={hasMoreTransactions}
+            onLoadMore={loadMoreTransactions}
           />
         </section>
       </main>
 
+      {/* Transaction Detail Modal */}
+      <TransactionDetail
+        transaction={selectedTransaction}
+        network={network}
+        isOpen={selectedTransaction !== null}
+        onClose={() => setSelectedTransaction(null)}
+        ownAddresses={historyCursor?.addresses}
+      />
+
       {/* Network Selector Modal */}
       <NetworkSelector
         isOpen={showNetworkSelector}
@@ -383,6 +457,9 @@ export const WalletDashboard: React.FC<WalletDashboardProps> = ({
         onClose={() => setShowNetworkSelector(false)}
       />
 
+      {/* Security Settings Modal */}
+      <SecuritySettingsModal isOpen={showSecuritySettings} onClose={() => setShowSecuritySettings(false)} />
+
       {/* Telegram Environment Badge */}
       {isInTelegram && (
         <div className="fixed bottom-4 left-4 bg-blue-500 text-white text-xs px-2 py-1 rounded-full">
@@ -506,4 +583,10 @@ const MultiSendIcon: React.FC<{ className?: string }> = ({ className }) => (
   </svg>
 );
 
+const CoinsIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4" />
+  </svg>
+);
+
 export default WalletDashboard;
@@ -2,29 +2,37 @@
 
 import React, { useState, useEffect } from "react";
 import { useWalletStore, useWalletData, useWalletActions } from "@/hooks/useWalletStore";
+import { usePinAttempts } from "@/hooks/usePinAttempts";
 import { Button } from "@/components/ui/Button";
 import { Card } from "@/components/ui/Card";
 import { Input } from "@/components/ui/Input";
 import { PinInput } from "@/components/ui/PinInput";
-import { StoredWalletInfo } from "@/lib/storage";
+import { getMnemonicId } from "@/lib/storage";
+import type { WalletUnlock } from "@/lib/storage/encryption";
+import { BiometricUnlockButton } from "./BiometricUnlockButton";
+import { WalletBackupPanel, type WalletBackupMode } from "./WalletBackupPanel";
 
 interface WalletSelectorProps {
   isOpen: boolean;
   onClose: () => void;
   onAddWallet: () => void;
+  onRestoreLegacy?: () => void;
 }
 
 /**
  * Wallet Selector Component
- * Allows users to view, switch, rename, and delete wallets
+ * Allows users to view, switch, rename, and delete wallets, and to add
+ * accounts (CIP-1852 account index) of the unlocked wallet's mnemonic.
+ * Wallets can be exported to and imported from encrypted backup files.
  */
 export const WalletSelector: React.FC<WalletSelectorProps> = ({
   isOpen,
   onClose,
   onAddWallet,
+  onRestoreLegacy,
 }) => {
-  const { wallets, activeWalletId, walletName } = useWalletData();
-  const { switchWallet, deleteWallet, renameWallet } = useWalletActions();
+  const { wallets, activeWalletId, isLoggedIn, isWatchOnly } = useWalletData();
+  const { switchWallet, deleteWallet, renameWallet, addAccount } = useWalletActions();
   const isLoading = useWalletStore((s) => s.isLoading);
   const error = useWalletStore((s) => s.error);
   const clearError = useWalletStore((s) => s.clearError);
@@ -32,10 +40,14 @@ export const WalletSelector: React.FC<WalletSelectorProps> = ({
   // Local states
   const [showPinInput, setShowPinInput] = useState(false);
   const [selectedWalletId, setSelectedWalletId] = useState<string | null>(null);
+  const pinAttempts = usePinAttempts(selectedWalletId);
   const [pin, setPin] = useState("");
   const [editingWalletId, setEditingWalletId] = useState<string | null>(null);
   const [newName, setNewName] = useState("");
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
+  const [showAddAccount, setShowAddAccount] = useState(false);
+  const [accountName, setAccountName] = useState("");
+  const [backupMode, setBackupMode] = useState<WalletBackupMode | null>(null);
 
   // Load wallets on open
 
@@ -47,31 +59,51 @@ export const WalletSelector: React.FC<WalletSelectorProps> = ({
       setPin("");
       setEditingWalletId(null);
       setShowDeleteConfirm(null);
+      setShowAddAccount(false);
+      setAccountName("");
+      setBackupMode(null);
       clearError();
     }
   }, [isOpen, clearError]);
 
   if (!isOpen) return null;
 
-  const handleSelectWallet = (walletId: string) => {
+  // Number of accounts per mnemonic, to label accounts of multi-account wallets
+  const accountCounts = wallets.reduce<Record<string, number>>((counts, wallet) => {
+    const mnemonicId = getMnemonicId(wallet);
+    counts[mnemonicId] = (counts[mnemonicId] || 0) + 1;
+    return counts;
+  }, {});
+
+  const handleSelectWallet = async (walletId: string) => {
     if (walletId === activeWalletId) {
       onClose();
       return;
     }
+    // Watch-only wallets hold no keys, so there is no PIN to ask for
+    if (wallets.find((w) => w.id === walletId)?.watchOnly) {
+      if (await switchWallet(walletId, "")) {
+        onClose();
+      }
+      return;
+    }
     setSelectedWalletId(walletId);
     setShowPinInput(true);
     clearError();
   };
 
-  const handleSwitchWallet = async () => {
-    if (!selectedWalletId || pin.length < 6) return;
+  const handleSwitchWallet = async (unlock: WalletUnlock = pin) => {
+    if (!selectedWalletId || (typeof unlock === "string" && unlock.length < 6)) return;
 
-    const success = await switchWallet(selectedWalletId, pin);
+    const success = await switchWallet(selectedWalletId, unlock);
     if (success) {
       setPin("");
       setShowPinInput(false);
       setSelectedWalletId(null);
       onClose();
+    } else {
+      setPin("");
+      pinAttempts.refresh();
     }
   };
 
@@ -93,10 +125,24 @@ export const WalletSelector: React.FC<WalletSelectorProps> = ({
     setShowDeleteConfirm(null);
   };
 
+  const handleAddAccount = async () => {
+    const success = await addAccount(accountName.trim() || undefined);
+    if (success) {
+      setShowAddAccount(false);
+      setAccountName("");
+      onClose();
+    }
+  };
+
   const formatAddress = (address: string) => {
     return `${address.slice(0, 12)}...${address.slice(-8)}`;
   };
 
+  // Backup Export / Import View
+  if (backupMode) {
+    return <WalletBackupPanel mode={backupMode} onClose={() => setBackupMode(null)} />;
+  }
+
   // PIN Input View
   if (showPinInput) {
     const selectedWallet = wallets.find((w) => w.id === selectedWalletId);
@@ -113,6 +159,14 @@ export const WalletSelector: React.FC<WalletSelectorProps> = ({
             value={pin}
             onChange={setPin}
             disabled={isLoading}
+            {...pinAttempts.inputProps}
+          />
+
+          <BiometricUnlockButton
+            walletId={selectedWalletId}
+            onUnlock={handleSwitchWallet}
+            disabled={isLoading}
+            className="mt-4"
           />
 
           {error && (
@@ -134,7 +188,7 @@ export const WalletSelector: React.FC<WalletSelectorProps> = ({
             </Button>
             <Button
               fullWidth
-              onClick={handleSwitchWallet}
+              onClick={() => handleSwitchWallet()}
               disabled={pin.length < 6 || isLoading}
               isLoading={isLoading}
             >
@@ -178,7 +232,9 @@ export const WalletSelector: React.FC<WalletSelectorProps> = ({
               {showDeleteConfirm === wallet.id && (
                 <div className="absolute inset-0 bg-gray-900/95 rounded-xl flex items-center justify-center p-4 z-10">
                   <div className="text-center">
-                    <p className="text-white text-sm mb-3">Delete this wallet?</p>
+                    <p className="text-white text-sm mb-3">
+                      {accountCounts[getMnemonicId(wallet)] > 1 ? "Remove this account?" : "Delete this wallet?"}
+                    </p>
                     <div className="flex gap-2">
                       <Button
                         size="sm"
@@ -221,6 +277,16 @@ export const WalletSelector: React.FC<WalletSelectorProps> = ({
                   <div className="flex items-center justify-between mb-2">
                     <div className="flex items-center gap-2">
                       <span className="text-white font-medium">{String(wallet.name || "Unnamed Wallet")}</span>
+                      {(accountCounts[getMnemonicId(wallet)] > 1 || !!wallet.accountIndex) && (
+                        <span className="text-xs bg-gray-700 text-gray-300 px-2 py-0.5 rounded-full">
+                          Account {(wallet.accountIndex || 0) + 1}
+                        </span>
+                      )}
+                      {wallet.watchOnly && (
+                        <span className="text-xs bg-amber-600 text-white px-2 py-0.5 rounded-full">
+                          Watch-only
+                        </span>
+                      )}
                       {wallet.id === activeWalletId && (
                         <span className="text-xs bg-blue-500 text-white px-2 py-0.5 rounded-full">
                           Active
@@ -266,8 +332,45 @@ export const WalletSelector: React.FC<WalletSelectorProps> = ({
           ))}
         </div>
 
-        {/* Add Wallet Button */}
-        <div className="p-4 border-t border-gray-800">
+        {/* Add Wallet / Account Buttons */}
+        <div className="p-4 border-t border-gray-800 space-y-3">
+          {showAddAccount ? (
+            <div className="space-y-3">
+              <Input
+                value={accountName}
+                onChange={(e) => setAccountName(e.target.value)}
+                placeholder="Account name (optional)"
+                autoFocus
+              />
+              {error && <p className="text-red-500 text-sm text-center">{String(error)}</p>}
+              <div className="flex gap-3">
+                <Button
+                  variant="secondary"
+                  fullWidth
+                  onClick={() => {
+                    setShowAddAccount(false);
+                    setAccountName("");
+                    clearError();
+                  }}
+                >
+                  Cancel
+                </Button>
+                <Button fullWidth onClick={handleAddAccount} disabled={isLoading} isLoading={isLoading}>
+                  Add Account
+                </Button>
+              </div>
+            </div>
+          ) : (
+            isLoggedIn &&
+            !isWatchOnly && (
+              <Button variant="secondary" fullWidth onClick={() => setShowAddAccount(true)}>
+                <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                </svg>
+                Add Account to This Wallet
+              </Button>
+            )
+          )}
           <Button
             variant="secondary"
             fullWidth
@@ -278,6 +381,21 @@ export const WalletSelector: React.FC<WalletSelectorProps> = ({
             </svg>
             Add New Wallet
           </Button>
+          {isLoggedIn && !isWatchOnly && onRestoreLegacy && (
+            <Button variant="ghost" fullWidth onClick={onRestoreLegacy}>
+              Restore Legacy Wallet (Byron, Ledger)
+            </Button>
+          )}
+          <div className="flex gap-3">
+            {isLoggedIn && !isWatchOnly && (
+              <Button variant="ghost" fullWidth onClick={() => setBackupMode("export")}>
+                Export Backup
+              </Button>
+            )}
+            <Button variant="ghost" fullWidth onClick={() => setBackupMode("import")}>
+              Import Backup
+            </Button>
+          </div>
         </div>
       </Card>
     </div>
@@ -7,13 +7,25 @@ export type { MnemonicDisplayProps } from "./MnemonicDisplay";
 export { MnemonicInput } from "./MnemonicInput";
 export type { MnemonicInputProps } from "./MnemonicInput";
 
+export { MnemonicQuiz } from "./MnemonicQuiz";
+export type { MnemonicQuizProps } from "./MnemonicQuiz";
+
+export { MnemonicSharesPanel, MnemonicShareInput } from "./MnemonicShares";
+export type { MnemonicSharesPanelProps, MnemonicShareInputProps } from "./MnemonicShares";
+
 export { TransactionList } from "./TransactionList";
 export type { TransactionListProps } from "./TransactionList";
 
+export { TransactionDetail } from "./TransactionDetail";
+export type { TransactionDetailProps } from "./TransactionDetail";
+
 export { WalletDashboard } from "./WalletDashboard";
 
 export { WalletSelector } from "./WalletSelector";
 
+export { WalletBackupPanel } from "./WalletBackupPanel";
+export type { WalletBackupPanelProps, WalletBackupMode } from "./WalletBackupPanel";
+
 export { SendScreen } from "./SendScreen";
 export type { SendScreenProps } from "./SendScreen";
 
@@ -46,4 +58,32 @@ export type { SwapScreenProps } from "./SwapScreen";
 
 export { GovernanceScreen } from "./GovernanceScreen";
 export type { GovernanceScreenProps } from "./GovernanceScreen";
-export { MultiSendScreen } from "./MultiSendScreen";
\ No newline at end of file
+export { MultiSendScreen } from "./MultiSendScreen";
+export { UtxoManager } from "./UtxoManager";
+export type { UtxoManagerProps } from "./UtxoManager";
+
+export { CoinControlPicker } from "./CoinControlPicker";
+export type { CoinControlPickerProps } from "./CoinControlPicker";
+
+export { ConsolidatePanel } from "./ConsolidatePanel";
+export type { ConsolidatePanelProps } from "./ConsolidatePanel";
+
+export { AddressBookPicker, SaveContactForm } from "./AddressBookPicker";
+export type { AddressBookPickerProps, SaveContactFormProps } from "./AddressBookPicker";
+
+export { LegacyRestoreScreen } from "./LegacyRestoreScreen";
+export type { LegacyRestoreScreenProps } from "./LegacyRestoreScreen";
+
+export { BiometricUnlockButton } from "./BiometricUnlockButton";
+export type { BiometricUnlockButtonProps } from "./BiometricUnlockButton";
+
+export { DuressPinSettings } from "./DuressPinSettings";
+
+export { SecuritySettingsModal } from "./SecuritySettingsModal";
+export type { SecuritySettingsModalProps } from "./SecuritySettingsModal";
+
+export { ExportHistoryModal } from "./ExportHistoryModal";
+export type { ExportHistoryModalProps } from "./ExportHistoryModal";
+
+export { TransactionReviewModal } from "./TransactionReviewModal";
+export type { TransactionReviewModalProps } from "./TransactionReviewModal";
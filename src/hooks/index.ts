@@ -1,7 +1,28 @@
 // Wallet state management
-export { useWalletStore, useWalletStatus, useWalletData, useWalletActions } from "./useWalletStore";
+export { useWalletStore, useWalletStatus, useWalletData, useWalletActions, AUTO_LOCK_OPTIONS } from "./useWalletStore";
 export type { WalletState } from "./useWalletStore";
 
+// Auto-lock after inactivity or backgrounding
+export { useAutoLock } from "./useAutoLock";
+
+// Failed PIN attempts and lockouts
+export { usePinAttempts } from "./usePinAttempts";
+export type { PinAttemptsState } from "./usePinAttempts";
+
+// Biometric unlock through Telegram's BiometricManager
+export { useBiometricUnlock } from "./useBiometricUnlock";
+export type { BiometricUnlockState } from "./useBiometricUnlock";
+
+// Confirming transactions before signing
+export { useTransactionReview } from "./useTransactionReview";
+export type { TransactionReviewState } from "./useTransactionReview";
+
 // Telegram WebApp integration
 export { useTelegram, useIsTelegram } from "./useTelegram";
-export type { TelegramUser, TelegramThemeParams, TelegramState, TelegramActions } from "./useTelegram";
+export type {
+  TelegramUser,
+  TelegramThemeParams,
+  TelegramBiometricState,
+  TelegramState,
+  TelegramActions,
+} from "./useTelegram";
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { useAutoLock } from './useAutoLock';
+
+const cleanups: (() => void)[] = [];
+
+// Run effects right away, so the hook can be called outside a renderer
+vi.mock('react', () => ({
+  useEffect: (effect: () => void | (() => void)) => {
+    const cleanup = effect();
+    if (cleanup) cleanups.push(cleanup);
+  },
+}));
+
+const state = {
+  isLoggedIn: true,
+  isWatchOnly: false,
+  autoLockMinutes: 5,
+  touchActivity: vi.fn(),
+  lockWallet: vi.fn(),
+};
+
+vi.mock('./useWalletStore', () => ({
+  useWalletStore: (selector: (s: typeof state) => unknown) => selector(state),
+}));
+
+describe('useAutoLock', () => {
+  let page: EventTarget & { visibilityState: string };
+  let telegramHandlers: Map<string, () => void>;
+
+  const hidePage = () => {
+    page.visibilityState = 'hidden';
+    page.dispatchEvent(new Event('visibilitychange'));
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    Object.assign(state, { isLoggedIn: true, isWatchOnly: false, autoLockMinutes: 5 });
+    state.touchActivity.mockClear();
+    state.lockWallet.mockClear();
+
+    page = Object.assign(new EventTarget(), { visibilityState: 'visible' });
+    telegramHandlers = new Map();
+    const webApp = {
+      onEvent: (event: string, handler: () => void) => telegramHandlers.set(event, handler),
+      offEvent: (event: string) => telegramHandlers.delete(event),
+    };
+    vi.stubGlobal('document', page);
+    vi.stubGlobal('window', Object.assign(new EventTarget(), { Telegram: { WebApp: webApp } }));
+  });
+
+  afterEach(() => {
+    cleanups.splice(0).forEach((cleanup) => cleanup());
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('restarts the inactivity timer on user activity', () => {
+    useAutoLock();
+    expect(state.touchActivity).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(6000);
+    window.dispatchEvent(new Event('keydown'));
+    window.dispatchEvent(new Event('pointerdown'));
+
+    expect(state.touchActivity).toHaveBeenCalledTimes(2);
+  });
+
+  it('locks when the page is hidden or Telegram minimizes the app', () => {
+    useAutoLock();
+
+    hidePage();
+    telegramHandlers.get('deactivated')?.();
+
+    expect(state.lockWallet).toHaveBeenCalledTimes(2);
+  });
+
+  it('still locks in the background when the inactivity timer is off', () => {
+    state.autoLockMinutes = 0;
+    useAutoLock();
+
+    hidePage();
+    telegramHandlers.get('deactivated')?.();
+
+    expect(state.lockWallet).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves watch-only wallets open', () => {
+    state.isWatchOnly = true;
+    useAutoLock();
+
+    hidePage();
+
+    expect(state.lockWallet).not.toHaveBeenCalled();
+    expect(telegramHandlers.size).toBe(0);
+  });
+
+  it('stops listening on cleanup', () => {
+    useAutoLock();
+    cleanups.splice(0).forEach((cleanup) => cleanup());
+
+    hidePage();
+
+    expect(state.lockWallet).not.toHaveBeenCalled();
+    expect(telegramHandlers.size).toBe(0);
+  });
+});
@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect } from "react";
+import { useWalletStore } from "./useWalletStore";
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "touchstart", "scroll"] as const;
+
+// Restart the timer at most this often while the user is active
+const ACTIVITY_THROTTLE_MS = 5000;
+
+/**
+ * Lock the wallet after inactivity and when the app goes to the background
+ *
+ * The timer itself lives in useWalletStore (touchActivity); this hook feeds it
+ * user activity and locks right away when Telegram reports the Mini App was
+ * minimized or the page is hidden. Hiding the app locks it even when the
+ * inactivity timer is off. Mount once, in the page that renders the wallet
+ * views.
+ */
+export const useAutoLock = (): void => {
+  const isLoggedIn = useWalletStore((s) => s.isLoggedIn);
+  const isWatchOnly = useWalletStore((s) => s.isWatchOnly);
+  const autoLockMinutes = useWalletStore((s) => s.autoLockMinutes);
+  const touchActivity = useWalletStore((s) => s.touchActivity);
+  const lockWallet = useWalletStore((s) => s.lockWallet);
+
+  useEffect(() => {
+    touchActivity();
+    if (!isLoggedIn || isWatchOnly) return;
+
+    let lastActivity = Date.now();
+    const handleActivity = () => {
+      if (Date.now() - lastActivity < ACTIVITY_THROTTLE_MS) return;
+      lastActivity = Date.now();
+      touchActivity();
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === "hidden") lockWallet();
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener("visibilitychange", handleVisibility);
+    const webApp = window.Telegram?.WebApp;
+    webApp?.onEvent("deactivated", lockWallet);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+      document.removeEventListener("visibilitychange", handleVisibility);
+      webApp?.offEvent("deactivated", lockWallet);
+    };
+  }, [isLoggedIn, isWatchOnly, autoLockMinutes, touchActivity, lockWallet]);
+};
@@ -0,0 +1,103 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useTelegram } from "./useTelegram";
+import {
+  disableBiometricUnlock,
+  enableBiometricUnlock,
+  generateBiometricToken,
+  hasBiometricUnlock,
+  type BiometricUnlock,
+} from "@/lib/storage/encryption";
+
+export interface BiometricUnlockState {
+  isSupported: boolean; // Telegram reports usable biometrics on this device
+  isEnabled: boolean; // The wallet opted in on this device
+  canUnlock: boolean;
+  label: string;
+  unlock: () => Promise<BiometricUnlock | null>;
+  enable: (pin: string) => Promise<{ success: boolean; error?: string }>;
+  disable: () => void;
+}
+
+/**
+ * Biometric unlock of a wallet through Telegram's BiometricManager
+ *
+ * Telegram keeps one token per device in secure storage, released only after
+ * a biometric check. The token wraps a random key per wallet (see
+ * enableBiometricUnlock), so the PIN is never stored. The PIN keeps working,
+ * and is the fallback whenever biometrics fail or are unavailable.
+ */
+export const useBiometricUnlock = (walletId?: string | null): BiometricUnlockState => {
+  const {
+    isInTelegram,
+    biometric,
+    initBiometric,
+    requestBiometricAccess,
+    authenticateBiometric,
+    updateBiometricToken,
+  } = useTelegram();
+  // Bumped on opt-in changes so the stored flag below is read again
+  const [, setRevision] = useState(0);
+
+  useEffect(() => {
+    if (isInTelegram) initBiometric();
+  }, [isInTelegram, initBiometric]);
+
+  const isEnabled = !!walletId && hasBiometricUnlock(walletId);
+  const label = biometric.type === "face" ? "Face ID" : biometric.type === "finger" ? "Fingerprint" : "Biometrics";
+
+  const unlock = useCallback(async (): Promise<BiometricUnlock | null> => {
+    const token = await authenticateBiometric("Unlock your wallet");
+    return token ? { biometricToken: token } : null;
+  }, [authenticateBiometric]);
+
+  const enable = useCallback(
+    async (pin: string): Promise<{ success: boolean; error?: string }> => {
+      if (!walletId) {
+        return { success: false, error: "No wallet selected" };
+      }
+      if (!(await initBiometric())) {
+        return { success: false, error: "Biometrics are not available on this device" };
+      }
+      if (!(await requestBiometricAccess("Unlock your wallet without typing your PIN"))) {
+        return { success: false, error: "Biometric access was denied. Allow it in Telegram settings." };
+      }
+
+      // Reuse the device token so other wallets keep working; create it on first use
+      let token = await authenticateBiometric("Confirm to enable biometric unlock");
+      if (token === null) {
+        return { success: false, error: "Biometric check failed" };
+      }
+      if (!token) {
+        token = generateBiometricToken();
+        if (!(await updateBiometricToken(token))) {
+          return { success: false, error: "Could not save the biometric token" };
+        }
+      }
+
+      if (!(await enableBiometricUnlock(pin, token, walletId))) {
+        return { success: false, error: "Invalid PIN" };
+      }
+      setRevision((r) => r + 1);
+      return { success: true };
+    },
+    [walletId, initBiometric, requestBiometricAccess, authenticateBiometric, updateBiometricToken]
+  );
+
+  const disable = useCallback(() => {
+    if (!walletId) return;
+    disableBiometricUnlock(walletId);
+    setRevision((r) => r + 1);
+  }, [walletId]);
+
+  return {
+    isSupported: biometric.isAvailable,
+    isEnabled,
+    canUnlock: biometric.isAvailable && biometric.isAccessGranted && biometric.isTokenSaved && isEnabled,
+    label,
+    unlock,
+    enable,
+    disable,
+  };
+};
@@ -0,0 +1,54 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useWalletStore } from "./useWalletStore";
+import { getPinAttemptStatus, getWalletInfo, type PinAttemptStatus } from "@/lib/storage/encryption";
+
+export interface PinAttemptsState {
+  status: PinAttemptStatus;
+  // Spread into PinInput
+  inputProps: {
+    attemptsLeft?: number;
+    eraseWarning: boolean;
+    lockoutSeconds: number;
+  };
+  refresh: () => void;
+}
+
+/**
+ * Failed PIN attempts of a wallet, for PinInput
+ *
+ * Call refresh() after a PIN check fails. The lockout counts down on its own,
+ * and a wallet erased after too many failures is removed from the store.
+ */
+export const usePinAttempts = (walletId?: string | null): PinAttemptsState => {
+  const syncRemovedWallet = useWalletStore((s) => s.syncRemovedWallet);
+  // Bumped to read the stored attempts again
+  const [, setRevision] = useState(0);
+
+  const status = getPinAttemptStatus(walletId || undefined);
+  const isLockedOut = status.lockoutRemaining > 0;
+
+  useEffect(() => {
+    if (!isLockedOut) return;
+    const timer = setInterval(() => setRevision((r) => r + 1), 1000);
+    return () => clearInterval(timer);
+  }, [isLockedOut]);
+
+  const refresh = useCallback(() => {
+    if (walletId && !getWalletInfo(walletId)) {
+      syncRemovedWallet(walletId);
+    }
+    setRevision((r) => r + 1);
+  }, [walletId, syncRemovedWallet]);
+
+  return {
+    status,
+    inputProps: {
+      attemptsLeft: status.failedAttempts > 0 ? status.attemptsLeft : undefined,
+      eraseWarning: status.erasesWallet,
+      lockoutSeconds: status.lockoutRemaining,
+    },
+    refresh,
+  };
+};
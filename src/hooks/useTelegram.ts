@@ -28,6 +28,18 @@ export interface TelegramThemeParams {
   secondary_bg_color?: string;
 }
 
+/**
+ * Telegram BiometricManager state (Bot API 7.2+)
+ */
+export interface TelegramBiometricState {
+  isInited: boolean;
+  isAvailable: boolean;
+  type: "finger" | "face" | "unknown";
+  isAccessRequested: boolean;
+  isAccessGranted: boolean;
+  isTokenSaved: boolean;
+}
+
 /**
  * Telegram environment state
  */
@@ -43,6 +55,7 @@ export interface TelegramState {
   viewportHeight: number;
   viewportStableHeight: number;
   isExpanded: boolean;
+  biometric: TelegramBiometricState;
 }
 
 /**
@@ -75,8 +88,41 @@ export interface TelegramActions {
   openLink: (url: string) => void;
   openTelegramLink: (url: string) => void;
   sendData: (data: string) => void;
+  initBiometric: () => Promise<boolean>;
+  requestBiometricAccess: (reason: string) => Promise<boolean>;
+  authenticateBiometric: (reason: string) => Promise<string | null>;
+  updateBiometricToken: (token: string) => Promise<boolean>;
+  openBiometricSettings: () => void;
 }
 
+/**
+ * Default biometric state when BiometricManager is missing or not initialized
+ */
+const defaultBiometricState: TelegramBiometricState = {
+  isInited: false,
+  isAvailable: false,
+  type: "unknown",
+  isAccessRequested: false,
+  isAccessGranted: false,
+  isTokenSaved: false,
+};
+
+/**
+ * Read the BiometricManager state
+ */
+const readBiometricState = (tg: typeof window.Telegram.WebApp): TelegramBiometricState => {
+  const manager = tg.BiometricManager;
+  if (!manager) return defaultBiometricState;
+  return {
+    isInited: manager.isInited,
+    isAvailable: manager.isInited && manager.isBiometricAvailable,
+    type: manager.biometricType || "unknown",
+    isAccessRequested: manager.isAccessRequested,
+    isAccessGranted: manager.isAccessGranted,
+    isTokenSaved: manager.isBiometricTokenSaved,
+  };
+};
+
 /**
  * Default state when not in Telegram
  */
@@ -92,6 +138,7 @@ const defaultState: TelegramState = {
   viewportHeight: 0,
   viewportStableHeight: 0,
   isExpanded: false,
+  biometric: defaultBiometricState,
 };
 
 /**
@@ -101,7 +148,7 @@ const defaultState: TelegramState = {
  * - Environment detection (Telegram vs Browser)
  * - User data access
  * - Theme synchronization
- * - Native Telegram features (haptics, popups, etc.)
+ * - Native Telegram features (haptics, popups, biometrics, etc.)
  */
 export const useTelegram = (): TelegramState & TelegramActions => {
   const [state, setState] = useState<TelegramState>(defaultState);
@@ -128,6 +175,7 @@ export const useTelegram = (): TelegramState & TelegramActions => {
           viewportHeight: tg.viewportHeight || window.innerHeight,
           viewportStableHeight: tg.viewportStableHeight || window.innerHeight,
           isExpanded: tg.isExpanded || false,
+          biometric: readBiometricState(tg),
         });
 
         // Listen for theme changes
@@ -148,6 +196,11 @@ export const useTelegram = (): TelegramState & TelegramActions => {
             isExpanded: tg.isExpanded,
           }));
         });
+
+        // Listen for biometric access and token changes
+        tg.onEvent("biometricManagerUpdated", () => {
+          setState((prev) => ({ ...prev, biometric: readBiometricState(tg) }));
+        });
       } else {
         // Not in Telegram - running in standard browser
         setState({
@@ -292,6 +345,77 @@ export const useTelegram = (): TelegramState & TelegramActions => {
     [webApp]
   );
 
+  const initBiometric = useCallback((): Promise<boolean> => {
+    return new Promise((resolve) => {
+      const manager = webApp?.BiometricManager;
+      if (!webApp || !manager) {
+        resolve(false);
+        return;
+      }
+      if (manager.isInited) {
+        resolve(manager.isBiometricAvailable);
+        return;
+      }
+      manager.init(() => {
+        setState((prev) => ({ ...prev, biometric: readBiometricState(webApp) }));
+        resolve(manager.isBiometricAvailable);
+      });
+    });
+  }, [webApp]);
+
+  const requestBiometricAccess = useCallback(
+    (reason: string): Promise<boolean> => {
+      return new Promise((resolve) => {
+        const manager = webApp?.BiometricManager;
+        if (!manager?.isInited) {
+          resolve(false);
+          return;
+        }
+        if (manager.isAccessGranted) {
+          resolve(true);
+          return;
+        }
+        manager.requestAccess({ reason }, resolve);
+      });
+    },
+    [webApp]
+  );
+
+  // Resolves the stored token ("" if none) once biometrics pass, null otherwise
+  const authenticateBiometric = useCallback(
+    (reason: string): Promise<string | null> => {
+      return new Promise((resolve) => {
+        const manager = webApp?.BiometricManager;
+        if (!manager?.isInited || !manager.isAccessGranted) {
+          resolve(null);
+          return;
+        }
+        manager.authenticate({ reason }, (isAuthenticated, biometricToken) => {
+          resolve(isAuthenticated ? biometricToken || "" : null);
+        });
+      });
+    },
+    [webApp]
+  );
+
+  const updateBiometricToken = useCallback(
+    (token: string): Promise<boolean> => {
+      return new Promise((resolve) => {
+        const manager = webApp?.BiometricManager;
+        if (!manager?.isInited || !manager.isAccessGranted) {
+          resolve(false);
+          return;
+        }
+        manager.updateBiometricToken(token, resolve);
+      });
+    },
+    [webApp]
+  );
+
+  const openBiometricSettings = useCallback(() => {
+    webApp?.BiometricManager?.openSettings();
+  }, [webApp]);
+
   return {
     ...state,
     ready,
@@ -308,6 +432,11 @@ export const useTelegram = (): TelegramState & TelegramActions => {
     openLink,
     openTelegramLink,
     sendData,
+    initBiometric,
+    requestBiometricAccess,
+    authenticateBiometric,
+    updateBiometricToken,
+    openBiometricSettings,
   };
 };
 
@@ -374,6 +503,23 @@ declare global {
         openLink: (url: string) => void;
         openTelegramLink: (url: string) => void;
         sendData: (data: string) => void;
+        BiometricManager?: {
+          isInited: boolean;
+          isBiometricAvailable: boolean;
+          biometricType: "finger" | "face" | "unknown";
+          isAccessRequested: boolean;
+          isAccessGranted: boolean;
+          isBiometricTokenSaved: boolean;
+          deviceId: string;
+          init: (callback?: () => void) => void;
+          requestAccess: (params: { reason?: string }, callback?: (isAccessGranted: boolean) => void) => void;
+          authenticate: (
+            params: { reason?: string },
+            callback?: (isAuthenticated: boolean, biometricToken?: string) => void
+          ) => void;
+          updateBiometricToken: (token: string, callback?: (isBiometricTokenUpdated: boolean) => void) => void;
+          openSettings: () => void;
+        };
         onEvent: (event: string, callback: () => void) => void;
         offEvent: (event: string, callback: () => void) => void;
       };
@@ -0,0 +1,46 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+
+export interface TransactionReviewState {
+  // Resolves true once the user confirms the transaction, false if rejected
+  requestReview: (cbor: string) => Promise<boolean>;
+  // Spread into TransactionReviewModal
+  reviewProps: {
+    cbor: string | null;
+    onConfirm: () => void;
+    onReject: () => void;
+  };
+}
+
+/**
+ * Ask the user to confirm a transaction before it is signed
+ *
+ * One review is open at a time; a new request rejects the one still open.
+ */
+export const useTransactionReview = (): TransactionReviewState => {
+  const [cbor, setCbor] = useState<string | null>(null);
+  const resolver = useRef<((approved: boolean) => void) | null>(null);
+
+  const requestReview = useCallback((tx: string) => {
+    resolver.current?.(false);
+    return new Promise<boolean>((resolve) => {
+      resolver.current = resolve;
+      setCbor(tx);
+    });
+  }, []);
+
+  const settle = useCallback((approved: boolean) => {
+    resolver.current?.(approved);
+    resolver.current = null;
+    setCbor(null);
+  }, []);
+
+  const onConfirm = useCallback(() => settle(true), [settle]);
+  const onReject = useCallback(() => settle(false), [settle]);
+
+  return {
+    requestReview,
+    reviewProps: { cbor, onConfirm, onReject },
+  };
+};
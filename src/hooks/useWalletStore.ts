@@ -6,33 +6,54 @@ import { useShallow } from "zustand/react/shallow";
 import { MeshWallet } from "@meshsdk/core";
 import {
   createWalletFromMnemonic,
-  getWalletBalance,
+  getWalletDerivation,
   getTransactionHistory,
+  getTransactionHistoryPage,
+  createHistoryCursor,
+  getAddressesBalance,
+  discoverAddresses,
+  getDiscoveredWalletAddresses,
+  getSpendingAddresses,
+  spendFromDiscoveredAddresses,
+  resolveWatchTarget,
+  getWatchAddresses,
   generateMnemonic,
   validateMnemonic,
   normalizeMnemonic,
   type WalletBalance,
   type TransactionInfo,
+  type TransactionHistoryCursor,
+  type AddressDiscovery,
   type CardanoNetwork,
+  type DerivationOptions,
 } from "@/lib/cardano";
 import {
   encryptAndSaveWallet,
-  decryptWallet,
+  decryptWalletSecret,
   deleteWallet as deleteStoredWallet,
   deleteAllWallets,
   getStoredWalletAddress,
   hasPinSet,
   renameWallet,
   getWalletInfo,
+  addWalletAccount,
+  addWatchOnlyWallet,
   isLockedOut,
   getLockoutRemaining,
   validatePinStrength,
+  importWalletBackup,
+  type WalletBackupContents,
+  type WalletBackupImportResult,
+  type WalletUnlock,
 } from "@/lib/storage/encryption";
 import {
   hasStoredWallet,
   getWalletsList,
   getActiveWalletId,
   setActiveWalletId,
+  getNextAccountIndex,
+  setWalletBackedUp,
+  updateWalletInList,
   type StoredWalletInfo,
 } from "@/lib/storage";
 
@@ -52,32 +73,194 @@ export interface WalletState {
   // Current wallet data
   walletAddress: string | null;
   walletName: string | null;
+  walletAddresses: string[]; // Discovered addresses balance and history cover
+  isWatchOnly: boolean; // No keys loaded, signing actions are hidden
   balance: WalletBalance | null;
+  balanceError: string | null; // Set when the last balance lookup failed
   transactions: TransactionInfo[];
+  hasMoreTransactions: boolean;
   network: CardanoNetwork;
 
+  // Minutes of inactivity before the wallet locks itself (0 = never)
+  autoLockMinutes: number;
+
   // Internal wallet instance (not persisted)
   _walletInstance: MeshWallet | null;
   // Mnemonic in memory (not persisted)
   _mnemonic?: string;
+  // Position of the next history page (not persisted)
+  _historyCursor: TransactionHistoryCursor | null;
+  // Derived addresses of the account (not persisted)
+  _addressDiscovery: AddressDiscovery | null;
 
   // Actions
-  createNewWallet: (pin: string, name?: string, wordCount?: 12 | 15 | 18 | 21 | 24) => Promise<string>;
-  importWallet: (mnemonic: string, pin: string, name?: string) => Promise<boolean>;
-  unlockWallet: (pin: string, walletId?: string) => Promise<boolean>;
+  createNewWallet: (
+    pin: string,
+    name?: string,
+    wordCount?: 12 | 15 | 18 | 21 | 24,
+    passphrase?: string
+  ) => Promise<string>;
+  importWallet: (mnemonic: string, pin: string, name?: string, passphrase?: string) => Promise<boolean>;
+  unlockWallet: (unlock: WalletUnlock, walletId?: string) => Promise<boolean>;
+  addAccount: (name?: string) => Promise<boolean>;
+  addWatchOnlyWallet: (input: string, name?: string) => Promise<boolean>;
   lockWallet: () => void;
-  switchWallet: (walletId: string, pin: string) => Promise<boolean>;
+  touchActivity: () => void;
+  setAutoLockMinutes: (minutes: number) => void;
+  switchWallet: (walletId: string, unlock: WalletUnlock) => Promise<boolean>;
   deleteWallet: (walletId?: string) => void;
+  syncRemovedWallet: (walletId: string) => void;
   deleteAllWallets: () => void;
   renameWallet: (walletId: string, newName: string) => boolean;
+  importBackup: (contents: WalletBackupContents, pin: string) => Promise<WalletBackupImportResult>;
+  markBackedUp: () => void;
   changeNetwork: (network: CardanoNetwork) => void;
     refreshBalance: () => Promise<void>;
+  refreshTransactions: () => Promise<void>;
+  loadMoreTransactions: () => Promise<void>;
     setError: (error: string | null) => void;
     clearError: () => void;
   hasStoredWallet: () => boolean;
   getWalletCount: () => number;
 }
 
+/**
+ * Auto-lock choices in minutes (0 = never)
+ */
+export const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 0];
+const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+// Inactivity timer of the unlocked wallet (not part of the state)
+let autoLockTimer: ReturnType<typeof setTimeout> | null = null;
+
+const clearAutoLockTimer = () => {
+  if (autoLockTimer) {
+    clearTimeout(autoLockTimer);
+    autoLockTimer = null;
+  }
+};
+
+type HistoryState = Pick<WalletState, "transactions" | "hasMoreTransactions" | "_historyCursor">;
+
+const EMPTY_HISTORY: HistoryState = {
+  transactions: [],
+  hasMoreTransactions: false,
+  _historyCursor: null,
+};
+
+type AddressState = Pick<WalletState, "walletAddresses" | "_addressDiscovery">;
+
+const EMPTY_ADDRESSES: AddressState = {
+  walletAddresses: [],
+  _addressDiscovery: null,
+};
+
+/**
+ * Discover the used addresses of an account and let the wallet spend from them
+ * Falls back to the first address if discovery fails.
+ */
+const loadAddresses = async (
+  wallet: MeshWallet,
+  mnemonic: string,
+  address: string,
+  network: CardanoNetwork,
+  derivation: DerivationOptions
+): Promise<AddressState> => {
+  try {
+    const discovery = await discoverAddresses(mnemonic, derivation, network);
+    spendFromDiscoveredAddresses(wallet, discovery, network);
+    const addresses = getDiscoveredWalletAddresses(discovery);
+    return {
+      walletAddresses: addresses.includes(address) ? addresses : [address, ...addresses],
+      _addressDiscovery: discovery,
+    };
+  } catch (error) {
+    console.warn("Address discovery failed, using the first address only:", error);
+    return { walletAddresses: [address], _addressDiscovery: null };
+  }
+};
+
+/**
+ * Load the balance across every wallet address
+ * Throws if any address cannot be looked up; see BALANCE_LOAD_ERROR.
+ */
+const loadBalance = async (addresses: string[], network: CardanoNetwork): Promise<WalletBalance> => {
+  return getAddressesBalance(addresses, network);
+};
+
+const BALANCE_LOAD_ERROR = "Balance failed to load";
+
+/**
+ * Load the first page of history across every wallet address
+ * A single address also picks up the other addresses of its stake key.
+ */
+const loadHistory = async (addresses: string[], network: CardanoNetwork): Promise<HistoryState> => {
+  const page =
+    addresses.length > 1
+      ? await getTransactionHistoryPage(createHistoryCursor(addresses, network))
+      : await getTransactionHistory(addresses[0], network);
+  return {
+    transactions: page.transactions,
+    hasMoreTransactions: page.hasMore,
+    _historyCursor: page.cursor,
+  };
+};
+
+/**
+ * Load a watch-only wallet: every address of its stake key, balance and history
+ * There is no mnemonic, so the wallet instance stays empty.
+ */
+const openWatchOnlyWallet = async (walletInfo: StoredWalletInfo, network: CardanoNetwork) => {
+  let walletAddresses = [walletInfo.address];
+  let balance: WalletBalance = {
+    lovelace: "0",
+    ada: "0.000000",
+    assets: [],
+  };
+  let balanceError: string | null = null;
+  let history = EMPTY_HISTORY;
+
+  try {
+    walletAddresses = await getWatchAddresses(
+      { address: walletInfo.address, stakeAddress: walletInfo.stakeAddress || null },
+      network
+    );
+  } catch (error) {
+    console.warn("Failed to load stake key addresses, using the watched address only:", error);
+  }
+
+  try {
+    balance = await loadBalance(walletAddresses, network);
+  } catch (error) {
+    console.warn("Failed to fetch watch-only balance:", error);
+    balanceError = BALANCE_LOAD_ERROR;
+  }
+
+  try {
+    history = await loadHistory(walletAddresses, network);
+  } catch (txError) {
+    console.warn("Failed to fetch watch-only transactions:", txError);
+  }
+
+  return {
+    isLoggedIn: true,
+    isLoading: false,
+    wallets: getWalletsList(),
+    activeWalletId: walletInfo.id,
+    walletAddress: walletInfo.address,
+    walletName: walletInfo.name,
+    balance,
+    balanceError,
+    ...history,
+    ...EMPTY_ADDRESSES,
+    walletAddresses,
+    isWatchOnly: true,
+    network,
+    _walletInstance: null,
+    _mnemonic: undefined,
+  };
+};
+
 /**
  * Zustand store for wallet state management
  * 
@@ -100,15 +283,20 @@ export const useWalletStore = create<WalletState>()(
       walletAddress: null,
       walletName: null,
       balance: null,
-      transactions: [],
+      balanceError: null,
+      ...EMPTY_HISTORY,
+      ...EMPTY_ADDRESSES,
+      isWatchOnly: false,
       network: (process.env.NEXT_PUBLIC_CARDANO_NETWORK as CardanoNetwork) || "preview",
+      autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
       _walletInstance: null,
 
       /**
        * Create a new wallet with a fresh mnemonic
        * Returns the mnemonic for user backup (MUST be shown to user!)
+       * An optional BIP-39 passphrase is needed along with the mnemonic to restore the wallet.
        */
-      createNewWallet: async (pin: string, name?: string, wordCount = 24) => {
+      createNewWallet: async (pin: string, name?: string, wordCount = 24, passphrase?: string) => {
         set({ isLoading: true, error: null });
 
         try {
@@ -122,7 +310,8 @@ export const useWalletStore = create<WalletState>()(
           const mnemonic = generateMnemonic(wordCount);
 
           // Create wallet instance
-          const { wallet, address, network } = await createWalletFromMnemonic(mnemonic);
+          const derivation: DerivationOptions = passphrase ? { password: passphrase } : {};
+          const { wallet, address, network } = await createWalletFromMnemonic(mnemonic, undefined, derivation);
           // Inject mnemonic ke wallet instance untuk CSL staking
           (wallet as any)._mnemonic = mnemonic;
           // Inject mnemonic ke wallet instance untuk CSL staking
@@ -133,10 +322,12 @@ export const useWalletStore = create<WalletState>()(
           const walletName = name || `Wallet ${existingWallets.length + 1}`;
 
           // Encrypt and save to localStorage
-          const walletId = encryptAndSaveWallet(mnemonic, pin, address, walletName);
+          const walletId = await encryptAndSaveWallet(mnemonic, pin, address, walletName, undefined, passphrase);
           if (!walletId) {
             throw new Error("Failed to save wallet securely");
           }
+          // Not backed up until the recovery phrase quiz is passed
+          updateWalletInList(walletId, { backedUp: false });
 
           // Default balance for new wallets
           let balance: WalletBalance = {
@@ -144,12 +335,16 @@ export const useWalletStore = create<WalletState>()(
             ada: "0.000000",
             assets: [],
           };
+          let balanceError: string | null = null;
+
+          const addresses = await loadAddresses(wallet, mnemonic, address, network, derivation);
 
           // Try to get initial balance (non-blocking)
           try {
-            balance = await getWalletBalance(wallet);
-          } catch (balanceError) {
-            console.warn("Failed to fetch initial balance:", balanceError);
+            balance = await loadBalance(addresses.walletAddresses, network);
+          } catch (error) {
+            console.warn("Failed to fetch initial balance:", error);
+            balanceError = BALANCE_LOAD_ERROR;
           }
 
           // Refresh wallets list
@@ -163,6 +358,9 @@ export const useWalletStore = create<WalletState>()(
             walletAddress: address,
             walletName,
             balance,
+            balanceError,
+            ...addresses,
+            isWatchOnly: false,
             network,
             _walletInstance: wallet,
             _mnemonic: mnemonic,
@@ -179,9 +377,9 @@ export const useWalletStore = create<WalletState>()(
       },
 
       /**
-       * Import existing wallet from mnemonic
+       * Import existing wallet from mnemonic (and BIP-39 passphrase, if it has one)
        */
-      importWallet: async (mnemonic: string, pin: string, name?: string) => {
+      importWallet: async (mnemonic: string, pin: string, name?: string, passphrase?: string) => {
         set({ isLoading: true, error: null });
 
         try {
@@ -198,7 +396,8 @@ export const useWalletStore = create<WalletState>()(
           }
 
           // Create wallet instance
-          const { wallet, address, network } = await createWalletFromMnemonic(normalizedMnemonic);
+          const derivation: DerivationOptions = passphrase ? { password: passphrase } : {};
+          const { wallet, address, network } = await createWalletFromMnemonic(normalizedMnemonic, undefined, derivation);
           // Inject mnemonic ke wallet instance untuk CSL staking
           (wallet as any)._mnemonic = normalizedMnemonic;
 
@@ -207,7 +406,7 @@ export const useWalletStore = create<WalletState>()(
           const walletName = name || `Wallet ${existingWallets.length + 1}`;
 
           // Encrypt and save to localStorage
-          const walletId = encryptAndSaveWallet(normalizedMnemonic, pin, address, walletName);
+          const walletId = await encryptAndSaveWallet(normalizedMnemonic, pin, address, walletName, undefined, passphrase);
           if (!walletId) {
             throw new Error("Failed to save wallet securely");
           }
@@ -218,18 +417,23 @@ export const useWalletStore = create<WalletState>()(
             ada: "0.000000",
             assets: [],
           };
-          let transactions: TransactionInfo[] = [];
+          let balanceError: string | null = null;
+          let history = EMPTY_HISTORY;
+
+          // Find funds on other addresses of the seed (e.g. used in Eternl or Lace)
+          const addresses = await loadAddresses(wallet, normalizedMnemonic, address, network, derivation);
 
           // Try to get initial balance (non-blocking)
           try {
-            balance = await getWalletBalance(wallet);
-          } catch (balanceError) {
-            console.warn("Failed to fetch initial balance:", balanceError);
+            balance = await loadBalance(addresses.walletAddresses, network);
+          } catch (error) {
+            console.warn("Failed to fetch initial balance:", error);
+            balanceError = BALANCE_LOAD_ERROR;
           }
 
           // Try to get transaction history (non-blocking)
           try {
-            transactions = await getTransactionHistory(address);
+            history = await loadHistory(addresses.walletAddresses, network);
           } catch (txError) {
             console.warn("Failed to fetch transactions:", txError);
           }
@@ -245,7 +449,10 @@ export const useWalletStore = create<WalletState>()(
             walletAddress: address,
             walletName,
             balance,
-            transactions,
+            balanceError,
+            ...history,
+            ...addresses,
+            isWatchOnly: false,
             network,
             _walletInstance: wallet,
             _mnemonic: normalizedMnemonic,
@@ -260,16 +467,18 @@ export const useWalletStore = create<WalletState>()(
       },
 
       /**
-       * Unlock wallet with PIN
+       * Unlock wallet with PIN, or biometrics if the wallet opted in
        */
-      unlockWallet: async (pin: string, walletId?: string) => {
+      unlockWallet: async (unlock: WalletUnlock, walletId?: string) => {
         set({ isLoading: true, error: null });
 
         try {
-          // Check for lockout due to too many failed attempts
-          if (isLockedOut()) {
-            const remaining = getLockoutRemaining();
-            throw new Error(`Too many failed attempts. Try again in ${remaining} seconds.`);
+          // Watch-only wallets have nothing to decrypt
+          const watchInfo = getWalletInfo(walletId || getActiveWalletId() || "");
+          if (watchInfo?.watchOnly) {
+            setActiveWalletId(watchInfo.id);
+            set(await openWatchOnlyWallet(watchInfo, get().network));
+            return true;
           }
 
           // Get wallet ID (use provided or active)
@@ -278,27 +487,49 @@ export const useWalletStore = create<WalletState>()(
             throw new Error("No wallet to unlock");
           }
 
+          // Check for lockout due to too many failed attempts
+          if (isLockedOut(id)) {
+            const remaining = getLockoutRemaining(id);
+            throw new Error(`Too many failed attempts. Try again in ${remaining} seconds.`);
+          }
+
           // Set as active wallet
           setActiveWalletId(id);
 
-          // Decrypt mnemonic from storage
-          const mnemonic = decryptWallet(pin, id);
-          if (!mnemonic) {
+          // Decrypt mnemonic and passphrase from storage
+          const secret = await decryptWalletSecret(unlock, id);
+          if (!secret) {
+            // Erased after reaching the configured number of failures
+            if (!getWalletInfo(id)) {
+              get().syncRemovedWallet(id);
+              throw new Error("Too many failed attempts. The wallet was erased from this device.");
+            }
             // Check if now locked out after this attempt
-            if (isLockedOut()) {
-              const remaining = getLockoutRemaining();
+            if (isLockedOut(id)) {
+              const remaining = getLockoutRemaining(id);
               throw new Error(`Too many failed attempts. Try again in ${remaining} seconds.`);
             }
             throw new Error("Invalid PIN");
           }
 
-          // Create wallet instance
-          const { wallet, address, network } = await createWalletFromMnemonic(mnemonic);
-          // Inject mnemonic ke wallet instance untuk CSL staking
-          (wallet as any)._mnemonic = mnemonic;
+          // A duress PIN opens its decoy wallet, which then becomes the active one
+          const unlockedId = secret.walletId;
+          if (unlockedId !== id) {
+            setActiveWalletId(unlockedId);
+          }
 
           // Get wallet info
-          const walletInfo = getWalletInfo(id);
+          const walletInfo = getWalletInfo(unlockedId);
+          const { mnemonic, passphrase } = secret;
+          const derivation: DerivationOptions = {
+            accountIndex: walletInfo?.accountIndex || 0,
+            ...(passphrase && { password: passphrase }),
+          };
+
+          // Create wallet instance for the stored account
+          const { wallet, address, network } = await createWalletFromMnemonic(mnemonic, undefined, derivation);
+          // Inject mnemonic ke wallet instance untuk CSL staking
+          (wallet as any)._mnemonic = mnemonic;
 
           // Refresh wallets list
           const wallets = getWalletsList();
@@ -309,23 +540,26 @@ export const useWalletStore = create<WalletState>()(
             ada: "0.000000",
             assets: [],
           };
+          let balanceError: string | null = null;
 
           // Default empty transactions
-          let transactions: TransactionInfo[] = [];
+          let history = EMPTY_HISTORY;
 
           // Try to get balance (non-blocking - wallet still unlocks if this fails)
 
           // Always set _mnemonic in state for CSL staking
           set({ _walletInstance: wallet, _mnemonic: mnemonic });
+          const addresses = await loadAddresses(wallet, mnemonic, address, network, derivation);
           try {
-            balance = await getWalletBalance(wallet);
-          } catch (balanceError) {
-            console.warn("Failed to fetch balance (new wallet or network issue):", balanceError);
+            balance = await loadBalance(addresses.walletAddresses, network);
+          } catch (error) {
+            console.warn("Failed to fetch balance (new wallet or network issue):", error);
+            balanceError = BALANCE_LOAD_ERROR;
           }
 
           // Try to get transaction history (non-blocking)
           try {
-            transactions = await getTransactionHistory(address);
+            history = await loadHistory(addresses.walletAddresses, network);
           } catch (txError) {
             console.warn("Failed to fetch transactions (new wallet or network issue):", txError);
           }
@@ -334,11 +568,14 @@ export const useWalletStore = create<WalletState>()(
             isLoggedIn: true,
             isLoading: false,
             wallets,
-            activeWalletId: id,
+            activeWalletId: unlockedId,
             walletAddress: address,
             walletName: walletInfo?.name || null,
             balance,
-            transactions,
+            balanceError,
+            ...history,
+            ...addresses,
+            isWatchOnly: false,
             network,
             _walletInstance: wallet,
             _mnemonic: mnemonic,
@@ -352,31 +589,159 @@ export const useWalletStore = create<WalletState>()(
         }
       },
 
+      /**
+       * Add the next account of the unlocked wallet's mnemonic and switch to it
+       * Each account has its own addresses, stake key and delegation.
+       */
+      addAccount: async (name?: string) => {
+        const { activeWalletId, _mnemonic, _walletInstance } = get();
+        if (!activeWalletId || !_mnemonic || !_walletInstance) {
+          set({ error: "Unlock the wallet to add an account" });
+          return false;
+        }
+
+        set({ isLoading: true, error: null });
+
+        try {
+          const accountIndex = getNextAccountIndex(activeWalletId);
+          // Accounts share the passphrase of the wallet they are added to
+          const derivation: DerivationOptions = { ...getWalletDerivation(_walletInstance), accountIndex };
+          const { wallet, address, network } = await createWalletFromMnemonic(_mnemonic, undefined, derivation);
+
+          const walletId = addWalletAccount(activeWalletId, address, accountIndex, name);
+          if (!walletId) {
+            throw new Error("Failed to save account");
+          }
+
+          let balance: WalletBalance = {
+            lovelace: "0",
+            ada: "0.000000",
+            assets: [],
+          };
+          let balanceError: string | null = null;
+          let history = EMPTY_HISTORY;
+          const addresses = await loadAddresses(wallet, _mnemonic, address, network, derivation);
+
+          try {
+            balance = await loadBalance(addresses.walletAddresses, network);
+          } catch (error) {
+            console.warn("Failed to fetch account balance:", error);
+            balanceError = BALANCE_LOAD_ERROR;
+          }
+
+          try {
+            history = await loadHistory(addresses.walletAddresses, network);
+          } catch (txError) {
+            console.warn("Failed to fetch account transactions:", txError);
+          }
+
+          set({
+            isLoggedIn: true,
+            isLoading: false,
+            wallets: getWalletsList(),
+            activeWalletId: walletId,
+            walletAddress: address,
+            walletName: getWalletInfo(walletId)?.name || null,
+            balance,
+            balanceError,
+            ...history,
+            ...addresses,
+            isWatchOnly: false,
+            network,
+            _walletInstance: wallet,
+          });
+
+          return true;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          set({ isLoading: false, error: errorMessage });
+          return false;
+        }
+      },
+
+      /**
+       * Add a wallet to follow without its keys and open it
+       *
+       * @param input - Payment address, stake address or $handle
+       */
+      addWatchOnlyWallet: async (input: string, name?: string) => {
+        set({ isLoading: true, error: null });
+
+        try {
+          const { network } = get();
+          const target = await resolveWatchTarget(input, network);
+
+          const walletId = addWatchOnlyWallet(
+            target.address,
+            name?.trim() || undefined,
+            target.stakeAddress || undefined,
+            target.handle
+          );
+          const walletInfo = getWalletInfo(walletId);
+          if (!walletInfo) {
+            throw new Error("Failed to save wallet");
+          }
+
+          set(await openWatchOnlyWallet(walletInfo, network));
+          return true;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          set({ isLoading: false, error: errorMessage });
+          return false;
+        }
+      },
+
       /**
        * Lock wallet (clear sensitive data from memory)
        */
       lockWallet: () => {
+        clearAutoLockTimer();
+
         // Get current wallet instance and null it properly
         const currentInstance = get()._walletInstance;
         if (currentInstance) {
           // Clear any cached data in wallet instance
           // MeshWallet doesn't expose internal state, but setting to null helps GC
+          (currentInstance as MeshWallet & { _mnemonic?: string })._mnemonic = undefined;
         }
         
         set({
           isLoggedIn: false,
           _walletInstance: null,
+          _mnemonic: undefined,
           balance: null, // Clear balance for privacy
-          transactions: [], // Clear transactions for privacy
+          balanceError: null,
+          ...EMPTY_HISTORY, // Clear transactions for privacy
+          ...EMPTY_ADDRESSES,
+          isWatchOnly: false,
           // Keep wallets list and active wallet ID for quick unlock
         });
       },
 
+      /**
+       * Restart the inactivity timer
+       * Watch-only wallets hold no keys and stay open.
+       */
+      touchActivity: () => {
+        clearAutoLockTimer();
+        const { isLoggedIn, isWatchOnly, autoLockMinutes } = get();
+        if (!isLoggedIn || isWatchOnly || autoLockMinutes <= 0) return;
+        autoLockTimer = setTimeout(() => get().lockWallet(), autoLockMinutes * 60 * 1000);
+      },
+
+      /**
+       * Set the auto-lock delay (0 = never)
+       */
+      setAutoLockMinutes: (minutes: number) => {
+        set({ autoLockMinutes: Math.max(0, minutes) });
+        get().touchActivity();
+      },
+
       /**
        * Switch to a different wallet
        */
-      switchWallet: async (walletId: string, pin: string) => {
-        return get().unlockWallet(pin, walletId);
+      switchWallet: async (walletId: string, unlock: WalletUnlock) => {
+        return get().unlockWallet(unlock, walletId);
       },
 
       /**
@@ -388,7 +753,14 @@ export const useWalletStore = create<WalletState>()(
 
         // Clear storage
         deleteStoredWallet(id);
+        get().syncRemovedWallet(id);
+      },
 
+      /**
+       * Update the store after a wallet left storage
+       * Used on its own when decryption already erased the wallet after too many failed PINs.
+       */
+      syncRemovedWallet: (id: string) => {
         // Refresh wallets list
         const wallets = getWalletsList();
         const newActiveId = wallets.length > 0 ? wallets[0].id : null;
@@ -402,7 +774,10 @@ export const useWalletStore = create<WalletState>()(
             walletAddress: newActiveId ? getStoredWalletAddress(newActiveId) : null,
             walletName: newActiveId ? getWalletInfo(newActiveId)?.name || null : null,
             balance: null,
-            transactions: [],
+            balanceError: null,
+            ...EMPTY_HISTORY,
+            ...EMPTY_ADDRESSES,
+            isWatchOnly: false,
             _walletInstance: null,
           });
         } else {
@@ -424,7 +799,10 @@ export const useWalletStore = create<WalletState>()(
           walletAddress: null,
           walletName: null,
           balance: null,
-          transactions: [],
+          balanceError: null,
+          ...EMPTY_HISTORY,
+          ...EMPTY_ADDRESSES,
+          isWatchOnly: false,
           _walletInstance: null,
         });
       },
@@ -444,16 +822,41 @@ export const useWalletStore = create<WalletState>()(
         return success;
       },
 
+      /**
+       * Import the wallets of a decrypted backup file under a new PIN
+       * The unlocked wallet stays open.
+       */
+      importBackup: async (contents: WalletBackupContents, pin: string) => {
+        const result = await importWalletBackup(contents, pin);
+        set({ wallets: getWalletsList() });
+        return result;
+      },
+
+      /**
+       * Record that the active wallet's recovery phrase was verified
+       */
+      markBackedUp: () => {
+        const { activeWalletId } = get();
+        if (activeWalletId && setWalletBackedUp(activeWalletId, true)) {
+          set({ wallets: getWalletsList() });
+        }
+      },
+
       /**
        * Change network (locks wallet and updates network)
        */
       changeNetwork: (network: CardanoNetwork) => {
         // Lock wallet first
+        clearAutoLockTimer();
         set({
           isLoggedIn: false,
           balance: null,
-          transactions: [],
+          balanceError: null,
+          ...EMPTY_HISTORY,
+          ...EMPTY_ADDRESSES,
+          isWatchOnly: false,
           _walletInstance: null,
+          _mnemonic: undefined,
           network,
         });
 
@@ -467,17 +870,22 @@ export const useWalletStore = create<WalletState>()(
        * Refresh wallet balance
        */
       refreshBalance: async () => {
-        const { _walletInstance, walletAddress } = get();
+        const { _walletInstance, _addressDiscovery, walletAddress, walletAddresses, isWatchOnly, network } = get();
 
-        if (!_walletInstance || !walletAddress) {
+        if ((!_walletInstance && !isWatchOnly) || !walletAddress) {
           return;
         }
 
         try {
-          const balance = await getWalletBalance(_walletInstance);
-          set({ balance });
+          // Pick up receive addresses that got funds since they were discovered
+          const addresses = _addressDiscovery
+            ? (await getSpendingAddresses(_addressDiscovery, network)).map((a) => a.address)
+            : walletAddresses;
+          const balance = await loadBalance(addresses.length > 0 ? addresses : [walletAddress], network);
+          set({ balance, balanceError: null, ...(_addressDiscovery && { walletAddresses: addresses }) });
         } catch (error) {
           console.error("Error refreshing balance:", error);
+          set({ balanceError: BALANCE_LOAD_ERROR });
         }
       },
 
@@ -485,20 +893,43 @@ export const useWalletStore = create<WalletState>()(
        * Refresh transaction history
        */
       refreshTransactions: async () => {
-        const { walletAddress } = get();
+        const { walletAddress, walletAddresses, network } = get();
 
         if (!walletAddress) {
           return;
         }
 
         try {
-          const transactions = await getTransactionHistory(walletAddress);
-          set({ transactions });
+          set(await loadHistory(walletAddresses.length > 0 ? walletAddresses : [walletAddress], network));
         } catch (error) {
           console.error("Error refreshing transactions:", error);
         }
       },
 
+      /**
+       * Append the next page of transaction history
+       */
+      loadMoreTransactions: async () => {
+        const { _historyCursor, hasMoreTransactions } = get();
+
+        if (!_historyCursor || !hasMoreTransactions) {
+          return;
+        }
+
+        try {
+          const page = await getTransactionHistoryPage(_historyCursor);
+          // Ignore the page if the wallet was locked or switched meanwhile
+          if (get()._historyCursor !== _historyCursor) return;
+          set({
+            transactions: [...get().transactions, ...page.transactions],
+            hasMoreTransactions: page.hasMore,
+            _historyCursor: page.cursor,
+          });
+        } catch (error) {
+          console.error("Error loading more transactions:", error);
+        }
+      },
+
       /**
        * Refresh wallets list from storage
        */
@@ -546,6 +977,7 @@ export const useWalletStore = create<WalletState>()(
       partialize: (state) => ({
         activeWalletId: state.activeWalletId,
         network: state.network,
+        autoLockMinutes: state.autoLockMinutes,
         // Never persist: mnemonic, _walletInstance, PIN
       }),
     }
@@ -582,6 +1014,7 @@ export const useWalletData = () => {
       isLoggedIn: state.isLoggedIn,
       walletAddress: state.walletAddress,
       walletName: state.walletName,
+      isWatchOnly: state.isWatchOnly,
       balance: state.balance,
       network: state.network,
       wallets: state.wallets,
@@ -600,11 +1033,16 @@ export const useWalletActions = () => {
       createNewWallet: state.createNewWallet,
       importWallet: state.importWallet,
       unlockWallet: state.unlockWallet,
+      addAccount: state.addAccount,
+      addWatchOnlyWallet: state.addWatchOnlyWallet,
       lockWallet: state.lockWallet,
+      setAutoLockMinutes: state.setAutoLockMinutes,
       switchWallet: state.switchWallet,
       deleteWallet: state.deleteWallet,
       deleteAllWallets: state.deleteAllWallets,
       renameWallet: state.renameWallet,
+      importBackup: state.importBackup,
+      markBackedUp: state.markBackedUp,
       refreshBalance: state.refreshBalance,
     }))
   );
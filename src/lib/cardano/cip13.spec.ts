@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { buildCip13PaymentUri, formatAdaAmount, parseAdaAmount, parseCip13Uri } from './cip13';
+
+const ADDRESS =
+  'addr1q9jn8esk5xk7f9rdm9f3a7j9gvk0m0ggcv6m7kgtutt7lrn8u5qhcklwhdd49s9vf0zc7wf5sqqx3xy4hcq4yrzkkzhsgsrd4z';
+const POOL = 'c94e6fe1123bf111b77b57994bcd836af8ba2b3aa72cfcefbec2d3d4';
+const TOKEN = 'a0028f350aaabe0545fdcb56b039bfb08e4bb4d8c4d7c3c7d481c235484f534b59';
+
+describe('CIP-13 URIs', () => {
+  it('converts ADA amounts without floating point errors', () => {
+    expect(parseAdaAmount('20.5')).toBe('20500000');
+    expect(parseAdaAmount('0.000001')).toBe('1');
+    expect(parseAdaAmount('0.1234567')).toBeNull();
+    expect(parseAdaAmount('-1')).toBeNull();
+    expect(formatAdaAmount('20500000')).toBe('20.5');
+    expect(formatAdaAmount('3000000')).toBe('3');
+  });
+
+  it('parses payment links with and without "//"', () => {
+    expect(parseCip13Uri(`web+cardano:${ADDRESS}?amount=20.5`)).toEqual({
+      type: 'payment',
+      address: ADDRESS,
+      lovelace: '20500000',
+    });
+    expect(parseCip13Uri(`web+cardano://${ADDRESS}`)).toEqual({ type: 'payment', address: ADDRESS });
+  });
+
+  it('rejects invalid payment links', () => {
+    expect(parseCip13Uri(`web+cardano:${ADDRESS}?amount=abc`)).toBeNull();
+    expect(parseCip13Uri('web+cardano:notanaddress')).toBeNull();
+    expect(parseCip13Uri(ADDRESS)).toBeNull();
+  });
+
+  it('round-trips payment requests with token and memo', () => {
+    const request = {
+      address: ADDRESS,
+      lovelace: '1500000',
+      asset: { unit: TOKEN, quantity: '42' },
+      memo: 'Invoice #12 & coffee',
+    };
+    const uri = buildCip13PaymentUri(request);
+    expect(uri.startsWith(`web+cardano:${ADDRESS}?amount=1.5&`)).toBe(true);
+    expect(uri).not.toContain(' ');
+    expect(parseCip13Uri(uri)).toEqual({ type: 'payment', ...request });
+  });
+
+  it('parses stake pool links with proportions', () => {
+    expect(parseCip13Uri(`web+cardano://stake?${POOL}`)).toEqual({
+      type: 'stake',
+      pools: [{ pool: POOL, proportion: 1 }],
+    });
+    expect(parseCip13Uri('web+cardano://stake?COSD=0.4&IOHK=0.6')).toEqual({
+      type: 'stake',
+      pools: [
+        { pool: 'COSD', proportion: 0.4 },
+        { pool: 'IOHK', proportion: 0.6 },
+      ],
+    });
+    expect(parseCip13Uri('web+cardano://stake')).toBeNull();
+  });
+
+  it('parses claim links', () => {
+    const uri = 'web+cardano://claim/v1?faucet_url=https%3A%2F%2Ffaucet.example.com%2Fclaim&code=abc123&extra=1';
+    expect(parseCip13Uri(uri)).toEqual({
+      type: 'claim',
+      version: 1,
+      faucetUrl: 'https://faucet.example.com/claim',
+      code: 'abc123',
+      params: { extra: '1' },
+    });
+    expect(parseCip13Uri('web+cardano://claim/v1?code=abc')).toBeNull();
+  });
+
+  it('parses browse links into https URLs', () => {
+    expect(parseCip13Uri('web+cardano://browse/v1/https/fi.sundae.app/exchange/swap?given=ada#top')).toEqual({
+      type: 'browse',
+      version: 1,
+      url: 'https://app.sundae.fi/exchange/swap?given=ada#top',
+    });
+    expect(parseCip13Uri('web+cardano://browse/v1/javascript/com.example/x')).toBeNull();
+  });
+});
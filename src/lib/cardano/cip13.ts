@@ -0,0 +1,235 @@
+/**
+ * CIP-13 Cardano URI Scheme
+ *
+ * Parses and builds `web+cardano:` links:
+ * - Payment:  web+cardano:<address>?amount=<ADA>
+ * - Stake:    web+cardano://stake?<pool>[=<proportion>]&...
+ * - Claim:    web+cardano://claim/v1?faucet_url=<url>&code=<code>
+ * - Browse:   web+cardano://browse/v1/<scheme>/<reversed domain>/<path>?<query>
+ *
+ * Payment links may also carry `asset` (policy ID + asset name hex),
+ * `quantity` (raw token amount) and `memo`. These are wallet extensions:
+ * other wallets ignore them and still read the address and ADA amount.
+ *
+ * @see https://cips.cardano.org/cip/CIP-0013
+ */
+
+/**
+ * URI scheme prefix
+ */
+export const CIP13_SCHEME = "web+cardano:";
+
+// ADA amounts have 6 decimals (lovelace)
+const ADA_DECIMALS = 6;
+const ADDRESS_PATTERN = /^(addr|addr_test)1[0-9a-z]+$/;
+const ASSET_UNIT_PATTERN = /^[0-9a-f]{56}([0-9a-f]{2}){0,32}$/;
+const POOL_HEX_PATTERN = /^[0-9a-f]{56}$/;
+
+/**
+ * Payment request: recipient plus optional amounts and note
+ */
+export interface Cip13PaymentRequest {
+  address: string;
+  lovelace?: string; // From `amount` (ADA)
+  asset?: { unit: string; quantity: string }; // Token extension
+  memo?: string; // CIP-20 note extension
+}
+
+/**
+ * Stake pool entry of a stake URI
+ */
+export interface Cip13StakePool {
+  pool: string; // Pool ID (hex or bech32) or ticker
+  proportion: number; // Relative weight, 1 if not given
+}
+
+/**
+ * Parsed web+cardano URI
+ */
+export type Cip13Uri =
+  | ({ type: "payment" } & Cip13PaymentRequest)
+  | { type: "stake"; pools: Cip13StakePool[] }
+  | { type: "claim"; version: number; faucetUrl: string; code: string; params: Record<string, string> }
+  | { type: "browse"; version: number; url: string };
+
+/**
+ * Convert a decimal amount ("12.5") into its smallest unit without floating point rounding
+ *
+ * @param amount - Decimal amount
+ * @param decimals - Decimals of the asset (6 for ADA)
+ * @returns Raw quantity, or null if the amount is invalid or too precise
+ */
+export const parseDecimalAmount = (amount: string, decimals: number): string | null => {
+  const pattern = decimals > 0 ? new RegExp(`^\\d+(\\.\\d{1,${decimals}})?$`) : /^\d+$/;
+  if (!pattern.test(amount)) return null;
+  const [whole, fraction = ""] = amount.split(".");
+  return (BigInt(whole) * BigInt(10) ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, "0") || "0")).toString();
+};
+
+/**
+ * Convert an ADA amount ("12.5") into lovelace
+ *
+ * @returns Lovelace, or null if the amount is not a valid ADA value
+ */
+export const parseAdaAmount = (ada: string): string | null => parseDecimalAmount(ada, ADA_DECIMALS);
+
+/**
+ * Format lovelace as the shortest ADA amount ("12500000" -> "12.5")
+ */
+export const formatAdaAmount = (lovelace: string): string => {
+  const value = BigInt(lovelace);
+  const whole = value / BigInt(1_000_000);
+  const fraction = (value % BigInt(1_000_000)).toString().padStart(6, "0").replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : whole.toString();
+};
+
+/**
+ * Check whether text looks like a web+cardano URI
+ */
+export const isCip13Uri = (text: string): boolean => {
+  return text.trim().toLowerCase().startsWith(CIP13_SCHEME);
+};
+
+/**
+ * Split the part after the scheme into path, query and fragment
+ */
+const splitUri = (rest: string): { path: string; query: string; fragment: string } => {
+  const hashIndex = rest.indexOf("#");
+  const fragment = hashIndex >= 0 ? rest.slice(hashIndex) : "";
+  const withoutFragment = hashIndex >= 0 ? rest.slice(0, hashIndex) : rest;
+  const queryIndex = withoutFragment.indexOf("?");
+  return {
+    path: queryIndex >= 0 ? withoutFragment.slice(0, queryIndex) : withoutFragment,
+    query: queryIndex >= 0 ? withoutFragment.slice(queryIndex + 1) : "",
+    fragment,
+  };
+};
+
+/**
+ * Parse an authority version segment ("v1" -> 1)
+ */
+const parseVersion = (segment: string | undefined): number | null => {
+  const match = segment?.match(/^v(\d+)$/);
+  return match ? Number(match[1]) : null;
+};
+
+const parsePayment = (address: string, query: string): Cip13Uri | null => {
+  if (!ADDRESS_PATTERN.test(address)) return null;
+
+  const params = new URLSearchParams(query);
+  const request: Cip13Uri = { type: "payment", address };
+
+  const amount = params.get("amount");
+  if (amount !== null) {
+    const lovelace = parseAdaAmount(amount);
+    if (lovelace === null) return null;
+    request.lovelace = lovelace;
+  }
+
+  const unit = params.get("asset")?.toLowerCase();
+  const quantity = params.get("quantity");
+  if (unit && quantity && ASSET_UNIT_PATTERN.test(unit) && /^\d+$/.test(quantity) && BigInt(quantity) > BigInt(0)) {
+    request.asset = { unit, quantity };
+  }
+
+  const memo = params.get("memo")?.trim();
+  if (memo) {
+    request.memo = memo;
+  }
+
+  return request;
+};
+
+const parseStake = (query: string): Cip13Uri | null => {
+  const pools: Cip13StakePool[] = [];
+
+  for (const entry of query.split("&")) {
+    if (!entry) continue;
+    const [rawPool, rawProportion] = decodeURIComponent(entry).split("=");
+    const pool = POOL_HEX_PATTERN.test(rawPool.toLowerCase()) ? rawPool.toLowerCase() : rawPool;
+    const proportion = rawProportion === undefined || rawProportion === "" ? 1 : Number(rawProportion);
+    if (!pool || !Number.isFinite(proportion) || proportion <= 0) return null;
+    pools.push({ pool, proportion });
+  }
+
+  return pools.length > 0 ? { type: "stake", pools } : null;
+};
+
+const parseClaim = (segments: string[], query: string): Cip13Uri | null => {
+  const version = parseVersion(segments[1]);
+  const params = Object.fromEntries(new URLSearchParams(query));
+  const { faucet_url: faucetUrl, code, ...rest } = params;
+
+  if (version === null || !faucetUrl || !code || !/^https?:\/\//i.test(faucetUrl)) return null;
+  return { type: "claim", version, faucetUrl, code, params: rest };
+};
+
+const parseBrowse = (segments: string[], query: string, fragment: string): Cip13Uri | null => {
+  const version = parseVersion(segments[1]);
+  const [, , scheme, namespacedDomain, ...path] = segments;
+
+  if (version === null || !scheme || !/^https?$/i.test(scheme) || !namespacedDomain) return null;
+
+  // The domain is namespaced in reverse order: fi.sundae.app -> app.sundae.fi
+  const domain = namespacedDomain.split(".").reverse().join(".");
+  const url = `${scheme.toLowerCase()}://${domain}/${path.join("/")}${query ? `?${query}` : ""}${fragment}`;
+  return { type: "browse", version, url };
+};
+
+/**
+ * Parse a web+cardano URI
+ *
+ * Payment links are accepted with or without "//" after the scheme.
+ *
+ * @param uri - Scanned or pasted URI
+ * @returns Parsed URI, or null if it is not a valid CIP-13 link
+ */
+export const parseCip13Uri = (uri: string): Cip13Uri | null => {
+  const text = uri.trim();
+  if (!isCip13Uri(text)) return null;
+
+  try {
+    const rest = text.slice(CIP13_SCHEME.length).replace(/^\/\//, "");
+    const { path, query, fragment } = splitUri(rest);
+    const segments = path.split("/");
+    const authority = segments[0].toLowerCase();
+
+    switch (authority) {
+      case "stake":
+        return parseStake(query);
+      case "claim":
+        return parseClaim(segments, query);
+      case "browse":
+        return parseBrowse(segments, query, fragment);
+      default:
+        return segments.length === 1 ? parsePayment(authority, query) : null;
+    }
+  } catch (error) {
+    console.warn("Failed to parse CIP-13 URI:", error);
+    return null;
+  }
+};
+
+/**
+ * Build a payment request link
+ *
+ * @param request - Recipient address and optional ADA amount, token and memo
+ * @returns web+cardano URI
+ */
+export const buildCip13PaymentUri = (request: Cip13PaymentRequest): string => {
+  const params = new URLSearchParams();
+
+  if (request.lovelace && BigInt(request.lovelace) > BigInt(0)) {
+    params.set("amount", formatAdaAmount(request.lovelace));
+  }
+  if (request.asset && BigInt(request.asset.quantity) > BigInt(0)) {
+    params.set("asset", request.asset.unit);
+    params.set("quantity", request.asset.quantity);
+  }
+  if (request.memo?.trim()) {
+    params.set("memo", request.memo.trim());
+  }
+
+  const query = params.toString().replace(/\+/g, "%20");
+  return `${CIP13_SCHEME}${request.address}${query ? `?${query}` : ""}`;
+};
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCip20Metadata,
+  chunkUtf8,
+  decryptCip20Message,
+  encryptCip20Metadata,
+  getCip20Ciphertext,
+  parseCip20Metadata,
+} from './cip20';
+
+// Encrypted with the reference command from CIP-20:
+// openssl enc -aes-256-cbc -pbkdf2 -iter 10000 -a -A -md sha256 -k <passphrase>
+const VECTOR_PLAINTEXT = 'Invoice-No: 123456789\nOrder-No: 7654321\nEmail: john@doe.com';
+const VECTOR_DEFAULT_PASSPHRASE =
+  'U2FsdGVkX1804DR2eGj0zZ+ViJRMxM5LOMBzpJzqJEVUdLcnsRuydEflj88g4bpHPIDXJundMJ7e1NVmJj2o/yfnkZ1jbNrjJPyTH/0OlIaVqYqpPDc/Cpf6nY1GSuB0';
+const VECTOR_CUSTOM_PASSPHRASE =
+  'U2FsdGVkX1/5lVl0IrgjCwqnPVBAziHoUadqo/FntFHAKIELca/O+lN1ixvGQ+0u2sIqv6gdoB3kuAHZ/LHL0b5k/uz4o277BbOUw09e29gkTKfmAECJqldF7pal/jCj';
+
+describe('CIP-20 transaction messages', () => {
+  it('returns null for empty or whitespace-only messages', () => {
+    expect(buildCip20Metadata('')).toBeNull();
+    expect(buildCip20Metadata('  \n ')).toBeNull();
+    expect(buildCip20Metadata(undefined)).toBeNull();
+  });
+
+  it('splits long lines into entries of at most 64 bytes', () => {
+    const metadata = buildCip20Metadata('x'.repeat(150));
+    expect(metadata?.msg).toHaveLength(3);
+    for (const part of metadata!.msg) {
+      expect(new TextEncoder().encode(part).length).toBeLessThanOrEqual(64);
+    }
+  });
+
+  it('never cuts a multi-byte character in half', () => {
+    const chunks = chunkUtf8('€'.repeat(30)); // 3 bytes each
+    expect(chunks).toEqual(['€'.repeat(21), '€'.repeat(9)]);
+  });
+
+  it('round-trips multi-line messages', () => {
+    const message = 'Invoice-No: 1234567890\nCustomer-No: 555-1234';
+    const metadata = buildCip20Metadata(message);
+    expect(metadata).toEqual({ msg: ['Invoice-No: 1234567890', 'Customer-No: 555-1234'] });
+    expect(parseCip20Metadata(metadata)).toBe(message);
+  });
+
+  it('reads a wrapped long line back one entry per line', () => {
+    const line = 'a'.repeat(64) + 'b'.repeat(10);
+    const metadata = buildCip20Metadata(line);
+    expect(metadata).toEqual({ msg: ['a'.repeat(64), 'b'.repeat(10)] });
+    expect(parseCip20Metadata(metadata)).toBe('a'.repeat(64) + '\n' + 'b'.repeat(10));
+  });
+
+  it('accepts the short single-string form and rejects other shapes', () => {
+    expect(parseCip20Metadata({ msg: 'hello' })).toBe('hello');
+    expect(parseCip20Metadata({ msg: [] })).toBeNull();
+    expect(parseCip20Metadata({ foo: 'bar' })).toBeNull();
+    expect(parseCip20Metadata(null)).toBeNull();
+  });
+
+  describe('encrypted messages (enc: "basic")', () => {
+    it('decrypts reference ciphertext with the default passphrase', () => {
+      expect(decryptCip20Message(VECTOR_DEFAULT_PASSPHRASE)).toBe(VECTOR_PLAINTEXT);
+      expect(decryptCip20Message(VECTOR_DEFAULT_PASSPHRASE, 'cardano')).toBe(VECTOR_PLAINTEXT);
+    });
+
+    it('decrypts reference ciphertext with a custom passphrase', () => {
+      expect(decryptCip20Message(VECTOR_CUSTOM_PASSPHRASE, 's3cret passphrase')).toBe(VECTOR_PLAINTEXT);
+    });
+
+    it('returns null for a wrong passphrase or malformed data', () => {
+      expect(decryptCip20Message(VECTOR_CUSTOM_PASSPHRASE, 'wrong')).toBeNull();
+      expect(decryptCip20Message('bm90IHNhbHRlZA==')).toBeNull();
+      expect(decryptCip20Message('')).toBeNull();
+    });
+
+    it('round-trips through metadata with 64-character entries', () => {
+      const metadata = encryptCip20Metadata(VECTOR_PLAINTEXT, 'team-secret');
+      expect(metadata?.enc).toBe('basic');
+      expect(metadata!.msg.every((part) => part.length <= 64)).toBe(true);
+
+      // Encrypted values are not readable as plain messages
+      expect(parseCip20Metadata(metadata)).toBeNull();
+
+      const ciphertext = getCip20Ciphertext(metadata);
+      expect(ciphertext).not.toBeNull();
+      expect(decryptCip20Message(ciphertext!, 'team-secret')).toBe(VECTOR_PLAINTEXT);
+      expect(decryptCip20Message(ciphertext!, 'other')).toBeNull();
+    });
+
+    it('uses a fresh salt for every encryption', () => {
+      const a = encryptCip20Metadata('same note', 'pass');
+      const b = encryptCip20Metadata('same note', 'pass');
+      expect(a!.msg.join('')).not.toBe(b!.msg.join(''));
+    });
+
+    it('returns null when there is nothing to encrypt', () => {
+      expect(encryptCip20Metadata('   ', 'pass')).toBeNull();
+      expect(getCip20Ciphertext({ msg: ['plain'] })).toBeNull();
+    });
+  });
+});
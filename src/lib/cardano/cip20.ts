@@ -0,0 +1,230 @@
+/**
+ * CIP-20 Transaction Messages
+ *
+ * Free-form notes are attached under metadata label 674 as `{ msg: string[] }`.
+ * Each entry in `msg` is one line of the message and must be at most 64 bytes
+ * (UTF-8), so longer lines are wrapped over several entries. The standard has
+ * no marker for a wrapped line: like other wallets, entries are read back one
+ * per line, so a long line comes back broken at the 64-byte boundaries.
+ *
+ * Messages can optionally be encrypted with the `enc: "basic"` extension:
+ * the plain `{ msg }` object is serialized to JSON and encrypted with
+ * AES-256-CBC (PBKDF2-SHA256, 10000 iterations, OpenSSL "Salted__" framing),
+ * then the base64 output is stored as 64-character entries in `msg`.
+ *
+ * @see https://cips.cardano.org/cip/CIP-0020
+ */
+
+import CryptoJS from "crypto-js";
+
+/**
+ * Metadata label reserved for transaction messages
+ */
+export const CIP20_LABEL = 674;
+
+/**
+ * Maximum byte length of a single metadata string
+ */
+const MAX_CHUNK_BYTES = 64;
+
+/**
+ * Shape of the label 674 metadata value
+ */
+export interface Cip20Metadata {
+  enc?: "basic";
+  msg: string[];
+}
+
+/**
+ * Passphrase used by wallets when the sender does not choose one
+ */
+export const CIP20_DEFAULT_PASSPHRASE = "cardano";
+
+/**
+ * Key derivation parameters for `enc: "basic"` (openssl enc -aes-256-cbc -pbkdf2 -iter 10000)
+ */
+const ENCRYPTION_CONFIG = {
+  iterations: 10000,
+  keyWords: 256 / 32,
+  ivWords: 128 / 32,
+  saltBytes: 8,
+};
+
+// "Salted__" header that prefixes OpenSSL-compatible ciphertext
+const SALTED_PREFIX_HEX = "53616c7465645f5f";
+
+/**
+ * Split a string into chunks of at most `maxBytes` UTF-8 bytes
+ * without cutting a multi-byte character in half
+ */
+export const chunkUtf8 = (text: string, maxBytes: number = MAX_CHUNK_BYTES): string[] => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of text) {
+    const charBytes = encoder.encode(char).length;
+    if (currentBytes + charBytes > maxBytes) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+
+  return chunks;
+};
+
+/**
+ * Build the label 674 metadata value for a message
+ *
+ * @param message - Free-form note entered by the user
+ * @returns Metadata value, or null if the message is empty
+ */
+export const buildCip20Metadata = (message: string | undefined): Cip20Metadata | null => {
+  const lines = (message || "")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  if (lines.length === 0) return null;
+  return { msg: lines.flatMap((line) => chunkUtf8(line)) };
+};
+
+/**
+ * Decode a label 674 metadata value back into a message
+ *
+ * Accepts either a single string or an array of strings in `msg`,
+ * since some wallets in the wild write the short form. Entries are joined
+ * one per line, including the pieces of a wrapped line.
+ *
+ * @param value - JSON metadata under label 674
+ * @returns Decoded message, or null if the value is not a CIP-20 message
+ */
+export const parseCip20Metadata = (value: unknown): string | null => {
+  if (!value || typeof value !== "object") return null;
+  if (isEncryptedCip20Metadata(value)) return null;
+
+  const msg = (value as { msg?: unknown }).msg;
+  if (typeof msg === "string") return msg;
+  if (!Array.isArray(msg)) return null;
+
+  const parts = msg.filter((part): part is string => typeof part === "string");
+  if (parts.length === 0) return null;
+
+  return parts.join("\n");
+};
+
+/**
+ * Check whether a label 674 metadata value uses the encryption extension
+ */
+export const isEncryptedCip20Metadata = (value: unknown): boolean => {
+  return !!value && typeof value === "object" && (value as { enc?: unknown }).enc === "basic";
+};
+
+/**
+ * Extract the base64 ciphertext from an encrypted label 674 metadata value
+ *
+ * @returns Joined ciphertext, or null if the value is not an encrypted message
+ */
+export const getCip20Ciphertext = (value: unknown): string | null => {
+  if (!isEncryptedCip20Metadata(value)) return null;
+
+  const msg = (value as { msg?: unknown }).msg;
+  const parts = Array.isArray(msg) ? msg : [msg];
+  const ciphertext = parts.filter((part): part is string => typeof part === "string").join("");
+
+  return ciphertext || null;
+};
+
+/**
+ * Derive the AES key and IV from a passphrase and salt
+ */
+const deriveKeyAndIv = (
+  passphrase: string,
+  salt: CryptoJS.lib.WordArray
+): { key: CryptoJS.lib.WordArray; iv: CryptoJS.lib.WordArray } => {
+  const { keyWords, ivWords, iterations } = ENCRYPTION_CONFIG;
+  const derived = CryptoJS.PBKDF2(passphrase, salt, {
+    keySize: keyWords + ivWords,
+    iterations,
+    hasher: CryptoJS.algo.SHA256,
+  });
+
+  return {
+    key: CryptoJS.lib.WordArray.create(derived.words.slice(0, keyWords), keyWords * 4),
+    iv: CryptoJS.lib.WordArray.create(derived.words.slice(keyWords, keyWords + ivWords), ivWords * 4),
+  };
+};
+
+/**
+ * Build an encrypted label 674 metadata value for a message
+ *
+ * @param message - Free-form note entered by the user
+ * @param passphrase - Shared passphrase (defaults to the CIP-20 default)
+ * @returns Metadata value with `enc: "basic"`, or null if the message is empty
+ */
+export const encryptCip20Metadata = (
+  message: string | undefined,
+  passphrase: string = CIP20_DEFAULT_PASSPHRASE
+): Cip20Metadata | null => {
+  const plain = buildCip20Metadata(message);
+  if (!plain) return null;
+
+  const salt = CryptoJS.lib.WordArray.random(ENCRYPTION_CONFIG.saltBytes);
+  const { key, iv } = deriveKeyAndIv(passphrase || CIP20_DEFAULT_PASSPHRASE, salt);
+
+  const encrypted = CryptoJS.AES.encrypt(JSON.stringify(plain), key, {
+    iv,
+    mode: CryptoJS.mode.CBC,
+    padding: CryptoJS.pad.Pkcs7,
+  });
+
+  const payload = CryptoJS.enc.Hex.parse(SALTED_PREFIX_HEX)
+    .concat(salt)
+    .concat(encrypted.ciphertext)
+    .toString(CryptoJS.enc.Base64);
+
+  return { enc: "basic", msg: payload.match(/.{1,64}/g) || [] };
+};
+
+/**
+ * Decrypt an `enc: "basic"` ciphertext back into a message
+ *
+ * @param ciphertext - Joined base64 ciphertext (see getCip20Ciphertext)
+ * @param passphrase - Shared passphrase (defaults to the CIP-20 default)
+ * @returns Decoded message, or null if the passphrase is wrong or the data is malformed
+ */
+export const decryptCip20Message = (
+  ciphertext: string,
+  passphrase: string = CIP20_DEFAULT_PASSPHRASE
+): string | null => {
+  try {
+    const hex = CryptoJS.enc.Base64.parse(ciphertext.trim()).toString(CryptoJS.enc.Hex);
+    if (!hex.startsWith(SALTED_PREFIX_HEX)) return null;
+
+    const saltEnd = SALTED_PREFIX_HEX.length + ENCRYPTION_CONFIG.saltBytes * 2;
+    const salt = CryptoJS.enc.Hex.parse(hex.slice(SALTED_PREFIX_HEX.length, saltEnd));
+    const body = CryptoJS.enc.Hex.parse(hex.slice(saltEnd));
+    const { key, iv } = deriveKeyAndIv(passphrase || CIP20_DEFAULT_PASSPHRASE, salt);
+
+    const decrypted = CryptoJS.AES.decrypt(CryptoJS.lib.CipherParams.create({ ciphertext: body }), key, {
+      iv,
+      mode: CryptoJS.mode.CBC,
+      padding: CryptoJS.pad.Pkcs7,
+    }).toString(CryptoJS.enc.Utf8);
+
+    if (!decrypted) return null;
+
+    return parseCip20Metadata(JSON.parse(decrypted));
+  } catch {
+    // Wrong passphrase usually surfaces as malformed UTF-8 or invalid JSON
+    return null;
+  }
+};
@@ -1,5 +1,6 @@
 import { MeshWallet } from "@meshsdk/core";
 import { getBlockfrostApiKey, getBlockfrostUrl, CardanoNetwork } from "./types";
+import { getWalletDerivation } from "./wallet";
 
 // Lucid Evolution utilities untuk serialization (cross-platform browser/nodejs)
 import { addressFromHexOrBech32 } from "@lucid-evolution/utils";
@@ -22,6 +23,21 @@ function bech32ToHex(bech32Address: string): string {
   return cmlAddress.to_hex();
 }
 
+/**
+ * Shows a transaction to the user; resolves true once they confirm it
+ */
+export type TxReviewer = (tx: string) => Promise<boolean>;
+
+let txReviewer: TxReviewer | null = null;
+
+/**
+ * Set the review every signTx request has to pass
+ * Without one, signTx declines every request.
+ */
+export const setTxReviewer = (reviewer: TxReviewer | null) => {
+  txReviewer = reviewer;
+};
+
 /**
  * CIP-30 Wallet API implementation for MeshWallet
  */
@@ -53,7 +69,7 @@ export class EduchainmagCIP30Provider {
     const mnemonic = (this.wallet as any)._mnemonic;
     if (mnemonic) {
       // Lucid Evolution uses selectWallet.fromSeed()
-      lucid.selectWallet.fromSeed(mnemonic);
+      lucid.selectWallet.fromSeed(mnemonic, getWalletDerivation(this.wallet));
     }
 
     this.lucidInstance = lucid;
@@ -324,6 +340,11 @@ export class EduchainmagCIP30Provider {
   }
 
   async signTx(tx: string, partialSign: boolean = false): Promise<string> {
+    // Never sign blind: the user confirms the decoded transaction first
+    if (!txReviewer || !(await txReviewer(tx))) {
+      // CIP-30 TxSignError, code 2 = UserDeclined
+      throw { code: 2, info: "User declined to sign the transaction" };
+    }
     // DexHunter sends CBOR hex. Mesh signTx expects CBOR hex.
     return await this.wallet.signTx(tx, partialSign);
   }
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import type { UTxO } from '@meshsdk/core';
+import { applyCoinControl, getUtxoRef, isSpendableRef, toWalletUtxo } from './coin-control';
+
+const utxo = (txHash: string, outputIndex: number, lovelace: string): UTxO => ({
+  input: { txHash, outputIndex },
+  output: {
+    address: 'addr_test1',
+    amount: [
+      { unit: 'lovelace', quantity: lovelace },
+      { unit: 'policy.token', quantity: '5' },
+    ],
+  },
+});
+
+const UTXOS = [utxo('aa', 0, '5000000'), utxo('bb', 1, '2000000'), utxo('cc', 0, '1500000')];
+
+describe('coin control', () => {
+  it('spends everything without restrictions', () => {
+    expect(applyCoinControl(UTXOS)).toHaveLength(3);
+    expect(applyCoinControl(UTXOS, { inputs: [], frozen: [] })).toHaveLength(3);
+  });
+
+  it('skips frozen UTxOs during automatic selection', () => {
+    const spendable = applyCoinControl(UTXOS, { frozen: ['bb#1'] });
+    expect(spendable.map(getUtxoRef)).toEqual(['aa#0', 'cc#0']);
+  });
+
+  it('restricts to manually chosen inputs, even frozen ones', () => {
+    const coinControl = { inputs: ['bb#1'], frozen: ['bb#1'] };
+    expect(applyCoinControl(UTXOS, coinControl).map(getUtxoRef)).toEqual(['bb#1']);
+    expect(isSpendableRef('aa#0', coinControl)).toBe(false);
+  });
+
+  it('converts UTxOs for the manager and flags collateral', () => {
+    const converted = toWalletUtxo(UTXOS[0], 'aa#0');
+    expect(converted).toMatchObject({ ref: 'aa#0', lovelace: '5000000', isCollateral: true });
+    expect(converted.assets).toEqual([{ unit: 'policy.token', quantity: '5' }]);
+    expect(toWalletUtxo(UTXOS[1], 'aa#0').isCollateral).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Coin Control
+ *
+ * Lets users decide which UTxOs a transaction may spend:
+ * - `inputs`: explicit subset chosen for one transaction (manual selection)
+ * - `frozen`: UTxOs that automatic selection must never spend
+ *
+ * UTxOs are identified by their reference, `<txHash>#<outputIndex>`.
+ */
+
+import type { Asset, UTxO } from "@meshsdk/core";
+
+/**
+ * Input restrictions passed to the transaction builders
+ */
+export interface CoinControl {
+  inputs?: string[]; // If non-empty, only these UTxOs may be spent (frozen ones included)
+  frozen?: string[]; // Never spent by automatic selection
+}
+
+/**
+ * UTxO as shown in the UTxO manager
+ */
+export interface WalletUtxo {
+  ref: string;
+  txHash: string;
+  outputIndex: number;
+  address: string;
+  lovelace: string;
+  assets: Asset[]; // Native assets only
+  isCollateral: boolean;
+}
+
+/**
+ * Reference string for a UTxO
+ */
+export const getUtxoRef = (utxo: UTxO): string => {
+  return `${utxo.input.txHash}#${utxo.input.outputIndex}`;
+};
+
+/**
+ * Check whether a UTxO may be spent under the given coin control
+ *
+ * @param ref - UTxO reference ("txHash#index")
+ * @param coinControl - Manual selection and/or frozen UTxOs
+ */
+export const isSpendableRef = (ref: string, coinControl?: CoinControl): boolean => {
+  if (!coinControl) return true;
+  if (coinControl.inputs && coinControl.inputs.length > 0) {
+    return coinControl.inputs.includes(ref);
+  }
+  return !(coinControl.frozen || []).includes(ref);
+};
+
+/**
+ * Restrict UTxOs to the ones a transaction may spend
+ *
+ * @param utxos - All wallet UTxOs
+ * @param coinControl - Manual selection and/or frozen UTxOs
+ * @returns Spendable UTxOs
+ */
+export const applyCoinControl = (utxos: UTxO[], coinControl?: CoinControl): UTxO[] => {
+  if (!coinControl) return utxos;
+  return utxos.filter((utxo) => isSpendableRef(getUtxoRef(utxo), coinControl));
+};
+
+/**
+ * Convert a Mesh UTxO into the UTxO manager shape
+ *
+ * @param utxo - Mesh UTxO
+ * @param collateralRef - Reference of the wallet's collateral UTxO, if any
+ */
+export const toWalletUtxo = (utxo: UTxO, collateralRef?: string | null): WalletUtxo => {
+  const ref = getUtxoRef(utxo);
+  const lovelace = utxo.output.amount.find((asset) => asset.unit === "lovelace")?.quantity || "0";
+
+  return {
+    ref,
+    txHash: utxo.input.txHash,
+    outputIndex: utxo.input.outputIndex,
+    address: utxo.output.address,
+    lovelace,
+    assets: utxo.output.amount.filter((asset) => asset.unit !== "lovelace"),
+    isCollateral: ref === collateralRef,
+  };
+};
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { core, DEFAULT_PROTOCOL_PARAMETERS, MeshTxBuilder } from '@meshsdk/core';
+import {
+  ADDRESS_GAP_LIMIT,
+  deriveAccountPublicKey,
+  deriveBaseAddress,
+  discoverAddresses,
+  getDiscoveredWalletAddresses,
+  getFreshReceiveAddress,
+  scanAddressChain,
+} from './discovery';
+import { createWalletFromMnemonic, spendFromDiscoveredAddresses } from './wallet';
+import { generateMnemonic } from './mnemonic';
+
+const MNEMONIC = generateMnemonic(24);
+
+describe('scanAddressChain', () => {
+  it('stops after the gap limit of consecutive unused addresses', () => {
+    const used = new Set(['a3', 'a10']);
+    const scanned = scanAddressChain('external', (i) => `a${i}`, (a) => used.has(a), 5);
+
+    expect(scanned.filter((a) => a.used).map((a) => a.index)).toEqual([3]);
+    // a10 is past the gap after a3 and never reached
+    expect(scanned).toHaveLength(9);
+  });
+});
+
+describe('address derivation', () => {
+  it('matches the first address of the wallet for each account', async () => {
+    for (const accountIndex of [0, 1]) {
+      const { address } = await createWalletFromMnemonic(MNEMONIC, 'preprod', { accountIndex });
+      const key = deriveAccountPublicKey(MNEMONIC, { accountIndex });
+      expect(deriveBaseAddress(key, 0, 'external', 0)).toBe(address);
+    }
+  });
+});
+
+describe('discoverAddresses', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('finds used addresses on both chains and hands out unused receive addresses', async () => {
+    vi.stubEnv('NEXT_PUBLIC_BLOCKFROST_KEY_PREPROD', 'preprodTestKey');
+    const key = deriveAccountPublicKey(MNEMONIC);
+    const external7 = deriveBaseAddress(key, 0, 'external', 7);
+    const internal2 = deriveBaseAddress(key, 0, 'internal', 2);
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        const body = /page=1$/.test(url) ? [{ address: external7 }, { address: internal2 }] : [];
+        return new Response(JSON.stringify(body), { status: 200 });
+      })
+    );
+
+    const discovery = await discoverAddresses(MNEMONIC, {}, 'preprod');
+    const external = discovery.addresses.filter((a) => a.chain === 'external');
+    const internal = discovery.addresses.filter((a) => a.chain === 'internal');
+
+    expect(discovery.stakeAddress).toMatch(/^stake_test1/);
+    expect(external).toHaveLength(8 + ADDRESS_GAP_LIMIT);
+    expect(internal).toHaveLength(3 + ADDRESS_GAP_LIMIT);
+    expect(getDiscoveredWalletAddresses(discovery)).toEqual([external[0].address, external7, internal2]);
+
+    expect(getFreshReceiveAddress(discovery).index).toBe(0);
+    expect(getFreshReceiveAddress(discovery, 6).index).toBe(8);
+    // Wraps around instead of going past the gap limit
+    expect(getFreshReceiveAddress(discovery, 7 + ADDRESS_GAP_LIMIT).index).toBe(0);
+  });
+});
+
+describe('spendFromDiscoveredAddresses', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('spends UTxOs of other addresses and signs with their keys', async () => {
+    vi.stubEnv('NEXT_PUBLIC_BLOCKFROST_KEY_PREPROD', 'preprodTestKey');
+    const { wallet, address } = await createWalletFromMnemonic(MNEMONIC, 'preprod');
+    const key = deriveAccountPublicKey(MNEMONIC);
+    const internal3 = deriveBaseAddress(key, 0, 'internal', 3);
+    // Got funds after discovery ran
+    const external2 = deriveBaseAddress(key, 0, 'external', 2);
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        if (url.includes('/accounts/')) {
+          const body = /page=1$/.test(url) ? [{ address: internal3 }, { address: external2 }] : [];
+          return new Response(JSON.stringify(body), { status: 200 });
+        }
+        const utxoAddress = [address, internal3, external2].find((a) => url.includes(`/addresses/${a}/utxos`));
+        const body = utxoAddress
+          ? [
+              {
+                address: utxoAddress,
+                tx_hash: (utxoAddress === address ? 'a' : utxoAddress === internal3 ? 'b' : 'c').repeat(64),
+                output_index: 0,
+                amount: [{ unit: 'lovelace', quantity: '3000000' }],
+              },
+            ]
+          : [];
+        return new Response(JSON.stringify(body), { status: 200 });
+      })
+    );
+
+    const used = new Set([internal3]);
+    const discovery = {
+      accountPublicKey: key,
+      networkId: 0,
+      stakeAddress: (await wallet.getRewardAddresses())[0],
+      addresses: (['external', 'internal'] as const).flatMap((chain) =>
+        scanAddressChain(chain, (index) => deriveBaseAddress(key, 0, chain, index), (a) => used.has(a))
+      ),
+    };
+    spendFromDiscoveredAddresses(wallet, discovery, 'preprod');
+
+    const utxos = await wallet.getUtxos();
+    expect(utxos.map((utxo) => utxo.output.address)).toEqual([address, external2, internal3]);
+    expect(await wallet.getUsedAddresses()).toEqual([address, external2, internal3]);
+
+    const builder = new MeshTxBuilder({ params: DEFAULT_PROTOCOL_PARAMETERS });
+    for (const utxo of utxos) {
+      builder.txIn(utxo.input.txHash, utxo.input.outputIndex, utxo.output.amount, utxo.output.address, 0);
+    }
+    const unsignedTx = await builder
+      .txOut(address, [{ unit: 'lovelace', quantity: '5000000' }])
+      .changeAddress(address)
+      .complete();
+    const signedTx = await wallet.signTx(unsignedTx);
+
+    const { csl } = core;
+    const tx = csl.Transaction.from_hex(signedTx);
+    const vkeys = tx.witness_set().vkeys()!;
+    const signers = Array.from({ length: vkeys.len() }, (_, i) => vkeys.get(i).vkey().public_key().hash().to_hex());
+    const paymentKeyHash = (bech32: string) =>
+      csl.BaseAddress.from_address(csl.Address.from_bech32(bech32))!.payment_cred().to_keyhash()!.to_hex();
+
+    expect(tx.body().inputs().len()).toBe(3);
+    for (const a of [address, external2, internal3]) {
+      expect(signers).toContain(paymentKeyHash(a));
+    }
+    // The fee still covers the extra witnesses
+    const linearFee = csl.LinearFee.new(
+      csl.BigNum.from_str(String(DEFAULT_PROTOCOL_PARAMETERS.minFeeA)),
+      csl.BigNum.from_str(String(DEFAULT_PROTOCOL_PARAMETERS.minFeeB))
+    );
+    expect(BigInt(csl.min_fee(tx, linearFee).to_str())).toBeLessThanOrEqual(BigInt(tx.body().fee().to_str()));
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Address Discovery
+ *
+ * Wallets like Eternl and Lace hand out a new payment address per receive and
+ * send change to the internal chain, so funds of one account can sit on many
+ * addresses. Following BIP-44 account discovery (CIP-1852 paths):
+ *
+ *   m/1852'/1815'/account'/0/i  external (receive) addresses
+ *   m/1852'/1815'/account'/1/i  internal (change) addresses
+ *   m/1852'/1815'/account'/2/0  stake key shared by all of them
+ *
+ * Each chain is scanned until 20 consecutive addresses are unused. Usage is
+ * looked up once through the stake key (Blockfrost /accounts/{stake}/addresses)
+ * instead of one request per derived address.
+ *
+ * Addresses are derived from the account public key, which is kept with the
+ * result so fresh receive addresses can be derived without the mnemonic.
+ */
+
+import { core } from "@meshsdk/core";
+import { getCurrentNetwork, type CardanoNetwork, type DerivationOptions } from "./types";
+import { mnemonicToEntropy, normalizeMnemonic } from "./mnemonic";
+import { getStakeKeyAddresses } from "./history";
+
+/**
+ * Consecutive unused addresses after which a chain is considered exhausted
+ */
+export const ADDRESS_GAP_LIMIT = 20;
+
+export type AddressChain = "external" | "internal";
+
+const CHAIN_ROLE: Record<AddressChain, number> = {
+  external: 0,
+  internal: 1,
+};
+
+const STAKE_ROLE = 2;
+
+export interface DiscoveredAddress {
+  address: string;
+  chain: AddressChain;
+  index: number;
+  used: boolean;
+}
+
+export interface AddressDiscovery {
+  accountPublicKey: string; // Hex Bip32 public key of the account
+  networkId: number;
+  stakeAddress: string;
+  addresses: DiscoveredAddress[]; // Both chains, up to the gap limit past the last used address
+}
+
+const harden = (index: number): number => 0x80000000 + index;
+
+/**
+ * Derive the root key from a mnemonic (CIP-3 Icarus)
+ * A BIP-39 passphrase is mixed into the key stretching, as in Yoroi and Eternl.
+ */
+export const deriveRootKey = (mnemonic: string, password: string = "") => {
+  const entropy = Buffer.from(mnemonicToEntropy(normalizeMnemonic(mnemonic)), "hex");
+  return core.csl.Bip32PrivateKey.from_bip39_entropy(entropy, new TextEncoder().encode(password));
+};
+
+const deriveAccountKey = (mnemonic: string, derivation: DerivationOptions) => {
+  return deriveRootKey(mnemonic, derivation.password)
+    .derive(harden(1852))
+    .derive(harden(1815))
+    .derive(harden(derivation.accountIndex || 0));
+};
+
+/**
+ * Derive the account public key from a mnemonic
+ *
+ * @returns Hex Bip32 public key of m/1852'/1815'/account'
+ */
+export const deriveAccountPublicKey = (mnemonic: string, derivation: DerivationOptions = {}): string => {
+  const account = deriveAccountKey(mnemonic, derivation);
+  return Buffer.from(account.to_public().as_bytes()).toString("hex");
+};
+
+/**
+ * Derive the payment signing keys of discovered addresses
+ *
+ * @returns CSL private keys, in the order of `addresses`
+ */
+export const derivePaymentKeys = (
+  mnemonic: string,
+  derivation: DerivationOptions,
+  addresses: Pick<DiscoveredAddress, "chain" | "index">[]
+) => {
+  const account = deriveAccountKey(mnemonic, derivation);
+  return addresses.map(({ chain, index }) => account.derive(CHAIN_ROLE[chain]).derive(index).to_raw_key());
+};
+
+/**
+ * Bech32 reward address of an account
+ */
+export const deriveStakeAddress = (accountPublicKey: string, networkId: number): string => {
+  const { csl } = core;
+  const account = csl.Bip32PublicKey.from_bytes(Buffer.from(accountPublicKey, "hex"));
+  const stakeKey = account.derive(STAKE_ROLE).derive(0).to_raw_key();
+  return csl.RewardAddress.new(networkId, csl.Credential.from_keyhash(stakeKey.hash())).to_address().to_bech32();
+};
+
+/**
+ * Bech32 base address at a chain and index of an account
+ */
+export const deriveBaseAddress = (
+  accountPublicKey: string,
+  networkId: number,
+  chain: AddressChain,
+  index: number
+): string => {
+  const { csl } = core;
+  const account = csl.Bip32PublicKey.from_bytes(Buffer.from(accountPublicKey, "hex"));
+  const paymentKey = account.derive(CHAIN_ROLE[chain]).derive(index).to_raw_key();
+  const stakeKey = account.derive(STAKE_ROLE).derive(0).to_raw_key();
+  return csl.BaseAddress.new(
+    networkId,
+    csl.Credential.from_keyhash(paymentKey.hash()),
+    csl.Credential.from_keyhash(stakeKey.hash())
+  )
+    .to_address()
+    .to_bech32();
+};
+
+/**
+ * Scan one chain until `gapLimit` consecutive addresses are unused
+ *
+ * @param derive - Address at an index of the chain
+ * @param isUsed - Whether an address has been seen on chain
+ * @returns Every scanned address, the trailing unused ones included
+ */
+export const scanAddressChain = (
+  chain: AddressChain,
+  derive: (index: number) => string,
+  isUsed: (address: string) => boolean,
+  gapLimit: number = ADDRESS_GAP_LIMIT
+): DiscoveredAddress[] => {
+  const addresses: DiscoveredAddress[] = [];
+  let gap = 0;
+
+  for (let index = 0; gap < gapLimit; index++) {
+    const address = derive(index);
+    const used = isUsed(address);
+    addresses.push({ address, chain, index, used });
+    gap = used ? 0 : gap + 1;
+  }
+
+  return addresses;
+};
+
+/**
+ * Discover the used addresses of a wallet account
+ *
+ * @param mnemonic - BIP-39 mnemonic phrase
+ * @param derivation - Account and passphrase to scan (account 0 by default)
+ */
+export const discoverAddresses = async (
+  mnemonic: string,
+  derivation: DerivationOptions = {},
+  network?: CardanoNetwork
+): Promise<AddressDiscovery> => {
+  const net = network || getCurrentNetwork();
+  const networkId = net === "mainnet" ? 1 : 0;
+  const accountPublicKey = deriveAccountPublicKey(mnemonic, derivation);
+  const stakeAddress = deriveStakeAddress(accountPublicKey, networkId);
+
+  const seen = new Set(await getStakeKeyAddresses(stakeAddress, net));
+  const isUsed = (address: string) => seen.has(address);
+
+  const addresses = (["external", "internal"] as const).flatMap((chain) =>
+    scanAddressChain(chain, (index) => deriveBaseAddress(accountPublicKey, networkId, chain, index), isUsed)
+  );
+
+  return { accountPublicKey, networkId, stakeAddress, addresses };
+};
+
+/**
+ * Addresses to aggregate balance and history over
+ * The first external address is always included, even before it is used.
+ */
+export const getDiscoveredWalletAddresses = (discovery: AddressDiscovery): string[] => {
+  return discovery.addresses
+    .filter((a) => a.used || (a.chain === "external" && a.index === 0))
+    .map((a) => a.address);
+};
+
+/**
+ * Addresses the wallet spends from: the used ones and the first external one
+ * Usage is looked up again, so receive addresses handed out since discovery
+ * are included once they hold funds.
+ *
+ * @param discovery - Result of discoverAddresses
+ * @returns Discovered addresses, first external address first
+ */
+export const getSpendingAddresses = async (
+  discovery: AddressDiscovery,
+  network?: CardanoNetwork
+): Promise<DiscoveredAddress[]> => {
+  const seen = new Set(await getStakeKeyAddresses(discovery.stakeAddress, network || getCurrentNetwork()));
+  return discovery.addresses.filter(
+    (a) => a.used || seen.has(a.address) || (a.chain === "external" && a.index === 0)
+  );
+};
+
+/**
+ * Next unused receive address
+ * Unused addresses are handed out in order; past the gap limit it starts over
+ * from the first unused one, so restoring the seed elsewhere still finds funds.
+ *
+ * @param discovery - Result of discoverAddresses
+ * @param afterIndex - External index handed out last time
+ */
+export const getFreshReceiveAddress = (discovery: AddressDiscovery, afterIndex: number = -1): DiscoveredAddress => {
+  const unused = discovery.addresses.filter((a) => a.chain === "external" && !a.used);
+  return unused.find((a) => a.index > afterIndex) || unused[0];
+};
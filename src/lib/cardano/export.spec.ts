@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { buildRewardsExport, buildTransactionExport, getRewardPaidTime } from './export';
+import type { TransactionInfo } from './types';
+
+const TOKEN = '11'.repeat(28) + '484f534b59';
+const assetName = (unit: string) => (unit === TOKEN ? 'HOSKY' : unit);
+
+const swap: TransactionInfo = {
+  hash: 'swaphash',
+  blockTime: 1_700_000_000,
+  kind: 'swap',
+  direction: 'outgoing',
+  netLovelace: '-10200000',
+  fees: '200000',
+  assetMovements: [{ unit: TOKEN, quantity: '5000' }],
+};
+
+const received: TransactionInfo = {
+  hash: 'receivehash',
+  blockTime: 1_600_000_000,
+  kind: 'receive',
+  direction: 'incoming',
+  netLovelace: '2500000',
+  fees: '170000',
+  message: 'Rent, "March"',
+};
+
+const delegation: TransactionInfo = {
+  hash: 'delegationhash',
+  blockTime: 1_650_000_000,
+  kind: 'delegation',
+  direction: 'outgoing',
+  netLovelace: '-180000',
+  fees: '180000',
+};
+
+const lines = (csv: string) => csv.trim().split('\n');
+
+describe('buildTransactionExport', () => {
+  it('writes every column, oldest first, with fiat values and quoted memos', () => {
+    const csv = buildTransactionExport([swap, received], 'csv', {
+      currency: 'usd',
+      priceAt: () => 0.5,
+      assetName,
+    });
+
+    const [header, first, second] = lines(csv);
+    expect(header).toBe(
+      'Date (UTC),Tx Hash,Type,Direction,ADA Change,Fee (ADA),Token Changes,ADA Price (USD),Value (USD),Memo'
+    );
+    // The receiver did not pay the fee
+    expect(first).toBe('2020-09-13 12:26:40,receivehash,receive,incoming,2.5,0,,0.5,1.25,"Rent, ""March"""');
+    expect(second).toBe('2023-11-14 22:13:20,swaphash,swap,outgoing,-10,0.2,+5000 HOSKY,0.5,-5.00,');
+  });
+
+  it('maps swaps to Koinly trades and fee-only transactions to costs', () => {
+    const csv = buildTransactionExport([swap, delegation], 'koinly', { currency: 'eur', assetName });
+
+    expect(lines(csv).slice(1)).toEqual([
+      '2022-04-15 05:20:00 UTC,0.18,ADA,,,,,,,cost,delegation,delegationhash',
+      '2023-11-14 22:13:20 UTC,10,ADA,5000,HOSKY,0.2,ADA,,,,,swaphash',
+    ]);
+  });
+
+  it('splits multi-asset transactions into CoinTracking rows sharing the hash', () => {
+    const tx: TransactionInfo = {
+      ...swap,
+      assetMovements: [
+        { unit: TOKEN, quantity: '5000' },
+        { unit: 'aa'.repeat(28), quantity: '-1' },
+      ],
+    };
+    const rows = lines(buildTransactionExport([tx], 'cointracking', { currency: 'usd', assetName }));
+
+    expect(rows).toHaveLength(3);
+    expect(rows[1]).toBe('Trade,5000,HOSKY,10,ADA,0.2,ADA,Cardano Wallet,,,2023-11-14 22:13:20,swaphash');
+    expect(rows[2]).toBe(`Withdrawal,,,1,${'aa'.repeat(28)},,,Cardano Wallet,,,2023-11-14 22:13:20,swaphash`);
+  });
+});
+
+describe('buildRewardsExport', () => {
+  it('dates rewards at the payout two epochs later', () => {
+    const current = { epoch: 500, startTime: 1_000_000_000, endTime: 1_000_432_000 };
+    expect(getRewardPaidTime(498, current)).toBe(current.startTime);
+    expect(getRewardPaidTime(490, current)).toBe(current.startTime - 8 * 432_000);
+
+    const csv = buildRewardsExport(
+      [{ epoch: 498, amount: '1234567', poolId: 'pool1abc', paidAt: current.startTime }],
+      'koinly',
+      { currency: 'usd', priceAt: () => 0.4 }
+    );
+    expect(lines(csv)[1]).toBe(
+      '2001-09-09 01:46:40 UTC,,,1.234567,ADA,,,0.49,USD,staking,"Staking reward, epoch 498, pool pool1abc",'
+    );
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * History Export
+ *
+ * Builds CSV files from transaction and staking reward history:
+ * - "csv": one row per transaction with every column we know
+ * - "koinly": Koinly universal format
+ * - "cointracking": CoinTracking custom import format
+ *
+ * Koinly and CoinTracking take one sent and one received currency per row, so
+ * transactions moving several assets are split into rows sharing the tx hash.
+ * Fees are only counted when the wallet paid them (everything but receives).
+ *
+ * @see https://help.koinly.io/en/articles/3662999-how-to-create-a-custom-csv-file-with-your-data
+ * @see https://cointracking.info/import/import_csv/
+ */
+
+import { lovelaceToAda, type TransactionInfo } from "./types";
+import type { EpochReward } from "./wallet";
+
+export type ExportFormat = "csv" | "koinly" | "cointracking";
+
+export interface ExportOptions {
+  currency: string; // Fiat currency code, e.g. "usd"
+  priceAt?: (timestamp: number) => number | undefined; // ADA price at a Unix time
+  assetName?: (unit: string) => string; // Display name for a token unit
+}
+
+/**
+ * Staking reward with the time it was paid out
+ */
+export interface RewardExportEntry extends EpochReward {
+  paidAt: number; // Unix seconds
+}
+
+interface AssetAmount {
+  currency: string;
+  amount: string; // Positive decimal
+}
+
+// Rewards earned in epoch N are paid at the start of epoch N + 2
+const REWARD_PAYOUT_DELAY = 2;
+
+/**
+ * Time a reward was paid, from the current epoch's timing
+ *
+ * @param epoch - Epoch the reward was earned in
+ * @param current - Current epoch with its start and end time (Unix seconds)
+ */
+export const getRewardPaidTime = (
+  epoch: number,
+  current: { epoch: number; startTime: number; endTime: number }
+): number => {
+  const epochLength = current.endTime - current.startTime;
+  return current.startTime - (current.epoch - (epoch + REWARD_PAYOUT_DELAY)) * epochLength;
+};
+
+/**
+ * Quote a CSV field when needed
+ */
+const escapeCsv = (value: string): string => {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Join rows into CSV text
+ */
+export const toCsv = (rows: string[][]): string => {
+  return rows.map((row) => row.map(escapeCsv).join(",")).join("\n") + "\n";
+};
+
+/**
+ * "2024-03-01 12:00:00" (UTC)
+ */
+const formatDate = (timestamp: number): string => {
+  return new Date(timestamp * 1000).toISOString().replace("T", " ").slice(0, 19);
+};
+
+const formatFiat = (ada: number, price: number | undefined): string => {
+  return price === undefined ? "" : (ada * price).toFixed(2);
+};
+
+/**
+ * Trim trailing zeros of an ADA amount ("1.500000" -> "1.5")
+ */
+const formatAda = (lovelace: bigint): string => {
+  return lovelaceToAda(lovelace.toString()).replace(/\.?0+$/, "");
+};
+
+const defaultAssetName = (unit: string): string => unit;
+
+/**
+ * Split a transaction into what the wallet sent, received and paid in fees
+ */
+const getTransfers = (tx: TransactionInfo, options: ExportOptions) => {
+  const assetName = options.assetName || defaultAssetName;
+  const feePaid = tx.kind ? tx.kind !== "receive" : tx.direction !== "incoming";
+  const fee = feePaid ? BigInt(tx.fees || "0") : BigInt(0);
+  // Withdrawn rewards were already income when earned, see the rewards export
+  const ada = BigInt(tx.netLovelace || "0") + fee - BigInt(tx.withdrawal || "0");
+
+  const sent: AssetAmount[] = [];
+  const received: AssetAmount[] = [];
+  if (ada < BigInt(0)) sent.push({ currency: "ADA", amount: formatAda(-ada) });
+  if (ada > BigInt(0)) received.push({ currency: "ADA", amount: formatAda(ada) });
+
+  for (const movement of tx.assetMovements || []) {
+    const quantity = BigInt(movement.quantity);
+    const entry = { currency: assetName(movement.unit), amount: (quantity < BigInt(0) ? -quantity : quantity).toString() };
+    (quantity < BigInt(0) ? sent : received).push(entry);
+  }
+
+  return { ada, fee, sent, received };
+};
+
+/**
+ * Pair sent and received assets into rows (the fee goes on the first row)
+ */
+const pairTransfers = (sent: AssetAmount[], received: AssetAmount[]) => {
+  const count = Math.max(sent.length, received.length, 1);
+  return Array.from({ length: count }, (_, i) => ({ sent: sent[i], received: received[i], first: i === 0 }));
+};
+
+const formatTokenChanges = (tx: TransactionInfo, options: ExportOptions): string => {
+  const assetName = options.assetName || defaultAssetName;
+  return (tx.assetMovements || [])
+    .map((m) => `${m.quantity.startsWith("-") ? "" : "+"}${m.quantity} ${assetName(m.unit)}`)
+    .join("; ");
+};
+
+const buildGenericRows = (transactions: TransactionInfo[], options: ExportOptions): string[][] => {
+  const currency = options.currency.toUpperCase();
+  const header = [
+    "Date (UTC)",
+    "Tx Hash",
+    "Type",
+    "Direction",
+    "ADA Change",
+    "Fee (ADA)",
+    "Token Changes",
+    `ADA Price (${currency})`,
+    `Value (${currency})`,
+    "Memo",
+  ];
+
+  const rows = transactions.map((tx) => {
+    const { ada, fee } = getTransfers(tx, options);
+    const price = tx.blockTime ? options.priceAt?.(tx.blockTime) : undefined;
+    const adaChange = (ada < BigInt(0) ? "-" : "") + formatAda(ada < BigInt(0) ? -ada : ada);
+    return [
+      tx.blockTime ? formatDate(tx.blockTime) : "",
+      tx.hash,
+      tx.kind || "",
+      tx.direction || "",
+      adaChange,
+      formatAda(fee),
+      formatTokenChanges(tx, options),
+      price === undefined ? "" : String(price),
+      formatFiat(Number(ada) / 1_000_000, price),
+      tx.message || "",
+    ];
+  });
+
+  return [header, ...rows];
+};
+
+const buildKoinlyRows = (transactions: TransactionInfo[], options: ExportOptions): string[][] => {
+  const header = [
+    "Date",
+    "Sent Amount",
+    "Sent Currency",
+    "Received Amount",
+    "Received Currency",
+    "Fee Amount",
+    "Fee Currency",
+    "Net Worth Amount",
+    "Net Worth Currency",
+    "Label",
+    "Description",
+    "TxHash",
+  ];
+  const rows: string[][] = [];
+
+  for (const tx of transactions) {
+    const { ada, fee, sent, received } = getTransfers(tx, options);
+    const price = tx.blockTime ? options.priceAt?.(tx.blockTime) : undefined;
+    const date = tx.blockTime ? `${formatDate(tx.blockTime)} UTC` : "";
+    const adaValue = Math.abs(Number(ada)) / 1_000_000;
+
+    // Fee-only transactions (delegation, withdrawals) are a cost paid in ADA
+    if (sent.length === 0 && received.length === 0) {
+      if (fee === BigInt(0)) continue;
+      const feeValue = formatFiat(Number(fee) / 1_000_000, price);
+      rows.push([
+        date,
+        formatAda(fee),
+        "ADA",
+        "",
+        "",
+        "",
+        "",
+        feeValue,
+        feeValue ? options.currency.toUpperCase() : "",
+        "cost",
+        tx.message || tx.kind || "",
+        tx.hash,
+      ]);
+      continue;
+    }
+
+    for (const row of pairTransfers(sent, received)) {
+      rows.push([
+        date,
+        row.sent?.amount || "",
+        row.sent?.currency || "",
+        row.received?.amount || "",
+        row.received?.currency || "",
+        row.first && fee > BigInt(0) ? formatAda(fee) : "",
+        row.first && fee > BigInt(0) ? "ADA" : "",
+        row.first && ada !== BigInt(0) ? formatFiat(adaValue, price) : "",
+        row.first && ada !== BigInt(0) && price !== undefined ? options.currency.toUpperCase() : "",
+        "",
+        row.first ? tx.message || "" : "",
+        tx.hash,
+      ]);
+    }
+  }
+
+  return [header, ...rows];
+};
+
+const COINTRACKING_EXCHANGE = "Cardano Wallet";
+
+const buildCoinTrackingRows = (transactions: TransactionInfo[], options: ExportOptions): string[][] => {
+  const header = [
+    "Type",
+    "Buy Amount",
+    "Buy Currency",
+    "Sell Amount",
+    "Sell Currency",
+    "Fee",
+    "Fee Currency",
+    "Exchange",
+    "Trade-Group",
+    "Comment",
+    "Date",
+    "Tx-ID",
+  ];
+  const rows: string[][] = [];
+
+  for (const tx of transactions) {
+    const { fee, sent, received } = getTransfers(tx, options);
+    const date = tx.blockTime ? formatDate(tx.blockTime) : "";
+
+    if (sent.length === 0 && received.length === 0) {
+      if (fee === BigInt(0)) continue;
+      rows.push([
+        "Other Fee",
+        "",
+        "",
+        formatAda(fee),
+        "ADA",
+        "",
+        "",
+        COINTRACKING_EXCHANGE,
+        "",
+        tx.message || tx.kind || "",
+        date,
+        tx.hash,
+      ]);
+      continue;
+    }
+
+    for (const row of pairTransfers(sent, received)) {
+      const type = row.sent && row.received ? "Trade" : row.received ? "Deposit" : "Withdrawal";
+      rows.push([
+        type,
+        row.received?.amount || "",
+        row.received?.currency || "",
+        row.sent?.amount || "",
+        row.sent?.currency || "",
+        row.first && fee > BigInt(0) ? formatAda(fee) : "",
+        row.first && fee > BigInt(0) ? "ADA" : "",
+        COINTRACKING_EXCHANGE,
+        "",
+        row.first ? tx.message || "" : "",
+        date,
+        tx.hash,
+      ]);
+    }
+  }
+
+  return [header, ...rows];
+};
+
+/**
+ * Build a transaction history CSV
+ *
+ * @param transactions - History with movements (see getFullTransactionHistory)
+ * @param format - Column layout
+ * @param options - Fiat currency, price lookup and token names
+ * @returns CSV text
+ */
+export const buildTransactionExport = (
+  transactions: TransactionInfo[],
+  format: ExportFormat,
+  options: ExportOptions
+): string => {
+  // Oldest first, as tax tools expect
+  const sorted = [...transactions].sort((a, b) => (a.blockTime || 0) - (b.blockTime || 0));
+  switch (format) {
+    case "koinly":
+      return toCsv(buildKoinlyRows(sorted, options));
+    case "cointracking":
+      return toCsv(buildCoinTrackingRows(sorted, options));
+    default:
+      return toCsv(buildGenericRows(sorted, options));
+  }
+};
+
+/**
+ * Build a staking rewards CSV, one row per epoch
+ *
+ * @param rewards - Rewards with payout time
+ * @param format - Column layout
+ * @param options - Fiat currency and price lookup
+ * @returns CSV text
+ */
+export const buildRewardsExport = (
+  rewards: RewardExportEntry[],
+  format: ExportFormat,
+  options: ExportOptions
+): string => {
+  const currency = options.currency.toUpperCase();
+  const sorted = [...rewards].sort((a, b) => a.epoch - b.epoch);
+
+  const rows = sorted.map((reward) => {
+    const ada = formatAda(BigInt(reward.amount));
+    const price = options.priceAt?.(reward.paidAt);
+    const value = formatFiat(Number(reward.amount) / 1_000_000, price);
+    const date = formatDate(reward.paidAt);
+    const description = `Staking reward, epoch ${reward.epoch}, pool ${reward.poolId}`;
+
+    switch (format) {
+      case "koinly":
+        return [`${date} UTC`, "", "", ada, "ADA", "", "", value, value ? currency : "", "staking", description, ""];
+      case "cointracking":
+        return ["Staking", ada, "ADA", "", "", "", "", COINTRACKING_EXCHANGE, "", description, date, ""];
+      default:
+        return [String(reward.epoch), date, reward.poolId, ada, price === undefined ? "" : String(price), value];
+    }
+  });
+
+  const header =
+    format === "koinly"
+      ? buildKoinlyRows([], options)[0]
+      : format === "cointracking"
+        ? buildCoinTrackingRows([], options)[0]
+        : ["Epoch", "Paid (UTC)", "Pool", "Reward (ADA)", `ADA Price (${currency})`, `Value (${currency})`];
+
+  return toCsv([header, ...rows]);
+};
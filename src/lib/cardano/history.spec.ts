@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { core } from '@meshsdk/core';
+import {
+  classifyTransaction,
+  computeAssetMovements,
+  createHistoryCursor,
+  getTransactionHistoryPage,
+  parseTransactionBody,
+} from './history';
+
+const OWN = 'addr_test1own';
+const OTHER = 'addr_test1other';
+const TOKEN = '11'.repeat(28) + '484f534b59';
+
+const utxo = (address: string, lovelace: string, assets: { unit: string; quantity: string }[] = [], flags = {}) => ({
+  address,
+  amount: [{ unit: 'lovelace', quantity: lovelace }, ...assets],
+  tx_hash: 'aa'.repeat(32),
+  output_index: 0,
+  ...flags,
+});
+
+describe('computeAssetMovements', () => {
+  it('nets inputs against outputs and ignores collateral and reference inputs', () => {
+    const movements = computeAssetMovements(
+      {
+        inputs: [
+          utxo(OWN, '10000000'),
+          utxo(OWN, '5000000', [], { collateral: true }),
+          utxo(OWN, '2000000', [], { reference: true }),
+        ],
+        outputs: [utxo(OTHER, '3000000'), utxo(OWN, '6800000', [{ unit: TOKEN, quantity: '100' }])],
+      },
+      [OWN]
+    );
+
+    expect(movements).toEqual([
+      { unit: 'lovelace', quantity: '-3200000' },
+      { unit: TOKEN, quantity: '100' },
+    ]);
+  });
+});
+
+describe('classifyTransaction', () => {
+  it('tells sends, receives and swaps apart', () => {
+    const fee = '200000';
+    // Sending a token also sends its min-ADA
+    expect(
+      classifyTransaction([{ unit: 'lovelace', quantity: '-1400000' }, { unit: TOKEN, quantity: '-5' }], { fee })
+    ).toBe('send');
+    expect(classifyTransaction([{ unit: 'lovelace', quantity: '1200000' }, { unit: TOKEN, quantity: '5' }])).toBe(
+      'receive'
+    );
+    expect(
+      classifyTransaction([{ unit: 'lovelace', quantity: '-50000000' }, { unit: TOKEN, quantity: '900' }], { fee })
+    ).toBe('swap');
+    expect(classifyTransaction([{ unit: 'lovelace', quantity: '-200000' }], { fee })).toBe('send');
+    expect(classifyTransaction([])).toBe('self');
+  });
+
+  it('prefers mints, certificates and withdrawals over the ADA change', () => {
+    const received = [{ unit: 'lovelace', quantity: '-2200000' }, { unit: TOKEN, quantity: '1' }];
+    expect(classifyTransaction(received, { mintedUnits: [TOKEN] })).toBe('mint');
+    expect(
+      classifyTransaction([{ unit: 'lovelace', quantity: '-2200000' }], {
+        certificates: [{ type: 'stake_registration' }, { type: 'stake_delegation' }],
+      })
+    ).toBe('delegation');
+    expect(classifyTransaction([], { certificates: [{ type: 'vote_delegation', drep: 'always_abstain' }] })).toBe(
+      'vote_delegation'
+    );
+    expect(classifyTransaction([{ unit: 'lovelace', quantity: '4800000' }], { withdrawal: '5000000' })).toBe(
+      'withdrawal'
+    );
+  });
+});
+
+describe('parseTransactionBody', () => {
+  it('reads certificates, withdrawals and mints from CBOR', () => {
+    const { csl } = core;
+    const keyHash = csl.Ed25519KeyHash.from_hex('9e'.repeat(28));
+    const credential = csl.Credential.from_keyhash(keyHash);
+
+    const inputs = csl.TransactionInputs.new();
+    inputs.add(csl.TransactionInput.new(csl.TransactionHash.from_hex('00'.repeat(32)), 0));
+    const body = csl.TransactionBody.new_tx_body(inputs, csl.TransactionOutputs.new(), csl.BigNum.from_str('180000'));
+
+    const certs = csl.Certificates.new();
+    certs.add(csl.Certificate.new_stake_delegation(csl.StakeDelegation.new(credential, keyHash)));
+    certs.add(csl.Certificate.new_vote_delegation(csl.VoteDelegation.new(credential, csl.DRep.new_always_abstain())));
+    body.set_certs(certs);
+
+    const withdrawals = csl.Withdrawals.new();
+    withdrawals.insert(csl.RewardAddress.new(0, credential), csl.BigNum.from_str('1234567'));
+    body.set_withdrawals(withdrawals);
+
+    const mintAssets = csl.MintAssets.new();
+    mintAssets.insert(csl.AssetName.new(Buffer.from('HOSKY')), csl.Int.new_i32(100));
+    const mint = csl.Mint.new();
+    mint.insert(csl.ScriptHash.from_hex('11'.repeat(28)), mintAssets);
+    body.set_mint(mint);
+
+    const cbor = csl.Transaction.new(body, csl.TransactionWitnessSet.new()).to_hex();
+    const summary = parseTransactionBody(cbor)!;
+
+    expect(summary.fee).toBe('180000');
+    expect(summary.withdrawal).toBe('1234567');
+    expect(summary.mintedUnits).toEqual([TOKEN]);
+    expect(summary.certificates.map((c) => c.type)).toEqual(['stake_delegation', 'vote_delegation']);
+    expect(summary.certificates[0].pool).toMatch(/^pool1/);
+    expect(summary.certificates[0].stakeCredential).toBe('9e'.repeat(28));
+    expect(summary.certificates[1].drep).toBe('always_abstain');
+  });
+
+  it('returns null for invalid CBOR', () => {
+    expect(parseTransactionBody('deadbeef')).toBeNull();
+  });
+});
+
+describe('getTransactionHistoryPage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('merges addresses newest first and lists shared transactions once', async () => {
+    vi.stubEnv('NEXT_PUBLIC_BLOCKFROST_KEY_PREPROD', 'preprodTestKey');
+    const refs: Record<string, { tx_hash: string; tx_index: number; block_height: number; block_time: number }[]> = {
+      [OWN]: [
+        { tx_hash: 'c', tx_index: 0, block_height: 30, block_time: 3 },
+        { tx_hash: 'a', tx_index: 1, block_height: 10, block_time: 1 },
+      ],
+      [OTHER]: [
+        { tx_hash: 'c', tx_index: 0, block_height: 30, block_time: 3 },
+        { tx_hash: 'b', tx_index: 0, block_height: 20, block_time: 2 },
+      ],
+    };
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        const match = url.match(/addresses\/([^/]+)\/transactions\?.*page=(\d+)/);
+        if (match) {
+          return new Response(JSON.stringify(match[2] === '1' ? refs[match[1]] : []), { status: 200 });
+        }
+        return new Response('{}', { status: 404 });
+      })
+    );
+
+    const first = await getTransactionHistoryPage(createHistoryCursor([OWN, OTHER], 'preprod'), 2);
+    expect(first.transactions.map((tx) => tx.hash)).toEqual(['c', 'b']);
+    expect(first.hasMore).toBe(true);
+
+    const second = await getTransactionHistoryPage(first.cursor, 2);
+    expect(second.transactions.map((tx) => tx.hash)).toEqual(['a']);
+    expect(second.hasMore).toBe(false);
+  });
+});
@@ -0,0 +1,659 @@
+/**
+ * Transaction History
+ *
+ * Paginated history across every address of a wallet. Addresses are looked up
+ * through the wallet's stake key (Blockfrost /accounts/{stake}/addresses), so
+ * payments to any address sharing the stake key are included.
+ *
+ * Blockfrost lists transactions per address, newest first. Pages are built by
+ * merging those lists by block height and index, so the cursor keeps one
+ * buffer per address plus the hashes already returned (a transaction touching
+ * several wallet addresses is listed once).
+ *
+ * Each transaction is classified from the wallet's net asset movements and the
+ * certificates, withdrawals and mints found in its body.
+ */
+
+import { core } from "@meshsdk/core";
+import {
+  getBlockfrostApiKey,
+  getBlockfrostUrl,
+  getCurrentNetwork,
+  type AssetMovement,
+  type CardanoNetwork,
+  type TransactionCertificate,
+  type TransactionInfo,
+  type TransactionKind,
+  type TransactionMetadataEntry,
+  type TransactionUTxO,
+} from "./types";
+import { CIP20_LABEL, getCip20Ciphertext, parseCip20Metadata } from "./cip20";
+
+/**
+ * Transactions per history page
+ */
+export const HISTORY_PAGE_SIZE = 20;
+
+// Blockfrost returns at most 100 items per page
+const BLOCKFROST_PAGE_SIZE = 100;
+
+/**
+ * Transaction reference from /addresses/{address}/transactions
+ */
+interface TransactionRef {
+  tx_hash: string;
+  tx_index: number;
+  block_height: number;
+  block_time: number;
+}
+
+/**
+ * Per-address position in the merged history
+ */
+interface HistorySource {
+  address: string;
+  nextPage: number;
+  buffer: TransactionRef[];
+  done: boolean;
+}
+
+/**
+ * Where the next history page starts
+ * Plain data, so it can be kept in the wallet store.
+ */
+export interface TransactionHistoryCursor {
+  network: CardanoNetwork;
+  addresses: string[]; // All wallet addresses, used to compute movements
+  sources: HistorySource[];
+  seen: string[]; // Hashes already returned
+}
+
+export interface TransactionHistoryPage {
+  transactions: TransactionInfo[];
+  cursor: TransactionHistoryCursor;
+  hasMore: boolean;
+}
+
+/**
+ * UTxO entry from /txs/{hash}/utxos
+ */
+interface BlockfrostTxUtxo {
+  address: string;
+  amount: { unit: string; quantity: string }[];
+  tx_hash: string;
+  output_index: number;
+  collateral?: boolean;
+  reference?: boolean;
+}
+
+interface BlockfrostTxUtxos {
+  inputs: BlockfrostTxUtxo[];
+  outputs: BlockfrostTxUtxo[];
+}
+
+/**
+ * Fields of the transaction body used for classification
+ */
+export interface TransactionBodySummary {
+  fee: string;
+  certificates: TransactionCertificate[];
+  withdrawal: string; // Total rewards withdrawn (lovelace)
+  mintedUnits: string[]; // Units minted or burned
+}
+
+// ================================
+// BLOCKFROST
+// ================================
+
+/**
+ * GET a Blockfrost endpoint
+ *
+ * @returns Parsed JSON, or null if the resource does not exist (404)
+ */
+const blockfrostGet = async <T>(network: CardanoNetwork, path: string): Promise<T | null> => {
+  const apiKey = getBlockfrostApiKey(network);
+  if (!apiKey) {
+    throw new Error("Blockfrost API key not set");
+  }
+
+  const response = await fetch(`${getBlockfrostUrl(network)}${path}`, {
+    headers: { project_id: apiKey },
+  });
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Blockfrost API error: ${response.status}`);
+  }
+  return response.json();
+};
+
+/**
+ * Get every address seen on chain with a stake key
+ *
+ * @param stakeAddress - Bech32 reward address
+ * @returns Addresses in Blockfrost order (empty if the stake key was never used)
+ */
+export const getStakeKeyAddresses = async (stakeAddress: string, network?: CardanoNetwork): Promise<string[]> => {
+  const net = network || getCurrentNetwork();
+  const addresses: string[] = [];
+
+  for (let page = 1; ; page++) {
+    const entries = await blockfrostGet<{ address: string }[]>(
+      net,
+      `/accounts/${stakeAddress}/addresses?count=${BLOCKFROST_PAGE_SIZE}&page=${page}`
+    );
+    addresses.push(...(entries || []).map((entry) => entry.address));
+    if (!entries || entries.length < BLOCKFROST_PAGE_SIZE) break;
+  }
+
+  return addresses;
+};
+
+/**
+ * Get every address that shares the stake key of an address
+ *
+ * @param address - Wallet base address
+ * @returns The address itself first, then the other addresses of the stake key
+ */
+export const getWalletHistoryAddresses = async (address: string, network?: CardanoNetwork): Promise<string[]> => {
+  const net = network || getCurrentNetwork();
+  const addresses = [address];
+
+  try {
+    const info = await blockfrostGet<{ stake_address: string | null }>(net, `/addresses/${address}`);
+    if (!info?.stake_address) return addresses;
+
+    for (const stakeKeyAddress of await getStakeKeyAddresses(info.stake_address, net)) {
+      if (!addresses.includes(stakeKeyAddress)) addresses.push(stakeKeyAddress);
+    }
+  } catch (error) {
+    console.warn("Error fetching stake key addresses:", error);
+  }
+
+  return addresses;
+};
+
+/**
+ * Fetch the metadata attached to a transaction
+ */
+const fetchTransactionMetadata = async (
+  network: CardanoNetwork,
+  txHash: string
+): Promise<TransactionMetadataEntry[]> => {
+  try {
+    const metadata = await blockfrostGet<{ label: string; json_metadata: unknown }[]>(
+      network,
+      `/txs/${txHash}/metadata`
+    );
+    return (metadata || []).map((entry) => ({ label: entry.label, json: entry.json_metadata }));
+  } catch (error) {
+    console.warn(`Error fetching metadata for tx ${txHash}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Read the CIP-20 message (label 674) from transaction metadata
+ *
+ * Encrypted messages are returned as ciphertext so the user can
+ * decrypt them later with the shared passphrase.
+ */
+const getTransactionMessage = (
+  metadata: TransactionMetadataEntry[]
+): Pick<TransactionInfo, "message" | "encryptedMessage"> => {
+  const entry = metadata.find((m) => m.label === String(CIP20_LABEL));
+  if (!entry) return {};
+
+  return {
+    message: parseCip20Metadata(entry.json) || undefined,
+    encryptedMessage: getCip20Ciphertext(entry.json) || undefined,
+  };
+};
+
+/**
+ * Fetch and summarize the body of a transaction
+ *
+ * @returns Body summary, or null if the CBOR is unavailable
+ */
+const fetchTransactionBody = async (network: CardanoNetwork, txHash: string): Promise<TransactionBodySummary | null> => {
+  try {
+    const data = await blockfrostGet<{ cbor: string }>(network, `/txs/${txHash}/cbor`);
+    return data ? parseTransactionBody(data.cbor) : null;
+  } catch (error) {
+    console.warn(`Error fetching CBOR for tx ${txHash}:`, error);
+    return null;
+  }
+};
+
+// ================================
+// CLASSIFICATION
+// ================================
+
+/**
+ * Drop inputs and outputs that do not move funds: reference inputs,
+ * collateral inputs and the collateral return output
+ */
+const spentUtxos = (utxos: BlockfrostTxUtxo[]): BlockfrostTxUtxo[] => {
+  return utxos.filter((utxo) => !utxo.collateral && !utxo.reference);
+};
+
+/**
+ * Net change of every asset (lovelace included) for a set of addresses
+ *
+ * @param utxos - Inputs and outputs of the transaction
+ * @param ownAddresses - Wallet addresses
+ * @returns Non-zero movements, lovelace first, then tokens sorted by unit
+ */
+export const computeAssetMovements = (utxos: BlockfrostTxUtxos, ownAddresses: string[]): AssetMovement[] => {
+  const totals = new Map<string, bigint>();
+  const add = (list: BlockfrostTxUtxo[], sign: bigint) => {
+    for (const utxo of spentUtxos(list)) {
+      if (!ownAddresses.includes(utxo.address)) continue;
+      for (const asset of utxo.amount) {
+        totals.set(asset.unit, (totals.get(asset.unit) || BigInt(0)) + sign * BigInt(asset.quantity));
+      }
+    }
+  };
+
+  add(utxos.inputs || [], BigInt(-1));
+  add(utxos.outputs || [], BigInt(1));
+
+  return Array.from(totals.entries())
+    .filter(([, quantity]) => quantity !== BigInt(0))
+    .sort(([a], [b]) => (a === "lovelace" ? -1 : b === "lovelace" ? 1 : a.localeCompare(b)))
+    .map(([unit, quantity]) => ({ unit, quantity: quantity.toString() }));
+};
+
+/**
+ * Addresses on the other side of a transaction
+ * Recipients for outgoing transactions, senders for incoming ones.
+ */
+const getCounterparties = (
+  utxos: BlockfrostTxUtxos,
+  ownAddresses: string[],
+  direction: TransactionInfo["direction"]
+): string[] => {
+  const otherSide = direction === "outgoing" ? utxos.outputs : direction === "incoming" ? utxos.inputs : [];
+  return Array.from(
+    new Set(
+      spentUtxos(otherSide || [])
+        .map((utxo) => utxo.address)
+        .filter((address) => !ownAddresses.includes(address))
+    )
+  );
+};
+
+/**
+ * Classify a transaction from the wallet's point of view
+ *
+ * In order of precedence: mint (the wallet received or burned a minted token),
+ * delegation, vote delegation, reward withdrawal, swap (tokens in exchange for
+ * ADA or other tokens), then send / receive / self by the net ADA change.
+ *
+ * DEX orders placed at a script address are settled in a later transaction, so
+ * placing one shows as a send and the settlement as a receive.
+ */
+export const classifyTransaction = (
+  movements: AssetMovement[],
+  body?: Partial<TransactionBodySummary> | null
+): TransactionKind => {
+  const lovelace = BigInt(movements.find((m) => m.unit === "lovelace")?.quantity || "0");
+  const tokens = movements.filter((m) => m.unit !== "lovelace");
+  const certificates = body?.certificates || [];
+  const fee = BigInt(body?.fee || "0");
+
+  if (tokens.some((m) => body?.mintedUnits?.includes(m.unit))) {
+    return "mint";
+  }
+  if (certificates.some((c) => c.type === "stake_delegation" || c.type === "stake_vote_delegation")) {
+    return "delegation";
+  }
+  if (certificates.some((c) => c.type === "vote_delegation")) {
+    return "vote_delegation";
+  }
+  if (BigInt(body?.withdrawal || "0") > BigInt(0)) {
+    return "withdrawal";
+  }
+
+  const tokensIn = tokens.some((m) => BigInt(m.quantity) > BigInt(0));
+  const tokensOut = tokens.some((m) => BigInt(m.quantity) < BigInt(0));
+  const adaOut = -lovelace > fee;
+  // Sending tokens also sends their min-ADA, so tokens out + ADA out is a plain send
+  if ((tokensIn && (tokensOut || adaOut)) || (tokensOut && lovelace > BigInt(0))) {
+    return "swap";
+  }
+
+  if (lovelace < BigInt(0) || tokensOut) return "send";
+  if (lovelace > BigInt(0) || tokensIn) return "receive";
+  return "self";
+};
+
+// ================================
+// TRANSACTION BODY
+// ================================
+
+type CslCredentialJson = { Key?: string; Script?: string };
+type CslDRepJson = "AlwaysAbstain" | "AlwaysNoConfidence" | { KeyHash?: string; ScriptHash?: string };
+
+const CERTIFICATE_TYPES: Record<string, TransactionCertificate["type"]> = {
+  StakeRegistration: "stake_registration",
+  StakeDeregistration: "stake_deregistration",
+  StakeDelegation: "stake_delegation",
+  StakeRegistrationAndDelegation: "stake_delegation",
+  VoteDelegation: "vote_delegation",
+  VoteRegistrationAndDelegation: "vote_delegation",
+  StakeAndVoteDelegation: "stake_vote_delegation",
+  StakeVoteRegistrationAndDelegation: "stake_vote_delegation",
+  DRepRegistration: "drep_registration",
+  DRepDeregistration: "drep_deregistration",
+  DRepUpdate: "drep_update",
+};
+
+const toDRepId = (drep: CslDRepJson): string => {
+  const { csl } = core;
+  if (drep === "AlwaysAbstain") return "always_abstain";
+  if (drep === "AlwaysNoConfidence") return "always_no_confidence";
+  if (drep.KeyHash) return csl.DRep.new_key_hash(csl.Ed25519KeyHash.from_hex(drep.KeyHash)).to_bech32();
+  return csl.DRep.new_script_hash(csl.ScriptHash.from_hex(drep.ScriptHash || "")).to_bech32();
+};
+
+/**
+ * Convert a CSL certificate JSON object ({ "<Kind>": { ... } })
+ */
+export const toCertificate = (json: Record<string, Record<string, unknown>>): TransactionCertificate => {
+  const [kind, value] = Object.entries(json)[0] || ["", {}];
+  const credential = (value.stake_credential || value.voting_credential) as CslCredentialJson | undefined;
+  const poolKeyHash = value.pool_keyhash as string | undefined;
+
+  return {
+    type: CERTIFICATE_TYPES[kind] || "other",
+    stakeCredential: credential?.Key || credential?.Script,
+    pool: poolKeyHash ? core.csl.Ed25519KeyHash.from_hex(poolKeyHash).to_bech32("pool") : undefined,
+    drep: value.drep ? toDRepId(value.drep as CslDRepJson) : undefined,
+    deposit: typeof value.coin === "string" ? value.coin : undefined,
+  };
+};
+
+/**
+ * Read the fee, certificates, withdrawals and mints of a transaction
+ *
+ * @param cborHex - Signed transaction CBOR
+ * @returns Body summary, or null if the CBOR cannot be decoded
+ */
+export const parseTransactionBody = (cborHex: string): TransactionBodySummary | null => {
+  try {
+    const body = core.csl.Transaction.from_hex(cborHex).body();
+
+    const certs = body.certs();
+    const certificates = certs ? (JSON.parse(certs.to_json()) as Record<string, Record<string, unknown>>[]).map(toCertificate) : [];
+
+    const withdrawals = body.withdrawals();
+    const withdrawal = withdrawals
+      ? Object.values(JSON.parse(withdrawals.to_json()) as Record<string, string>).reduce(
+          (sum, amount) => sum + BigInt(amount),
+          BigInt(0)
+        )
+      : BigInt(0);
+
+    const mint = body.mint();
+    const mintedUnits = mint
+      ? (JSON.parse(mint.to_json()) as [string, Record<string, string>][]).flatMap(([policyId, assets]) =>
+          Object.keys(assets).map((assetName) => policyId + assetName)
+        )
+      : [];
+
+    return {
+      fee: body.fee().to_str(),
+      certificates,
+      withdrawal: withdrawal.toString(),
+      mintedUnits,
+    };
+  } catch (error) {
+    console.warn("Failed to decode transaction body:", error);
+    return null;
+  }
+};
+
+// ================================
+// HISTORY
+// ================================
+
+/**
+ * Direction, net ADA amount, token movements and kind of a transaction
+ */
+const summarizeMovements = (
+  utxos: BlockfrostTxUtxos,
+  ownAddresses: string[],
+  body: TransactionBodySummary | null
+): Partial<TransactionInfo> => {
+  const movements = computeAssetMovements(utxos, ownAddresses);
+  const lovelace = BigInt(movements.find((m) => m.unit === "lovelace")?.quantity || "0");
+  const direction = lovelace > BigInt(0) ? "incoming" : lovelace < BigInt(0) ? "outgoing" : "self";
+  const netAmount = lovelace < BigInt(0) ? -lovelace : lovelace;
+
+  return {
+    direction,
+    amount: (Number(netAmount) / 1_000_000).toFixed(2),
+    netLovelace: lovelace.toString(),
+    counterparties: getCounterparties(utxos, ownAddresses, direction),
+    kind: classifyTransaction(movements, body),
+    assetMovements: movements.filter((m) => m.unit !== "lovelace"),
+    withdrawal: body && body.withdrawal !== "0" ? body.withdrawal : undefined,
+    certificates: body?.certificates.length ? body.certificates : undefined,
+  };
+};
+
+/**
+ * Summarize a transaction for the history list
+ */
+const describeTransaction = async (
+  network: CardanoNetwork,
+  ref: TransactionRef,
+  ownAddresses: string[]
+): Promise<TransactionInfo> => {
+  const base: TransactionInfo = {
+    hash: ref.tx_hash,
+    blockHeight: ref.block_height,
+    blockTime: ref.block_time,
+    index: ref.tx_index,
+  };
+
+  try {
+    const [utxos, body, metadata] = await Promise.all([
+      blockfrostGet<BlockfrostTxUtxos>(network, `/txs/${ref.tx_hash}/utxos`),
+      fetchTransactionBody(network, ref.tx_hash),
+      fetchTransactionMetadata(network, ref.tx_hash),
+    ]);
+    if (!utxos) return base;
+
+    return {
+      ...base,
+      ...summarizeMovements(utxos, ownAddresses, body),
+      fees: body?.fee,
+      ...getTransactionMessage(metadata),
+    };
+  } catch (err) {
+    console.error(`Error fetching UTxOs for tx ${ref.tx_hash}:`, err);
+    return base;
+  }
+};
+
+/**
+ * Order transaction references newest first
+ */
+const compareRefs = (a: TransactionRef, b: TransactionRef): number => {
+  return b.block_height - a.block_height || b.tx_index - a.tx_index;
+};
+
+/**
+ * Load the next Blockfrost page of an address into its buffer
+ */
+const fillSource = async (network: CardanoNetwork, source: HistorySource): Promise<void> => {
+  const refs = await blockfrostGet<TransactionRef[]>(
+    network,
+    `/addresses/${source.address}/transactions?order=desc&count=${BLOCKFROST_PAGE_SIZE}&page=${source.nextPage}`
+  );
+  source.buffer.push(...(refs || []));
+  source.nextPage += 1;
+  source.done = !refs || refs.length < BLOCKFROST_PAGE_SIZE;
+};
+
+/**
+ * Create a cursor at the start (newest transaction) of the history
+ *
+ * @param addresses - Wallet addresses, see getWalletHistoryAddresses
+ */
+export const createHistoryCursor = (addresses: string[], network?: CardanoNetwork): TransactionHistoryCursor => ({
+  network: network || getCurrentNetwork(),
+  addresses,
+  sources: addresses.map((address) => ({ address, nextPage: 1, buffer: [], done: false })),
+  seen: [],
+});
+
+/**
+ * Load a page of wallet history
+ *
+ * @param cursor - From createHistoryCursor or the previous page
+ * @param pageSize - Transactions per page
+ * @returns Transactions, newest first, and the cursor for the next page
+ */
+export const getTransactionHistoryPage = async (
+  cursor: TransactionHistoryCursor,
+  pageSize: number = HISTORY_PAGE_SIZE
+): Promise<TransactionHistoryPage> => {
+  // Work on a copy so the caller's cursor stays valid if loading fails
+  const sources = cursor.sources.map((source) => ({ ...source, buffer: [...source.buffer] }));
+  const seen = new Set(cursor.seen);
+  const refs: TransactionRef[] = [];
+
+  while (refs.length < pageSize) {
+    await Promise.all(
+      sources.filter((s) => s.buffer.length === 0 && !s.done).map((s) => fillSource(cursor.network, s))
+    );
+
+    let next: HistorySource | undefined;
+    for (const source of sources) {
+      if (source.buffer.length > 0 && (!next || compareRefs(source.buffer[0], next.buffer[0]) < 0)) {
+        next = source;
+      }
+    }
+    if (!next) break;
+
+    const ref = next.buffer.shift()!;
+    if (seen.has(ref.tx_hash)) continue;
+    seen.add(ref.tx_hash);
+    refs.push(ref);
+  }
+
+  const transactions = await Promise.all(refs.map((ref) => describeTransaction(cursor.network, ref, cursor.addresses)));
+
+  return {
+    transactions,
+    cursor: { ...cursor, sources, seen: Array.from(seen) },
+    hasMore: sources.some((s) => s.buffer.length > 0 || !s.done),
+  };
+};
+
+/**
+ * Load the first page of history for a wallet
+ *
+ * @param address - Wallet base address
+ */
+export const getTransactionHistory = async (
+  address: string,
+  network?: CardanoNetwork
+): Promise<TransactionHistoryPage> => {
+  const addresses = await getWalletHistoryAddresses(address, network);
+  return getTransactionHistoryPage(createHistoryCursor(addresses, network));
+};
+
+/**
+ * Load every page of history for a wallet, newest first
+ *
+ * @param address - Wallet base address
+ * @param onProgress - Called with the number of transactions loaded so far
+ */
+export const getFullTransactionHistory = async (
+  address: string,
+  network?: CardanoNetwork,
+  onProgress?: (loaded: number) => void
+): Promise<TransactionInfo[]> => {
+  let page = await getTransactionHistory(address, network);
+  const transactions = [...page.transactions];
+  onProgress?.(transactions.length);
+
+  while (page.hasMore) {
+    page = await getTransactionHistoryPage(page.cursor);
+    transactions.push(...page.transactions);
+    onProgress?.(transactions.length);
+  }
+
+  return transactions;
+};
+
+/**
+ * Convert a Blockfrost UTxO for display
+ */
+const toTransactionUtxo = (utxo: BlockfrostTxUtxo): TransactionUTxO => ({
+  address: utxo.address,
+  amount: utxo.amount.map((asset) => ({ unit: asset.unit, quantity: asset.quantity })),
+  txHash: utxo.tx_hash,
+  outputIndex: utxo.output_index,
+});
+
+/**
+ * Get detailed transaction info: inputs, outputs, metadata and certificates
+ *
+ * @param txHash - Transaction hash
+ * @param ownAddresses - Wallet addresses, to compute the wallet's movements and kind
+ * @returns Detailed transaction info
+ */
+export const getTransactionDetails = async (
+  txHash: string,
+  ownAddresses: string[] = [],
+  network?: CardanoNetwork
+): Promise<TransactionInfo | null> => {
+  const net = network || getCurrentNetwork();
+
+  try {
+    const [tx, utxos, body, metadata] = await Promise.all([
+      blockfrostGet<{
+        hash: string;
+        block_height: number;
+        block_time: number;
+        slot: number;
+        index: number;
+        fees: string;
+        deposit: string;
+        size: number;
+      }>(net, `/txs/${txHash}`),
+      blockfrostGet<BlockfrostTxUtxos>(net, `/txs/${txHash}/utxos`),
+      fetchTransactionBody(net, txHash),
+      fetchTransactionMetadata(net, txHash),
+    ]);
+    if (!tx) {
+      throw new Error("Transaction not found");
+    }
+
+    return {
+      hash: tx.hash,
+      blockHeight: tx.block_height,
+      blockTime: tx.block_time,
+      slot: tx.slot,
+      index: tx.index,
+      fees: tx.fees,
+      deposit: tx.deposit,
+      size: tx.size,
+      inputs: utxos ? spentUtxos(utxos.inputs).map(toTransactionUtxo) : undefined,
+      outputs: utxos ? spentUtxos(utxos.outputs).map(toTransactionUtxo) : undefined,
+      ...(utxos && ownAddresses.length > 0 ? summarizeMovements(utxos, ownAddresses, body) : {}),
+      withdrawal: body && body.withdrawal !== "0" ? body.withdrawal : undefined,
+      certificates: body?.certificates.length ? body.certificates : undefined,
+      metadata: metadata.length > 0 ? metadata : undefined,
+      ...getTransactionMessage(metadata),
+    };
+  } catch (error) {
+    console.error("Error fetching transaction details:", error);
+    return null;
+  }
+};
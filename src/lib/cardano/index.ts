@@ -4,6 +4,36 @@ export * from "./types";
 // Mnemonic generation and validation
 export * from "./mnemonic";
 
+// Shamir shares of recovery phrases
+export * from "./shamir";
+
+// CIP-20 transaction messages
+export * from "./cip20";
+
+// CIP-13 payment URIs
+export * from "./cip13";
+
+// Coin control (UTxO selection and freezing)
+export * from "./coin-control";
+
+// Transaction history
+export * from "./history";
+
+// Address discovery (gap-limit scanning)
+export * from "./discovery";
+
+// Watch-only wallets
+export * from "./watch";
+
+// Legacy (Byron, Ledger) wallet restore
+export * from "./legacy";
+
+// CSV and tax-tool exports
+export * from "./export";
+
+// Transaction review before signing
+export * from "./tx-review";
+
 // Wallet operations
 export * from "./wallet";
 export * from "./mesh-stake";
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as bip39 from 'bip39';
+import { BlockfrostProvider, DEFAULT_PROTOCOL_PARAMETERS, core } from '@meshsdk/core';
+import { pbkdf2 } from '@noble/hashes/pbkdf2';
+import { sha512 } from '@noble/hashes/sha2';
+import {
+  buildMigrationTransaction,
+  decodePaperWalletMnemonic,
+  deriveLedgerRootKey,
+  getDaedalusAddressPath,
+  isByronAddressKey,
+  scanLegacyWallet,
+  validateLegacyMnemonic,
+} from './legacy';
+import { deriveAccountPublicKey, deriveBaseAddress, deriveRootKey } from './discovery';
+import { generateMnemonic } from './mnemonic';
+
+const YOROI_MNEMONIC = generateMnemonic(15);
+const DESTINATION = deriveBaseAddress(deriveAccountPublicKey(generateMnemonic(24)), 0, 'external', 0);
+
+const harden = (index: number) => 0x80000000 + index;
+
+// CIP-3 Ledger test vectors; the second phrase needs a repeated HMAC before the key is valid
+const LEDGER_VECTORS = [
+  {
+    mnemonic:
+      'recall grace sport punch exhibit mad harbor stand obey short width stem awkward used stairs wool ugly trap season stove worth toward congress jaguar',
+    rootKey:
+      'a08cf85b564ecf3b947d8d4321fb96d70ee7bb760877e371899b14e2ccf88658104b884682b57efd97decbb318a45c05a527b9cc5c2f64f7352935a049ceea60680d52308194ccef2a18e6812b452a5815fbd7f5babc083856919aaf668fe7e4',
+  },
+  {
+    mnemonic:
+      'correct cherry mammal bubble want mandate polar hazard crater better craft exotic choice fun tourist census gap lottery neglect address glow carry old business',
+    rootKey:
+      '587c6774357ecbf840d4db6404ff7af016dace0400769751ad2abfc77b9a3844cc71702520ef1a4d1b68b91187787a9b8faab0a9bb6b160de541b6ee62469901fc0beda0975fe4763beabd83b7051a5fd5cbce5b88e82c4bbaca265014e524bd',
+  },
+];
+
+// Mainnet Daedalus address at m/0'/2', as packed by cardano-crypto.js (derivation scheme 1)
+const DAEDALUS_MNEMONIC = 'logic easily waste eager injury oval sentence wine bomb embrace gossip supreme';
+const DAEDALUS_ADDRESS =
+  'DdzFFzCqrht5WJqSszzTKSH2eLBZRomXaaNdoRvaSbnNq1UD5DesQdtt4zK2s2eJz27XpcZH5bQLvwTKdrMNz1zteB7RnsAeYzZHouMZ';
+
+const icarusByronKey = (mnemonic: string, role: number, index: number) =>
+  [harden(44), harden(1815), harden(0), role, index].reduce((key, i) => key.derive(i), deriveRootKey(mnemonic));
+
+/**
+ * Scramble a 12-word phrase into a paper wallet, as Daedalus printed them
+ */
+const scramblePaperWallet = (mnemonic: string, passphraseWords: string, salt: Uint8Array): string => {
+  const passphrase = Buffer.from(pbkdf2(sha512, passphraseWords, 'mnemonic', { c: 2048, dkLen: 32 })).toString('hex');
+  const entropy = Buffer.from(bip39.mnemonicToEntropy(mnemonic), 'hex');
+  const mask = pbkdf2(sha512, passphrase, salt, { c: 10000, dkLen: entropy.length });
+  const scrambled = Buffer.concat([salt, Buffer.from(mask.map((byte, i) => byte ^ entropy[i]))]);
+  return `${bip39.entropyToMnemonic(scrambled.toString('hex'))} ${passphraseWords}`;
+};
+
+describe('legacy recovery phrases', () => {
+  it('accepts the word counts of each wallet type', () => {
+    expect(validateLegacyMnemonic(YOROI_MNEMONIC, 'yoroi')).toBe(true);
+    expect(validateLegacyMnemonic(generateMnemonic(24), 'yoroi')).toBe(false);
+    expect(validateLegacyMnemonic(generateMnemonic(24), 'ledger')).toBe(true);
+    expect(validateLegacyMnemonic(generateMnemonic(12), 'daedalus')).toBe(true);
+  });
+
+  it('decodes a 27-word paper wallet into its 12-word phrase', () => {
+    const mnemonic = generateMnemonic(12);
+    const passphraseWords = generateMnemonic(12).split(' ').slice(0, 9).join(' ');
+    const paper = scramblePaperWallet(mnemonic, passphraseWords, new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]));
+
+    expect(paper.split(' ')).toHaveLength(27);
+    expect(validateLegacyMnemonic(paper, 'daedalus')).toBe(true);
+    expect(decodePaperWalletMnemonic(paper)).toBe(mnemonic);
+  });
+
+  it('derives a clamped Ledger root key that differs from the Icarus one', () => {
+    const mnemonic = generateMnemonic(24);
+    const ledger = deriveLedgerRootKey(mnemonic).as_bytes();
+
+    expect(ledger).toHaveLength(96);
+    expect(ledger[0] & 0x07).toBe(0);
+    expect(ledger[31] & 0xe0).toBe(0x40);
+    expect(Buffer.from(ledger).equals(Buffer.from(deriveRootKey(mnemonic).as_bytes()))).toBe(false);
+  });
+
+  it('matches the CIP-3 Ledger root keys', () => {
+    for (const { mnemonic, rootKey } of LEDGER_VECTORS) {
+      expect(Buffer.from(deriveLedgerRootKey(mnemonic).as_bytes()).toString('hex')).toBe(rootKey);
+    }
+  });
+});
+
+describe('Byron addresses', () => {
+  it('checks which key owns an address', () => {
+    const key = icarusByronKey(YOROI_MNEMONIC, 0, 0).to_public();
+    const other = icarusByronKey(YOROI_MNEMONIC, 0, 1).to_public();
+
+    for (const magic of [764824073, 1]) {
+      const address = core.csl.ByronAddress.icarus_from_key(key, magic).to_base58();
+      expect(isByronAddressKey(address, key.as_bytes())).toBe(true);
+      expect(isByronAddressKey(address, other.as_bytes())).toBe(false);
+    }
+    expect(core.csl.ByronAddress.icarus_from_key(key, 764824073).to_base58()).toMatch(/^Ae2/);
+  });
+
+  it('decrypts the path of a Daedalus address', () => {
+    expect(getDaedalusAddressPath(DAEDALUS_MNEMONIC, DAEDALUS_ADDRESS)).toEqual([harden(0), harden(2)]);
+    expect(getDaedalusAddressPath(generateMnemonic(12), DAEDALUS_ADDRESS)).toBeNull();
+  });
+
+  it('does not take Icarus addresses for Daedalus ones', () => {
+    const address = core.csl.ByronAddress.icarus_from_key(icarusByronKey(YOROI_MNEMONIC, 0, 0).to_public(), 1);
+    expect(getDaedalusAddressPath(generateMnemonic(12), address.to_base58())).toBeNull();
+  });
+});
+
+describe('legacy wallet migration', () => {
+  const used = core.csl.ByronAddress.icarus_from_key(icarusByronKey(YOROI_MNEMONIC, 0, 3).to_public(), 1).to_base58();
+  const change = core.csl.ByronAddress.icarus_from_key(icarusByronKey(YOROI_MNEMONIC, 1, 0).to_public(), 1).to_base58();
+  const token = '0'.repeat(56) + '746f6b656e';
+
+  const utxos: Record<string, unknown[]> = {
+    [used]: [
+      { address: used, tx_hash: '1'.repeat(64), output_index: 0, amount: [{ unit: 'lovelace', quantity: '20000000' }] },
+    ],
+    [change]: [
+      {
+        address: change,
+        tx_hash: '2'.repeat(64),
+        output_index: 1,
+        amount: [
+          { unit: 'lovelace', quantity: '3000000' },
+          { unit: token, quantity: '5' },
+        ],
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.stubEnv('NEXT_PUBLIC_BLOCKFROST_KEY_PREPROD', 'preprodTestKey');
+    vi.spyOn(BlockfrostProvider.prototype, 'fetchProtocolParameters').mockResolvedValue(DEFAULT_PROTOCOL_PARAMETERS);
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        const [, address, rest] = url.match(/\/addresses\/([^/?]+)(\/utxos)?/) || [];
+        if (!utxos[address]) return new Response('{}', { status: 404 });
+        return new Response(JSON.stringify(rest ? utxos[address] : { address }), { status: 200 });
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('finds Yoroi Byron funds and moves them in one transaction', async () => {
+    const scan = await scanLegacyWallet(YOROI_MNEMONIC, 'yoroi', 'preprod');
+
+    expect(scan.addresses.map((a) => a.address)).toEqual([used, change]);
+    expect(scan.addresses[0].path).toEqual([harden(44), harden(1815), harden(0), 0, 3]);
+    expect(scan.lovelace).toBe('23000000');
+    expect(scan.assetCount).toBe(1);
+
+    const migration = await buildMigrationTransaction(YOROI_MNEMONIC, scan, DESTINATION);
+    const tx = core.csl.FixedTransaction.from_hex(migration.txHex);
+    const outputs = tx.body().outputs();
+
+    expect(tx.witness_set().bootstraps()?.len()).toBe(2);
+    expect(tx.body().inputs().len()).toBe(2);
+    expect(outputs.len()).toBe(1);
+    expect(outputs.get(0).address().to_bech32()).toBe(DESTINATION);
+    expect(outputs.get(0).amount().coin().to_str()).toBe(migration.lovelace);
+    expect(BigInt(migration.lovelace) + BigInt(migration.fee)).toBe(BigInt(23_000_000));
+    expect(outputs.get(0).amount().multiasset()?.len()).toBe(1);
+
+    const txHash = tx.transaction_hash().to_bytes();
+    const witnesses = tx.witness_set().bootstraps()!;
+    for (let i = 0; i < witnesses.len(); i++) {
+      const witness = witnesses.get(i);
+      const publicKey = witness.vkey().public_key();
+      expect(publicKey.verify(txHash, witness.signature())).toBe(true);
+      const xpub = Buffer.concat([publicKey.as_bytes(), witness.chain_code()]);
+      expect(isByronAddressKey(used, xpub) || isByronAddressKey(change, xpub)).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,663 @@
+/**
+ * Legacy Wallet Restore
+ *
+ * Funds of wallets created before Shelley, or on a Ledger device, sit on
+ * addresses our CIP-1852 wallet never derives from the same recovery phrase:
+ *
+ *   yoroi     Yoroi Byron wallets (15 words, Icarus keys)
+ *             m/44'/1815'/0'/{0,1}/i, Ae2... addresses
+ *   daedalus  Daedalus Byron wallets (12 words, or a 27-word paper wallet)
+ *             random m/account'/index' paths, DdzFF... addresses
+ *   ledger    Recovery phrase of a Ledger device (CIP-3 Ledger master key)
+ *             Byron m/44' and Shelley m/1852' addresses of account 0
+ *
+ * Icarus and Ledger addresses are found by scanning with the usual gap limit.
+ * Daedalus picked addresses at random and only stored the path, encrypted
+ * with the root public key, inside each address, so they cannot be listed
+ * from the phrase: the user pastes them and we decrypt the path to prove
+ * ownership and derive the key.
+ *
+ * Everything found is moved to a Shelley address in one migration transaction.
+ * Daedalus wallets with 24 words are already Shelley (Icarus) wallets and are
+ * restored with the normal import.
+ */
+
+import * as bip39 from "bip39";
+import { core, type Protocol } from "@meshsdk/core";
+import { blake2b } from "@noble/hashes/blake2b";
+import { hmac } from "@noble/hashes/hmac";
+import { pbkdf2 } from "@noble/hashes/pbkdf2";
+import { sha256, sha512 } from "@noble/hashes/sha2";
+import { sha3_256 } from "@noble/hashes/sha3";
+import { concatBytes } from "@noble/hashes/utils";
+import { chacha20poly1305 } from "@noble/ciphers/chacha";
+import {
+  getBlockfrostApiKey,
+  getBlockfrostUrl,
+  getCurrentNetwork,
+  type CardanoNetwork,
+} from "./types";
+import { getMnemonicWordCount, normalizeMnemonic } from "./mnemonic";
+import { getStakeKeyAddresses } from "./history";
+import {
+  ADDRESS_GAP_LIMIT,
+  deriveBaseAddress,
+  deriveRootKey,
+  deriveStakeAddress,
+  scanAddressChain,
+} from "./discovery";
+import {
+  createBlockfrostProvider,
+  getAddressUtxos,
+  type AddressUtxo,
+  type SendTransactionResult,
+} from "./wallet";
+
+export type LegacyWalletType = "yoroi" | "daedalus" | "ledger";
+
+/**
+ * Recovery phrase lengths accepted per wallet type
+ */
+export const LEGACY_WORD_COUNTS: Record<LegacyWalletType, number[]> = {
+  yoroi: [15],
+  daedalus: [12, 27],
+  ledger: [12, 18, 24],
+};
+
+const PAPER_WALLET_WORD_COUNT = 27;
+const PAPER_WALLET_SCRAMBLED_WORDS = 18; // Followed by 9 passphrase words
+
+// Byron protocol magic, part of testnet Byron addresses
+const PROTOCOL_MAGIC: Record<CardanoNetwork, number> = {
+  mainnet: 764824073,
+  preprod: 1,
+  preview: 2,
+};
+
+// Order of the ed25519 base point, Daedalus keys are added modulo it
+const ED25519_ORDER = BigInt("0x1000000000000000000000000000000014def9dea2f79cd65812631a5cf5d3ed");
+
+const harden = (index: number): number => 0x80000000 + index;
+
+const BYRON_ACCOUNT_PATH = [harden(44), harden(1815), harden(0)];
+const SHELLEY_ACCOUNT_PATH = [harden(1852), harden(1815), harden(0)];
+
+export interface LegacyAddress {
+  address: string;
+  era: "byron" | "shelley";
+  path: number[]; // From the legacy root key, hardened indexes >= 2^31
+  utxos: AddressUtxo[];
+}
+
+export interface LegacyWalletScan {
+  type: LegacyWalletType;
+  network: CardanoNetwork;
+  addresses: LegacyAddress[]; // Addresses holding funds
+  lovelace: string;
+  assetCount: number; // Distinct native assets
+}
+
+export interface MigrationTransaction {
+  txHex: string; // Signed, ready to submit
+  txHash: string;
+  fee: string; // Lovelace
+  lovelace: string; // Arriving at the destination
+}
+
+/**
+ * Root key of a legacy wallet
+ * Daedalus keys use the original (V1) derivation scheme CSL does not
+ * implement, so they are kept as raw 96-byte kL | kR | chain code.
+ */
+type LegacyRootKey =
+  | { scheme: "icarus"; key: InstanceType<typeof core.csl.Bip32PrivateKey> }
+  | { scheme: "daedalus"; key: Uint8Array };
+
+/**
+ * Validate a recovery phrase for a legacy wallet type
+ * The 9 passphrase words of a paper wallet carry no checksum.
+ */
+export const validateLegacyMnemonic = (mnemonic: string, type: LegacyWalletType): boolean => {
+  const words = normalizeMnemonic(mnemonic).split(" ");
+  if (!LEGACY_WORD_COUNTS[type].includes(words.length)) {
+    return false;
+  }
+
+  if (words.length === PAPER_WALLET_WORD_COUNT) {
+    const wordlist = bip39.wordlists.english;
+    return (
+      bip39.validateMnemonic(words.slice(0, PAPER_WALLET_SCRAMBLED_WORDS).join(" ")) &&
+      words.slice(PAPER_WALLET_SCRAMBLED_WORDS).every((word) => wordlist.includes(word))
+    );
+  }
+
+  return bip39.validateMnemonic(words.join(" "));
+};
+
+/**
+ * Recover the 12-word Daedalus phrase printed on a 27-word paper wallet
+ *
+ * The first 18 words hold an 8-byte salt and the phrase entropy XORed with a
+ * PBKDF2 mask; the last 9 words are the passphrase the mask is derived from.
+ */
+export const decodePaperWalletMnemonic = (mnemonic: string): string => {
+  const words = normalizeMnemonic(mnemonic).split(" ");
+  if (words.length !== PAPER_WALLET_WORD_COUNT) {
+    throw new Error(`A paper wallet has ${PAPER_WALLET_WORD_COUNT} words`);
+  }
+
+  const passphrase = Buffer.from(
+    pbkdf2(sha512, words.slice(PAPER_WALLET_SCRAMBLED_WORDS).join(" "), "mnemonic", { c: 2048, dkLen: 32 })
+  ).toString("hex");
+
+  const scrambled = Buffer.from(
+    bip39.mnemonicToEntropy(words.slice(0, PAPER_WALLET_SCRAMBLED_WORDS).join(" ")),
+    "hex"
+  );
+  const salt = scrambled.subarray(0, 8);
+  const mask = pbkdf2(sha512, passphrase, salt, { c: 10000, dkLen: scrambled.length - salt.length });
+  const entropy = mask.map((byte, i) => byte ^ scrambled[salt.length + i]);
+
+  return bip39.entropyToMnemonic(Buffer.from(entropy).toString("hex"));
+};
+
+/**
+ * Derive the root key a Ledger device uses for a recovery phrase (CIP-3 Ledger)
+ */
+export const deriveLedgerRootKey = (mnemonic: string) => {
+  const seed = bip39.mnemonicToSeedSync(normalizeMnemonic(mnemonic));
+
+  let digest = hmac(sha512, "ed25519 seed", seed);
+  while (digest[31] & 0x20) {
+    digest = hmac(sha512, "ed25519 seed", digest);
+  }
+  digest[0] &= 0xf8;
+  digest[31] &= 0x7f;
+  digest[31] |= 0x40;
+
+  const chainCode = hmac(sha256, "ed25519 seed", concatBytes(new Uint8Array([1]), seed));
+  return core.csl.Bip32PrivateKey.from_bytes(concatBytes(digest, chainCode));
+};
+
+/**
+ * CBOR encoding of a byte string shorter than 256 bytes
+ */
+const cborBytes = (bytes: Uint8Array): Uint8Array => {
+  const header = bytes.length < 24 ? [0x40 + bytes.length] : [0x58, bytes.length];
+  return concatBytes(new Uint8Array(header), bytes);
+};
+
+/**
+ * Derive the root key of a Daedalus Byron wallet (12 words)
+ *
+ * @returns 96 bytes: extended private key followed by the chain code
+ */
+const deriveDaedalusRootKey = (mnemonic: string): Uint8Array => {
+  const entropy = Buffer.from(bip39.mnemonicToEntropy(normalizeMnemonic(mnemonic)), "hex");
+  const seed = cborBytes(blake2b(cborBytes(entropy), { dkLen: 32 }));
+
+  for (let i = 1; i <= 1000; i++) {
+    const digest = hmac(sha512, seed, `Root Seed Chain ${i}`);
+    const key = sha512(digest.subarray(0, 32));
+    if (key[31] & 0x20) continue;
+
+    key[0] &= 0xf8;
+    key[31] &= 0x7f;
+    key[31] |= 0x40;
+    return concatBytes(key, digest.subarray(32));
+  }
+
+  throw new Error("Could not derive the Daedalus root key");
+};
+
+const bytesToBigInt = (bytes: Uint8Array): bigint => BigInt("0x" + Buffer.from(bytes).reverse().toString("hex"));
+
+const bigIntToBytes = (value: bigint): Uint8Array =>
+  Buffer.from(value.toString(16).padStart(64, "0"), "hex").reverse();
+
+/**
+ * Hardened child key in the Daedalus (V1) scheme
+ *
+ * Unlike BIP32-Ed25519 (V2), the index is big-endian, 8 * ZL is computed byte
+ * by byte without carries and kL is added modulo the group order.
+ */
+const deriveDaedalusChildKey = (parent: Uint8Array, index: number): Uint8Array => {
+  const chainCode = parent.subarray(64);
+  const data = new Uint8Array(69);
+  data.set(parent.subarray(0, 64), 1);
+  new DataView(data.buffer).setUint32(65, index, false);
+
+  const z = hmac(sha512, chainCode, data);
+  data[0] = 0x01;
+  const childChainCode = hmac(sha512, chainCode, data).subarray(32);
+
+  const zl8 = z.subarray(0, 32).map((byte) => byte << 3);
+  const kl = bigIntToBytes((bytesToBigInt(parent.subarray(0, 32)) + bytesToBigInt(zl8)) % ED25519_ORDER);
+  const kr = parent.subarray(32, 64).map((byte, i) => byte + z[32 + i]);
+
+  return concatBytes(kl, kr, childChainCode);
+};
+
+/**
+ * Public key and chain code (64 bytes) of a Daedalus key
+ */
+const daedalusPublicKey = (key: Uint8Array): Uint8Array => {
+  const publicKey = core.csl.PrivateKey.from_extended_bytes(key.subarray(0, 64)).to_public().as_bytes();
+  return concatBytes(publicKey, key.subarray(64));
+};
+
+type CborValue = number | Uint8Array | CborValue[] | Map<number, CborValue> | { tag: number; value: CborValue };
+
+/**
+ * Decode the CBOR subset used by Byron addresses
+ * (unsigned integers, byte strings, arrays, maps and tags)
+ */
+const readCbor = (bytes: Uint8Array, offset: number = 0): { value: CborValue; end: number } => {
+  if (offset >= bytes.length) throw new Error("Unexpected end of CBOR");
+  const major = bytes[offset] >> 5;
+  const info = bytes[offset] & 0x1f;
+  let pos = offset + 1;
+
+  if (info === 31 && major === 4) {
+    const items: CborValue[] = [];
+    while (bytes[pos] !== 0xff) {
+      const item = readCbor(bytes, pos);
+      items.push(item.value);
+      pos = item.end;
+    }
+    return { value: items, end: pos + 1 };
+  }
+
+  let length = info;
+  if (info >= 24 && info <= 27) {
+    const size = 1 << (info - 24);
+    length = 0;
+    for (let i = 0; i < size; i++) length = length * 256 + bytes[pos + i];
+    pos += size;
+  } else if (info > 27) {
+    throw new Error("Unsupported CBOR");
+  }
+
+  switch (major) {
+    case 0:
+      return { value: length, end: pos };
+    case 2:
+      if (pos + length > bytes.length) throw new Error("Unexpected end of CBOR");
+      return { value: bytes.slice(pos, pos + length), end: pos + length };
+    case 4: {
+      const items: CborValue[] = [];
+      for (let i = 0; i < length; i++) {
+        const item = readCbor(bytes, pos);
+        items.push(item.value);
+        pos = item.end;
+      }
+      return { value: items, end: pos };
+    }
+    case 5: {
+      const map = new Map<number, CborValue>();
+      for (let i = 0; i < length; i++) {
+        const key = readCbor(bytes, pos);
+        const value = readCbor(bytes, key.end);
+        map.set(Number(key.value), value.value);
+        pos = value.end;
+      }
+      return { value: map, end: pos };
+    }
+    case 6: {
+      const inner = readCbor(bytes, pos);
+      return { value: { tag: length, value: inner.value }, end: inner.end };
+    }
+  }
+
+  throw new Error("Unsupported CBOR");
+};
+
+/**
+ * Root hash and attributes of a Byron address
+ * attributes is the raw CBOR map, as hashed into the root.
+ */
+const parseByronAddress = (address: string): { root: Uint8Array; attributes: Uint8Array; hdPayload?: Uint8Array } => {
+  const bytes = core.csl.ByronAddress.from_base58(address).to_bytes();
+  const [wrapped] = readCbor(bytes).value as [{ tag: number; value: Uint8Array }];
+  const payload = wrapped.value;
+
+  // [root, attributes, type]
+  const root = readCbor(payload, 1);
+  const attributes = readCbor(payload, root.end);
+  const hdAttribute = (attributes.value as Map<number, CborValue>).get(1);
+
+  return {
+    root: root.value as Uint8Array,
+    attributes: payload.slice(root.end, attributes.end),
+    hdPayload: hdAttribute instanceof Uint8Array ? (readCbor(hdAttribute).value as Uint8Array) : undefined,
+  };
+};
+
+/**
+ * Check that an extended public key (key | chain code) owns a Byron address
+ */
+export const isByronAddressKey = (address: string, xpub: Uint8Array): boolean => {
+  try {
+    const { root, attributes } = parseByronAddress(address);
+    // [0 (public key address), [0, xpub], attributes]
+    const spendingData = concatBytes(new Uint8Array([0x83, 0x00, 0x82, 0x00]), cborBytes(xpub), attributes);
+    return Buffer.from(blake2b(sha3_256(spendingData), { dkLen: 28 })).equals(Buffer.from(root));
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Decrypt the derivation path stored in a Daedalus address
+ *
+ * @returns Path from the root key, or null if the address is not from this root
+ */
+const decryptDaedalusPath = (hdPayload: Uint8Array, rootKey: Uint8Array): number[] | null => {
+  const passphrase = pbkdf2(sha512, daedalusPublicKey(rootKey), "address-hashing", { c: 500, dkLen: 32 });
+  try {
+    const plaintext = chacha20poly1305(passphrase, new TextEncoder().encode("serokellfore")).decrypt(hdPayload);
+    const path = readCbor(plaintext).value;
+    return Array.isArray(path) && path.every((index) => typeof index === "number") ? (path as number[]) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Find the derivation path of a Daedalus address
+ *
+ * @returns Path from the root key, or null if the address does not belong to the phrase
+ */
+export const getDaedalusAddressPath = (mnemonic: string, address: string): number[] | null => {
+  return findDaedalusPath(deriveDaedalusRootKey(mnemonic), address);
+};
+
+const findDaedalusPath = (rootKey: Uint8Array, address: string): number[] | null => {
+  let hdPayload: Uint8Array | undefined;
+  try {
+    hdPayload = parseByronAddress(address).hdPayload;
+  } catch {
+    return null;
+  }
+  if (!hdPayload) return null;
+
+  const path = decryptDaedalusPath(hdPayload, rootKey);
+  if (!path) return null;
+
+  // The path is only authenticated by the address root
+  const key = path.reduce(deriveDaedalusChildKey, rootKey);
+  return isByronAddressKey(address, daedalusPublicKey(key)) ? path : null;
+};
+
+const deriveLegacyRootKey = (mnemonic: string, type: LegacyWalletType): LegacyRootKey => {
+  switch (type) {
+    case "yoroi":
+      return { scheme: "icarus", key: deriveRootKey(mnemonic) };
+    case "ledger":
+      return { scheme: "icarus", key: deriveLedgerRootKey(mnemonic) };
+    case "daedalus": {
+      const words = normalizeMnemonic(mnemonic);
+      const phrase =
+        getMnemonicWordCount(words) === PAPER_WALLET_WORD_COUNT ? decodePaperWalletMnemonic(words) : words;
+      return { scheme: "daedalus", key: deriveDaedalusRootKey(phrase) };
+    }
+  }
+};
+
+/**
+ * Whether an address has ever appeared on chain
+ */
+const isAddressUsed = async (address: string, network: CardanoNetwork): Promise<boolean> => {
+  const response = await fetch(`${getBlockfrostUrl(network)}/addresses/${address}`, {
+    headers: { project_id: getBlockfrostApiKey(network) },
+  });
+  if (response.status === 404) return false;
+  if (!response.ok) {
+    throw new Error(`Blockfrost API error: ${response.status}`);
+  }
+  return true;
+};
+
+/**
+ * Scan the Byron (m/44') chains of an Icarus or Ledger root key
+ * Byron addresses have no stake key, so usage is looked up per address,
+ * a gap-limit batch at a time.
+ */
+const scanByronAddresses = async (
+  rootKey: InstanceType<typeof core.csl.Bip32PrivateKey>,
+  network: CardanoNetwork
+): Promise<Omit<LegacyAddress, "utxos">[]> => {
+  const account = BYRON_ACCOUNT_PATH.reduce((key, index) => key.derive(index), rootKey).to_public();
+  const found: Omit<LegacyAddress, "utxos">[] = [];
+
+  for (const role of [0, 1]) {
+    const chain = account.derive(role);
+    let gap = 0;
+
+    for (let start = 0; gap < ADDRESS_GAP_LIMIT; start += ADDRESS_GAP_LIMIT) {
+      const batch = Array.from({ length: ADDRESS_GAP_LIMIT }, (_, i) =>
+        core.csl.ByronAddress.icarus_from_key(chain.derive(start + i), PROTOCOL_MAGIC[network]).to_base58()
+      );
+      const used = await Promise.all(batch.map((address) => isAddressUsed(address, network)));
+
+      for (let i = 0; i < batch.length && gap < ADDRESS_GAP_LIMIT; i++) {
+        if (used[i]) {
+          found.push({ address: batch[i], era: "byron", path: [...BYRON_ACCOUNT_PATH, role, start + i] });
+          gap = 0;
+        } else {
+          gap++;
+        }
+      }
+    }
+  }
+
+  return found;
+};
+
+/**
+ * Scan the Shelley (m/1852') chains of a Ledger root key, account 0
+ */
+const scanShelleyAddresses = async (
+  rootKey: InstanceType<typeof core.csl.Bip32PrivateKey>,
+  network: CardanoNetwork
+): Promise<Omit<LegacyAddress, "utxos">[]> => {
+  const networkId = network === "mainnet" ? 1 : 0;
+  const account = SHELLEY_ACCOUNT_PATH.reduce((key, index) => key.derive(index), rootKey);
+  const accountPublicKey = Buffer.from(account.to_public().as_bytes()).toString("hex");
+
+  const seen = new Set(await getStakeKeyAddresses(deriveStakeAddress(accountPublicKey, networkId), network));
+
+  return (["external", "internal"] as const).flatMap((chain, role) =>
+    scanAddressChain(
+      chain,
+      (index) => deriveBaseAddress(accountPublicKey, networkId, chain, index),
+      (address) => seen.has(address)
+    )
+      .filter((a) => a.used)
+      .map((a) => ({ address: a.address, era: "shelley" as const, path: [...SHELLEY_ACCOUNT_PATH, role, a.index] }))
+  );
+};
+
+/**
+ * Find the funds of a legacy wallet
+ *
+ * @param mnemonic - Recovery phrase of the legacy wallet
+ * @param daedalusAddresses - Addresses of a Daedalus wallet, which cannot be scanned for
+ * @throws Error with a user-facing message if a Daedalus address is not from the phrase
+ */
+export const scanLegacyWallet = async (
+  mnemonic: string,
+  type: LegacyWalletType,
+  network?: CardanoNetwork,
+  daedalusAddresses: string[] = []
+): Promise<LegacyWalletScan> => {
+  const net = network || getCurrentNetwork();
+  const root = deriveLegacyRootKey(mnemonic, type);
+  const found: Omit<LegacyAddress, "utxos">[] = [];
+
+  if (root.scheme === "daedalus") {
+    for (const address of new Set(daedalusAddresses.map((a) => a.trim()).filter(Boolean))) {
+      let magic: number;
+      try {
+        magic = core.csl.ByronAddress.from_base58(address).byron_protocol_magic();
+      } catch {
+        throw new Error(`${address} is not a Byron address`);
+      }
+      if (magic !== PROTOCOL_MAGIC[net]) {
+        throw new Error(`${address} is not on ${net}`);
+      }
+
+      const path = findDaedalusPath(root.key, address);
+      if (!path) {
+        throw new Error(`${address} does not belong to this recovery phrase`);
+      }
+      found.push({ address, era: "byron", path });
+    }
+  } else {
+    found.push(...(await scanByronAddresses(root.key, net)));
+    if (type === "ledger") {
+      found.push(...(await scanShelleyAddresses(root.key, net)));
+    }
+  }
+
+  const addresses = (
+    await Promise.all(found.map(async (a) => ({ ...a, utxos: await getAddressUtxos(a.address, net) })))
+  ).filter((a) => a.utxos.length > 0);
+
+  let lovelace = BigInt(0);
+  const assets = new Set<string>();
+  for (const { utxos } of addresses) {
+    for (const { unit, quantity } of utxos.flatMap((utxo) => utxo.amount)) {
+      if (unit === "lovelace") lovelace += BigInt(quantity);
+      else assets.add(unit);
+    }
+  }
+
+  return { type, network: net, addresses, lovelace: lovelace.toString(), assetCount: assets.size };
+};
+
+/**
+ * Convert a Blockfrost amount list into a CSL value
+ */
+const toCslValue = (amount: AddressUtxo["amount"]) => {
+  let coin = "0";
+  const multiasset: Record<string, Record<string, string>> = {};
+
+  for (const { unit, quantity } of amount) {
+    if (unit === "lovelace") {
+      coin = quantity;
+      continue;
+    }
+    const policy = (multiasset[unit.slice(0, 56)] = multiasset[unit.slice(0, 56)] || {});
+    policy[unit.slice(56)] = quantity;
+  }
+
+  return core.csl.Value.from_json(
+    JSON.stringify({ coin, multiasset: Object.keys(multiasset).length > 0 ? multiasset : null })
+  );
+};
+
+const createTxBuilder = (params: Protocol) => {
+  const { csl } = core;
+  const bigNum = (value: number | string) => csl.BigNum.from_str(String(value));
+  // No scripts are spent, so execution prices never apply
+  const noPrice = csl.UnitInterval.new(bigNum(0), bigNum(1));
+
+  return csl.TransactionBuilder.new(
+    csl.TransactionBuilderConfigBuilder.new()
+      .fee_algo(csl.LinearFee.new(bigNum(params.minFeeA), bigNum(params.minFeeB)))
+      .coins_per_utxo_byte(bigNum(params.coinsPerUtxoSize))
+      .pool_deposit(bigNum(params.poolDeposit))
+      .key_deposit(bigNum(params.keyDeposit))
+      .max_value_size(Number(params.maxValSize))
+      .max_tx_size(params.maxTxSize)
+      .ex_unit_prices(csl.ExUnitPrices.new(noPrice, noPrice))
+      .build()
+  );
+};
+
+/**
+ * Build and sign the transaction moving a legacy wallet's funds
+ *
+ * Every UTxO found is spent and the destination is used as the change
+ * address, so it receives all ADA and tokens minus the fee.
+ *
+ * @param scan - Result of scanLegacyWallet
+ * @param toAddress - Shelley address of the wallet the funds move to
+ * @throws Error with a user-facing message if the funds do not cover the fee
+ */
+export const buildMigrationTransaction = async (
+  mnemonic: string,
+  scan: LegacyWalletScan,
+  toAddress: string
+): Promise<MigrationTransaction> => {
+  const { csl } = core;
+  if (scan.addresses.length === 0) {
+    throw new Error("No funds found on this wallet");
+  }
+
+  const root = deriveLegacyRootKey(mnemonic, scan.type);
+  const params = await createBlockfrostProvider(scan.network).fetchProtocolParameters();
+  const builder = createTxBuilder(params);
+
+  const signers: ((tx: InstanceType<typeof csl.FixedTransaction>) => void)[] = [];
+  for (const { address, era, path, utxos } of scan.addresses) {
+    let addInput: (input: InstanceType<typeof csl.TransactionInput>, value: InstanceType<typeof csl.Value>) => void;
+
+    if (root.scheme === "daedalus") {
+      const byronAddress = csl.ByronAddress.from_base58(address);
+      const key = csl.LegacyDaedalusPrivateKey.from_bytes(path.reduce(deriveDaedalusChildKey, root.key));
+      addInput = (input, value) => builder.add_bootstrap_input(byronAddress, input, value);
+      signers.push((tx) => tx.sign_and_add_daedalus_bootstrap_signature(byronAddress, key));
+    } else if (era === "byron") {
+      const byronAddress = csl.ByronAddress.from_base58(address);
+      const key = path.reduce((k, index) => k.derive(index), root.key);
+      addInput = (input, value) => builder.add_bootstrap_input(byronAddress, input, value);
+      signers.push((tx) => tx.sign_and_add_icarus_bootstrap_signature(byronAddress, key));
+    } else {
+      const key = path.reduce((k, index) => k.derive(index), root.key).to_raw_key();
+      addInput = (input, value) => builder.add_key_input(key.to_public().hash(), input, value);
+      signers.push((tx) => tx.sign_and_add_vkey_signature(key));
+    }
+
+    for (const utxo of utxos) {
+      addInput(
+        csl.TransactionInput.new(csl.TransactionHash.from_hex(utxo.tx_hash), utxo.output_index),
+        toCslValue(utxo.amount)
+      );
+    }
+  }
+
+  try {
+    builder.add_change_if_needed(csl.Address.from_bech32(toAddress));
+  } catch {
+    throw new Error("The funds on this wallet do not cover the transaction fee");
+  }
+
+  const tx = csl.FixedTransaction.from_bytes(builder.build_tx().to_bytes());
+  signers.forEach((sign) => sign(tx));
+
+  const fee = tx.body().fee().to_str();
+  return {
+    txHex: tx.to_hex(),
+    txHash: tx.transaction_hash().to_hex(),
+    fee,
+    lovelace: (BigInt(scan.lovelace) - BigInt(fee)).toString(),
+  };
+};
+
+/**
+ * Submit a migration transaction built by buildMigrationTransaction
+ */
+export const submitMigrationTransaction = async (
+  migration: MigrationTransaction,
+  network: CardanoNetwork
+): Promise<SendTransactionResult> => {
+  try {
+    const txHash = await createBlockfrostProvider(network).submitTx(migration.txHex);
+    return { success: true, txHash };
+  } catch (error) {
+    console.error("Error submitting migration transaction:", error);
+    return { success: false, error: error instanceof Error ? error.message : "Failed to submit transaction" };
+  }
+};
@@ -1,17 +1,23 @@
-import { getBlockfrostApiKey, getBlockfrostUrl, type CardanoNetwork } from './types';
+import { getBlockfrostApiKey, getBlockfrostUrl, type CardanoNetwork, type DerivationOptions } from './types';
 import { validateMnemonic, normalizeMnemonic } from './mnemonic';
+import { isSpendableRef, type CoinControl } from './coin-control';
+import { derivePaymentKeys, discoverAddresses, getSpendingAddresses, type DiscoveredAddress } from './discovery';
 
 /**
  * Lucid Evolution-based staking fallback for in-app wallet
  * @param mnemonic - BIP39 mnemonic phrase
  * @param poolId - Stake pool ID
  * @param network - Cardano network
+ * @param coinControl - Optional restriction of the UTxOs used to pay the fee and deposit
+ * @param derivation - Account and BIP-39 passphrase to derive (account 0, no passphrase by default)
  * @returns { success, txHash, error, _debug }
  */
 export async function delegateToPoolLucid(
   mnemonic: string,
   poolId: string,
-  network: CardanoNetwork
+  network: CardanoNetwork,
+  coinControl?: CoinControl,
+  derivation: DerivationOptions = {}
 ): Promise<{ success: boolean; txHash?: string; error?: string; _debug?: any }> {
 
   try {
@@ -38,7 +44,10 @@ export async function delegateToPoolLucid(
 
     // 4. Restore wallet from mnemonic using Lucid Evolution's selectWallet.fromSeed
     try {
-      lucid.selectWallet.fromSeed(normalized);
+      lucid.selectWallet.fromSeed(normalized, {
+        accountIndex: derivation.accountIndex || 0,
+        password: derivation.password,
+      });
     } catch (mnemonicErr: any) {
       console.error('[lucid-stake] selectWallet.fromSeed failed:', mnemonicErr);
       return { 
@@ -80,8 +89,7 @@ export async function delegateToPoolLucid(
       // Lucid Evolution uses delegate.ToPool for pool delegation
       txBuilder = txBuilder.delegate.ToPool(rewardAddress, poolId);
       
-      const txComplete = await txBuilder.complete();
-      const signed = await txComplete.sign.withWallet().complete();
+      const signed = await completeAndSign(lucid, txBuilder, normalized, network, derivation, coinControl);
       const txHash = await signed.submit();
       return { success: true, txHash };
     } catch (err: any) {
@@ -95,7 +103,7 @@ export async function delegateToPoolLucid(
   }
 }
 
-async function initLucidFromMnemonic(mnemonic: string, network: CardanoNetwork) {
+async function initLucidFromMnemonic(mnemonic: string, network: CardanoNetwork, derivation: DerivationOptions = {}) {
   const normalized = normalizeMnemonic(mnemonic);
   const blockfrostKey = getBlockfrostApiKey(network);
   const blockfrostUrl = getBlockfrostUrl(network);
@@ -107,21 +115,81 @@ async function initLucidFromMnemonic(mnemonic: string, network: CardanoNetwork)
     network === 'mainnet' ? 'Mainnet' : network === 'preprod' ? 'Preprod' : 'Preview'
   );
   
-  lucid.selectWallet.fromSeed(normalized);
+  lucid.selectWallet.fromSeed(normalized, {
+    accountIndex: derivation.accountIndex || 0,
+    password: derivation.password,
+  });
   return lucid;
 }
 
+type LucidInstance = Awaited<ReturnType<typeof initLucidFromMnemonic>>;
+
+type LucidTxBuilder = ReturnType<LucidInstance['newTx']>;
+
+/**
+ * Complete a transaction from every used address of the account and sign it
+ *
+ * Lucid's seed wallet only fetches and signs for the first address. Coin
+ * selection gets the UTxOs of all discovered addresses instead (restricted to
+ * the spendable ones under coin control), and the keys of the other addresses
+ * sign the inputs taken from them.
+ */
+export async function completeAndSign(
+  lucid: LucidInstance,
+  txBuilder: LucidTxBuilder,
+  mnemonic: string,
+  network: CardanoNetwork,
+  derivation: DerivationOptions,
+  coinControl?: CoinControl
+) {
+  const discovery = await discoverAddresses(mnemonic, derivation, network);
+  const owners = new Map<string, DiscoveredAddress>();
+  const utxos = (
+    await Promise.all(
+      (await getSpendingAddresses(discovery, network)).map(async (owner) => {
+        const ownerUtxos = await lucid.utxosAt(owner.address);
+        ownerUtxos.forEach((utxo) => owners.set(`${utxo.txHash}#${utxo.outputIndex}`, owner));
+        return ownerUtxos;
+      })
+    )
+  ).flat();
+
+  const presetWalletInputs = coinControl
+    ? utxos.filter((utxo) => isSpendableRef(`${utxo.txHash}#${utxo.outputIndex}`, coinControl))
+    : utxos;
+  if (coinControl && presetWalletInputs.length === 0) {
+    throw new Error('No spendable UTxOs: the selected inputs are frozen or already spent');
+  }
+
+  const tx = await txBuilder.complete({ presetWalletInputs });
+
+  // The seed wallet already signs for the first external address
+  const { core } = await import('@meshsdk/core');
+  const inputs = core.csl.Transaction.from_hex(tx.toCBOR()).body().inputs();
+  const signers = new Map<string, DiscoveredAddress>();
+  for (let i = 0; i < inputs.len(); i++) {
+    const owner = owners.get(`${inputs.get(i).transaction_id().to_hex()}#${inputs.get(i).index()}`);
+    if (owner && !(owner.chain === 'external' && owner.index === 0)) signers.set(owner.address, owner);
+  }
+
+  let signBuilder = tx.sign.withWallet();
+  for (const key of derivePaymentKeys(mnemonic, derivation, Array.from(signers.values()))) {
+    signBuilder = signBuilder.sign.withPrivateKey(key.to_bech32());
+  }
+  return signBuilder.complete();
+}
+
 export async function registerStakeLucid(
   mnemonic: string,
-  network: CardanoNetwork
+  network: CardanoNetwork,
+  derivation: DerivationOptions = {}
 ): Promise<{ success: boolean; txHash?: string; error?: string; _debug?: any }> {
   try {
-    const lucid = await initLucidFromMnemonic(mnemonic, network);
+    const lucid = await initLucidFromMnemonic(mnemonic, network, derivation);
     const rewardAddress = await lucid.wallet().rewardAddress();
     if (!rewardAddress) return { success: false, error: 'Could not derive reward address' };
 
-    const tx = await lucid.newTx().register.Stake(rewardAddress).complete();
-    const signed = await tx.sign.withWallet().complete();
+    const signed = await completeAndSign(lucid, lucid.newTx().register.Stake(rewardAddress), mnemonic, network, derivation);
     const txHash = await signed.submit();
     return { success: true, txHash };
   } catch (err: any) {
@@ -132,10 +200,12 @@ export async function registerStakeLucid(
 
 export async function withdrawRewardsLucid(
   mnemonic: string,
-  network: CardanoNetwork
+  network: CardanoNetwork,
+  coinControl?: CoinControl,
+  derivation: DerivationOptions = {}
 ): Promise<{ success: boolean; txHash?: string; error?: string; _debug?: any }> {
   try {
-    const lucid = await initLucidFromMnemonic(mnemonic, network);
+    const lucid = await initLucidFromMnemonic(mnemonic, network, derivation);
     const rewardAddress = await lucid.wallet().rewardAddress();
     if (!rewardAddress) return { success: false, error: 'Could not derive reward address' };
 
@@ -143,8 +213,8 @@ export async function withdrawRewardsLucid(
     const rewards = delegation?.rewards || BigInt(0);
     if (rewards === BigInt(0)) return { success: false, error: 'No rewards available to withdraw' };
 
-    const tx = await lucid.newTx().withdraw(rewardAddress, rewards).complete();
-    const signed = await tx.sign.withWallet().complete();
+    const txBuilder = lucid.newTx().withdraw(rewardAddress, rewards);
+    const signed = await completeAndSign(lucid, txBuilder, mnemonic, network, derivation, coinControl);
     const txHash = await signed.submit();
     return { success: true, txHash };
   } catch (err: any) {
@@ -155,15 +225,17 @@ export async function withdrawRewardsLucid(
 
 export async function deregisterStakeLucid(
   mnemonic: string,
-  network: CardanoNetwork
+  network: CardanoNetwork,
+  coinControl?: CoinControl,
+  derivation: DerivationOptions = {}
 ): Promise<{ success: boolean; txHash?: string; error?: string; _debug?: any }> {
   try {
-    const lucid = await initLucidFromMnemonic(mnemonic, network);
+    const lucid = await initLucidFromMnemonic(mnemonic, network, derivation);
     const rewardAddress = await lucid.wallet().rewardAddress();
     if (!rewardAddress) return { success: false, error: 'Could not derive reward address' };
 
-    const tx = await lucid.newTx().deregister.Stake(rewardAddress).complete();
-    const signed = await tx.sign.withWallet().complete();
+    const txBuilder = lucid.newTx().deregister.Stake(rewardAddress);
+    const signed = await completeAndSign(lucid, txBuilder, mnemonic, network, derivation, coinControl);
     const txHash = await signed.submit();
     return { success: true, txHash };
   } catch (err: any) {
@@ -175,10 +247,11 @@ export async function deregisterStakeLucid(
 export async function delegateToDRepLucid(
   mnemonic: string,
   drepId: string,
-  network: CardanoNetwork
+  network: CardanoNetwork,
+  derivation: DerivationOptions = {}
 ): Promise<{ success: boolean; txHash?: string; error?: string; _debug?: any }> {
   try {
-    const lucid = await initLucidFromMnemonic(mnemonic, network);
+    const lucid = await initLucidFromMnemonic(mnemonic, network, derivation);
     const rewardAddress = await lucid.wallet().rewardAddress();
     if (!rewardAddress) return { success: false, error: 'Could not derive reward address' };
 
@@ -197,8 +270,7 @@ export async function delegateToDRepLucid(
       txBuilder = txBuilder.delegate.VoteToDRep(rewardAddress, drepCredential);
     }
 
-    const tx = await txBuilder.complete();
-    const signed = await tx.sign.withWallet().complete();
+    const signed = await completeAndSign(lucid, txBuilder, mnemonic, network, derivation);
     const txHash = await signed.submit();
     return { success: true, txHash };
   } catch (err: any) {
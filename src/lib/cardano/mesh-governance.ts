@@ -2,15 +2,19 @@ import { MeshTxBuilder, BlockfrostProvider } from '@meshsdk/core';
 import type { MeshWallet } from '@meshsdk/core';
 import type { CardanoNetwork } from './types';
 import { getBlockfrostApiKey, getBlockfrostUrl } from './types';
+import { getWalletDerivation } from './wallet';
+import { applyCoinControl, type CoinControl } from './coin-control';
 
 /**
  * Delegate to a DRep using Lucid Evolution with proper Conway era support
  * Using @lucid-evolution/lucid which has native delegate.VoteToDRep method
+ * Frozen UTxOs under coinControl are never used to pay the fee or deposit.
  */
 export const delegateToDRepMesh = async (
   wallet: MeshWallet,
   drepId: string,
-  network: CardanoNetwork
+  network: CardanoNetwork,
+  coinControl?: CoinControl
 ): Promise<{ success: boolean; txHash?: string; error?: string; _debug?: any }> => {
   console.log('[DRep] Starting delegation to:', drepId);
   
@@ -40,7 +44,7 @@ export const delegateToDRepMesh = async (
     );
 
     // Lucid Evolution uses selectWallet.fromSeed()
-    lucid.selectWallet.fromSeed(normalized);
+    lucid.selectWallet.fromSeed(normalized, getWalletDerivation(wallet));
     
     const rewardAddress = await lucid.wallet().rewardAddress();
     if (!rewardAddress) {
@@ -86,9 +90,9 @@ export const delegateToDRepMesh = async (
       txBuilder = txBuilder.delegate.VoteToDRep(rewardAddress, drepCredential);
     }
 
-    // Complete and sign transaction
-    const txComplete = await txBuilder.complete();
-    const signed = await txComplete.sign.withWallet().complete();
+    // Complete from the spendable UTxOs only and sign
+    const { completeAndSign } = await import('./lucid-stake');
+    const signed = await completeAndSign(lucid, txBuilder, normalized, network, getWalletDerivation(wallet), coinControl);
     const txHash = await signed.submit();
     
     console.log('[DRep] Success! Hash:', txHash);
@@ -100,7 +104,7 @@ export const delegateToDRepMesh = async (
     // If Lucid Evolution fails, try Mesh fallback
     if (error?.message?.includes('not a function') || error?.message?.includes('undefined')) {
       console.log('[DRep] Trying Mesh fallback...');
-      return await delegateWithMesh(wallet, drepId, network, blockfrostKey, '', false);
+      return await delegateWithMesh(wallet, drepId, network, blockfrostKey, '', false, coinControl);
     }
     
     return { 
@@ -120,13 +124,14 @@ async function delegateWithMesh(
   network: CardanoNetwork,
   apiKey: string,
   rewardAddress: string,
-  isRegistered: boolean
+  isRegistered: boolean,
+  coinControl?: CoinControl
 ): Promise<{ success: boolean; txHash?: string; error?: string; _debug?: any }> {
   try {
-    const utxos = await wallet.getUtxos();
+    const utxos = applyCoinControl((await wallet.getUtxos()) || [], coinControl);
     const changeAddress = await wallet.getChangeAddress();
 
-    if (!utxos || utxos.length === 0) {
+    if (utxos.length === 0) {
       return { success: false, error: 'No UTxOs available' };
     }
 
@@ -2,15 +2,17 @@
 import { MeshTxBuilder, resolvePaymentKeyHash } from '@meshsdk/core';
 import type { MeshWallet } from '@meshsdk/core';
 import type { CardanoNetwork } from './types';
+import { applyCoinControl, type CoinControl } from './coin-control';
 
 
 export const delegateToPoolMesh = async (
   wallet: MeshWallet,
   poolId: string,
-  network: CardanoNetwork
+  network: CardanoNetwork,
+  coinControl?: CoinControl
 ): Promise<{ success: boolean; txHash?: string; error?: string; _debug?: any }> => {
   try {
-    const utxos = await wallet.getUtxos();
+    const utxos = applyCoinControl((await wallet.getUtxos()) || [], coinControl);
     const changeAddress = await wallet.getChangeAddress();
     const rewardAddresses = await wallet.getRewardAddresses();
     if (!utxos || utxos.length === 0) {
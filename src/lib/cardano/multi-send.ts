@@ -9,6 +9,8 @@
 
 import { Transaction, MeshWallet } from "@meshsdk/core";
 import type { Asset, IInitiator } from "@meshsdk/core";
+import { CIP20_LABEL, buildCip20Metadata, encryptCip20Metadata } from "./cip20";
+import { applyCoinControl, type CoinControl } from "./coin-control";
 
 // Re-export Asset type for external use
 export type { Asset };
@@ -44,6 +46,15 @@ export interface MultiSendResult {
   totalFees?: string;
 }
 
+/**
+ * Optional extras for multi-send transactions
+ */
+export interface MultiSendOptions {
+  message?: string; // CIP-20 note, attached to every batch transaction
+  messagePassphrase?: string; // If set, the note is encrypted (CIP-20 enc: "basic")
+  coinControl?: CoinControl; // Restrict which UTxOs may be spent
+}
+
 // Safe batch size to stay under 16KB transaction limit
 const BATCH_SIZE = 40;
 
@@ -56,11 +67,13 @@ type WalletInstance = MeshWallet;
  * 
  * @param wallet - MeshWallet instance (must be connected)
  * @param recipients - Array of recipients with addresses and assets
+ * @param options - Optional CIP-20 message (plain or encrypted) and coin control
  * @returns Transaction hash
  */
 export async function sendMultiTransaction(
   wallet: WalletInstance,
-  recipients: MultiSendRecipient[]
+  recipients: MultiSendRecipient[],
+  options: MultiSendOptions = {}
 ): Promise<string> {
   if (!wallet) {
     throw new Error("Wallet not connected");
@@ -90,12 +103,29 @@ export async function sendMultiTransaction(
     // Initialize transaction with the wallet as initiator
     const tx = new Transaction({ initiator: wallet });
 
+    // Restrict coin selection; otherwise Transaction selects from all wallet UTxOs
+    if (options.coinControl) {
+      const utxos = applyCoinControl(await wallet.getUtxos(), options.coinControl);
+      if (utxos.length === 0) {
+        throw new Error("No spendable UTxOs: the selected inputs are frozen or already spent");
+      }
+      tx.txBuilder.selectUtxosFrom(utxos);
+    }
+
     // Add all recipients to the SAME transaction
     // This creates multiple outputs but only one transaction fee
     for (const recipient of recipients) {
       tx.sendAssets(recipient.address, recipient.assets);
     }
 
+    // Attach CIP-20 message (label 674) if provided
+    const metadata = options.messagePassphrase !== undefined
+      ? encryptCip20Metadata(options.message, options.messagePassphrase)
+      : buildCip20Metadata(options.message);
+    if (metadata) {
+      tx.setMetadata(CIP20_LABEL, metadata);
+    }
+
     // Build the transaction
     const unsignedTx = await tx.build();
 
@@ -119,12 +149,14 @@ export async function sendMultiTransaction(
  * @param wallet - MeshWallet instance
  * @param recipients - Array of all recipients
  * @param onBatchComplete - Callback after each batch completes
+ * @param options - Optional CIP-20 message and coin control (manual inputs are spent by the first batch)
  * @returns Results of all batches
  */
 export async function sendMultiTransactionBatched(
   wallet: WalletInstance,
   recipients: MultiSendRecipient[],
-  onBatchComplete?: (result: BatchSendResult, progress: number) => void
+  onBatchComplete?: (result: BatchSendResult, progress: number) => void,
+  options: MultiSendOptions = {}
 ): Promise<MultiSendResult> {
   const totalRecipients = recipients.length;
   const totalBatches = Math.ceil(totalRecipients / BATCH_SIZE);
@@ -138,7 +170,7 @@ export async function sendMultiTransactionBatched(
     const chunk = recipients.slice(i, i + BATCH_SIZE);
 
     try {
-      const txHash = await sendMultiTransaction(wallet, chunk);
+      const txHash = await sendMultiTransaction(wallet, chunk, options);
       
       const result: BatchSendResult = {
         success: true,
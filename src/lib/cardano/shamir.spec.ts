@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { combineShares, parseShare, splitMnemonic, SHARE_WORD_COUNTS } from './shamir';
+import { generateMnemonic } from './mnemonic';
+
+// 2-of-3 split of the all-"abandon" 12-word phrase
+const VECTOR_12 = {
+  mnemonic: 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+  shares: [
+    'join rack doctor garment mountain shuffle hole exotic silly spare client element glimpse two chalk balance riot siege genre',
+    'join rack dog saddle muffin adult relief lock merge juice battle miracle island food enjoy decorate jazz during brown',
+    'join rack dolphin timber accuse seven supreme square duck post define skull best ramp hurdle scare shield jewel panel',
+  ],
+};
+
+// 3-of-5 split of the all-"zoo" 24-word phrase
+const VECTOR_24 = {
+  mnemonic: 'zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo vote',
+  shares: [
+    'shiver scene leopard adapt maximum rotate kick stamp orbit motion social lake wealth distance belt bleak genre evidence frame cabin plunge vicious air travel deliver engine vague then pyramid raven submit',
+    'shiver scene level please airport net certain bracket clap creek index vibrant endless receive cause three visa wood jelly case other differ observe blouse anchor monster narrow celery market paper gym',
+    'shiver scene liar fold indoor student parrot course evidence frame dolphin ice example inherit sort annual heart excuse start seek series coyote glass able snow depart marriage trouble aware daring avoid',
+    'shiver scene license evil trade region goat room copy arena student utility nurse warm hazard kingdom flower prepare mom subway monitor luxury autumn mango math desert pizza labor section hat rose',
+    'shiver scene life rain mother warrior tide motor favorite gospel tornado indoor motion danger load name shuffle bridge color day stock matrix vivid palm erupt mixed same raccoon food patch winter',
+  ],
+};
+
+/**
+ * Every subset of the given size
+ */
+const subsets = <T>(items: T[], size: number): T[][] =>
+  size === 0
+    ? [[]]
+    : items.flatMap((item, i) => subsets(items.slice(i + 1), size - 1).map((rest) => [item, ...rest]));
+
+/**
+ * Replace one word of a share with the next word of the list
+ */
+const changeWord = (share: string, position: number): string => {
+  const words = share.split(' ');
+  words[position] = words[position] === 'abandon' ? 'ability' : 'abandon';
+  return words.join(' ');
+};
+
+describe('Shamir test vectors', () => {
+  it('restores the 12-word vector from any 2 of 3 shares', () => {
+    for (const shares of subsets(VECTOR_12.shares, 2)) {
+      expect(combineShares(shares)).toBe(VECTOR_12.mnemonic);
+      expect(combineShares([...shares].reverse())).toBe(VECTOR_12.mnemonic);
+    }
+    expect(combineShares(VECTOR_12.shares)).toBe(VECTOR_12.mnemonic);
+  });
+
+  it('restores the 24-word vector from any 3 of 5 shares', () => {
+    for (const shares of subsets(VECTOR_24.shares, 3)) {
+      expect(combineShares(shares)).toBe(VECTOR_24.mnemonic);
+    }
+  });
+
+  it('decodes the share headers', () => {
+    const share = parseShare(VECTOR_24.shares[3]);
+    expect(share.threshold).toBe(3);
+    expect(share.index).toBe(4);
+    expect(share.id).toBe(parseShare(VECTOR_24.shares[0]).id);
+    expect(share.value).toHaveLength(36);
+  });
+});
+
+describe('splitMnemonic', () => {
+  it('creates shares that restore the phrase at every threshold', () => {
+    for (const wordCount of [12, 15, 18, 21, 24] as const) {
+      const mnemonic = generateMnemonic(wordCount);
+      for (const threshold of [2, 3, 5]) {
+        const shares = splitMnemonic(mnemonic, threshold, 5);
+        expect(shares[0].split(' ')).toHaveLength(SHARE_WORD_COUNTS[(wordCount - 12) / 3]);
+        expect(combineShares(shares.slice(5 - threshold))).toBe(mnemonic);
+      }
+    }
+  });
+
+  it('supports the largest split', () => {
+    const mnemonic = generateMnemonic(24);
+    const shares = splitMnemonic(mnemonic, 16, 16);
+    expect(combineShares(shares)).toBe(mnemonic);
+    expect(() => combineShares(shares.slice(1))).toThrow('16 shares are needed, 15 entered');
+  });
+
+  it('rejects invalid thresholds and phrases', () => {
+    const mnemonic = generateMnemonic(12);
+    expect(() => splitMnemonic(mnemonic, 1, 3)).toThrow('Threshold must be between 2 and 3');
+    expect(() => splitMnemonic(mnemonic, 4, 3)).toThrow('Threshold must be between 2 and 3');
+    expect(() => splitMnemonic(mnemonic, 2, 17)).toThrow('Choose between 2 and 16 shares');
+    expect(() => splitMnemonic(changeWord(mnemonic, 11), 2, 3)).toThrow('Invalid recovery phrase');
+  });
+});
+
+describe('malformed shares', () => {
+  it('needs the threshold number of distinct shares', () => {
+    expect(() => combineShares([VECTOR_24.shares[0], VECTOR_24.shares[1]])).toThrow('3 shares are needed, 2 entered');
+    expect(() => combineShares([VECTOR_12.shares[0], VECTOR_12.shares[0]])).toThrow('The same share was entered twice');
+    expect(() => combineShares([])).toThrow('Enter at least one share');
+  });
+
+  it('does not mix shares of different splits', () => {
+    const other = splitMnemonic(VECTOR_12.mnemonic, 2, 3);
+    expect(() => combineShares([VECTOR_12.shares[0], other[1]])).toThrow('different recovery phrases');
+    expect(() => combineShares([VECTOR_12.shares[0], VECTOR_24.shares[1]])).toThrow('different recovery phrases');
+  });
+
+  it('catches changed, unknown and missing words', () => {
+    for (const position of [0, 3, 10, 18]) {
+      expect(() => parseShare(changeWord(VECTOR_12.shares[0], position))).toThrow('checksum does not match');
+    }
+    expect(() => parseShare(VECTOR_12.shares[0].replace('garment', 'garmint'))).toThrow('"garmint" is not');
+    expect(() => parseShare(VECTOR_12.shares[0].split(' ').slice(1).join(' '))).toThrow('not 18');
+    expect(() => combineShares([VECTOR_12.mnemonic, VECTOR_12.shares[1]])).toThrow('not 12');
+  });
+
+  it('accepts extra whitespace and capitals', () => {
+    const shares = VECTOR_12.shares.slice(0, 2).map((share) => `  ${share.toUpperCase().replace(/ /g, '\n ')} `);
+    expect(combineShares(shares)).toBe(VECTOR_12.mnemonic);
+  });
+});
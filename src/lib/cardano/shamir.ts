@@ -0,0 +1,229 @@
+/**
+ * Shamir Secret Sharing of Recovery Phrases
+ *
+ * Splits the entropy behind a BIP-39 phrase into N shares so that any T of
+ * them restore it, and fewer reveal nothing. Modelled on SLIP-39 (sharing in
+ * GF(256), a digest to catch wrong combinations, a checksum per share) but
+ * written with the BIP-39 word list, so shares are not SLIP-39 compatible.
+ *
+ * Share layout (bytes, then split into 11-bit words):
+ *
+ *   id(2) | version(4 bits) threshold-1(4 bits) | index(1) | value | checksum(2)
+ *
+ * value is the share of entropy ‖ sha256(entropy)[0..4], checksum is
+ * sha256 of everything before it. A 12-word phrase gives 19-word shares,
+ * 24 words give 31-word shares; these lengths never collide with BIP-39 ones.
+ */
+
+import * as bip39 from "bip39";
+import { sha256 } from "@noble/hashes/sha2";
+import { concatBytes, randomBytes } from "@noble/hashes/utils";
+import { entropyToMnemonic, mnemonicToEntropy, validateMnemonic } from "./mnemonic";
+
+/**
+ * Decoded share
+ */
+export interface MnemonicShare {
+  id: number; // Shared by every share of one split
+  threshold: number; // Shares needed to restore
+  index: number; // x coordinate, 1-based
+  value: Uint8Array;
+}
+
+export const SHAMIR_MAX_SHARES = 16;
+
+const SHARE_VERSION = 1;
+const HEADER_LENGTH = 4;
+const DIGEST_LENGTH = 4;
+const CHECKSUM_LENGTH = 2;
+const ENTROPY_LENGTHS = [16, 20, 24, 28, 32];
+
+const WORDLIST = bip39.wordlists.english;
+const WORD_INDEX = new Map(WORDLIST.map((word, i) => [word, i]));
+
+/**
+ * Word counts of shares, one per recovery phrase length
+ */
+export const SHARE_WORD_COUNTS = ENTROPY_LENGTHS.map((length) =>
+  Math.ceil(((HEADER_LENGTH + length + DIGEST_LENGTH + CHECKSUM_LENGTH) * 8) / 11)
+);
+
+// GF(256) with the AES polynomial x^8 + x^4 + x^3 + x + 1, generator 3
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = EXP[i + 255] = x;
+  LOG[x] = i;
+  x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+}
+
+const gfMul = (a: number, b: number): number => (a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]]);
+const gfDiv = (a: number, b: number): number => (a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]]);
+
+/**
+ * Evaluate the polynomial with the given coefficients (constant first) at x
+ */
+const evaluate = (coefficients: Uint8Array, x: number): number =>
+  coefficients.reduceRight((result, coefficient) => gfMul(result, x) ^ coefficient, 0);
+
+/**
+ * Lagrange interpolation of the shares at x = 0
+ */
+const interpolate = (shares: MnemonicShare[]): Uint8Array => {
+  const secret = new Uint8Array(shares[0].value.length);
+  for (const share of shares) {
+    let basis = 1;
+    for (const other of shares) {
+      if (other !== share) {
+        basis = gfMul(basis, gfDiv(other.index, other.index ^ share.index));
+      }
+    }
+    share.value.forEach((byte, i) => {
+      secret[i] ^= gfMul(byte, basis);
+    });
+  }
+  return secret;
+};
+
+const digest = (entropy: Uint8Array): Uint8Array => sha256(entropy).slice(0, DIGEST_LENGTH);
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array): boolean =>
+  a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+const bytesToWords = (bytes: Uint8Array): string => {
+  const bits = Array.from(bytes, (byte) => byte.toString(2).padStart(8, "0")).join("");
+  const padded = bits.padEnd(Math.ceil(bits.length / 11) * 11, "0");
+  return (padded.match(/.{11}/g) || []).map((chunk) => WORDLIST[parseInt(chunk, 2)]).join(" ");
+};
+
+const encodeShare = (share: MnemonicShare): string => {
+  const header = new Uint8Array([
+    share.id >> 8,
+    share.id & 0xff,
+    (SHARE_VERSION << 4) | (share.threshold - 1),
+    share.index,
+  ]);
+  const body = concatBytes(header, share.value);
+  return bytesToWords(concatBytes(body, sha256(body).slice(0, CHECKSUM_LENGTH)));
+};
+
+/**
+ * Decode a share from its words
+ *
+ * @throws Error with a user-facing message if the share is malformed
+ */
+export const parseShare = (share: string): MnemonicShare => {
+  const words = share.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (!SHARE_WORD_COUNTS.includes(words.length)) {
+    throw new Error(`A share has ${SHARE_WORD_COUNTS.join(", ")} words, not ${words.length}`);
+  }
+
+  const bits = words
+    .map((word) => {
+      const index = WORD_INDEX.get(word);
+      if (index === undefined) {
+        throw new Error(`"${word}" is not a recovery phrase word`);
+      }
+      return index.toString(2).padStart(11, "0");
+    })
+    .join("");
+
+  // Padding is always shorter than a byte, so the length follows from the word count
+  const length = Math.floor(bits.length / 8);
+  if (/1/.test(bits.slice(length * 8))) {
+    throw new Error("Share checksum does not match. Check the words.");
+  }
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    bytes[i] = parseInt(bits.slice(i * 8, i * 8 + 8), 2);
+  }
+
+  const body = bytes.slice(0, length - CHECKSUM_LENGTH);
+  if (!bytesEqual(bytes.slice(length - CHECKSUM_LENGTH), sha256(body).slice(0, CHECKSUM_LENGTH))) {
+    throw new Error("Share checksum does not match. Check the words.");
+  }
+  if (body[2] >> 4 !== SHARE_VERSION) {
+    throw new Error("This share was made by a newer version of the app");
+  }
+
+  const threshold = (body[2] & 0x0f) + 1;
+  const index = body[3];
+  if (index < 1 || index > SHAMIR_MAX_SHARES) {
+    throw new Error("Share number is out of range");
+  }
+
+  return { id: (body[0] << 8) | body[1], threshold, index, value: body.slice(HEADER_LENGTH) };
+};
+
+/**
+ * Split a recovery phrase into shares
+ *
+ * @param mnemonic - BIP-39 recovery phrase
+ * @param threshold - Shares needed to restore (2 to shareCount)
+ * @param shareCount - Shares to create (up to 16)
+ * @returns One space-separated word list per share
+ */
+export const splitMnemonic = (mnemonic: string, threshold: number, shareCount: number): string[] => {
+  if (!validateMnemonic(mnemonic)) {
+    throw new Error("Invalid recovery phrase");
+  }
+  if (!Number.isInteger(shareCount) || shareCount < 2 || shareCount > SHAMIR_MAX_SHARES) {
+    throw new Error(`Choose between 2 and ${SHAMIR_MAX_SHARES} shares`);
+  }
+  if (!Number.isInteger(threshold) || threshold < 2 || threshold > shareCount) {
+    throw new Error(`Threshold must be between 2 and ${shareCount}`);
+  }
+
+  const entropy = Buffer.from(mnemonicToEntropy(mnemonic.trim().toLowerCase()), "hex");
+  const secret = concatBytes(entropy, digest(entropy));
+  const random = randomBytes(2);
+  const id = (random[0] << 8) | random[1];
+
+  // One random polynomial per byte, with the secret byte as constant term
+  const polynomials = Array.from(secret, (byte) => {
+    const coefficients = randomBytes(threshold);
+    coefficients[0] = byte;
+    return coefficients;
+  });
+
+  return Array.from({ length: shareCount }, (_, i) =>
+    encodeShare({
+      id,
+      threshold,
+      index: i + 1,
+      value: Uint8Array.from(polynomials, (coefficients) => evaluate(coefficients, i + 1)),
+    })
+  );
+};
+
+/**
+ * Restore a recovery phrase from its shares
+ *
+ * @param shares - At least threshold shares of the same split, in any order
+ * @throws Error with a user-facing message if the shares cannot be combined
+ */
+export const combineShares = (shares: string[]): string => {
+  const parsed = shares.map(parseShare);
+  if (parsed.length === 0) {
+    throw new Error("Enter at least one share");
+  }
+
+  const [first] = parsed;
+  if (parsed.some((s) => s.id !== first.id || s.threshold !== first.threshold || s.value.length !== first.value.length)) {
+    throw new Error("These shares belong to different recovery phrases");
+  }
+  if (new Set(parsed.map((s) => s.index)).size !== parsed.length) {
+    throw new Error("The same share was entered twice");
+  }
+  if (parsed.length < first.threshold) {
+    throw new Error(`${first.threshold} shares are needed, ${parsed.length} entered`);
+  }
+
+  const secret = interpolate(parsed.slice(0, first.threshold));
+  const entropy = secret.slice(0, secret.length - DIGEST_LENGTH);
+  if (!bytesEqual(secret.slice(entropy.length), digest(entropy))) {
+    throw new Error("These shares do not restore a valid recovery phrase");
+  }
+
+  return entropyToMnemonic(Buffer.from(entropy).toString("hex"));
+};
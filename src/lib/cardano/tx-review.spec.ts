@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { core } from '@meshsdk/core';
+import { decodeTransaction, reviewTransaction } from './tx-review';
+
+const POLICY = '11'.repeat(28);
+const OWN_KEY = '9e'.repeat(28);
+const OTHER_KEY = '7a'.repeat(28);
+const INPUT_TX = '00'.repeat(32);
+const COLLATERAL_TX = '22'.repeat(32);
+const REFERENCE_TX = '33'.repeat(32);
+
+const buildTransaction = () => {
+  const { csl } = core;
+  const ownCredential = csl.Credential.from_keyhash(csl.Ed25519KeyHash.from_hex(OWN_KEY));
+  const otherCredential = csl.Credential.from_keyhash(csl.Ed25519KeyHash.from_hex(OTHER_KEY));
+  const own = csl.BaseAddress.new(0, ownCredential, ownCredential).to_address();
+  const other = csl.EnterpriseAddress.new(0, otherCredential).to_address();
+
+  const inputs = csl.TransactionInputs.new();
+  inputs.add(csl.TransactionInput.new(csl.TransactionHash.from_hex(INPUT_TX), 1));
+
+  const assets = csl.Assets.new();
+  assets.insert(csl.AssetName.new(Buffer.from('HOSKY')), csl.BigNum.from_str('100'));
+  const multiAsset = csl.MultiAsset.new();
+  multiAsset.insert(csl.ScriptHash.from_hex(POLICY), assets);
+
+  const outputs = csl.TransactionOutputs.new();
+  const order = csl.TransactionOutput.new(other, csl.Value.new(csl.BigNum.from_str('5000000')));
+  order.set_plutus_data(csl.PlutusData.new_integer(csl.BigInt.from_str('42')));
+  outputs.add(order);
+  outputs.add(csl.TransactionOutput.new(own, csl.Value.new_with_assets(csl.BigNum.from_str('4800000'), multiAsset)));
+
+  const body = csl.TransactionBody.new_tx_body(inputs, outputs, csl.BigNum.from_str('200000'));
+  body.set_ttl(csl.BigNum.from_str('90000'));
+  body.set_validity_start_interval_bignum(csl.BigNum.from_str('80000'));
+
+  const collateral = csl.TransactionInputs.new();
+  collateral.add(csl.TransactionInput.new(csl.TransactionHash.from_hex(COLLATERAL_TX), 0));
+  body.set_collateral(collateral);
+  body.set_collateral_return(csl.TransactionOutput.new(own, csl.Value.new(csl.BigNum.from_str('4000000'))));
+  body.set_total_collateral(csl.BigNum.from_str('1000000'));
+
+  const referenceInputs = csl.TransactionInputs.new();
+  referenceInputs.add(csl.TransactionInput.new(csl.TransactionHash.from_hex(REFERENCE_TX), 2));
+  body.set_reference_inputs(referenceInputs);
+
+  const withdrawals = csl.Withdrawals.new();
+  withdrawals.insert(csl.RewardAddress.new(0, ownCredential), csl.BigNum.from_str('0'));
+  body.set_withdrawals(withdrawals);
+
+  const signers = csl.Ed25519KeyHashes.new();
+  signers.add(csl.Ed25519KeyHash.from_hex(OWN_KEY));
+  signers.add(csl.Ed25519KeyHash.from_hex(OTHER_KEY));
+  body.set_required_signers(signers);
+
+  const mintAssets = csl.MintAssets.new();
+  mintAssets.insert(csl.AssetName.new(Buffer.from('HOSKY')), csl.Int.new_i32(-5));
+  const mint = csl.Mint.new();
+  mint.insert(csl.ScriptHash.from_hex(POLICY), mintAssets);
+  body.set_mint(mint);
+
+  const metadata = csl.GeneralTransactionMetadata.new();
+  metadata.insert(
+    csl.BigNum.from_str('674'),
+    csl.encode_json_str_to_metadatum(JSON.stringify({ msg: ['DEX order'] }), csl.MetadataJsonSchema.BasicConversions)
+  );
+  const auxiliaryData = csl.AuxiliaryData.new();
+  auxiliaryData.set_metadata(metadata);
+
+  return {
+    cbor: csl.Transaction.new(body, csl.TransactionWitnessSet.new(), auxiliaryData).to_hex(),
+    ownAddress: own.to_bech32(),
+    otherAddress: other.to_bech32(),
+  };
+};
+
+describe('decodeTransaction', () => {
+  it('reads every part of the body and marks what belongs to the wallet', () => {
+    const { cbor, ownAddress, otherAddress } = buildTransaction();
+    const review = decodeTransaction(cbor, [ownAddress])!;
+
+    expect(review.inputs).toEqual([{ txHash: INPUT_TX, outputIndex: 1, isOwn: false }]);
+    expect(review.inputsResolved).toBe(false);
+    expect(review.outputs).toEqual([
+      {
+        address: otherAddress,
+        amount: [{ unit: 'lovelace', quantity: '5000000' }],
+        datumHash: undefined,
+        inlineDatum: '182a',
+        hasScriptRef: false,
+        isOwn: false,
+      },
+      {
+        address: ownAddress,
+        amount: [
+          { unit: 'lovelace', quantity: '4800000' },
+          { unit: POLICY + '484f534b59', quantity: '100' },
+        ],
+        datumHash: undefined,
+        inlineDatum: undefined,
+        hasScriptRef: false,
+        isOwn: true,
+      },
+    ]);
+    expect(review.fee).toBe('200000');
+    expect(review.collateral).toEqual([{ txHash: COLLATERAL_TX, outputIndex: 0, isOwn: false }]);
+    expect(review.collateralReturn).toMatchObject({
+      address: ownAddress,
+      amount: [{ unit: 'lovelace', quantity: '4000000' }],
+      isOwn: true,
+    });
+    expect(review.totalCollateral).toBe('1000000');
+    expect(review.referenceInputs).toEqual([{ txHash: REFERENCE_TX, outputIndex: 2, isOwn: false }]);
+    expect(review.validFrom).toBe('80000');
+    expect(review.validUntil).toBe('90000');
+    expect(review.withdrawals).toHaveLength(1);
+    expect(review.withdrawals[0]).toMatchObject({ amount: '0', isOwn: true });
+    expect(review.requiredSigners).toEqual([
+      { keyHash: OWN_KEY, isOwn: true },
+      { keyHash: OTHER_KEY, isOwn: false },
+    ]);
+    expect(review.mint).toEqual([{ unit: POLICY + '484f534b59', quantity: '-5' }]);
+    expect(review.metadata).toEqual([{ label: '674', json: { msg: ['DEX order'] } }]);
+    expect(review.txHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('returns null for CBOR that is not a transaction', () => {
+    expect(decodeTransaction('deadbeef', [])).toBeNull();
+  });
+});
+
+describe('reviewTransaction', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('resolves inputs on Blockfrost and nets them against the outputs', async () => {
+    vi.stubEnv('NEXT_PUBLIC_BLOCKFROST_KEY_PREPROD', 'preprodTestKey');
+    const { cbor, ownAddress } = buildTransaction();
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        if (url.endsWith(`/txs/${COLLATERAL_TX}/utxos`)) {
+          const outputs = [{ address: ownAddress, amount: [{ unit: 'lovelace', quantity: '5000000' }], output_index: 0 }];
+          return new Response(JSON.stringify({ inputs: [], outputs }), { status: 200 });
+        }
+        if (url.endsWith(`/txs/${INPUT_TX}/utxos`)) {
+          const outputs = [
+            { address: ownAddress, amount: [{ unit: 'lovelace', quantity: '1000000' }], output_index: 0 },
+            { address: ownAddress, amount: [{ unit: 'lovelace', quantity: '10000000' }], output_index: 1 },
+          ];
+          return new Response(JSON.stringify({ inputs: [], outputs }), { status: 200 });
+        }
+        return new Response('{}', { status: 404 });
+      })
+    );
+
+    const review = (await reviewTransaction(cbor, [ownAddress], 'preprod'))!;
+
+    expect(review.inputsResolved).toBe(true);
+    expect(review.inputs[0]).toMatchObject({ address: ownAddress, isOwn: true });
+    expect(review.collateral[0]).toMatchObject({ address: ownAddress, isOwn: true });
+    expect(review.referenceInputs).toEqual([{ txHash: REFERENCE_TX, outputIndex: 2, isOwn: false }]);
+    expect(review.netChange).toEqual([
+      { unit: 'lovelace', quantity: '-5200000' },
+      { unit: POLICY + '484f534b59', quantity: '100' },
+    ]);
+    expect(review.validUntilTime).toBeGreaterThan(review.validFromTime!);
+  });
+
+  it('leaves inputs it cannot find unresolved', async () => {
+    vi.stubEnv('NEXT_PUBLIC_BLOCKFROST_KEY_PREPROD', 'preprodTestKey');
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 404 })));
+    const { cbor, ownAddress } = buildTransaction();
+
+    const review = (await reviewTransaction(cbor, [ownAddress], 'preprod'))!;
+
+    expect(review.inputsResolved).toBe(false);
+    expect(review.inputs[0].isOwn).toBe(false);
+  });
+});
@@ -0,0 +1,373 @@
+/**
+ * Transaction Review
+ *
+ * Decodes an unsigned transaction so it can be checked before it is signed:
+ * inputs, outputs (address, ADA, tokens, datum), the wallet's net change, fee,
+ * collateral, reference inputs, certificates, withdrawals, mints and burns,
+ * validity interval, required signers and metadata.
+ *
+ * The CBOR only references its inputs. Their address and value are looked up
+ * on Blockfrost (/txs/{hash}/utxos) to tell which inputs belong to the wallet;
+ * collateral and reference inputs are looked up the same way.
+ * Outputs, withdrawals and required signers are matched against the wallet
+ * addresses and the payment and stake keys found in them.
+ */
+
+import { core, SLOT_CONFIG_NETWORK, slotToBeginUnixTime } from "@meshsdk/core";
+import {
+  getBlockfrostApiKey,
+  getBlockfrostUrl,
+  type AssetMovement,
+  type CardanoNetwork,
+  type TransactionCertificate,
+  type TransactionMetadataEntry,
+} from "./types";
+import { computeAssetMovements, toCertificate } from "./history";
+
+type Csl = typeof core.csl;
+type CslAddress = InstanceType<Csl["Address"]>;
+type CslInputs = InstanceType<Csl["TransactionInputs"]>;
+type CslOutput = InstanceType<Csl["TransactionOutput"]>;
+
+/**
+ * Asset amount of an input or output (lovelace first)
+ */
+export interface ReviewAsset {
+  unit: string;
+  quantity: string;
+}
+
+export interface ReviewInput {
+  txHash: string;
+  outputIndex: number;
+  address?: string; // Unknown until the input is resolved
+  amount?: ReviewAsset[];
+  isOwn: boolean;
+}
+
+export interface ReviewOutput {
+  address: string;
+  amount: ReviewAsset[];
+  datumHash?: string;
+  inlineDatum?: string; // Plutus data CBOR
+  hasScriptRef: boolean;
+  isOwn: boolean;
+}
+
+export interface ReviewWithdrawal {
+  rewardAddress: string;
+  amount: string; // Lovelace
+  isOwn: boolean;
+}
+
+export interface ReviewSigner {
+  keyHash: string;
+  isOwn: boolean;
+}
+
+/**
+ * Everything a transaction does, from the wallet's point of view
+ */
+export interface TransactionReview {
+  txHash: string;
+  inputs: ReviewInput[];
+  inputsResolved: boolean; // False if some inputs could not be looked up
+  outputs: ReviewOutput[];
+  netChange: AssetMovement[]; // Change of the wallet balance, fee included
+  fee: string;
+  collateral: ReviewInput[]; // Lost if a script fails
+  collateralReturn?: ReviewOutput; // Given back from the collateral if a script fails
+  totalCollateral?: string; // Lovelace
+  referenceInputs: ReviewInput[]; // Read by scripts, not spent
+  certificates: TransactionCertificate[];
+  withdrawals: ReviewWithdrawal[];
+  mint: AssetMovement[]; // Negative quantities are burns
+  validFrom?: string; // Slot
+  validUntil?: string; // Slot (TTL)
+  validFromTime?: number; // Unix ms, set by reviewTransaction
+  validUntilTime?: number;
+  requiredSigners: ReviewSigner[];
+  metadata: TransactionMetadataEntry[];
+}
+
+/**
+ * UTxO entry from /txs/{hash}/utxos
+ */
+interface BlockfrostTxOutput {
+  address: string;
+  amount: ReviewAsset[];
+  output_index: number;
+}
+
+// ================================
+// DECODING
+// ================================
+
+/**
+ * Bech32 address, or Base58 for Byron addresses
+ */
+const formatAddress = (address: CslAddress): string => {
+  const byron = core.csl.ByronAddress.from_address(address);
+  return byron ? byron.to_base58() : address.to_bech32();
+};
+
+/**
+ * Payment and stake key hashes of the wallet, and its reward addresses
+ */
+const getOwnKeys = (ownAddresses: string[]) => {
+  const { csl } = core;
+  const keyHashes = new Set<string>();
+  const rewardAddresses = new Set<string>();
+
+  for (const bech32 of ownAddresses) {
+    try {
+      const address = csl.Address.from_bech32(bech32);
+      const base = csl.BaseAddress.from_address(address);
+      const payment = (base || csl.EnterpriseAddress.from_address(address))?.payment_cred().to_keyhash();
+      if (payment) keyHashes.add(payment.to_hex());
+
+      const stake = base?.stake_cred();
+      if (stake) {
+        const stakeKey = stake.to_keyhash();
+        if (stakeKey) keyHashes.add(stakeKey.to_hex());
+        rewardAddresses.add(csl.RewardAddress.new(address.network_id(), stake).to_address().to_bech32());
+      }
+    } catch {
+      // Byron and pointer addresses carry no keys to match
+    }
+  }
+
+  return { keyHashes, rewardAddresses };
+};
+
+const valueToAssets = (json: string): ReviewAsset[] => {
+  const value = JSON.parse(json) as { coin: string; multiasset?: Record<string, Record<string, string>> | null };
+  const tokens = Object.entries(value.multiasset || {}).flatMap(([policyId, assets]) =>
+    Object.entries(assets).map(([assetName, quantity]) => ({ unit: policyId + assetName, quantity }))
+  );
+  return [{ unit: "lovelace", quantity: value.coin }, ...tokens];
+};
+
+/**
+ * Inputs as referenced in the body, unresolved
+ */
+const readInputs = (txInputs?: CslInputs): ReviewInput[] => {
+  const inputs: ReviewInput[] = [];
+  for (let i = 0; txInputs && i < txInputs.len(); i++) {
+    const input = txInputs.get(i);
+    inputs.push({ txHash: input.transaction_id().to_hex(), outputIndex: input.index(), isOwn: false });
+  }
+  return inputs;
+};
+
+const readOutput = (output: CslOutput, ownAddresses: string[]): ReviewOutput => {
+  const address = formatAddress(output.address());
+  return {
+    address,
+    amount: valueToAssets(output.amount().to_json()),
+    datumHash: output.data_hash()?.to_hex(),
+    inlineDatum: output.plutus_data()?.to_hex(),
+    hasScriptRef: output.has_script_ref(),
+    isOwn: ownAddresses.includes(address),
+  };
+};
+
+const readMetadata = (tx: InstanceType<Csl["Transaction"]>): TransactionMetadataEntry[] => {
+  const { csl } = core;
+  const metadata = tx.auxiliary_data()?.metadata();
+  if (!metadata) return [];
+
+  const labels = metadata.keys();
+  const entries: TransactionMetadataEntry[] = [];
+  for (let i = 0; i < labels.len(); i++) {
+    const label = labels.get(i);
+    const metadatum = metadata.get(label);
+    if (!metadatum) continue;
+
+    let json: unknown;
+    try {
+      json = JSON.parse(csl.decode_metadatum_to_json_str(metadatum, csl.MetadataJsonSchema.BasicConversions));
+    } catch {
+      json = metadatum.to_hex();
+    }
+    entries.push({ label: label.to_str(), json });
+  }
+  return entries;
+};
+
+/**
+ * Decode an unsigned (or partly signed) transaction
+ *
+ * Inputs are returned unresolved; see reviewTransaction.
+ *
+ * @param cborHex - Transaction CBOR
+ * @param ownAddresses - Wallet addresses
+ * @returns Review with inputsResolved false, or null if the CBOR cannot be decoded
+ */
+export const decodeTransaction = (cborHex: string, ownAddresses: string[]): TransactionReview | null => {
+  const { csl } = core;
+
+  try {
+    const fixed = csl.FixedTransaction.from_hex(cborHex);
+    const tx = csl.Transaction.from_hex(cborHex);
+    const body = tx.body();
+    const { keyHashes, rewardAddresses } = getOwnKeys(ownAddresses);
+    const inputs = readInputs(body.inputs());
+
+    const outputs: ReviewOutput[] = [];
+    const txOutputs = body.outputs();
+    for (let i = 0; i < txOutputs.len(); i++) {
+      outputs.push(readOutput(txOutputs.get(i), ownAddresses));
+    }
+
+    const collateralReturn = body.collateral_return();
+
+    const certs = body.certs();
+    const certificates = certs
+      ? (JSON.parse(certs.to_json()) as Record<string, Record<string, unknown>>[]).map(toCertificate)
+      : [];
+
+    const withdrawals: ReviewWithdrawal[] = [];
+    const txWithdrawals = body.withdrawals();
+    if (txWithdrawals) {
+      const keys = txWithdrawals.keys();
+      for (let i = 0; i < keys.len(); i++) {
+        const rewardAddress = keys.get(i).to_address().to_bech32();
+        withdrawals.push({
+          rewardAddress,
+          amount: txWithdrawals.get(keys.get(i))?.to_str() || "0",
+          isOwn: rewardAddresses.has(rewardAddress),
+        });
+      }
+    }
+
+    const txMint = body.mint();
+    const mint = txMint
+      ? (JSON.parse(txMint.to_json()) as [string, Record<string, string>][]).flatMap(([policyId, assets]) =>
+          Object.entries(assets).map(([assetName, quantity]) => ({ unit: policyId + assetName, quantity }))
+        )
+      : [];
+
+    const requiredSigners: ReviewSigner[] = [];
+    const signers = body.required_signers();
+    for (let i = 0; signers && i < signers.len(); i++) {
+      const keyHash = signers.get(i).to_hex();
+      requiredSigners.push({ keyHash, isOwn: keyHashes.has(keyHash) });
+    }
+
+    return {
+      txHash: fixed.transaction_hash().to_hex(),
+      inputs,
+      inputsResolved: inputs.length === 0,
+      outputs,
+      netChange: [],
+      fee: body.fee().to_str(),
+      collateral: readInputs(body.collateral()),
+      collateralReturn: collateralReturn && readOutput(collateralReturn, ownAddresses),
+      totalCollateral: body.total_collateral()?.to_str(),
+      referenceInputs: readInputs(body.reference_inputs()),
+      certificates,
+      withdrawals,
+      mint,
+      validFrom: body.validity_start_interval_bignum()?.to_str(),
+      validUntil: body.ttl_bignum()?.to_str(),
+      requiredSigners,
+      metadata: readMetadata(tx),
+    };
+  } catch (error) {
+    console.warn("Failed to decode transaction:", error);
+    return null;
+  }
+};
+
+// ================================
+// INPUT RESOLUTION
+// ================================
+
+/**
+ * Look up the outputs of a transaction on Blockfrost
+ *
+ * @returns Outputs, or null if the transaction is unknown or the lookup failed
+ */
+const fetchTransactionOutputs = async (
+  network: CardanoNetwork,
+  txHash: string
+): Promise<BlockfrostTxOutput[] | null> => {
+  const apiKey = getBlockfrostApiKey(network);
+  if (!apiKey) return null;
+
+  try {
+    const response = await fetch(`${getBlockfrostUrl(network)}/txs/${txHash}/utxos`, {
+      headers: { project_id: apiKey },
+    });
+    if (!response.ok) return null;
+    const data = (await response.json()) as { outputs?: BlockfrostTxOutput[] };
+    return data.outputs || null;
+  } catch (error) {
+    console.warn("Failed to resolve transaction inputs:", error);
+    return null;
+  }
+};
+
+/**
+ * Decode a transaction and resolve its inputs for review before signing
+ *
+ * Inputs that cannot be looked up (e.g. outputs of a transaction not yet on
+ * chain) stay unresolved, and the net change then leaves them out.
+ *
+ * @param cborHex - Transaction CBOR
+ * @param ownAddresses - Wallet addresses
+ * @returns Review, or null if the CBOR cannot be decoded
+ */
+export const reviewTransaction = async (
+  cborHex: string,
+  ownAddresses: string[],
+  network: CardanoNetwork
+): Promise<TransactionReview | null> => {
+  const review = decodeTransaction(cborHex, ownAddresses);
+  if (!review) return null;
+
+  const referenced = [...review.inputs, ...review.collateral, ...review.referenceInputs];
+  const txHashes = Array.from(new Set(referenced.map((input) => input.txHash)));
+  const outputsByTx = new Map(
+    await Promise.all(txHashes.map(async (txHash) => [txHash, await fetchTransactionOutputs(network, txHash)] as const))
+  );
+
+  const resolveInput = (input: ReviewInput): ReviewInput => {
+    const output = outputsByTx.get(input.txHash)?.find((o) => o.output_index === input.outputIndex);
+    if (!output) return input;
+    return { ...input, address: output.address, amount: output.amount, isOwn: ownAddresses.includes(output.address) };
+  };
+  const inputs = review.inputs.map(resolveInput);
+
+  const netChange = computeAssetMovements(
+    {
+      inputs: inputs.flatMap((input) =>
+        input.address && input.amount
+          ? [{ address: input.address, amount: input.amount, tx_hash: input.txHash, output_index: input.outputIndex }]
+          : []
+      ),
+      outputs: review.outputs.map((output, index) => ({
+        address: output.address,
+        amount: output.amount,
+        tx_hash: review.txHash,
+        output_index: index,
+      })),
+    },
+    ownAddresses
+  );
+
+  const slotTime = (slot?: string) =>
+    slot ? slotToBeginUnixTime(Number(slot), SLOT_CONFIG_NETWORK[network]) : undefined;
+
+  return {
+    ...review,
+    inputs,
+    inputsResolved: inputs.every((input) => input.address),
+    netChange,
+    collateral: review.collateral.map(resolveInput),
+    referenceInputs: review.referenceInputs.map(resolveInput),
+    validFromTime: slotTime(review.validFrom),
+    validUntilTime: slotTime(review.validUntil),
+  };
+};
@@ -86,6 +86,64 @@ export interface TransactionInfo {
   outputs?: TransactionUTxO[];
   direction?: "incoming" | "outgoing" | "self";
   amount?: string; // Net ADA change
+  netLovelace?: string; // Exact net ADA change in lovelace, negative when ADA left the wallet
+  counterparties?: string[]; // Other side: recipients if outgoing, senders if incoming
+  kind?: TransactionKind;
+  assetMovements?: AssetMovement[]; // Net token change for the wallet (lovelace excluded)
+  withdrawal?: string; // Rewards withdrawn (lovelace)
+  certificates?: TransactionCertificate[];
+  metadata?: TransactionMetadataEntry[];
+  message?: string; // CIP-20 note (metadata label 674)
+  encryptedMessage?: string; // CIP-20 note encrypted with enc: "basic" (base64)
+}
+
+/**
+ * What a transaction did from the wallet's point of view
+ */
+export type TransactionKind =
+  | "send"
+  | "receive"
+  | "self"
+  | "swap"
+  | "delegation"
+  | "vote_delegation"
+  | "withdrawal"
+  | "mint";
+
+/**
+ * Net change of one asset for the wallet (negative when it left the wallet)
+ */
+export interface AssetMovement {
+  unit: string;
+  quantity: string;
+}
+
+/**
+ * Certificate included in a transaction
+ */
+export interface TransactionCertificate {
+  type:
+    | "stake_registration"
+    | "stake_deregistration"
+    | "stake_delegation"
+    | "vote_delegation"
+    | "stake_vote_delegation"
+    | "drep_registration"
+    | "drep_deregistration"
+    | "drep_update"
+    | "other";
+  stakeCredential?: string; // Key or script hash (hex)
+  pool?: string; // Bech32 pool ID
+  drep?: string; // Bech32 DRep ID, "always_abstain" or "always_no_confidence"
+  deposit?: string; // Explicit deposit (lovelace), Conway certificates only
+}
+
+/**
+ * Metadata attached to a transaction, as returned by Blockfrost
+ */
+export interface TransactionMetadataEntry {
+  label: string;
+  json: unknown;
 }
 
 export interface TransactionUTxO {
@@ -101,6 +159,14 @@ export interface WalletBalance {
   assets: WalletAsset[];
 }
 
+/**
+ * Which keys to derive from a mnemonic (CIP-1852 m/1852'/1815'/account')
+ */
+export interface DerivationOptions {
+  accountIndex?: number; // Defaults to 0
+  password?: string; // BIP-39 passphrase ("25th word"), none when empty
+}
+
 /**
  * Format lovelace to ADA string
  */
@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { createWalletFromMnemonic, getWalletDerivation } from './wallet';
+import { generateMnemonic } from './mnemonic';
+
+describe('createWalletFromMnemonic accounts', () => {
+  it('derives a separate address and stake key per account index', async () => {
+    const mnemonic = generateMnemonic(24);
+    const first = await createWalletFromMnemonic(mnemonic, 'preprod');
+    const second = await createWalletFromMnemonic(mnemonic, 'preprod', { accountIndex: 1 });
+
+    expect(getWalletDerivation(first.wallet)).toEqual({ accountIndex: 0 });
+    expect(getWalletDerivation(second.wallet)).toEqual({ accountIndex: 1 });
+    expect(second.address).not.toBe(first.address);
+    expect((await second.wallet.getRewardAddresses())[0]).not.toBe((await first.wallet.getRewardAddresses())[0]);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getAddressesBalance } from './wallet';
+
+const FIRST = 'addr_test1first';
+const SECOND = 'addr_test1second';
+const TOKEN = '11'.repeat(28) + '746f6b656e';
+
+const addressUtxo = (address: string, lovelace: string, assets: { unit: string; quantity: string }[] = []) => ({
+  address,
+  tx_hash: '00'.repeat(32),
+  output_index: 0,
+  amount: [{ unit: 'lovelace', quantity: lovelace }, ...assets],
+});
+
+describe('getAddressesBalance', () => {
+  beforeEach(() => {
+    vi.stubEnv('NEXT_PUBLIC_BLOCKFROST_KEY_PREPROD', 'preprodTestKey');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('sums the UTxOs of every address', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        if (url.includes(`/addresses/${FIRST}/`)) {
+          return new Response(JSON.stringify([addressUtxo(FIRST, '2000000', [{ unit: TOKEN, quantity: '5' }])]));
+        }
+        if (url.includes(`/addresses/${SECOND}/`)) {
+          return new Response(JSON.stringify([addressUtxo(SECOND, '3500000', [{ unit: TOKEN, quantity: '7' }])]));
+        }
+        return new Response('{}', { status: 404 });
+      })
+    );
+
+    const balance = await getAddressesBalance([FIRST, SECOND], 'preprod');
+
+    expect(balance.lovelace).toBe('5500000');
+    expect(balance.assets).toEqual([{ unit: TOKEN, quantity: '12' }]);
+  });
+
+  it('counts an address Blockfrost has never seen as empty', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 404 })));
+
+    expect((await getAddressesBalance([FIRST], 'preprod')).lovelace).toBe('0');
+  });
+
+  it('fails instead of reporting 0 ADA when a lookup fails', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) =>
+        url.includes(`/addresses/${SECOND}/`)
+          ? new Response('{}', { status: 500 })
+          : new Response(JSON.stringify([addressUtxo(FIRST, '2000000')]))
+      )
+    );
+
+    await expect(getAddressesBalance([FIRST, SECOND], 'preprod')).rejects.toThrow('Blockfrost API error: 500');
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BlockfrostProvider, DEFAULT_PROTOCOL_PARAMETERS, type MeshWallet } from '@meshsdk/core';
+import { previewConsolidation } from './wallet';
+
+const ADDRESS =
+  'addr_test1qz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3jcu5d8ps7zex2k2xt3uqxgjqnnj83ws8lhrn648jjxtwq2ytjqp';
+
+const fakeWallet = {
+  getChangeAddress: async () => ADDRESS,
+  getUsedAddresses: async () => [ADDRESS],
+} as unknown as MeshWallet;
+
+const addressUtxo = (index: number, lovelace: string, assets: { unit: string; quantity: string }[] = []) => ({
+  address: ADDRESS,
+  tx_hash: index.toString(16).padStart(64, '0'),
+  output_index: 0,
+  amount: [{ unit: 'lovelace', quantity: lovelace }, ...assets],
+});
+
+// Ten distinct policies per UTxO, as left behind by airdrops
+const airdropTokens = (index: number) =>
+  Array.from({ length: 10 }, (_, i) => ({
+    unit: (index * 10 + i).toString(16).padStart(56, '0') + '746f6b656e',
+    quantity: '1',
+  }));
+
+const mockAddressUtxos = (utxos: ReturnType<typeof addressUtxo>[]) => {
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async () => new Response(JSON.stringify(utxos), { status: 200 }))
+  );
+};
+
+describe('UTxO consolidation', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.stubEnv('NEXT_PUBLIC_BLOCKFROST_KEY_PREPROD', 'preprodTestKey');
+    vi.spyOn(BlockfrostProvider.prototype, 'fetchProtocolParameters').mockResolvedValue(DEFAULT_PROTOCOL_PARAMETERS);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('merges into one output and keeps the 5 ADA collateral intact', async () => {
+    const collateral = addressUtxo(1, '5000000');
+    mockAddressUtxos([addressUtxo(2, '1200000'), collateral, addressUtxo(3, '1500000'), addressUtxo(4, '30000000')]);
+
+    const result = await previewConsolidation(fakeWallet, 'preprod');
+
+    expect(result.success).toBe(true);
+    const plan = result.plan!;
+    expect(plan.collateralRef).toBe(`${collateral.tx_hash}#0`);
+    expect(plan.batches).toHaveLength(1);
+    expect(plan.inputCount).toBe(3);
+    expect(plan.outputCount).toBe(1);
+    expect(plan.skippedCount).toBe(1);
+    expect(plan.batches[0].inputs).not.toContain(plan.collateralRef);
+    expect(BigInt(plan.batches[0].lovelace) + BigInt(plan.totalFee)).toBe(BigInt(32_700_000));
+  });
+
+  it('only sweeps dust and leaves frozen UTxOs alone', async () => {
+    const frozen = addressUtxo(3, '1100000');
+    mockAddressUtxos([addressUtxo(1, '1000000'), addressUtxo(2, '1300000'), frozen, addressUtxo(4, '30000000')]);
+
+    const result = await previewConsolidation(fakeWallet, 'preprod', {
+      dustThreshold: '2000000',
+      coinControl: { frozen: [`${frozen.tx_hash}#0`] },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.plan!.inputCount).toBe(2);
+    expect(result.plan!.skippedCount).toBe(2);
+  });
+
+  it('splits over several transactions that fit the max transaction size', async () => {
+    mockAddressUtxos(Array.from({ length: 60 }, (_, i) => addressUtxo(i + 1, '3500000', airdropTokens(i))));
+
+    const result = await previewConsolidation(fakeWallet, 'preprod');
+
+    expect(result.success).toBe(true);
+    const { batches, inputCount } = result.plan!;
+    expect(batches.length).toBeGreaterThan(1);
+    expect(inputCount).toBe(60);
+    for (const batch of batches) {
+      expect(batch.size).toBeLessThanOrEqual(DEFAULT_PROTOCOL_PARAMETERS.maxTxSize);
+    }
+    expect(batches.reduce((sum, batch) => sum + batch.assetCount, 0)).toBe(600);
+  });
+
+  it('reports when there is nothing to merge', async () => {
+    mockAddressUtxos([addressUtxo(1, '5000000'), addressUtxo(2, '20000000')]);
+
+    const result = await previewConsolidation(fakeWallet, 'preprod');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Nothing to consolidate/);
+  });
+});
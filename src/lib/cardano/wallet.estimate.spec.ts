@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BlockfrostProvider, DEFAULT_PROTOCOL_PARAMETERS, type MeshWallet } from '@meshsdk/core';
+import { calculateMinLovelace, estimateMultiAssetTransaction } from './wallet';
+
+const ADDRESS =
+  'addr_test1qz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3jcu5d8ps7zex2k2xt3uqxgjqnnj83ws8lhrn648jjxtwq2ytjqp';
+const TOKEN = 'a0028f350aaabe0545fdcb56b039bfb08e4bb4d8c4d7c3c7d481c235484f534b59';
+
+const OTHER_ADDRESS =
+  'addr_test1vz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzerspjrlsz';
+
+const fakeWallet = (lovelace: string, assets: { unit: string; quantity: string }[] = []) =>
+  ({
+    getUtxos: async () => [
+      {
+        input: { txHash: 'ab'.repeat(32), outputIndex: 0 },
+        output: { address: ADDRESS, amount: [{ unit: 'lovelace', quantity: lovelace }, ...assets] },
+      },
+    ],
+    getChangeAddress: async () => ADDRESS,
+  }) as unknown as MeshWallet;
+
+// Distinct policies so the bundle outgrows the 5000 byte max value size
+const manyTokens = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({
+    unit: i.toString(16).padStart(56, '0') + '746f6b656e',
+    quantity: '1',
+  }));
+
+describe('min-UTxO and dry-run estimation', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(BlockfrostProvider.prototype, 'fetchProtocolParameters').mockResolvedValue(DEFAULT_PROTOCOL_PARAMETERS);
+  });
+
+  it('requires more ADA for outputs carrying tokens', () => {
+    const pureAda = calculateMinLovelace(ADDRESS, [{ unit: 'lovelace', quantity: '1000000' }]);
+    const withToken = calculateMinLovelace(ADDRESS, [{ unit: TOKEN, quantity: '1' }]);
+    expect(pureAda).toBeGreaterThan(BigInt(900_000));
+    expect(pureAda).toBeLessThan(BigInt(1_000_000));
+    expect(withToken).toBeGreaterThan(pureAda);
+  });
+
+  it('reports the real fee, recipient output and change', async () => {
+    const result = await estimateMultiAssetTransaction(
+      fakeWallet('10000000'),
+      ADDRESS,
+      [{ unit: 'lovelace', quantity: '2000000' }],
+      'preprod'
+    );
+
+    expect(result.success).toBe(true);
+    const { fee, outputs, change } = result.estimate!;
+    expect(BigInt(fee)).toBeGreaterThan(BigInt(155_381));
+    expect(outputs[0].amounts).toEqual([{ unit: 'lovelace', quantity: '2000000' }]);
+    expect(change).toHaveLength(1);
+    expect(BigInt(change[0].amounts[0].quantity) + BigInt(fee)).toBe(BigInt(8_000_000));
+  });
+
+  it('tops up lovelace to the min-UTxO of a token output', async () => {
+    const result = await estimateMultiAssetTransaction(
+      fakeWallet('10000000', [{ unit: TOKEN, quantity: '5' }]),
+      ADDRESS,
+      [{ unit: TOKEN, quantity: '2' }],
+      'preprod'
+    );
+
+    expect(result.success).toBe(true);
+    const [output] = result.estimate!.outputs;
+    expect(output.amounts[0].quantity).toBe(output.minLovelace);
+    expect(output.amounts[1]).toEqual({ unit: TOKEN, quantity: '2' });
+    expect(result.estimate!.change[0].amounts[1]).toEqual({ unit: TOKEN, quantity: '3' });
+  });
+
+  it('rejects pure ADA amounts below the min-UTxO', async () => {
+    const result = await estimateMultiAssetTransaction(
+      fakeWallet('10000000'),
+      ADDRESS,
+      [{ unit: 'lovelace', quantity: '500000' }],
+      'preprod'
+    );
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Minimum send amount');
+  });
+
+  describe('send-all', () => {
+    const sumLovelace = (outputs: { amounts: { unit: string; quantity: string }[] }[]) =>
+      outputs.reduce((sum, output) => sum + BigInt(output.amounts[0].quantity), BigInt(0));
+
+    it('sends all ADA after fees and keeps tokens in a min-UTxO output', async () => {
+      const result = await estimateMultiAssetTransaction(
+        fakeWallet('10000000', [{ unit: TOKEN, quantity: '5' }]),
+        OTHER_ADDRESS,
+        [],
+        'preprod',
+        { sendAll: true }
+      );
+
+      expect(result.success).toBe(true);
+      const { fee, outputs, change } = result.estimate!;
+      expect(outputs).toHaveLength(1);
+      expect(outputs[0].address).toBe(OTHER_ADDRESS);
+      expect(outputs[0].amounts).toHaveLength(1);
+      expect(change).toHaveLength(1);
+      expect(change[0].amounts[0].quantity).toBe(change[0].minLovelace);
+      expect(change[0].amounts[1]).toEqual({ unit: TOKEN, quantity: '5' });
+      expect(sumLovelace(outputs) + sumLovelace(change) + BigInt(fee)).toBe(BigInt(10_000_000));
+    });
+
+    it('empties the wallet, splitting bundles over the max value size', async () => {
+      const tokens = manyTokens(200);
+      const result = await estimateMultiAssetTransaction(
+        fakeWallet('500000000', tokens),
+        OTHER_ADDRESS,
+        [],
+        'preprod',
+        { sendAll: true, sweepAssets: true }
+      );
+
+      expect(result.success).toBe(true);
+      const { fee, outputs, change } = result.estimate!;
+      expect(change).toHaveLength(0);
+      expect(outputs.length).toBeGreaterThan(1);
+      expect(outputs.flatMap((output) => output.amounts.slice(1))).toHaveLength(tokens.length);
+      expect(sumLovelace(outputs) + BigInt(fee)).toBe(BigInt(500_000_000));
+    });
+  });
+});
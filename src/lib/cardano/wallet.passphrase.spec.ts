@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { walletFromSeed } from '@lucid-evolution/lucid';
+import { createWalletFromMnemonic, getWalletDerivation } from './wallet';
+import { deriveAccountPublicKey, deriveBaseAddress } from './discovery';
+import { generateMnemonic } from './mnemonic';
+
+describe('createWalletFromMnemonic passphrase', () => {
+  it('derives the same wallet as Lucid for a BIP-39 passphrase', async () => {
+    const mnemonic = generateMnemonic(24);
+    const plain = await createWalletFromMnemonic(mnemonic, 'preprod');
+    const protectedWallet = await createWalletFromMnemonic(mnemonic, 'preprod', { password: 'correct horse' });
+
+    expect(getWalletDerivation(protectedWallet.wallet)).toEqual({ accountIndex: 0, password: 'correct horse' });
+    expect(protectedWallet.address).not.toBe(plain.address);
+    expect(protectedWallet.address).toBe(
+      walletFromSeed(mnemonic, { password: 'correct horse', network: 'Preprod' }).address
+    );
+    expect(deriveBaseAddress(deriveAccountPublicKey(mnemonic, { password: 'correct horse' }), 0, 'external', 0)).toBe(
+      protectedWallet.address
+    );
+  });
+});
@@ -1,14 +1,36 @@
 
-import { BlockfrostProvider, MeshWallet, MeshTxBuilder } from "@meshsdk/core";
+import {
+  BlockfrostProvider,
+  MeshWallet,
+  MeshTxBuilder,
+  DEFAULT_PROTOCOL_PARAMETERS,
+  core,
+  cst,
+  type Protocol,
+  type UTxO,
+} from "@meshsdk/core";
 import {
   getBlockfrostApiKey,
   getBlockfrostUrl,
   getCurrentNetwork,
   WalletBalance,
-  TransactionInfo,
   lovelaceToAda,
   type CardanoNetwork,
+  type DerivationOptions,
 } from "./types";
+import {
+  CIP20_LABEL,
+  buildCip20Metadata,
+  encryptCip20Metadata,
+} from "./cip20";
+import { applyCoinControl, getUtxoRef, toWalletUtxo, type CoinControl, type WalletUtxo } from "./coin-control";
+import {
+  deriveRootKey,
+  derivePaymentKeys,
+  getSpendingAddresses,
+  type AddressDiscovery,
+  type DiscoveredAddress,
+} from "./discovery";
 
 // ================================
 // ADA HANDLE CONFIGURATION
@@ -120,6 +142,28 @@ export const resolveRecipient = async (input: string): Promise<{
 // Minimum collateral amount (5 ADA recommended for most smart contracts)
 const MIN_COLLATERAL_LOVELACE = "5000000"; // 5 ADA
 
+/**
+ * Pick the UTxO that serves as collateral from a list of UTxOs
+ * Prefers pure ADA between 5 and 10 ADA, then any pure ADA UTxO of at least 5 ADA.
+ *
+ * @param utxos - Wallet UTxOs
+ * @returns The collateral UTxO or undefined
+ */
+const findCollateralUtxo = (utxos: UTxO[]): UTxO | undefined => {
+  const pureAda = utxos.filter(
+    (utxo) => utxo.output.amount.length === 1 && utxo.output.amount[0].unit === "lovelace"
+  );
+  const lovelaceOf = (utxo: UTxO) => BigInt(utxo.output.amount[0].quantity);
+  const minCollateral = BigInt(MIN_COLLATERAL_LOVELACE);
+  const maxCollateral = BigInt("10000000"); // 10 ADA
+
+  // Optimal: between 5-10 ADA
+  return (
+    pureAda.find((utxo) => lovelaceOf(utxo) >= minCollateral && lovelaceOf(utxo) <= maxCollateral) ||
+    pureAda.find((utxo) => lovelaceOf(utxo) >= minCollateral)
+  );
+};
+
 /**
  * Check if wallet has suitable collateral UTxO
  * 
@@ -138,46 +182,16 @@ export const getCollateralUtxo = async (wallet: MeshWallet): Promise<{
       return null;
     }
 
-    // Find a suitable UTxO for collateral:
-    // - Pure ADA (no native assets)
-    // - Between 5-10 ADA (optimal for collateral)
-    for (const utxo of utxos) {
-      const hasOnlyLovelace = utxo.output.amount.length === 1 && 
-                              utxo.output.amount[0].unit === "lovelace";
-      
-      if (hasOnlyLovelace) {
-        const lovelace = BigInt(utxo.output.amount[0].quantity);
-        const minCollateral = BigInt(MIN_COLLATERAL_LOVELACE);
-        const maxCollateral = BigInt("10000000"); // 10 ADA
-        
-        if (lovelace >= minCollateral && lovelace <= maxCollateral) {
-          return {
-            txHash: utxo.input.txHash,
-            outputIndex: utxo.input.outputIndex,
-            amount: lovelace.toString(),
-          };
-        }
-      }
-    }
-
-    // If no perfect UTxO found, look for any UTxO with only ADA >= 5 ADA
-    for (const utxo of utxos) {
-      const hasOnlyLovelace = utxo.output.amount.length === 1 && 
-                              utxo.output.amount[0].unit === "lovelace";
-      
-      if (hasOnlyLovelace) {
-        const lovelace = BigInt(utxo.output.amount[0].quantity);
-        if (lovelace >= BigInt(MIN_COLLATERAL_LOVELACE)) {
-          return {
-            txHash: utxo.input.txHash,
-            outputIndex: utxo.input.outputIndex,
-            amount: lovelace.toString(),
-          };
-        }
-      }
+    const collateral = findCollateralUtxo(utxos);
+    if (!collateral) {
+      return null;
     }
 
-    return null;
+    return {
+      txHash: collateral.input.txHash,
+      outputIndex: collateral.input.outputIndex,
+      amount: collateral.output.amount[0].quantity,
+    };
   } catch (error) {
     console.error("Error getting collateral UTxO:", error);
     return null;
@@ -200,9 +214,10 @@ export const hasCollateral = async (wallet: MeshWallet): Promise<boolean> => {
  * Sends 5 ADA to self to create a clean collateral UTxO
  * 
  * @param wallet - MeshWallet instance
+ * @param coinControl - Optional restriction of the UTxOs used to fund the collateral
  * @returns Transaction result
  */
-export const setupCollateral = async (wallet: MeshWallet): Promise<{
+export const setupCollateral = async (wallet: MeshWallet, coinControl?: CoinControl): Promise<{
   success: boolean;
   txHash?: string;
   error?: string;
@@ -216,9 +231,9 @@ export const setupCollateral = async (wallet: MeshWallet): Promise<{
 
     // Get wallet address and UTxOs
     const changeAddress = await wallet.getChangeAddress();
-    const utxos = await wallet.getUtxos();
+    const utxos = applyCoinControl((await wallet.getUtxos()) || [], coinControl);
 
-    if (!utxos || utxos.length === 0) {
+    if (utxos.length === 0) {
       return { success: false, error: "No UTxOs available" };
     }
 
@@ -314,15 +329,26 @@ export const createBlockfrostProvider = (network?: CardanoNetwork): BlockfrostPr
   return new BlockfrostProvider(apiKey);
 };
 
+/**
+ * Derivation options a wallet instance was created with
+ * Lucid-based flows re-derive keys from the mnemonic and need the same account.
+ */
+export const getWalletDerivation = (wallet: MeshWallet): DerivationOptions => {
+  return (wallet as MeshWallet & { _derivation?: DerivationOptions })._derivation || { accountIndex: 0 };
+};
+
 /**
  * Create a new wallet instance from mnemonic
  * 
  * @param mnemonic - BIP-39 mnemonic phrase
+ * @param networkOverride - Network to use instead of the configured one
+ * @param derivation - Account and BIP-39 passphrase to derive (account 0, no passphrase by default)
  * @returns Wallet instance with address and network info
  */
 export const createWalletFromMnemonic = async (
   mnemonic: string,
-  networkOverride?: CardanoNetwork
+  networkOverride?: CardanoNetwork,
+  derivation: DerivationOptions = {}
 ): Promise<CardanoWalletInstance> => {
   try {
     const network = networkOverride || getCurrentNetwork();
@@ -335,15 +361,20 @@ export const createWalletFromMnemonic = async (
       // ignore and continue with original mnemonic
     }
 
-    const wallet = new MeshWallet({
+    const wallet: MeshWallet & { _derivation?: DerivationOptions } = new MeshWallet({
       networkId,
       fetcher: createBlockfrostProvider(network),
       submitter: createBlockfrostProvider(network),
-      key: {
-        type: "mnemonic",
-        words: String(mnemonic).trim().split(/\s+/),
-      },
+      // MeshWallet has no passphrase option, so passphrase wallets start from the root key
+      key: derivation.password
+        ? { type: "root", bech32: deriveRootKey(mnemonic, derivation.password).to_bech32() }
+        : { type: "mnemonic", words: String(mnemonic).trim().split(/\s+/) },
+      accountIndex: derivation.accountIndex || 0,
     });
+    wallet._derivation = {
+      accountIndex: derivation.accountIndex || 0,
+      ...(derivation.password && { password: derivation.password }),
+    };
 
     // Attach mnemonic to instance for backward compatibility with CSL-based flows
     try {
@@ -451,226 +482,210 @@ export const getWalletBalance = async (
 };
 
 /**
- * Get wallet transaction history with direction and amount
- * 
- * @param address - Wallet address
- * @returns Array of transaction info
+ * Get the combined balance of several addresses
+ *
+ * @param addresses - Wallet addresses, see getDiscoveredWalletAddresses
+ * @returns Balance summed over the UTxOs of every address
+ * @throws If the UTxOs of any address cannot be loaded
  */
-export const getTransactionHistory = async (
-  address: string
-): Promise<TransactionInfo[]> => {
-  try {
-    const apiKey = getBlockfrostApiKey();
-    const baseUrl = getBlockfrostUrl();
-
-    if (!apiKey) {
-      console.warn("Blockfrost API key not set. Cannot fetch transactions.");
-      return [];
-    }
+export const getAddressesBalance = async (addresses: string[], network?: CardanoNetwork): Promise<WalletBalance> => {
+  const utxoLists = await Promise.all(addresses.map((address) => getAddressUtxos(address, network)));
+  const totals = new Map<string, bigint>();
 
-    if (!address) {
-      return [];
-    }
-
-    // Fetch transactions from Blockfrost
-    const response = await fetch(
-      `${baseUrl}/addresses/${address}/transactions?order=desc`,
-      {
-        headers: {
-          project_id: apiKey,
-        },
-      }
-    );
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        // Address not found - likely new wallet with no transactions
-        return [];
-      }
-      throw new Error(`Blockfrost API error: ${response.status}`);
+  for (const utxo of utxoLists.flat()) {
+    for (const { unit, quantity } of utxo.amount) {
+      totals.set(unit, (totals.get(unit) || BigInt(0)) + BigInt(quantity));
     }
+  }
 
-    const transactions = await response.json();
+  const lovelace = (totals.get("lovelace") || BigInt(0)).toString();
+  const assets = Array.from(totals.entries())
+    .filter(([unit]) => unit !== "lovelace")
+    .map(([unit, quantity]) => ({ unit, quantity: quantity.toString() }));
 
-    // Fetch UTxO details for each transaction to determine direction and amount
-    const transactionsWithDetails = await Promise.all(
-      transactions.slice(0, 20).map(async (tx: { tx_hash: string; block_height: number; block_time: number; tx_index: number }) => {
-        try {
-          // Get transaction UTxOs
-          const utxoResponse = await fetch(`${baseUrl}/txs/${tx.tx_hash}/utxos`, {
-            headers: { project_id: apiKey },
-          });
-          
-          if (!utxoResponse.ok) {
-            return {
-              hash: tx.tx_hash,
-              blockHeight: tx.block_height,
-              blockTime: tx.block_time,
-              index: tx.tx_index,
-            };
-          }
+  return {
+    lovelace,
+    ada: lovelaceToAda(lovelace),
+    assets,
+  };
+};
 
-          const utxoData = await utxoResponse.json();
-          
-          // Calculate amounts for this address
-          let inputAmount = BigInt(0);
-          let outputAmount = BigInt(0);
-          
-          // Check inputs (what this address sent)
-          for (const input of utxoData.inputs || []) {
-            if (input.address === address) {
-              for (const amount of input.amount || []) {
-                if (amount.unit === "lovelace") {
-                  inputAmount += BigInt(amount.quantity);
-                }
-              }
-            }
-          }
-          
-          // Check outputs (what this address received)
-          for (const output of utxoData.outputs || []) {
-            if (output.address === address) {
-              for (const amount of output.amount || []) {
-                if (amount.unit === "lovelace") {
-                  outputAmount += BigInt(amount.quantity);
-                }
-              }
-            }
-          }
-          
-          // Determine direction and net amount
-          let direction: "incoming" | "outgoing" | "self" = "self";
-          let netAmount = BigInt(0);
-          
-          if (inputAmount > BigInt(0) && outputAmount > BigInt(0)) {
-            // Both input and output - could be self-send or change
-            netAmount = outputAmount - inputAmount;
-            if (netAmount > BigInt(0)) {
-              direction = "incoming";
-            } else if (netAmount < BigInt(0)) {
-              direction = "outgoing";
-              netAmount = -netAmount; // Make positive
-            } else {
-              direction = "self";
-            }
-          } else if (outputAmount > BigInt(0)) {
-            // Only output - incoming
-            direction = "incoming";
-            netAmount = outputAmount;
-          } else if (inputAmount > BigInt(0)) {
-            // Only input - outgoing
-            direction = "outgoing";
-            netAmount = inputAmount;
-          }
-          
-          // Convert to ADA (6 decimal places)
-          const amountAda = (Number(netAmount) / 1_000_000).toFixed(2);
-          
-          return {
-            hash: tx.tx_hash,
-            blockHeight: tx.block_height,
-            blockTime: tx.block_time,
-            index: tx.tx_index,
-            direction,
-            amount: amountAda,
-          };
-        } catch (err) {
-          console.error(`Error fetching UTxOs for tx ${tx.tx_hash}:`, err);
-          return {
-            hash: tx.tx_hash,
-            blockHeight: tx.block_height,
-            blockTime: tx.block_time,
-            index: tx.tx_index,
-          };
-        }
-      })
-    );
+/**
+ * UTxO as returned by Blockfrost's /addresses/{address}/utxos
+ */
+export interface AddressUtxo {
+  address: string;
+  tx_hash: string;
+  output_index: number;
+  amount: { unit: string; quantity: string }[];
+  data_hash?: string | null;
+  inline_datum?: string | null;
+  reference_script_hash?: string | null;
+}
 
-    return transactionsWithDetails;
-  } catch (error) {
-    console.error("Error fetching transaction history:", error);
-    return [];
-  }
-};
+// Blockfrost returns at most 100 UTxOs per page
+const UTXO_PAGE_SIZE = 100;
 
 /**
- * Get detailed transaction info
- * 
- * @param txHash - Transaction hash
- * @returns Detailed transaction info
+ * Get UTxOs for address (all pages)
+ * Throws if the lookup fails, so a failed request is never read as an empty address.
  */
-export const getTransactionDetails = async (
-  txHash: string
-): Promise<TransactionInfo | null> => {
-  try {
-    const apiKey = getBlockfrostApiKey();
-    const baseUrl = getBlockfrostUrl();
+export const getAddressUtxos = async (address: string, network?: CardanoNetwork): Promise<AddressUtxo[]> => {
+  const apiKey = getBlockfrostApiKey(network);
+  const baseUrl = getBlockfrostUrl(network);
 
-    if (!apiKey) {
-      console.warn("Blockfrost API key not set.");
-      return null;
-    }
+  if (!apiKey) {
+    throw new Error("Blockfrost API key not set");
+  }
 
-    const response = await fetch(`${baseUrl}/txs/${txHash}`, {
+  const utxos: AddressUtxo[] = [];
+  for (let page = 1; ; page++) {
+    const response = await fetch(`${baseUrl}/addresses/${address}/utxos?count=${UTXO_PAGE_SIZE}&page=${page}`, {
       headers: {
         project_id: apiKey,
       },
     });
 
     if (!response.ok) {
+      if (response.status === 404) {
+        return utxos;
+      }
       throw new Error(`Blockfrost API error: ${response.status}`);
     }
 
-    const tx = await response.json();
-
-    return {
-      hash: tx.hash,
-      blockHeight: tx.block_height,
-      blockTime: tx.block_time,
-      slot: tx.slot,
-      index: tx.index,
-      fees: tx.fees,
-      deposit: tx.deposit,
-      size: tx.size,
-    };
-  } catch (error) {
-    console.error("Error fetching transaction details:", error);
-    return null;
+    const pageUtxos: AddressUtxo[] = await response.json();
+    utxos.push(...pageUtxos);
+    if (pageUtxos.length < UTXO_PAGE_SIZE) {
+      return utxos;
+    }
   }
 };
 
 /**
- * Get UTxOs for address
+ * Convert a Blockfrost address UTxO into Mesh's UTxO shape
  */
-export const getAddressUtxos = async (address: string, network?: CardanoNetwork) => {
-  try {
-    const apiKey = getBlockfrostApiKey(network);
-    const baseUrl = getBlockfrostUrl(network);
+const fromAddressUtxo = (utxo: AddressUtxo): UTxO => ({
+  input: { txHash: utxo.tx_hash, outputIndex: utxo.output_index },
+  output: {
+    address: utxo.address,
+    amount: utxo.amount,
+    dataHash: utxo.data_hash || undefined,
+    plutusData: utxo.inline_datum || undefined,
+    scriptHash: utxo.reference_script_hash || undefined,
+  },
+});
 
-    if (!apiKey) {
-      return [];
+/**
+ * Let a wallet instance spend from every discovered address
+ *
+ * MeshWallet only fetches UTxOs of the first address and signs with its key.
+ * The instance is patched so the transaction builders see the UTxOs of all
+ * used addresses, and signTx adds a witness for each other address an input
+ * is spent from. Sends, consolidation, Mesh staking and governance, and CIP-30
+ * requests all go through these calls; Lucid staking does the same in lucid-stake.ts.
+ *
+ * @param wallet - Instance from createWalletFromMnemonic
+ * @param discovery - Result of discoverAddresses for the same account
+ */
+export const spendFromDiscoveredAddresses = (
+  wallet: MeshWallet,
+  discovery: AddressDiscovery,
+  network: CardanoNetwork
+): void => {
+  const getUnspentOutputs = wallet.getUnspentOutputs.bind(wallet);
+  const signTx = wallet.signTx.bind(wallet);
+  // Address each fetched UTxO sits at, keyed by "txHash#index"
+  const owners = new Map<string, DiscoveredAddress>();
+
+  wallet.getUnspentOutputs = async (addressType = "payment") => {
+    if (addressType !== "payment") return getUnspentOutputs(addressType);
+
+    const addresses = await getSpendingAddresses(discovery, network);
+    const utxoLists = await Promise.all(
+      addresses.map(async (owner) => ({
+        owner,
+        utxos: (await getAddressUtxos(owner.address, network)).map(fromAddressUtxo),
+      }))
+    );
+
+    owners.clear();
+    for (const { owner, utxos } of utxoLists) {
+      for (const utxo of utxos) owners.set(getUtxoRef(utxo), owner);
     }
+    return utxoLists.flatMap(({ utxos }) => utxos.map((utxo) => cst.toTxUnspentOutput(utxo)));
+  };
 
-    const response = await fetch(`${baseUrl}/addresses/${address}/utxos`, {
-      headers: {
-        project_id: apiKey,
-      },
-    });
+  wallet.getUsedAddresses = async () => (await getSpendingAddresses(discovery, network)).map((a) => a.address);
 
-    if (!response.ok) {
-      if (response.status === 404) {
-        return [];
-      }
-      throw new Error(`Blockfrost API error: ${response.status}`);
+  wallet.signTx = async (unsignedTx, partialSign = false) => {
+    const signedTx = await signTx(unsignedTx, partialSign);
+    const mnemonic = (wallet as MeshWallet & { _mnemonic?: string })._mnemonic;
+    if (!mnemonic) return signedTx;
+
+    const { csl } = core;
+    const tx = csl.FixedTransaction.from_hex(signedTx);
+    const body = tx.body();
+    const spent = [body.inputs(), body.collateral()].flatMap((inputs) =>
+      Array.from({ length: inputs?.len() || 0 }, (_, i) => inputs!.get(i))
+    );
+
+    // Inputs may come from UTxOs listed before the last fetch (e.g. by a dApp)
+    const refs = spent.map((input) => `${input.transaction_id().to_hex()}#${input.index()}`);
+    if (refs.some((ref) => !owners.has(ref))) await wallet.getUnspentOutputs();
+
+    // MeshWallet already signed for the first external address
+    const signers = new Map<string, DiscoveredAddress>();
+    for (const ref of refs) {
+      const owner = owners.get(ref);
+      if (owner && !(owner.chain === "external" && owner.index === 0)) signers.set(owner.address, owner);
     }
+    if (signers.size === 0) return signedTx;
 
-    return await response.json();
+    for (const key of derivePaymentKeys(mnemonic, getWalletDerivation(wallet), Array.from(signers.values()))) {
+      tx.sign_and_add_vkey_signature(key);
+    }
+    return tx.to_hex();
+  };
+};
+
+/**
+ * List wallet UTxOs for the UTxO manager, flagging the collateral UTxO
+ *
+ * @param wallet - MeshWallet instance
+ * @returns UTxOs, largest ADA amount first
+ */
+export const getWalletUtxos = async (wallet: MeshWallet): Promise<WalletUtxo[]> => {
+  try {
+    const [utxos, collateral] = await Promise.all([wallet.getUtxos(), getCollateralUtxo(wallet)]);
+    const collateralRef = collateral ? `${collateral.txHash}#${collateral.outputIndex}` : null;
+
+    return (utxos || [])
+      .map((utxo) => toWalletUtxo(utxo, collateralRef))
+      .sort((a, b) => (BigInt(b.lovelace) > BigInt(a.lovelace) ? 1 : BigInt(b.lovelace) < BigInt(a.lovelace) ? -1 : 0));
   } catch (error) {
-    console.error("Error fetching UTxOs:", error);
+    console.error("Error listing wallet UTxOs:", error);
     return [];
   }
 };
 
+/**
+ * Wallet UTxOs a transaction may spend under the given coin control
+ * Throws if none are left.
+ */
+const getSpendableUtxos = async (wallet: MeshWallet, coinControl?: CoinControl) => {
+  const utxos = (await wallet.getUtxos()) || [];
+  if (utxos.length === 0) {
+    throw new Error("No UTxOs available in wallet");
+  }
+
+  const spendable = applyCoinControl(utxos, coinControl);
+  if (spendable.length === 0) {
+    throw new Error("No spendable UTxOs: the selected inputs are frozen or already spent");
+  }
+
+  return spendable;
+};
+
 /**
  * Check if address exists on chain (has any UTxOs)
  */
@@ -688,18 +703,147 @@ export interface SendTransactionResult {
   error?: string;
 }
 
+/**
+ * Optional extras shared by the send functions
+ */
+export interface SendOptions {
+  message?: string; // CIP-20 note, stored under metadata label 674
+  messagePassphrase?: string; // If set, the note is encrypted (CIP-20 enc: "basic")
+  coinControl?: CoinControl; // Restrict which UTxOs may be spent
+}
+
+/**
+ * Attach a CIP-20 message to a transaction being built (no-op if empty)
+ */
+const attachMessage = (txBuilder: MeshTxBuilder, options: SendOptions): MeshTxBuilder => {
+  const metadata = options.messagePassphrase !== undefined
+    ? encryptCip20Metadata(options.message, options.messagePassphrase)
+    : buildCip20Metadata(options.message);
+  if (metadata) {
+    txBuilder.metadataValue(CIP20_LABEL, metadata);
+  }
+  return txBuilder;
+};
+
+/**
+ * Transaction output as produced by CSL's TransactionOutput.to_json()
+ */
+interface CslOutputJson {
+  address: string;
+  amount: {
+    coin: string;
+    multiasset: Record<string, Record<string, string>> | null;
+  };
+}
+
+/**
+ * Fetch current protocol parameters, falling back to Mesh defaults
+ * so fee and min-UTxO calculations still work if Blockfrost is unreachable
+ */
+const fetchProtocolParams = async (provider: BlockfrostProvider): Promise<Protocol> => {
+  try {
+    return await provider.fetchProtocolParameters();
+  } catch (error) {
+    console.warn("Failed to fetch protocol parameters, using defaults:", error);
+    return DEFAULT_PROTOCOL_PARAMETERS;
+  }
+};
+
+/**
+ * Convert an address + asset list into a CSL transaction output
+ */
+const toCslOutput = (address: string, amounts: MultiAssetOutput[]) => {
+  let coin = BigInt(0);
+  const multiasset: Record<string, Record<string, string>> = {};
+
+  for (const { unit, quantity } of amounts) {
+    if (unit === "lovelace") {
+      coin += BigInt(quantity);
+      continue;
+    }
+    const policyId = unit.slice(0, 56);
+    const assetName = unit.slice(56);
+    const policy = (multiasset[policyId] = multiasset[policyId] || {});
+    policy[assetName] = (BigInt(policy[assetName] || "0") + BigInt(quantity)).toString();
+  }
+
+  const json: CslOutputJson & { plutus_data: null; script_ref: null } = {
+    address,
+    amount: {
+      coin: coin.toString(),
+      multiasset: Object.keys(multiasset).length > 0 ? multiasset : null,
+    },
+    plutus_data: null,
+    script_ref: null,
+  };
+
+  return core.csl.TransactionOutput.from_json(JSON.stringify(json));
+};
+
+/**
+ * Convert a CSL output JSON back into an address + asset list (lovelace first)
+ */
+const fromCslOutput = (json: CslOutputJson): { address: string; amounts: MultiAssetOutput[] } => {
+  const amounts: MultiAssetOutput[] = [{ unit: "lovelace", quantity: json.amount.coin }];
+
+  for (const [policyId, assets] of Object.entries(json.amount.multiasset || {})) {
+    for (const [assetName, quantity] of Object.entries(assets)) {
+      amounts.push({ unit: policyId + assetName, quantity });
+    }
+  }
+
+  return { address: json.address, amounts };
+};
+
+/**
+ * Minimum lovelace an output must hold for its address and token bundle
+ * (Babbage rule: (160 + serialized output size) * coinsPerUtxoSize)
+ *
+ * @param address - Output address (bech32)
+ * @param amounts - Assets in the output; the lovelace entry may be omitted
+ * @param coinsPerUtxoSize - Protocol parameter (lovelace per byte)
+ * @returns Minimum lovelace for the output
+ */
+export const calculateMinLovelace = (
+  address: string,
+  amounts: MultiAssetOutput[],
+  coinsPerUtxoSize: number = DEFAULT_PROTOCOL_PARAMETERS.coinsPerUtxoSize
+): bigint => {
+  const { csl } = core;
+  const dataCost = csl.DataCost.new_coins_per_byte(csl.BigNum.from_str(String(coinsPerUtxoSize)));
+  return BigInt(csl.min_ada_for_output(toCslOutput(address, amounts), dataCost).to_str());
+};
+
+/**
+ * Map builder/submit errors to a user-facing message
+ */
+const describeSendError = (error: unknown, fallback: string): string => {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (message.includes("INPUTS_EXHAUSTED") || message.includes("insufficient")) {
+    return "Insufficient funds for this transaction";
+  }
+  if (message.includes("MIN_UTXO")) {
+    return "Amount below minimum UTxO requirement. Try adding more ADA.";
+  }
+
+  return message || fallback;
+};
+
 /**
  * Send ADA to a recipient address
  * 
  * @param wallet - MeshWallet instance
  * @param recipientAddress - Recipient's Cardano address
  * @param lovelaceAmount - Amount in lovelace (1 ADA = 1,000,000 lovelace)
+ * @param options - Optional CIP-20 message (plain or encrypted)
  * @returns Transaction result with hash or error
  */
 export const sendTransaction = async (
   wallet: MeshWallet,
   recipientAddress: string,
-  lovelaceAmount: string
+  lovelaceAmount: string,
+  options: SendOptions = {}
 ): Promise<SendTransactionResult> => {
   try {
     // Validate amount
@@ -708,32 +852,34 @@ export const sendTransaction = async (
       return { success: false, error: "Amount must be greater than 0" };
     }
 
-    // Minimum UTxO (approximately 1 ADA)
-    const minUtxo = BigInt(1_000_000);
-    if (amount < minUtxo) {
-      return { success: false, error: "Minimum send amount is 1 ADA" };
-    }
-
     // Create provider for transaction builder with current network
     const network = getCurrentNetwork();
     const provider = createBlockfrostProvider(network);
+    const params = await fetchProtocolParams(provider);
 
-    // Get UTxOs and change address from wallet
-    const utxos = await wallet.getUtxos();
-    const changeAddress = await wallet.getChangeAddress();
-
-    if (!utxos || utxos.length === 0) {
-      return { success: false, error: "No UTxOs available in wallet" };
+    // Minimum UTxO for a pure ADA output to this address
+    const minUtxo = calculateMinLovelace(
+      recipientAddress,
+      [{ unit: "lovelace", quantity: lovelaceAmount }],
+      params.coinsPerUtxoSize
+    );
+    if (amount < minUtxo) {
+      return { success: false, error: `Minimum send amount is ${lovelaceToAda(minUtxo.toString())} ADA` };
     }
 
+    // Get spendable UTxOs and change address from wallet
+    const utxos = await getSpendableUtxos(wallet, options.coinControl);
+    const changeAddress = await wallet.getChangeAddress();
+
     // Build the transaction using MeshTxBuilder
     const txBuilder = new MeshTxBuilder({
       fetcher: provider,
       submitter: provider,
+      params,
       verbose: false,
     });
 
-    const unsignedTx = await txBuilder
+    const unsignedTx = await attachMessage(txBuilder, options)
       .txOut(recipientAddress, [{ unit: "lovelace", quantity: lovelaceAmount }])
       .changeAddress(changeAddress)
       .selectUtxosFrom(utxos)
@@ -772,40 +918,45 @@ export const sendTransaction = async (
  * @param recipientAddress - Recipient's Cardano address
  * @param assetUnit - Asset unit (policy ID + asset name)
  * @param quantity - Amount of asset to send
+ * @param options - Optional CIP-20 message (plain or encrypted)
  * @returns Transaction result with hash or error
  */
 export const sendAssetTransaction = async (
   wallet: MeshWallet,
   recipientAddress: string,
   assetUnit: string,
-  quantity: string
+  quantity: string,
+  options: SendOptions = {}
 ): Promise<SendTransactionResult> => {
   try {
     // Create provider for transaction builder with current network
     const network = getCurrentNetwork();
     const provider = createBlockfrostProvider(network);
+    const params = await fetchProtocolParams(provider);
 
-    // Get UTxOs and change address from wallet
-    const utxos = await wallet.getUtxos();
+    // Get spendable UTxOs and change address from wallet
+    const utxos = await getSpendableUtxos(wallet, options.coinControl);
     const changeAddress = await wallet.getChangeAddress();
 
-    if (!utxos || utxos.length === 0) {
-      return { success: false, error: "No UTxOs available in wallet" };
-    }
-
     // Build the transaction using MeshTxBuilder
     const txBuilder = new MeshTxBuilder({
       fetcher: provider,
       submitter: provider,
+      params,
       verbose: false,
     });
 
-    // Build the transaction with native asset
-    // Native assets must be sent with minimum ADA (for UTxO)
-    const unsignedTx = await txBuilder
+    // Native assets must be sent with the minimum ADA for the output
+    const minLovelace = calculateMinLovelace(
+      recipientAddress,
+      [{ unit: assetUnit, quantity }],
+      params.coinsPerUtxoSize
+    );
+
+    const unsignedTx = await attachMessage(txBuilder, options)
       .txOut(recipientAddress, [
         { unit: assetUnit, quantity },
-        { unit: "lovelace", quantity: "1500000" }, // ~1.5 ADA for UTxO
+        { unit: "lovelace", quantity: minLovelace.toString() },
       ])
       .changeAddress(changeAddress)
       .selectUtxosFrom(utxos)
@@ -837,6 +988,202 @@ export interface MultiAssetOutput {
   quantity: string;   // Amount to send
 }
 
+/**
+ * Unsigned multi-asset transaction produced by the shared builder
+ */
+interface BuiltMultiAssetTransaction {
+  unsignedTx: string;
+  params: Protocol;
+  explicitOutputCount: number; // Outputs added with txOut, before any change outputs
+  changeToRecipient: boolean; // Send-all: the recipient receives the change
+}
+
+/**
+ * Options for sendMultiAssetTransaction and its dry-run
+ */
+export interface MultiAssetSendOptions extends SendOptions {
+  sendAll?: boolean; // Send all ADA left after fees; any lovelace entry in outputs is ignored
+  sweepAssets?: boolean; // With sendAll, move every native asset too (empty the wallet)
+}
+
+/**
+ * Split native assets into bundles whose value fits the protocol max value size
+ */
+const splitIntoBundles = (
+  address: string,
+  assets: MultiAssetOutput[],
+  maxValSize: number
+): MultiAssetOutput[][] => {
+  const bundles: MultiAssetOutput[][] = [];
+  let current: MultiAssetOutput[] = [];
+
+  // Price the bundle with a large coin so its encoded size is an upper bound
+  const valueSize = (bundle: MultiAssetOutput[]) =>
+    toCslOutput(address, [{ unit: "lovelace", quantity: "45000000000000000" }, ...bundle]).amount().to_bytes().length;
+
+  for (const asset of assets) {
+    if (current.length > 0 && valueSize([...current, asset]) > maxValSize) {
+      bundles.push(current);
+      current = [];
+    }
+    current.push(asset);
+  }
+
+  if (current.length > 0) {
+    bundles.push(current);
+  }
+
+  return bundles;
+};
+
+/**
+ * Build (but do not sign) a send-all transaction
+ *
+ * Every spendable UTxO is spent and the recipient is used as the change address,
+ * so it receives all ADA left after fees plus the requested tokens. Tokens
+ * that are kept go back to the wallet in min-UTxO outputs. Change larger than
+ * the max value size is split over several outputs by the builder.
+ */
+const buildSendAllTransaction = async (
+  wallet: MeshWallet,
+  recipientAddress: string,
+  outputs: MultiAssetOutput[],
+  network: CardanoNetwork,
+  options: MultiAssetSendOptions
+): Promise<BuiltMultiAssetTransaction> => {
+  const provider = createBlockfrostProvider(network);
+  const params = await fetchProtocolParams(provider);
+
+  const utxos = await getSpendableUtxos(wallet, options.coinControl);
+  const changeAddress = await wallet.getChangeAddress();
+
+  // Native assets held across the spendable UTxOs
+  const holdings = new Map<string, bigint>();
+  for (const utxo of utxos) {
+    for (const { unit, quantity } of utxo.output.amount) {
+      if (unit === "lovelace") continue;
+      holdings.set(unit, (holdings.get(unit) || BigInt(0)) + BigInt(quantity));
+    }
+  }
+
+  // Unless sweeping, keep whatever the user did not ask to send
+  const kept: MultiAssetOutput[] = [];
+  if (!options.sweepAssets) {
+    const requested = new Map<string, bigint>();
+    for (const { unit, quantity } of outputs) {
+      if (unit === "lovelace") continue;
+      requested.set(unit, (requested.get(unit) || BigInt(0)) + BigInt(quantity));
+    }
+
+    for (const [unit, quantity] of requested) {
+      if ((holdings.get(unit) || BigInt(0)) < quantity) {
+        throw new Error("Insufficient funds for this transaction");
+      }
+    }
+
+    for (const [unit, quantity] of holdings) {
+      const remaining = quantity - (requested.get(unit) || BigInt(0));
+      if (remaining > BigInt(0)) {
+        kept.push({ unit, quantity: remaining.toString() });
+      }
+    }
+  }
+
+  const txBuilder = new MeshTxBuilder({
+    fetcher: provider,
+    submitter: provider,
+    params,
+    verbose: false,
+  });
+
+  attachMessage(txBuilder, options);
+
+  for (const utxo of utxos) {
+    txBuilder.txIn(utxo.input.txHash, utxo.input.outputIndex, utxo.output.amount, utxo.output.address, 0);
+  }
+
+  const keptBundles = splitIntoBundles(changeAddress, kept, params.maxValSize);
+  for (const bundle of keptBundles) {
+    const minLovelace = calculateMinLovelace(changeAddress, bundle, params.coinsPerUtxoSize);
+    txBuilder.txOut(changeAddress, [{ unit: "lovelace", quantity: minLovelace.toString() }, ...bundle]);
+  }
+
+  const unsignedTx = await txBuilder.changeAddress(recipientAddress).complete();
+
+  return { unsignedTx, params, explicitOutputCount: keptBundles.length, changeToRecipient: true };
+};
+
+/**
+ * Build (but do not sign) the transaction sent by sendMultiAssetTransaction
+ *
+ * Lovelace in the recipient output is raised to the min-UTxO for its token
+ * bundle if needed. Throws if a pure ADA amount is below min-UTxO, the wallet
+ * has no UTxOs or coin selection fails.
+ */
+const buildMultiAssetTransaction = async (
+  wallet: MeshWallet,
+  recipientAddress: string,
+  outputs: MultiAssetOutput[],
+  network: CardanoNetwork,
+  options: MultiAssetSendOptions
+): Promise<BuiltMultiAssetTransaction> => {
+  if (options.sendAll) {
+    return buildSendAllTransaction(wallet, recipientAddress, outputs, network, options);
+  }
+
+  const provider = createBlockfrostProvider(network);
+  const params = await fetchProtocolParams(provider);
+
+  // Get spendable UTxOs and change address from wallet
+  const utxos = await getSpendableUtxos(wallet, options.coinControl);
+  const changeAddress = await wallet.getChangeAddress();
+
+  // Separate lovelace from native assets
+  let lovelaceAmount = BigInt(0);
+  const nativeAssets: MultiAssetOutput[] = [];
+
+  for (const output of outputs) {
+    if (output.unit === "lovelace") {
+      lovelaceAmount += BigInt(output.quantity);
+    } else {
+      nativeAssets.push(output);
+    }
+  }
+
+  // Ensure the output carries at least the min-UTxO for its token bundle
+  const minLovelace = calculateMinLovelace(recipientAddress, nativeAssets, params.coinsPerUtxoSize);
+  if (lovelaceAmount < minLovelace) {
+    if (nativeAssets.length === 0) {
+      throw new Error(`Minimum send amount is ${lovelaceToAda(minLovelace.toString())} ADA`);
+    }
+    lovelaceAmount = minLovelace;
+  }
+
+  // Build the output amounts
+  const recipientAmounts: MultiAssetOutput[] = [];
+  if (lovelaceAmount > BigInt(0)) {
+    recipientAmounts.push({ unit: "lovelace", quantity: lovelaceAmount.toString() });
+  }
+  for (const asset of nativeAssets) {
+    recipientAmounts.push({ unit: asset.unit, quantity: asset.quantity });
+  }
+
+  const txBuilder = new MeshTxBuilder({
+    fetcher: provider,
+    submitter: provider,
+    params,
+    verbose: false,
+  });
+
+  const unsignedTx = await attachMessage(txBuilder, options)
+    .txOut(recipientAddress, recipientAmounts)
+    .changeAddress(changeAddress)
+    .selectUtxosFrom(utxos)
+    .complete();
+
+  return { unsignedTx, params, explicitOutputCount: 1, changeToRecipient: false };
+};
+
 /**
  * Send multiple assets in a single transaction
  * Supports ADA + multiple native assets together
@@ -845,77 +1192,28 @@ export interface MultiAssetOutput {
  * @param recipientAddress - Recipient's Cardano address
  * @param outputs - Array of assets to send
  * @param network - Optional network override (defaults to getCurrentNetwork())
+ * @param options - Optional CIP-20 message and send-all mode
  * @returns Transaction result with hash or error
  */
 export const sendMultiAssetTransaction = async (
   wallet: MeshWallet,
   recipientAddress: string,
   outputs: MultiAssetOutput[],
-  network?: CardanoNetwork
+  network?: CardanoNetwork,
+  options: MultiAssetSendOptions = {}
 ): Promise<SendTransactionResult> => {
   try {
-    if (!outputs || outputs.length === 0) {
+    if (!options.sendAll && (!outputs || outputs.length === 0)) {
       return { success: false, error: "No assets specified to send" };
     }
 
-    // Create provider for transaction builder with proper network
-    const resolvedNetwork = network || getCurrentNetwork();
-    const provider = createBlockfrostProvider(resolvedNetwork);
-
-    // Get UTxOs and change address from wallet
-    const utxos = await wallet.getUtxos();
-    const changeAddress = await wallet.getChangeAddress();
-
-    if (!utxos || utxos.length === 0) {
-      return { success: false, error: "No UTxOs available in wallet" };
-    }
-
-    // Build the transaction using MeshTxBuilder
-    const txBuilder = new MeshTxBuilder({
-      fetcher: provider,
-      submitter: provider,
-      verbose: false,
-    });
-
-    // Separate lovelace from native assets
-    let lovelaceAmount = BigInt(0);
-    const nativeAssets: MultiAssetOutput[] = [];
-    
-    for (const output of outputs) {
-      if (output.unit === "lovelace") {
-        lovelaceAmount += BigInt(output.quantity);
-      } else {
-        nativeAssets.push(output);
-      }
-    }
-
-    // Build the output amounts
-    const txOutAmounts: { unit: string; quantity: string }[] = [];
-    
-    // Always include lovelace (for native assets, minimum ~1.5 ADA is required)
-    if (nativeAssets.length > 0) {
-      // If sending native assets, ensure minimum ADA for UTxO
-      const minLovelace = BigInt(1500000) * BigInt(Math.max(1, nativeAssets.length)); // ~1.5 ADA per asset
-      if (lovelaceAmount < minLovelace) {
-        lovelaceAmount = minLovelace;
-      }
-    }
-    
-    if (lovelaceAmount > BigInt(0)) {
-      txOutAmounts.push({ unit: "lovelace", quantity: lovelaceAmount.toString() });
-    }
-    
-    // Add native assets
-    for (const asset of nativeAssets) {
-      txOutAmounts.push({ unit: asset.unit, quantity: asset.quantity });
-    }
-
-    // Build transaction
-    const unsignedTx = await txBuilder
-      .txOut(recipientAddress, txOutAmounts)
-      .changeAddress(changeAddress)
-      .selectUtxosFrom(utxos)
-      .complete();
+    const { unsignedTx } = await buildMultiAssetTransaction(
+      wallet,
+      recipientAddress,
+      outputs,
+      network || getCurrentNetwork(),
+      options
+    );
 
     // Sign the transaction
     const signedTx = await wallet.signTx(unsignedTx);
@@ -929,17 +1227,122 @@ export const sendMultiAssetTransaction = async (
     };
   } catch (error) {
     console.error("Error sending multi-asset transaction:", error);
-    const message = error instanceof Error ? error.message : String(error);
-    
-    // Parse common errors
-    if (message.includes("INPUTS_EXHAUSTED") || message.includes("insufficient")) {
-      return { success: false, error: "Insufficient funds for this transaction" };
+    return { success: false, error: describeSendError(error, "Multi-asset transfer failed") };
+  }
+};
+
+/**
+ * Move every UTxO in the wallet to another address in one transaction
+ * (all ADA after fees and all native assets)
+ *
+ * @param wallet - MeshWallet instance
+ * @param recipientAddress - Destination address
+ * @param network - Optional network override (defaults to getCurrentNetwork())
+ * @param options - Optional CIP-20 message (plain or encrypted)
+ * @returns Transaction result with hash or error
+ */
+export const emptyWallet = async (
+  wallet: MeshWallet,
+  recipientAddress: string,
+  network?: CardanoNetwork,
+  options: SendOptions = {}
+): Promise<SendTransactionResult> => {
+  return sendMultiAssetTransaction(wallet, recipientAddress, [], network, {
+    ...options,
+    sendAll: true,
+    sweepAssets: true,
+  });
+};
+
+/**
+ * Output of a dry-run transaction
+ */
+export interface EstimatedOutput {
+  address: string;
+  amounts: MultiAssetOutput[]; // Lovelace first, then native assets
+  minLovelace: string; // Min-UTxO for this output's token bundle
+}
+
+/**
+ * Dry-run of a send: the exact transaction that would be signed
+ */
+export interface TransactionEstimate {
+  fee: string; // Lovelace
+  outputs: EstimatedOutput[]; // Recipient outputs (several if a send-all bundle was split)
+  change: EstimatedOutput[]; // Change back to the wallet (empty if none)
+  inputCount: number;
+  size: number; // Bytes, unsigned
+}
+
+/**
+ * Dry-run result
+ */
+export interface TransactionEstimateResult {
+  success: boolean;
+  estimate?: TransactionEstimate;
+  error?: string;
+}
+
+/**
+ * Build the transaction sendMultiAssetTransaction would submit, without
+ * signing it, and report the real fee, min-UTxO per output and change
+ *
+ * @param wallet - MeshWallet instance
+ * @param recipientAddress - Recipient's Cardano address
+ * @param outputs - Array of assets to send
+ * @param network - Optional network override (defaults to getCurrentNetwork())
+ * @param options - Optional CIP-20 message (affects size and fee) and send-all mode
+ * @returns Estimate or error (e.g. insufficient funds)
+ */
+export const estimateMultiAssetTransaction = async (
+  wallet: MeshWallet,
+  recipientAddress: string,
+  outputs: MultiAssetOutput[],
+  network?: CardanoNetwork,
+  options: MultiAssetSendOptions = {}
+): Promise<TransactionEstimateResult> => {
+  try {
+    if (!options.sendAll && (!outputs || outputs.length === 0)) {
+      return { success: false, error: "No assets specified to send" };
     }
-    if (message.includes("MIN_UTXO")) {
-      return { success: false, error: "Amount below minimum UTxO requirement. Try adding more ADA." };
+
+    const { unsignedTx, params, explicitOutputCount, changeToRecipient } = await buildMultiAssetTransaction(
+      wallet,
+      recipientAddress,
+      outputs,
+      network || getCurrentNetwork(),
+      options
+    );
+
+    const { csl } = core;
+    const tx = csl.Transaction.from_hex(unsignedTx);
+    const body = tx.body();
+    const dataCost = csl.DataCost.new_coins_per_byte(csl.BigNum.from_str(String(params.coinsPerUtxoSize)));
+
+    // The builder appends change after the explicit outputs
+    const txOutputs = body.outputs();
+    const estimated: EstimatedOutput[] = [];
+    for (let i = 0; i < txOutputs.len(); i++) {
+      const output = txOutputs.get(i);
+      estimated.push({
+        ...fromCslOutput(JSON.parse(output.to_json()) as CslOutputJson),
+        minLovelace: csl.min_ada_for_output(output, dataCost).to_str(),
+      });
     }
-    
-    return { success: false, error: message || "Multi-asset transfer failed" };
+
+    return {
+      success: true,
+      estimate: {
+        fee: body.fee().to_str(),
+        outputs: changeToRecipient ? estimated.slice(explicitOutputCount) : estimated.slice(0, explicitOutputCount),
+        change: changeToRecipient ? estimated.slice(0, explicitOutputCount) : estimated.slice(explicitOutputCount),
+        inputCount: body.inputs().len(),
+        size: unsignedTx.length / 2,
+      },
+    };
+  } catch (error) {
+    console.error("Error estimating transaction:", error);
+    return { success: false, error: describeSendError(error, "Could not estimate transaction") };
   }
 };
 
@@ -949,42 +1352,291 @@ export const sendMultiAssetTransaction = async (
  * @param wallet - MeshWallet instance
  * @param recipientAddress - Recipient's address
  * @param lovelaceAmount - Amount in lovelace
+ * @param outputs - Optional native assets sent along with the ADA
  * @returns Estimated fee in lovelace
  */
 export const estimateTransactionFee = async (
   wallet: MeshWallet,
   recipientAddress: string,
-  lovelaceAmount: string
+  lovelaceAmount: string,
+  outputs: MultiAssetOutput[] = []
 ): Promise<string> => {
-  try {
-    // Create provider for transaction builder with current network
-    const network = getCurrentNetwork();
-    const provider = createBlockfrostProvider(network);
+  const result = await estimateMultiAssetTransaction(wallet, recipientAddress, [
+    { unit: "lovelace", quantity: lovelaceAmount },
+    ...outputs.filter((output) => output.unit !== "lovelace"),
+  ]);
 
-    // Get UTxOs and change address from wallet
-    const utxos = await wallet.getUtxos();
-    const changeAddress = await wallet.getChangeAddress();
+  return result.estimate?.fee ?? "200000"; // ~0.2 ADA default estimate
+};
 
-    if (!utxos || utxos.length === 0) {
-      return "200000"; // ~0.2 ADA default estimate
+// ================================
+// UTXO CONSOLIDATION
+// ================================
+
+// Rough CBOR sizes used to split a consolidation into transactions under maxTxSize
+const INPUT_SIZE_ESTIMATE = 40; // tx hash + index
+const OUTPUT_SIZE_ESTIMATE = 80; // address, coin and map headers
+const POLICY_SIZE_ESTIMATE = 32; // policy id + map header
+const ASSET_SIZE_ESTIMATE = 12; // quantity + map entry, on top of the asset name
+const TX_SIZE_ESTIMATE = 600; // fee, witness and other body fields
+const TX_SIZE_SAFETY_RATIO = 0.75; // Headroom for the estimates above
+
+/**
+ * Options for UTxO consolidation
+ */
+export interface ConsolidationOptions {
+  coinControl?: CoinControl; // Frozen UTxOs are never merged; chosen inputs restrict the merge
+  dustThreshold?: string; // Dust sweep: only merge UTxOs holding at most this many lovelace
+  keepCollateral?: boolean; // Leave the 5 ADA collateral UTxO untouched (default true)
+}
+
+/**
+ * One consolidation transaction
+ */
+export interface ConsolidationBatch {
+  inputs: string[]; // UTxO references merged by this transaction
+  outputCount: number; // Several if the merged tokens exceed the max value size
+  lovelace: string; // ADA in the merged outputs, after the fee
+  assetCount: number; // Distinct native assets moved
+  fee: string;
+  size: number; // Bytes, unsigned
+}
+
+/**
+ * Preview of a consolidation: one or more transactions back to the wallet
+ */
+export interface ConsolidationPlan {
+  batches: ConsolidationBatch[];
+  inputCount: number;
+  outputCount: number;
+  totalFee: string;
+  collateralRef: string | null; // Collateral UTxO kept intact
+  skippedCount: number; // Frozen, collateral or above the dust threshold
+}
+
+/**
+ * Consolidation preview result
+ */
+export interface ConsolidationPreviewResult {
+  success: boolean;
+  plan?: ConsolidationPlan;
+  error?: string;
+}
+
+/**
+ * Consolidation result
+ */
+export interface ConsolidationResult {
+  success: boolean;
+  txHashes: string[]; // Submitted transactions, in order
+  error?: string;
+}
+
+/**
+ * Group UTxOs into batches whose merge transaction stays under maxTxSize
+ * Inputs are cheap; the merged token bundle is what grows a transaction.
+ */
+const groupConsolidationBatches = (utxos: UTxO[], maxTxSize: number): UTxO[][] => {
+  const budget = maxTxSize * TX_SIZE_SAFETY_RATIO - TX_SIZE_ESTIMATE;
+  const batches: UTxO[][] = [];
+
+  let current: UTxO[] = [];
+  let units = new Set<string>();
+  let size = OUTPUT_SIZE_ESTIMATE;
+
+  // Bytes a UTxO adds to the batch: its input plus tokens the batch does not hold yet
+  const sizeOf = (utxo: UTxO): number => {
+    const policies = new Set(Array.from(units, (unit) => unit.slice(0, 56)));
+    let added = INPUT_SIZE_ESTIMATE;
+    for (const { unit } of utxo.output.amount) {
+      if (unit === "lovelace" || units.has(unit)) continue;
+      added += ASSET_SIZE_ESTIMATE + (unit.length - 56) / 2;
+      if (!policies.has(unit.slice(0, 56))) {
+        policies.add(unit.slice(0, 56));
+        added += POLICY_SIZE_ESTIMATE;
+      }
+    }
+    return added;
+  };
+
+  for (const utxo of utxos) {
+    if (current.length > 0 && size + sizeOf(utxo) > budget) {
+      batches.push(current);
+      current = [];
+      units = new Set();
+      size = OUTPUT_SIZE_ESTIMATE;
+    }
+
+    size += sizeOf(utxo);
+    current.push(utxo);
+    for (const { unit } of utxo.output.amount) {
+      if (unit !== "lovelace") units.add(unit);
     }
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+
+  return batches;
+};
+
+/**
+ * Build (but do not sign) the consolidation transactions
+ *
+ * UTxOs of every used wallet address are fetched with getAddressUtxos, the collateral
+ * and frozen UTxOs are set aside, and the rest is merged back into the wallet
+ * in as few outputs as possible. Batches never share inputs, so they can be
+ * signed and submitted one after another without waiting for confirmation.
+ */
+const buildConsolidation = async (
+  wallet: MeshWallet,
+  network: CardanoNetwork,
+  options: ConsolidationOptions
+): Promise<{ plan: ConsolidationPlan; unsignedTxs: string[] }> => {
+  const provider = createBlockfrostProvider(network);
+  const params = await fetchProtocolParams(provider);
+  const address = await wallet.getChangeAddress();
+
+  const addresses = await wallet.getUsedAddresses();
+  const utxos = (await Promise.all(addresses.map((a) => getAddressUtxos(a, network)))).flat().map(fromAddressUtxo);
+  if (utxos.length === 0) {
+    throw new Error("No UTxOs available in wallet");
+  }
+
+  const collateral = options.keepCollateral === false ? undefined : findCollateralUtxo(utxos);
+  const collateralRef = collateral ? getUtxoRef(collateral) : null;
+  const dustThreshold = options.dustThreshold !== undefined ? BigInt(options.dustThreshold) : null;
+
+  const lovelaceOf = (utxo: UTxO) =>
+    BigInt(utxo.output.amount.find((asset) => asset.unit === "lovelace")?.quantity || "0");
+
+  // Smallest first, so dust ends up together
+  const candidates = applyCoinControl(utxos, options.coinControl)
+    .filter((utxo) => getUtxoRef(utxo) !== collateralRef)
+    .filter((utxo) => dustThreshold === null || lovelaceOf(utxo) <= dustThreshold)
+    .sort((a, b) => (lovelaceOf(a) < lovelaceOf(b) ? -1 : lovelaceOf(a) > lovelaceOf(b) ? 1 : 0));
+
+  // A batch with a single input would only pay a fee to move it
+  const groups = groupConsolidationBatches(candidates, params.maxTxSize).filter((group) => group.length > 1);
+  if (groups.length === 0) {
+    throw new Error("Nothing to consolidate: at least 2 spendable UTxOs are needed");
+  }
+
+  const { csl } = core;
+  const batches: ConsolidationBatch[] = [];
+  const unsignedTxs: string[] = [];
 
-    // Build the transaction using MeshTxBuilder (but don't sign/submit)
+  for (const group of groups) {
     const txBuilder = new MeshTxBuilder({
       fetcher: provider,
+      submitter: provider,
+      params,
       verbose: false,
     });
 
-    await txBuilder
-      .txOut(recipientAddress, [{ unit: "lovelace", quantity: lovelaceAmount }])
-      .changeAddress(changeAddress)
-      .selectUtxosFrom(utxos)
-      .complete();
+    for (const utxo of group) {
+      txBuilder.txIn(utxo.input.txHash, utxo.input.outputIndex, utxo.output.amount, utxo.output.address, 0);
+    }
+
+    // Everything goes to change, which the builder splits at the max value size
+    const unsignedTx = await txBuilder.changeAddress(address).complete();
+    const body = csl.Transaction.from_hex(unsignedTx).body();
+
+    const assetUnits = new Set<string>();
+    for (const utxo of group) {
+      for (const { unit } of utxo.output.amount) {
+        if (unit !== "lovelace") assetUnits.add(unit);
+      }
+    }
+
+    let lovelace = BigInt(0);
+    const outputs = body.outputs();
+    for (let i = 0; i < outputs.len(); i++) {
+      lovelace += BigInt(outputs.get(i).amount().coin().to_str());
+    }
+
+    batches.push({
+      inputs: group.map(getUtxoRef),
+      outputCount: outputs.len(),
+      lovelace: lovelace.toString(),
+      assetCount: assetUnits.size,
+      fee: body.fee().to_str(),
+      size: unsignedTx.length / 2,
+    });
+    unsignedTxs.push(unsignedTx);
+  }
+
+  const inputCount = batches.reduce((sum, batch) => sum + batch.inputs.length, 0);
+
+  return {
+    plan: {
+      batches,
+      inputCount,
+      outputCount: batches.reduce((sum, batch) => sum + batch.outputCount, 0),
+      totalFee: batches.reduce((sum, batch) => sum + BigInt(batch.fee), BigInt(0)).toString(),
+      collateralRef,
+      skippedCount: utxos.length - inputCount,
+    },
+    unsignedTxs,
+  };
+};
+
+/**
+ * Preview a UTxO consolidation: transactions, merged outputs and total fee
+ *
+ * @param wallet - MeshWallet instance
+ * @param network - Optional network override (defaults to getCurrentNetwork())
+ * @param options - Coin control, dust threshold and collateral handling
+ * @returns Plan or error
+ */
+export const previewConsolidation = async (
+  wallet: MeshWallet,
+  network?: CardanoNetwork,
+  options: ConsolidationOptions = {}
+): Promise<ConsolidationPreviewResult> => {
+  try {
+    const { plan } = await buildConsolidation(wallet, network || getCurrentNetwork(), options);
+    return { success: true, plan };
+  } catch (error) {
+    console.error("Error previewing consolidation:", error);
+    return { success: false, error: describeSendError(error, "Could not plan consolidation") };
+  }
+};
+
+/**
+ * Merge wallet UTxOs into as few outputs as possible, splitting the work
+ * over several transactions when one would exceed the max transaction size
+ *
+ * @param wallet - MeshWallet instance
+ * @param network - Optional network override (defaults to getCurrentNetwork())
+ * @param options - Coin control, dust threshold and collateral handling
+ * @returns Submitted transaction hashes, plus an error if a transaction failed
+ */
+export const consolidateUtxos = async (
+  wallet: MeshWallet,
+  network?: CardanoNetwork,
+  options: ConsolidationOptions = {}
+): Promise<ConsolidationResult> => {
+  const txHashes: string[] = [];
+
+  try {
+    const { unsignedTxs } = await buildConsolidation(wallet, network || getCurrentNetwork(), options);
+
+    for (let i = 0; i < unsignedTxs.length; i++) {
+      try {
+        const signedTx = await wallet.signTx(unsignedTxs[i]);
+        txHashes.push(await wallet.submitTx(signedTx));
+      } catch (error) {
+        const message = describeSendError(error, "Transaction failed");
+        throw new Error(unsignedTxs.length > 1 ? `Transaction ${i + 1} of ${unsignedTxs.length} failed: ${message}` : message);
+      }
+    }
 
-    // Return typical fee estimate
-    return "170000"; // ~0.17 ADA typical fee
-  } catch {
-    return "200000"; // ~0.2 ADA default estimate
+    return { success: true, txHashes };
+  } catch (error) {
+    console.error("Error consolidating UTxOs:", error);
+    return { success: false, txHashes, error: describeSendError(error, "Consolidation failed") };
   }
 };
 
@@ -1934,7 +2586,10 @@ export const findDefaultPool = async (): Promise<StakePoolInfo | null> => {
 };
 
 /**
- * Get reward history for stake address (last 5 epochs)
+ * Get reward history for stake address (last 5 epochs by default)
+ *
+ * @param count - Number of epochs, newest first. Counts above 100 are fetched page by page,
+ *                pass Infinity for the full history.
  */
 export const getRewardHistory = async (stakeAddress: string, count: number = 5): Promise<EpochReward[]> => {
   try {
@@ -1943,20 +2598,30 @@ export const getRewardHistory = async (stakeAddress: string, count: number = 5):
 
     if (!apiKey) return [];
 
-    const response = await fetch(
-      `${baseUrl}/accounts/${stakeAddress}/rewards?count=${count}&order=desc`,
-      { headers: { project_id: apiKey } }
-    );
+    // Blockfrost returns at most 100 rewards per page
+    const pageSize = Math.min(count, 100);
+    const rewards: EpochReward[] = [];
 
-    if (!response.ok) return [];
+    for (let page = 1; rewards.length < count; page++) {
+      const response = await fetch(
+        `${baseUrl}/accounts/${stakeAddress}/rewards?count=${pageSize}&page=${page}&order=desc`,
+        { headers: { project_id: apiKey } }
+      );
 
-    const data = await response.json();
-    
-    return data.map((reward: { epoch: number; amount: string; pool_id: string }) => ({
-      epoch: reward.epoch,
-      amount: reward.amount,
-      poolId: reward.pool_id,
-    }));
+      if (!response.ok) break;
+
+      const data: { epoch: number; amount: string; pool_id: string }[] = await response.json();
+      rewards.push(
+        ...data.map((reward) => ({
+          epoch: reward.epoch,
+          amount: reward.amount,
+          poolId: reward.pool_id,
+        }))
+      );
+      if (data.length < pageSize) break;
+    }
+
+    return rewards.slice(0, count);
   } catch (error) {
     console.error("Error getting reward history:", error);
     return [];
@@ -1965,11 +2630,14 @@ export const getRewardHistory = async (stakeAddress: string, count: number = 5):
 
 /**
  * Delegate to a stake pool
+ *
+ * @param coinControl - Optional restriction of the UTxOs used to pay the fee and deposit
  */
 export const delegateToPool = async (
   wallet: MeshWallet,
   poolId: string,
-  network: CardanoNetwork
+  network: CardanoNetwork,
+  coinControl?: CoinControl
 ): Promise<{ success: boolean; txHash?: string; error?: string; _debug?: any }> => {
   try {
     // Development simulation mode: return a fake successful delegation without touching network
@@ -1984,7 +2652,7 @@ export const delegateToPool = async (
     let meshResultRef: any = null;
     try {
       const { delegateToPoolMesh } = await import('./mesh-stake');
-      const meshResult = await delegateToPoolMesh(wallet, poolId, network);
+      const meshResult = await delegateToPoolMesh(wallet, poolId, network, coinControl);
       meshResultRef = meshResult;
       if (meshResult && meshResult.success) return meshResult;
       // If mesh result failed but returned an error, log it (keep meshResult for diagnostics)
@@ -2020,7 +2688,7 @@ export const delegateToPool = async (
         return { success: false, error: '[lucid-fallback] Invalid mnemonic', _debug: { wordCount, valid, mesh: meshResultRef } };
       }
       const { delegateToPoolLucid } = await import('./lucid-stake');
-      const lucidResult = await delegateToPoolLucid(String(normalizedMnemonic), poolId, network);
+      const lucidResult = await delegateToPoolLucid(String(normalizedMnemonic), poolId, network, coinControl, getWalletDerivation(wallet));
       if (!lucidResult.success) {
         // include mesh debug for tracing
         lucidResult._debug = { ...(lucidResult._debug || {}), mesh: meshResultRef };
@@ -2046,21 +2714,20 @@ export const delegateToPool = async (
 
 /**
  * Withdraw staking rewards
+ *
+ * @param coinControl - Optional restriction of the UTxOs used to pay the fee
  */
 export const withdrawRewards = async (
-  wallet: MeshWallet
+  wallet: MeshWallet,
+  coinControl?: CoinControl
 ): Promise<{ success: boolean; txHash?: string; error?: string; stack?: string }> => {
   try {
     const network = getCurrentNetwork();
     const provider = createBlockfrostProvider(network);
-    const utxos = await wallet.getUtxos();
+    const utxos = await getSpendableUtxos(wallet, coinControl);
     const changeAddress = await wallet.getChangeAddress();
     const rewardAddresses = await wallet.getRewardAddresses();
 
-    if (!utxos || utxos.length === 0) {
-      return { success: false, error: "No UTxOs available in wallet" };
-    }
-
     if (!rewardAddresses || rewardAddresses.length === 0) {
       return { success: false, error: "Could not get reward address" };
     }
@@ -2109,7 +2776,7 @@ export const withdrawRewards = async (
           if (mnemonic) {
             const { withdrawRewardsLucid } = await import('./lucid-stake');
             const network = getCurrentNetwork();
-            const lucidRes = await withdrawRewardsLucid(mnemonic, network);
+            const lucidRes = await withdrawRewardsLucid(mnemonic, network, coinControl, getWalletDerivation(wallet));
             return lucidRes as any;
           }
         } catch (lucidErr) {
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { getAddressStakeAddress, isStakeAddress, resolveWatchTarget } from './watch';
+import { deriveAccountPublicKey, deriveBaseAddress, deriveStakeAddress } from './discovery';
+import { generateMnemonic } from './mnemonic';
+
+const KEY = deriveAccountPublicKey(generateMnemonic(24));
+const ADDRESS = deriveBaseAddress(KEY, 0, 'external', 0);
+const STAKE_ADDRESS = deriveStakeAddress(KEY, 0);
+
+describe('getAddressStakeAddress', () => {
+  it('reads the stake key of a base address', () => {
+    expect(getAddressStakeAddress(ADDRESS)).toBe(STAKE_ADDRESS);
+    expect(getAddressStakeAddress(deriveBaseAddress(KEY, 0, 'internal', 7))).toBe(STAKE_ADDRESS);
+    expect(getAddressStakeAddress('not an address')).toBeNull();
+  });
+});
+
+describe('resolveWatchTarget', () => {
+  it('watches a payment address with its stake key', async () => {
+    expect(isStakeAddress(STAKE_ADDRESS)).toBe(true);
+    expect(isStakeAddress(ADDRESS)).toBe(false);
+
+    await expect(resolveWatchTarget(` ${ADDRESS} `, 'preprod')).resolves.toEqual({
+      address: ADDRESS,
+      stakeAddress: STAKE_ADDRESS,
+    });
+  });
+
+  it('rejects input for another network or that is not an address', async () => {
+    await expect(resolveWatchTarget(ADDRESS, 'mainnet')).rejects.toThrow('not on mainnet');
+    await expect(resolveWatchTarget(STAKE_ADDRESS, 'mainnet')).rejects.toThrow('not on mainnet');
+    await expect(resolveWatchTarget('hello', 'preprod')).rejects.toThrow('Enter a Cardano address');
+  });
+});
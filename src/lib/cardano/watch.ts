@@ -0,0 +1,99 @@
+/**
+ * Watch-Only Wallets
+ *
+ * Follow a wallet without its keys, from a payment address, a stake address
+ * or an ADA Handle. Balance and history cover every address of the stake key,
+ * so a stake address shows the whole wallet.
+ */
+
+import { core } from "@meshsdk/core";
+import { getCurrentNetwork, isValidCardanoAddress, type CardanoNetwork } from "./types";
+import { getStakeKeyAddresses } from "./history";
+import { isAdaHandle, resolveAdaHandle } from "./wallet";
+
+export interface WatchTarget {
+  address: string; // Address shown and used for lookups
+  stakeAddress: string | null; // Null for addresses without a stake key (e.g. enterprise)
+  handle?: string; // "$name" when added from an ADA Handle
+}
+
+/**
+ * Check if input is a bech32 stake (reward) address
+ */
+export const isStakeAddress = (input: string): boolean => {
+  if (!/^stake(_test)?1[02-9ac-hj-np-z]+$/.test(input)) return false;
+  try {
+    return core.csl.RewardAddress.from_address(core.csl.Address.from_bech32(input)) !== undefined;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Stake address of a base address, read from the address itself
+ *
+ * @returns Bech32 reward address, or null if the address has no stake key
+ */
+export const getAddressStakeAddress = (address: string): string | null => {
+  const { csl } = core;
+  try {
+    const parsed = csl.Address.from_bech32(address);
+    const base = csl.BaseAddress.from_address(parsed);
+    if (!base) return null;
+    return csl.RewardAddress.new(parsed.network_id(), base.stake_cred()).to_address().to_bech32();
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Resolve what the user entered into a watch target
+ *
+ * @param input - Bech32 payment address, stake address or $handle
+ * @throws Error with a user-facing message if the input cannot be watched
+ */
+export const resolveWatchTarget = async (input: string, network?: CardanoNetwork): Promise<WatchTarget> => {
+  const net = network || getCurrentNetwork();
+  const value = input.trim();
+  const testnet = net !== "mainnet";
+
+  if (isAdaHandle(value)) {
+    const address = await resolveAdaHandle(value);
+    if (!address) {
+      throw new Error(`ADA Handle ${value} not found`);
+    }
+    return { address, stakeAddress: getAddressStakeAddress(address), handle: value.toLowerCase() };
+  }
+
+  if (isStakeAddress(value)) {
+    if (value.startsWith("stake_test1") !== testnet) {
+      throw new Error(`This stake address is not on ${net}`);
+    }
+    const addresses = await getStakeKeyAddresses(value, net);
+    if (addresses.length === 0) {
+      throw new Error("No addresses found for this stake address");
+    }
+    return { address: addresses[0], stakeAddress: value };
+  }
+
+  if (isValidCardanoAddress(value)) {
+    if (value.startsWith("addr_test1") !== testnet) {
+      throw new Error(`This address is not on ${net}`);
+    }
+    return { address: value, stakeAddress: getAddressStakeAddress(value) };
+  }
+
+  throw new Error("Enter a Cardano address, stake address or $handle");
+};
+
+/**
+ * Addresses to sum balance and history over
+ *
+ * @returns The watched address first, then the other addresses of its stake key
+ */
+export const getWatchAddresses = async (target: WatchTarget, network?: CardanoNetwork): Promise<string[]> => {
+  if (!target.stakeAddress) return [target.address];
+
+  const addresses = await getStakeKeyAddresses(target.stakeAddress, network);
+  return [target.address, ...addresses.filter((address) => address !== target.address)];
+};
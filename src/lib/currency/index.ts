@@ -138,6 +138,79 @@ export const fetchAdaPrice = async (): Promise<Record<FiatCurrency, number>> =>
   }
 };
 
+/**
+ * Historical ADA price
+ */
+export interface AdaPricePoint {
+  timestamp: number; // Unix seconds
+  price: number;
+}
+
+// CoinGecko's public API only serves the last 365 days of history
+const PRICE_HISTORY_MAX_AGE = 365 * 24 * 60 * 60;
+
+/**
+ * Fetch ADA prices between two dates from CoinGecko
+ *
+ * Ranges longer than 90 days come back as one price per day.
+ * Dates older than a year are not available and are skipped.
+ *
+ * @param currency - Fiat currency
+ * @param from - Start, Unix seconds
+ * @param to - End, Unix seconds
+ * @returns Price points sorted by time (empty on failure)
+ */
+export const fetchAdaPriceHistory = async (
+  currency: FiatCurrency,
+  from: number,
+  to: number
+): Promise<AdaPricePoint[]> => {
+  const now = Math.floor(Date.now() / 1000);
+  const start = Math.max(from, now - PRICE_HISTORY_MAX_AGE);
+  const end = Math.min(to, now);
+  if (start > end) return [];
+
+  try {
+    const response = await fetch(
+      `https://api.coingecko.com/api/v3/coins/cardano/market_chart/range?vs_currency=${currency}&from=${start}&to=${end}`,
+      {
+        headers: {
+          Accept: "application/json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error("Failed to fetch price history");
+    }
+
+    const data: { prices?: [number, number][] } = await response.json();
+    return (data.prices || []).map(([ms, price]) => ({ timestamp: Math.floor(ms / 1000), price }));
+  } catch (error) {
+    console.error("Error fetching ADA price history:", error);
+    return [];
+  }
+};
+
+/**
+ * Find the ADA price at a point in time
+ *
+ * @param points - Sorted price points from fetchAdaPriceHistory
+ * @param timestamp - Unix seconds
+ * @returns Latest price at or before the time (or the first one within a day after), if any
+ */
+export const findAdaPriceAt = (points: AdaPricePoint[], timestamp: number): number | undefined => {
+  let found: AdaPricePoint | undefined;
+  for (const point of points) {
+    if (point.timestamp > timestamp) break;
+    found = point;
+  }
+  if (found) return found.price;
+
+  const next = points[0];
+  return next && next.timestamp - timestamp <= 24 * 60 * 60 ? next.price : undefined;
+};
+
 /**
  * Convert ADA to fiat
  */
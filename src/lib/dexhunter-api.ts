@@ -4,11 +4,15 @@
  * Integration with DexHunter API for token swaps.
  * DexHunter aggregates liquidity across multiple DEXes to find the best rates.
  * 
- * This module calls internal API routes (to avoid CORS issues with external API)
+ * This module calls internal API routes (to avoid CORS issues with external API).
+ * Transactions are signed in the browser; the mnemonic never goes to a route.
  * 
  * API Documentation: https://dexhunter.gitbook.io/dexhunter-partners/trading/swap
  */
 
+import { getBlockfrostApiKey, getBlockfrostUrl, type CardanoNetwork } from '@/lib/cardano/types';
+import { normalizeMnemonic } from '@/lib/cardano/mnemonic';
+
 // Internal API routes - no CORS issues
 const API_ROUTES = {
   quote: '/api/dexhunter/quote',    // -> /swap/estimate
@@ -479,42 +483,51 @@ export const POPULAR_TOKENS: Token[] = [
 ];
 
 /**
- * Sign and submit a DexHunter transaction using Lucid Evolution via server-side API.
+ * Sign and submit a DexHunter transaction using Lucid Evolution in the browser.
  * 
- * SECURITY: Mnemonic is sent via POST to server-side API for signing.
- * - Mnemonic is NOT logged on client or server
- * - Used only for in-memory transaction signing
- * - Server immediately discards after use
+ * The wallet is restored from the mnemonic on this device only, and signs with
+ * both the payment and the stake key, so swaps that need a stake key witness
+ * (MissingVKeyWitnessesUTXOW otherwise) go through. Only the signed
+ * transaction is sent out, straight to Blockfrost.
  */
 export async function signAndSubmitWithLucid(
   unsignedTxCbor: string,
   mnemonic: string,
-  network: 'mainnet' | 'preprod' = 'mainnet'
+  network: CardanoNetwork = 'mainnet',
+  accountIndex = 0,
+  password?: string
 ): Promise<string> {
   // Validate inputs
   if (!unsignedTxCbor || !mnemonic) {
     throw new Error('Missing required parameters');
   }
 
-  const response = await fetch('/api/dexhunter/lucid-sign', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      unsignedTxCbor,
-      mnemonic,
-      network,
-    }),
-  });
+  const blockfrostKey = getBlockfrostApiKey(network);
+  if (!blockfrostKey) {
+    throw new Error('Blockfrost API key not set for network: ' + network);
+  }
 
-  const result = await response.json();
+  // Dynamic import to keep the WASM out of the initial bundle
+  const { Lucid, Blockfrost } = await import('@lucid-evolution/lucid');
+  const lucid = await Lucid(
+    new Blockfrost(getBlockfrostUrl(network), blockfrostKey),
+    network === 'mainnet' ? 'Mainnet' : network === 'preprod' ? 'Preprod' : 'Preview'
+  );
+  lucid.selectWallet.fromSeed(normalizeMnemonic(mnemonic), { accountIndex, password });
 
-  if (!response.ok || result.error) {
-    throw new Error(result.error || 'Failed to sign and submit transaction');
+  try {
+    const signed = await lucid.fromTx(unsignedTxCbor).sign.withWallet().complete();
+    return await signed.submit();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    if (message.includes('insufficient')) {
+      throw new Error('Insufficient funds for transaction');
+    }
+    if (message.includes('witness')) {
+      throw new Error('Transaction signature error');
+    }
+    throw err;
   }
-
-  return result.txHash;
 }
 
 export default {
@@ -0,0 +1,131 @@
+import { getStorageItem, setStorageItem, removeStorageItem } from "./index";
+
+/**
+ * Saved recipient
+ * Contacts are kept per network and shared by all wallets on this device.
+ */
+export interface AddressBookEntry {
+  id: string;
+  address: string; // Bech32 payment address
+  label: string;
+  note?: string;
+  handle?: string; // ADA Handle the address was resolved from, e.g. "$alice"
+  createdAt: number;
+  lastUsedAt?: number;
+}
+
+/**
+ * Fields editable by the user
+ */
+export type AddressBookInput = Pick<AddressBookEntry, "address" | "label" | "note" | "handle">;
+
+const NETWORKS = ["mainnet", "preprod", "preview"] as const;
+
+// Longest label/note accepted, to keep list rows and storage small
+const MAX_LABEL_LENGTH = 50;
+const MAX_NOTE_LENGTH = 200;
+
+/**
+ * Storage key for a network's address book
+ */
+const getAddressBookKey = (network: string): string => `cardano_address_book_${network}`;
+
+const generateContactId = (): string => {
+  return `contact_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+};
+
+const saveAddressBook = (network: string, entries: AddressBookEntry[]): boolean => {
+  if (entries.length === 0) {
+    return removeStorageItem(getAddressBookKey(network));
+  }
+  return setStorageItem(getAddressBookKey(network), JSON.stringify(entries));
+};
+
+/**
+ * Get all contacts for a network, most recently used first
+ */
+export const getAddressBook = (network: string): AddressBookEntry[] => {
+  const data = getStorageItem(getAddressBookKey(network));
+  if (!data) return [];
+  try {
+    const entries: AddressBookEntry[] = JSON.parse(data);
+    return entries.sort(
+      (a, b) => (b.lastUsedAt || b.createdAt) - (a.lastUsedAt || a.createdAt) || a.label.localeCompare(b.label)
+    );
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Find the contact saved for an address
+ */
+export const findContact = (network: string, address: string): AddressBookEntry | undefined => {
+  return getAddressBook(network).find((entry) => entry.address === address);
+};
+
+/**
+ * Address -> label map, for showing contact names in lists
+ */
+export const getContactLabels = (network: string): Record<string, string> => {
+  return Object.fromEntries(getAddressBook(network).map((entry) => [entry.address, entry.label]));
+};
+
+/**
+ * Add a contact, or update the one already saved for the same address
+ *
+ * @returns The saved contact, or null if the label or address is empty
+ */
+export const saveContact = (network: string, input: AddressBookInput): AddressBookEntry | null => {
+  const address = input.address.trim();
+  const label = input.label.trim().slice(0, MAX_LABEL_LENGTH);
+  if (!address || !label) return null;
+
+  const entries = getAddressBook(network);
+  const existing = entries.find((entry) => entry.address === address);
+  const entry: AddressBookEntry = {
+    id: existing?.id || generateContactId(),
+    address,
+    label,
+    note: input.note?.trim().slice(0, MAX_NOTE_LENGTH) || undefined,
+    handle: input.handle?.trim() || undefined,
+    createdAt: existing?.createdAt || Date.now(),
+    lastUsedAt: existing?.lastUsedAt,
+  };
+
+  const others = entries.filter((e) => e.address !== address);
+  return saveAddressBook(network, [entry, ...others]) ? entry : null;
+};
+
+/**
+ * Remove a contact
+ */
+export const removeContact = (network: string, id: string): boolean => {
+  return saveAddressBook(network, getAddressBook(network).filter((entry) => entry.id !== id));
+};
+
+/**
+ * Record that a contact was just paid (moves it to the top of pickers)
+ * No-op for addresses that are not saved.
+ */
+export const markContactUsed = (network: string, addresses: string[]): void => {
+  const entries = getAddressBook(network);
+  const now = Date.now();
+  let changed = false;
+  for (const entry of entries) {
+    if (addresses.includes(entry.address)) {
+      entry.lastUsedAt = now;
+      changed = true;
+    }
+  }
+  if (changed) {
+    saveAddressBook(network, entries);
+  }
+};
+
+/**
+ * Delete the address books of every network
+ */
+export const clearAddressBooks = (): void => {
+  NETWORKS.forEach((network) => removeStorageItem(getAddressBookKey(network)));
+};
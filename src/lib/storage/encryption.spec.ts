@@ -0,0 +1,471 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import CryptoJS from 'crypto-js';
+import * as bip39 from 'bip39';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import {
+  addWalletAccount,
+  addWatchOnlyWallet,
+  decryptWalletBackup,
+  decryptWallet,
+  decryptWalletSecret,
+  deleteWallet,
+  disableBiometricUnlock,
+  enableBiometricUnlock,
+  encryptAndSaveWallet,
+  exportWalletBackup,
+  generateBiometricToken,
+  getPinAttemptStatus,
+  hasBiometricUnlock,
+  importWalletBackup,
+  isLockedOut,
+  removeDuressPin,
+  setDuressPin,
+  setPinWipeAfter,
+  verifyWalletPin,
+  type EncryptedWalletData,
+} from './encryption';
+import { addWalletToList, getWalletsList, isWalletBackedUp, setWalletBackedUp } from './index';
+
+const PIN = '482916';
+const NEW_PIN = '735102';
+const PASSWORD = 'correct horse battery';
+const MNEMONIC = bip39.generateMnemonic(256);
+
+// Every PIN and password goes through scrypt (and v1 data through PBKDF2)
+vi.setConfig({ testTimeout: 30_000 });
+
+const storage = new Map<string, string>();
+
+beforeEach(() => {
+  storage.clear();
+  vi.stubGlobal('window', globalThis);
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => void storage.set(key, value),
+    removeItem: (key: string) => void storage.delete(key),
+  });
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+const storedKeys = (prefix: string) => Array.from(storage.keys()).filter((key) => key.startsWith(prefix));
+
+const readRecord = (walletId: string): EncryptedWalletData => JSON.parse(storage.get(`cardano_wallet_${walletId}`)!);
+
+const writeRecord = (walletId: string, record: EncryptedWalletData) =>
+  storage.set(`cardano_wallet_${walletId}`, JSON.stringify(record));
+
+/**
+ * Store a wallet the way v1 did: CryptoJS AES-CBC and a separate PBKDF2 PIN hash
+ */
+const saveV1Wallet = (walletId: string, mnemonic: string, pin: string) => {
+  const salt = CryptoJS.lib.WordArray.random(32).toString();
+  const iv = CryptoJS.lib.WordArray.random(16);
+  const key = CryptoJS.PBKDF2(pin, CryptoJS.enc.Hex.parse(salt), { keySize: 256 / 32, iterations: 100000 });
+  const hashSalt = CryptoJS.lib.WordArray.random(16).toString();
+  const pinHash = CryptoJS.PBKDF2(pin, hashSalt, { keySize: 256 / 32, iterations: 10000 }).toString();
+
+  writeRecord(walletId, {
+    encryptedMnemonic: CryptoJS.AES.encrypt(mnemonic, key, { iv }).toString(),
+    salt,
+    iv: iv.toString(),
+    pinHash: `${hashSalt}:${pinHash}`,
+    timestamp: 1,
+    version: 1,
+  });
+  addWalletToList({ id: walletId, name: 'Old', address: 'addr_test1old', network: 'preprod', createdAt: 1 });
+};
+
+describe('wallet storage', () => {
+  it('unlocks a v1 wallet and rewrites it as v2', async () => {
+    saveV1Wallet('old', MNEMONIC, PIN);
+
+    expect(await decryptWalletSecret(NEW_PIN, 'old')).toBeNull();
+    expect(readRecord('old').version).toBe(1);
+
+    expect(await decryptWalletSecret(PIN, 'old')).toEqual({ mnemonic: MNEMONIC, walletId: 'old' });
+    const record = readRecord('old');
+    expect(record).toMatchObject({ version: 2, kdf: { N: 2 ** 15, r: 8, p: 1 } });
+    expect(record.pinHash).toBeUndefined();
+    expect(record.secondary).toBeDefined();
+    expect(await decryptWalletSecret(PIN, 'old')).toEqual({ mnemonic: MNEMONIC, walletId: 'old' });
+  });
+
+  it('rejects a wrong PIN', async () => {
+    const walletId = (await encryptAndSaveWallet(MNEMONIC, PIN, 'addr_test1wallet'))!;
+
+    expect(await decryptWalletSecret(NEW_PIN, walletId)).toBeNull();
+    expect(getPinAttemptStatus(walletId).failedAttempts).toBe(1);
+  });
+
+  it('rejects a changed ciphertext', async () => {
+    const walletId = (await encryptAndSaveWallet(MNEMONIC, PIN, 'addr_test1wallet'))!;
+    const record = readRecord(walletId);
+    const ciphertext = Buffer.from(record.encryptedMnemonic, 'base64');
+    ciphertext[0] ^= 1;
+    writeRecord(walletId, { ...record, encryptedMnemonic: ciphertext.toString('base64') });
+
+    expect(await decryptWalletSecret(PIN, walletId)).toBeNull();
+  });
+
+  it('rejects a ciphertext sealed for another storage format', async () => {
+    const walletId = (await encryptAndSaveWallet(MNEMONIC, PIN, 'addr_test1wallet'))!;
+    const record = readRecord(walletId);
+    const raw = await scryptAsync(PIN, Buffer.from(record.salt, 'hex'), { ...record.kdf!, dkLen: 32 });
+    const key = await crypto.subtle.importKey('raw', new Uint8Array(raw), 'AES-GCM', false, ['encrypt']);
+    const iv = Buffer.from(record.iv, 'hex');
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode('cardano-wallet-v1') },
+      key,
+      new TextEncoder().encode(MNEMONIC)
+    );
+    writeRecord(walletId, { ...record, encryptedMnemonic: Buffer.from(ciphertext).toString('base64') });
+
+    expect(await decryptWalletSecret(PIN, walletId)).toBeNull();
+  });
+
+  it('refuses a storage version newer than it supports', async () => {
+    const walletId = (await encryptAndSaveWallet(MNEMONIC, PIN, 'addr_test1wallet'))!;
+    writeRecord(walletId, { ...readRecord(walletId), version: 3 });
+
+    expect(await decryptWalletSecret(PIN, walletId)).toBeNull();
+    expect(readRecord(walletId).version).toBe(3);
+    expect(getPinAttemptStatus(walletId).failedAttempts).toBe(0);
+  });
+});
+
+describe('wallet backups', () => {
+  const createWallets = async () => {
+    const walletId = (await encryptAndSaveWallet(MNEMONIC, PIN, 'addr_test1account0', 'Main', undefined, 'extra'))!;
+    addWalletAccount(walletId, 'addr_test1account1', 1, 'Savings');
+    setWalletBackedUp(walletId, false);
+    addWatchOnlyWallet('addr_test1watched', 'Watched');
+    return { walletId };
+  };
+
+  it('restores accounts, passphrase and backup state under a new PIN', async () => {
+    await createWallets();
+    const backup = (await exportWalletBackup(PIN, PASSWORD))!;
+    expect(JSON.parse(backup.file)).toMatchObject({ format: 'cardano-wallet-backup', version: 2 });
+    expect(backup.walletCount).toBe(3);
+
+    storage.clear();
+    const result = await importWalletBackup(await decryptWalletBackup(backup.file, PASSWORD), NEW_PIN);
+    expect(result).toEqual({ success: true, imported: 3, duplicates: 0 });
+
+    const [main, savings, watched] = getWalletsList();
+    expect(savings).toMatchObject({ name: 'Savings', accountIndex: 1, mnemonicId: main.id });
+    expect(watched).toMatchObject({ name: 'Watched', watchOnly: true });
+    expect(isWalletBackedUp(main.id)).toBe(false);
+    expect(isWalletBackedUp(savings.id)).toBe(false);
+    expect(await decryptWalletSecret(NEW_PIN, savings.id)).toEqual({
+      mnemonic: MNEMONIC,
+      passphrase: 'extra',
+      walletId: savings.id,
+    });
+    expect(await decryptWalletSecret(PIN, main.id)).toBeNull();
+  });
+
+  it('reads v1 backup files', async () => {
+    const salt = CryptoJS.lib.WordArray.random(32).toString();
+    const iv = CryptoJS.lib.WordArray.random(16);
+    const key = CryptoJS.PBKDF2(PASSWORD, CryptoJS.enc.Hex.parse(salt), { keySize: 256 / 32, iterations: 100000 });
+    const contents = {
+      createdAt: 1,
+      wallets: [
+        { name: 'Old', address: 'addr_test1old', network: 'preprod', createdAt: 1, secret: { mnemonic: MNEMONIC } },
+      ],
+      addressBooks: {},
+      settings: {},
+    };
+    const ciphertext = CryptoJS.AES.encrypt(JSON.stringify(contents), key, { iv }).toString();
+    const file = JSON.stringify({
+      format: 'cardano-wallet-backup',
+      version: 1,
+      createdAt: 1,
+      salt,
+      iv: iv.toString(),
+      ciphertext,
+    });
+
+    expect(await decryptWalletBackup(file, PASSWORD)).toEqual(contents);
+    await expect(decryptWalletBackup(file, 'wrong password')).rejects.toThrow('Wrong password');
+  });
+
+  it('refuses the wrong password', async () => {
+    await createWallets();
+    const backup = (await exportWalletBackup(PIN, PASSWORD))!;
+
+    await expect(decryptWalletBackup(backup.file, 'wrong password')).rejects.toThrow('Wrong password');
+  });
+
+  it('leaves wallets already on the device alone', async () => {
+    const { walletId } = await createWallets();
+    const backup = (await exportWalletBackup(PIN, PASSWORD))!;
+
+    const result = await importWalletBackup(await decryptWalletBackup(backup.file, PASSWORD), NEW_PIN);
+
+    expect(result).toEqual({ success: true, imported: 0, duplicates: 3 });
+    expect(getWalletsList()).toHaveLength(3);
+    expect(await decryptWalletSecret(PIN, walletId)).toMatchObject({ mnemonic: MNEMONIC });
+  });
+});
+
+describe('biometric unlock', () => {
+  it('unlocks with the biometric token and keeps the PIN as a fallback', async () => {
+    const walletId = (await encryptAndSaveWallet(MNEMONIC, PIN, 'addr_test1wallet', 'Main', undefined, 'extra'))!;
+    const accountId = addWalletAccount(walletId, 'addr_test1account1', 1)!;
+    const biometricToken = generateBiometricToken();
+
+    expect(await enableBiometricUnlock(NEW_PIN, biometricToken, walletId)).toBe(false);
+    expect(hasBiometricUnlock(walletId)).toBe(false);
+    expect(await enableBiometricUnlock(PIN, biometricToken, walletId)).toBe(true);
+
+    expect(hasBiometricUnlock(accountId)).toBe(true);
+    expect(await decryptWalletSecret({ biometricToken }, accountId)).toEqual({
+      mnemonic: MNEMONIC,
+      passphrase: 'extra',
+      walletId: accountId,
+    });
+    expect(await decryptWalletSecret(PIN, walletId)).toMatchObject({ mnemonic: MNEMONIC });
+  });
+
+  it('rejects another biometric token', async () => {
+    const walletId = (await encryptAndSaveWallet(MNEMONIC, PIN, 'addr_test1wallet'))!;
+    await enableBiometricUnlock(PIN, generateBiometricToken(), walletId);
+
+    expect(await decryptWalletSecret({ biometricToken: generateBiometricToken() }, walletId)).toBeNull();
+  });
+
+  it('stops unlocking once disabled', async () => {
+    const walletId = (await encryptAndSaveWallet(MNEMONIC, PIN, 'addr_test1wallet'))!;
+    const biometricToken = generateBiometricToken();
+    await enableBiometricUnlock(PIN, biometricToken, walletId);
+
+    disableBiometricUnlock(walletId);
+
+    expect(hasBiometricUnlock(walletId)).toBe(false);
+    expect(storedKeys('cardano_biometric_')).toEqual([]);
+    expect(await decryptWalletSecret({ biometricToken }, walletId)).toBeNull();
+  });
+
+  it('is removed with the last account of the wallet', async () => {
+    const walletId = (await encryptAndSaveWallet(MNEMONIC, PIN, 'addr_test1wallet'))!;
+    const accountId = addWalletAccount(walletId, 'addr_test1account1', 1)!;
+    await enableBiometricUnlock(PIN, generateBiometricToken(), walletId);
+
+    deleteWallet(walletId);
+    expect(hasBiometricUnlock(accountId)).toBe(true);
+
+    deleteWallet(accountId);
+    expect(storedKeys('cardano_biometric_')).toEqual([]);
+  });
+
+  it('is removed when failed PIN attempts erase the wallet', async () => {
+    const walletId = (await encryptAndSaveWallet(MNEMONIC, PIN, 'addr_test1wallet'))!;
+    await enableBiometricUnlock(PIN, generateBiometricToken(), walletId);
+    setPinWipeAfter(1);
+
+    expect(await decryptWalletSecret(NEW_PIN, walletId)).toBeNull();
+
+    expect(getWalletsList()).toEqual([]);
+    expect(storedKeys('cardano_biometric_')).toEqual([]);
+  });
+});
+
+describe('failed PIN attempts', () => {
+  const OTHER_MNEMONIC = bip39.generateMnemonic(256);
+
+  const failAttempts = async (walletId: string, count: number) => {
+    for (let i = 0; i < count; i++) {
+      await decryptWalletSecret(NEW_PIN, walletId);
+    }
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts failures per wallet', async () => {
+    const walletId = (await encryptAndSaveWallet(MNEMONIC, PIN, 'addr_test1wallet'))!;
+    const otherId = (await encryptAndSaveWallet(OTHER_MNEMONIC, PIN, 'addr_test1other'))!;
+
+    await failAttempts(walletId, 2);
+
+    expect(getPinAttemptStatus(walletId)).toEqual({
+      failedAttempts: 2,
+      attemptsLeft: 3,
+      erasesWallet: false,
+      lockoutRemaining: 0,
+    });
+    expect(getPinAttemptStatus(otherId).failedAttempts).toBe(0);
+  });
+
+  it('locks out for 5 minutes after 5 failures, doubling with every further one', async () => {
+    const walletId = (await encryptAndSaveWallet(MNEMONIC, PIN, 'addr_test1wallet'))!;
+
+    await failAttempts(walletId, 4);
+    expect(isLockedOut(walletId)).toBe(false);
+    await failAttempts(walletId, 1);
+    expect(getPinAttemptStatus(walletId).lockoutRemaining).toBe(5 * 60);
+
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    await failAttempts(walletId, 1);
+    expect(getPinAttemptStatus(walletId).lockoutRemaining).toBe(10 * 60);
+  });
+
+  it('refuses even the right PIN while locked out, without counting it', async () => {
+    const walletId = (await encryptAndSaveWallet(MNEMONIC, PIN, 'addr_test1wallet'))!;
+    await failAttempts(walletId, 5);
+
+    expect(await decryptWalletSecret(PIN, walletId)).toBeNull();
+    await failAttempts(walletId, 1);
+    expect(getPinAttemptStatus(walletId).failedAttempts).toBe(5);
+  });
+
+  it('keeps the lockout when the counters are removed from the wallet record', async () => {
+    const walletId = (await encryptAndSaveWallet(MNEMONIC, PIN, 'addr_test1wallet'))!;
+    await failAttempts(walletId, 5);
+
+    const { failedAttempts, lockedUntil, ...record } = readRecord(walletId);
+    expect(failedAttempts).toBe(5);
+    expect(lockedUntil).toBeGreaterThan(Date.now());
+    writeRecord(walletId, record);
+
+    expect(isLockedOut(walletId)).toBe(true);
+    expect(getPinAttemptStatus(walletId).failedAttempts).toBe(5);
+  });
+
+  it('carries over a lockout from the shared counters of older versions', async () => {
+    const walletId = (await encryptAndSaveWallet(MNEMONIC, PIN, 'addr_test1wallet'))!;
+    storage.set('cardano_pin_attempts', '5');
+    storage.set('cardano_lockout_until', String(Date.now() + 5 * 60 * 1000));
+
+    expect(isLockedOut(walletId)).toBe(true);
+    expect(await decryptWalletSecret(PIN, walletId)).toBeNull();
+    await failAttempts(walletId, 1);
+    expect(getPinAttemptStatus(walletId).failedAttempts).toBe(5);
+
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    await failAttempts(walletId, 1);
+    expect(getPinAttemptStatus(walletId)).toMatchObject({ failedAttempts: 6, lockoutRemaining: 10 * 60 });
+  });
+
+  it('resets the counters on a successful unlock', async () => {
+    const walletId = (await encryptAndSaveWallet(MNEMONIC, PIN, 'addr_test1wallet'))!;
+    await failAttempts(walletId, 5);
+    vi.advanceTimersByTime(5 * 60 * 1000);
+
+    expect(await decryptWalletSecret(PIN, walletId)).toMatchObject({ mnemonic: MNEMONIC });
+    expect(getPinAttemptStatus(walletId)).toMatchObject({ failedAttempts: 0, lockoutRemaining: 0 });
+    expect(storedKeys('cardano_pin_lockout_')).toEqual([]);
+  });
+
+  it('erases every account of the mnemonic at the wipe limit', async () => {
+    const walletId = (await encryptAndSaveWallet(MNEMONIC, PIN, 'addr_test1wallet'))!;
+    const accountId = addWalletAccount(walletId, 'addr_test1account1', 1)!;
+    const otherId = (await encryptAndSaveWallet(OTHER_MNEMONIC, PIN, 'addr_test1other'))!;
+    setPinWipeAfter(3);
+
+    await failAttempts(accountId, 2);
+    expect(getPinAttemptStatus(walletId)).toMatchObject({ attemptsLeft: 1, erasesWallet: true });
+    await failAttempts(accountId, 1);
+
+    expect(getWalletsList().map((w) => w.id)).toEqual([otherId]);
+    expect(storedKeys('cardano_wallet_')).toEqual([`cardano_wallet_${otherId}`]);
+    expect(storedKeys('cardano_pin_lockout_')).toEqual([]);
+    expect(await decryptWalletSecret(PIN, otherId)).toMatchObject({ mnemonic: OTHER_MNEMONIC });
+  });
+});
+
+describe('duress PIN', () => {
+  const DURESS_PIN = '907153';
+  const DECOY_PIN = '318264';
+  const DECOY_MNEMONIC = bip39.generateMnemonic(128);
+
+  const createWallets = async (decoyPassphrase?: string) => {
+    const decoyId = (await encryptAndSaveWallet(
+      DECOY_MNEMONIC,
+      DECOY_PIN,
+      'addr_test1decoy',
+      'Decoy',
+      undefined,
+      decoyPassphrase
+    ))!;
+    const walletId = (await encryptAndSaveWallet(MNEMONIC, PIN, 'addr_test1wallet', 'Main'))!;
+    return { walletId, decoyId };
+  };
+
+  it('opens only the decoy wallet', async () => {
+    const { walletId, decoyId } = await createWallets();
+    const filler = readRecord(walletId).secondary!;
+    const decoyRecord = readRecord(decoyId);
+
+    expect(await setDuressPin(PIN, DURESS_PIN, decoyId, DECOY_PIN, walletId)).toEqual({ success: true });
+
+    expect(readRecord(walletId).secondary!.ciphertext).toHaveLength(filler.ciphertext.length);
+    expect(readRecord(decoyId)).toEqual(decoyRecord);
+    expect(await decryptWalletSecret(DURESS_PIN, walletId)).toEqual({ mnemonic: DECOY_MNEMONIC, walletId: decoyId });
+    expect(await verifyWalletPin(DURESS_PIN, decoyId)).toBe(true);
+    expect(getPinAttemptStatus(walletId).failedAttempts).toBe(0);
+  });
+
+  it('is rejected for actions of the real wallet', async () => {
+    const { walletId, decoyId } = await createWallets();
+    await setDuressPin(PIN, DURESS_PIN, decoyId, DECOY_PIN, walletId);
+
+    expect(await decryptWallet(DURESS_PIN, walletId)).toBeNull();
+    expect(await verifyWalletPin(DURESS_PIN, walletId)).toBe(false);
+    expect(await decryptWallet(PIN, walletId)).toBe(MNEMONIC);
+  });
+
+  it('does not open filler slots', async () => {
+    const { walletId } = await createWallets();
+
+    expect(await decryptWalletSecret(DURESS_PIN, walletId)).toBeNull();
+    expect(getPinAttemptStatus(walletId).failedAttempts).toBe(1);
+  });
+
+  it('stops working once removed', async () => {
+    const { walletId, decoyId } = await createWallets();
+    await setDuressPin(PIN, DURESS_PIN, decoyId, DECOY_PIN, walletId);
+
+    expect(await removeDuressPin(PIN, walletId)).toBe(true);
+
+    expect(await decryptWalletSecret(DURESS_PIN, walletId)).toBeNull();
+    expect(await verifyWalletPin(DURESS_PIN, decoyId)).toBe(false);
+  });
+
+  it('keeps confirming decoy sends after the decoy sets a duress PIN of its own', async () => {
+    const DECOY_DURESS_PIN = '640257';
+    const { walletId, decoyId } = await createWallets();
+    await setDuressPin(PIN, DURESS_PIN, decoyId, DECOY_PIN, walletId);
+    expect(await setDuressPin(DECOY_PIN, DECOY_DURESS_PIN, walletId, PIN, decoyId)).toEqual({ success: true });
+
+    // Duress unlock, then the PIN prompt of a send in the decoy session
+    const session = await decryptWalletSecret(DURESS_PIN, walletId);
+    expect(session).toEqual({ mnemonic: DECOY_MNEMONIC, walletId: decoyId });
+    expect(await verifyWalletPin(DURESS_PIN, session!.walletId)).toBe(true);
+    expect(await decryptWallet(DURESS_PIN, session!.walletId)).toBe(DECOY_MNEMONIC);
+    expect(getPinAttemptStatus(decoyId).failedAttempts).toBe(0);
+
+    expect(await decryptWalletSecret(DECOY_DURESS_PIN, decoyId)).toEqual({ mnemonic: MNEMONIC, walletId });
+  });
+
+  it('refuses a decoy secret that does not fit the slot', async () => {
+    const { walletId, decoyId } = await createWallets('x'.repeat(1000));
+    const filler = readRecord(walletId).secondary;
+
+    expect(await setDuressPin(PIN, DURESS_PIN, decoyId, DECOY_PIN, walletId)).toMatchObject({ success: false });
+
+    expect(readRecord(walletId).secondary).toEqual(filler);
+  });
+});
@@ -1,4 +1,7 @@
 import CryptoJS from "crypto-js";
+import { scryptAsync } from "@noble/hashes/scrypt";
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex, hexToBytes, randomBytes } from "@noble/hashes/utils";
 import {
   getStorageItem,
   setStorageItem,
@@ -9,27 +12,48 @@ import {
   getWalletsList,
   setActiveWalletId,
   getActiveWalletId,
+  setFrozenUtxos,
+  setLastReceiveIndex,
+  getMnemonicId,
+  updateWalletInList,
+  isWalletBackedUp,
+  setWalletBackedUp,
   type StoredWalletInfo,
 } from "./index";
+import {
+  clearAddressBooks,
+  findContact,
+  getAddressBook,
+  saveContact,
+  type AddressBookEntry,
+} from "./address-book";
 
 /**
  * Security constants for brute force protection
  */
 const SECURITY_CONFIG = {
-  MAX_PIN_ATTEMPTS: 5,
-  LOCKOUT_DURATION_MS: 5 * 60 * 1000, // 5 minutes
+  FREE_PIN_ATTEMPTS: 5, // Failures before the first lockout
+  LOCKOUT_BASE_MS: 5 * 60 * 1000, // First lockout, doubled on every further failure
+  LOCKOUT_MAX_MS: 24 * 60 * 60 * 1000,
   MIN_PIN_LENGTH: 6,
   MAX_PIN_LENGTH: 20,
 };
 
 /**
- * Storage keys for security tracking
+ * Storage keys for security settings
  */
 const SECURITY_KEYS = {
-  PIN_ATTEMPTS: "cardano_pin_attempts",
-  LOCKOUT_UNTIL: "cardano_lockout_until",
+  WIPE_AFTER: "cardano_pin_wipe_after",
+  // Counters shared by all wallets, before attempts were tracked per wallet
+  LEGACY_PIN_ATTEMPTS: "cardano_pin_attempts",
+  LEGACY_LOCKOUT_UNTIL: "cardano_lockout_until",
 };
 
+/**
+ * Choices for erasing a wallet after failed PIN attempts (0 = never)
+ */
+export const PIN_WIPE_OPTIONS = [0, 10, 15, 20];
+
 /**
  * Timing-safe string comparison to prevent timing attacks
  */
@@ -50,45 +74,164 @@ const secureCompare = (a: string, b: string): boolean => {
 };
 
 /**
- * Check if user is locked out due to too many PIN attempts
+ * Failed PIN attempts of a wallet
+ */
+export interface PinAttemptStatus {
+  failedAttempts: number;
+  attemptsLeft: number; // Before the next lockout, or before the wallet is erased
+  erasesWallet: boolean; // Running out of attempts erases the wallet instead of locking it
+  lockoutRemaining: number; // Seconds
+}
+
+/**
+ * Read a wallet's failed attempts
+ *
+ * The counters are plain fields stored next to the ciphertext, outside its
+ * authentication: they change on every wrong PIN, when there is no key to
+ * seal them with. A copy is kept under a second key and the higher count
+ * wins, so removing the fields from one place does not reset the lockout.
+ * Someone editing both can still reset it; the scrypt cost of every guess
+ * is what remains then.
+ *
+ * A wallet without counters of its own starts from the shared counters of
+ * older versions, so upgrading does not lift a running lockout.
+ */
+const readAttempts = (walletId: string): { failedAttempts: number; lockedUntil: number } => {
+  const data = getWalletData(walletId);
+  let copy: { failedAttempts?: unknown; lockedUntil?: unknown } = {};
+  try {
+    copy = JSON.parse(getStorageItem(getAttemptsStorageKey(walletId)) || "{}");
+  } catch {
+    // An unreadable copy counts as missing
+  }
+  const hasRecord =
+    data?.failedAttempts !== undefined || data?.lockedUntil !== undefined || Object.keys(copy).length > 0;
+  const legacyAttempts = hasRecord ? 0 : Number(getStorageItem(SECURITY_KEYS.LEGACY_PIN_ATTEMPTS)) || 0;
+  const legacyLockedUntil = hasRecord ? 0 : Number(getStorageItem(SECURITY_KEYS.LEGACY_LOCKOUT_UNTIL)) || 0;
+  return {
+    failedAttempts: Math.max(data?.failedAttempts || 0, Number(copy.failedAttempts) || 0, legacyAttempts),
+    lockedUntil: Math.max(data?.lockedUntil || 0, Number(copy.lockedUntil) || 0, legacyLockedUntil),
+  };
+};
+
+const writeAttempts = (walletId: string, failedAttempts: number, lockedUntil: number): void => {
+  updateWalletData(walletId, { failedAttempts, lockedUntil });
+  if (failedAttempts > 0 || lockedUntil > 0) {
+    setStorageItem(getAttemptsStorageKey(walletId), JSON.stringify({ failedAttempts, lockedUntil }));
+  } else {
+    removeStorageItem(getAttemptsStorageKey(walletId));
+  }
+};
+
+/**
+ * Number of failed PIN attempts after which a wallet is erased (0 = never)
  */
-export const isLockedOut = (): boolean => {
-  const lockoutUntil = getStorageItem(SECURITY_KEYS.LOCKOUT_UNTIL);
-  if (!lockoutUntil) return false;
-  return Date.now() < parseInt(lockoutUntil, 10);
+export const getPinWipeAfter = (): number => {
+  return parseInt(getStorageItem(SECURITY_KEYS.WIPE_AFTER) || "0", 10) || 0;
+};
+
+export const setPinWipeAfter = (failedAttempts: number): void => {
+  if (failedAttempts > 0) {
+    setStorageItem(SECURITY_KEYS.WIPE_AFTER, failedAttempts.toString());
+  } else {
+    removeStorageItem(SECURITY_KEYS.WIPE_AFTER);
+  }
 };
 
 /**
  * Get remaining lockout time in seconds
+ *
+ * @param walletId - The wallet ID (uses active wallet if not provided)
  */
-export const getLockoutRemaining = (): number => {
-  const lockoutUntil = getStorageItem(SECURITY_KEYS.LOCKOUT_UNTIL);
-  if (!lockoutUntil) return 0;
-  const remaining = parseInt(lockoutUntil, 10) - Date.now();
+export const getLockoutRemaining = (walletId?: string): number => {
+  const id = walletId || getActiveWalletId();
+  if (!id) return 0;
+  const remaining = readAttempts(id).lockedUntil - Date.now();
   return Math.max(0, Math.ceil(remaining / 1000));
 };
 
 /**
- * Record a failed PIN attempt
+ * Check if a wallet is locked out due to too many PIN attempts
+ *
+ * @param walletId - The wallet ID (uses active wallet if not provided)
+ */
+export const isLockedOut = (walletId?: string): boolean => {
+  return getLockoutRemaining(walletId) > 0;
+};
+
+/**
+ * Get a wallet's failed attempts, lockout and what the next failures lead to
+ * Past the free attempts every failure locks the wallet, so an enabled wipe
+ * limit is then the one worth counting down to.
+ *
+ * @param walletId - The wallet ID (uses active wallet if not provided)
+ */
+export const getPinAttemptStatus = (walletId?: string): PinAttemptStatus => {
+  const id = walletId || getActiveWalletId();
+  const { failedAttempts } = id ? readAttempts(id) : { failedAttempts: 0 };
+  const lockoutRemaining = id ? getLockoutRemaining(id) : 0;
+  const lockoutAttemptsLeft = Math.max(1, SECURITY_CONFIG.FREE_PIN_ATTEMPTS - failedAttempts);
+  const wipeAfter = getPinWipeAfter();
+  const wipeAttemptsLeft = Math.max(1, wipeAfter - failedAttempts);
+
+  if (
+    wipeAfter > 0 &&
+    (wipeAttemptsLeft <= lockoutAttemptsLeft || failedAttempts >= SECURITY_CONFIG.FREE_PIN_ATTEMPTS)
+  ) {
+    return { failedAttempts, attemptsLeft: wipeAttemptsLeft, erasesWallet: true, lockoutRemaining };
+  }
+  return { failedAttempts, attemptsLeft: lockoutAttemptsLeft, erasesWallet: false, lockoutRemaining };
+};
+
+/**
+ * Lockout after a failed attempt: none within the free attempts, then doubling up to a day
+ */
+const getLockoutDuration = (failedAttempts: number): number => {
+  if (failedAttempts < SECURITY_CONFIG.FREE_PIN_ATTEMPTS) return 0;
+  const doublings = failedAttempts - SECURITY_CONFIG.FREE_PIN_ATTEMPTS;
+  return Math.min(SECURITY_CONFIG.LOCKOUT_BASE_MS * 2 ** doublings, SECURITY_CONFIG.LOCKOUT_MAX_MS);
+};
+
+/**
+ * Remove a wallet and every account sharing its mnemonic
+ */
+const eraseWallet = (walletId: string): void => {
+  const storageKey = getWalletStorageKey(walletId);
+  const attemptsKey = getAttemptsStorageKey(walletId);
+  getWalletsList()
+    .filter((w) => getWalletStorageKey(w.id) === storageKey)
+    .forEach((w) => deleteWallet(w.id));
+  removeStorageItem(storageKey);
+  removeStorageItem(attemptsKey);
+};
+
+/**
+ * Record a failed PIN attempt, erasing the wallet once the configured limit is reached
+ * @returns true if the wallet was erased
  */
-const recordFailedAttempt = (): number => {
-  const attempts = parseInt(getStorageItem(SECURITY_KEYS.PIN_ATTEMPTS) || "0", 10) + 1;
-  setStorageItem(SECURITY_KEYS.PIN_ATTEMPTS, attempts.toString());
-  
-  if (attempts >= SECURITY_CONFIG.MAX_PIN_ATTEMPTS) {
-    const lockoutUntil = Date.now() + SECURITY_CONFIG.LOCKOUT_DURATION_MS;
-    setStorageItem(SECURITY_KEYS.LOCKOUT_UNTIL, lockoutUntil.toString());
+const recordFailedAttempt = (walletId: string): boolean => {
+  const failedAttempts = readAttempts(walletId).failedAttempts + 1;
+  const wipeAfter = getPinWipeAfter();
+  if (wipeAfter > 0 && failedAttempts >= wipeAfter) {
+    eraseWallet(walletId);
+    return true;
   }
-  
-  return SECURITY_CONFIG.MAX_PIN_ATTEMPTS - attempts;
+
+  const lockout = getLockoutDuration(failedAttempts);
+  writeAttempts(walletId, failedAttempts, lockout > 0 ? Date.now() + lockout : 0);
+  return false;
 };
 
 /**
  * Reset PIN attempts after successful unlock
  */
-const resetPinAttempts = (): void => {
-  removeStorageItem(SECURITY_KEYS.PIN_ATTEMPTS);
-  removeStorageItem(SECURITY_KEYS.LOCKOUT_UNTIL);
+const resetPinAttempts = (walletId: string): void => {
+  const { failedAttempts, lockedUntil } = readAttempts(walletId);
+  if (failedAttempts > 0 || lockedUntil > 0) {
+    writeAttempts(walletId, 0, 0);
+  }
+  removeStorageItem(SECURITY_KEYS.LEGACY_PIN_ATTEMPTS);
+  removeStorageItem(SECURITY_KEYS.LEGACY_LOCKOUT_UNTIL);
 };
 
 /**
@@ -114,8 +257,20 @@ export const validatePinStrength = (pin: string): { valid: boolean; error?: stri
   return { valid: true };
 };
 
+/**
+ * scrypt cost parameters, stored with each payload so they can be raised later
+ */
+export interface ScryptParams {
+  N: number;
+  r: number;
+  p: number;
+}
+
 /**
  * Encrypted wallet data structure
+ *
+ * v1: CryptoJS AES-CBC with a PBKDF2 key, plus a separate PBKDF2 pinHash
+ * v2: WebCrypto AES-GCM with an scrypt key; a wrong PIN fails authentication
  */
 export interface EncryptedWalletData {
   encryptedMnemonic: string;
@@ -123,65 +278,121 @@ export interface EncryptedWalletData {
   iv: string;
   timestamp: number;
   version: number;
-  pinHash: string;
+  kdf?: ScryptParams; // v2
+  pinHash?: string; // v1 only
+  failedAttempts?: number;
+  lockedUntil?: number; // ms timestamp
+  secondary?: SealedData; // v2: duress slot, random filler unless a duress PIN is set
 }
 
+/**
+ * Secret held in the encrypted payload
+ */
+export interface WalletSecret {
+  mnemonic: string;
+  passphrase?: string; // BIP-39 passphrase ("25th word")
+}
+
+/**
+ * Secret of the wallet a PIN opened
+ * walletId differs from the requested wallet when a duress PIN opened its decoy.
+ */
+export interface UnlockedWalletSecret extends WalletSecret {
+  walletId: string;
+}
+
+/**
+ * Biometric token of this device, read from Telegram's BiometricManager
+ */
+export interface BiometricUnlock {
+  biometricToken: string;
+}
+
+/**
+ * What unlocks a wallet: its PIN, or biometrics where the wallet opted in
+ */
+export type WalletUnlock = string | BiometricUnlock;
+
+/**
+ * Plaintext of the encrypted payload
+ * Wallets without a passphrase keep the bare mnemonic, as before passphrases existed.
+ */
+const serializeSecret = (secret: WalletSecret): string => {
+  return secret.passphrase ? JSON.stringify(secret) : secret.mnemonic;
+};
+
+const parseSecret = (plaintext: string): WalletSecret | null => {
+  if (!plaintext.startsWith("{")) {
+    return { mnemonic: plaintext };
+  }
+  try {
+    const secret = JSON.parse(plaintext) as Partial<WalletSecret>;
+    if (typeof secret.mnemonic !== "string") return null;
+    return typeof secret.passphrase === "string" && secret.passphrase
+      ? { mnemonic: secret.mnemonic, passphrase: secret.passphrase }
+      : { mnemonic: secret.mnemonic };
+  } catch {
+    return null;
+  }
+};
+
 /**
  * Storage key for individual wallet
+ * Accounts added to a wallet share the encrypted mnemonic of the entry they were derived from.
  */
 const getWalletStorageKey = (walletId: string): string => {
-  return `cardano_wallet_${walletId}`;
+  const wallet = getWalletsList().find((w) => w.id === walletId);
+  return `cardano_wallet_${wallet ? getMnemonicId(wallet) : walletId}`;
 };
 
 /**
- * Encryption configuration
+ * Storage key for a wallet's biometric unlock copy, shared by its accounts like the PIN copy
  */
-const ENCRYPTION_CONFIG = {
-  keySize: 256 / 32, // 256-bit key
-  iterations: 100000, // PBKDF2 iterations (high for security)
-  version: 1, // For future migration support
+const getBiometricStorageKey = (walletId: string): string => {
+  const wallet = getWalletsList().find((w) => w.id === walletId);
+  return `cardano_biometric_${wallet ? getMnemonicId(wallet) : walletId}`;
 };
 
 /**
- * Generate a secure salt for key derivation
+ * Storage key for the copy of a wallet's failed PIN attempts, shared by its accounts
  */
-const generateSalt = (): string => {
-  return CryptoJS.lib.WordArray.random(128 / 8).toString();
+const getAttemptsStorageKey = (walletId: string): string => {
+  const wallet = getWalletsList().find((w) => w.id === walletId);
+  return `cardano_pin_lockout_${wallet ? getMnemonicId(wallet) : walletId}`;
 };
 
 /**
- * Generate a secure initialization vector
+ * Encryption configuration
  */
-const generateIV = (): string => {
-  return CryptoJS.lib.WordArray.random(128 / 8).toString();
+const ENCRYPTION_CONFIG = {
+  version: 2, // v1 wallets are re-encrypted on their next unlock
+  scrypt: { N: 2 ** 15, r: 8, p: 1 }, // 32 MiB per derivation
+  maxScryptN: 2 ** 20, // Refuse stored parameters that would exhaust memory
+  keyLength: 32, // AES-256
+  saltLength: 16,
+  ivLength: 12, // AES-GCM nonce
+  legacyKeySize: 256 / 32, // v1 PBKDF2
+  legacyIterations: 100000, // v1 PBKDF2
+  duressSlotSize: 1024, // Duress slot plaintexts are padded to this, so filler looks the same
 };
 
+// Binds ciphertexts to this storage format
+const ENCRYPTION_AAD = new TextEncoder().encode("cardano-wallet-v2");
+
 /**
- * Derive encryption key from PIN using PBKDF2
+ * Derive a v1 encryption key from PIN using PBKDF2
  */
 const deriveKey = (pin: string, salt: string): CryptoJS.lib.WordArray => {
   return CryptoJS.PBKDF2(pin, CryptoJS.enc.Hex.parse(salt), {
-    keySize: ENCRYPTION_CONFIG.keySize,
-    iterations: ENCRYPTION_CONFIG.iterations,
+    keySize: ENCRYPTION_CONFIG.legacyKeySize,
+    iterations: ENCRYPTION_CONFIG.legacyIterations,
   });
 };
 
 /**
- * Hash PIN for storage (to verify without decrypting)
+ * Verify PIN against a v1 pinHash with timing-safe comparison
  */
-export const hashPin = (pin: string): string => {
-  const salt = generateSalt();
-  const hash = CryptoJS.PBKDF2(pin, salt, {
-    keySize: 256 / 32,
-    iterations: 10000, // Less iterations for quick verification
-  }).toString();
-  return `${salt}:${hash}`;
-};
-
-/**
- * Verify PIN against stored hash with timing-safe comparison
- */
-export const verifyPin = (pin: string, storedHash: string): boolean => {
+const verifyPin = (pin: string, storedHash: string): boolean => {
   try {
     const [salt, hash] = storedHash.split(":");
     if (!salt || !hash) return false;
@@ -198,6 +409,239 @@ export const verifyPin = (pin: string, storedHash: string): boolean => {
   }
 };
 
+const getSubtleCrypto = (): SubtleCrypto => {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error("Secure storage is not available in this browser");
+  }
+  return subtle;
+};
+
+const importAesKey = (raw: Uint8Array): Promise<CryptoKey> => {
+  return getSubtleCrypto().importKey("raw", new Uint8Array(raw), "AES-GCM", false, ["encrypt", "decrypt"]);
+};
+
+/**
+ * Encrypt bytes with AES-GCM under a fresh nonce
+ */
+const aesEncrypt = async (key: CryptoKey, plaintext: Uint8Array): Promise<{ ciphertext: string; iv: string }> => {
+  const iv = randomBytes(ENCRYPTION_CONFIG.ivLength);
+  const ciphertext = await getSubtleCrypto().encrypt(
+    { name: "AES-GCM", iv: new Uint8Array(iv), additionalData: ENCRYPTION_AAD },
+    key,
+    new Uint8Array(plaintext)
+  );
+  return { ciphertext: Buffer.from(ciphertext).toString("base64"), iv: bytesToHex(iv) };
+};
+
+/**
+ * Decrypt bytes encrypted with aesEncrypt
+ * @returns The plaintext, or null if the key is wrong (or the data was changed)
+ */
+const aesDecrypt = async (key: CryptoKey, ciphertext: string, iv: string): Promise<Uint8Array | null> => {
+  try {
+    const plaintext = await getSubtleCrypto().decrypt(
+      { name: "AES-GCM", iv: new Uint8Array(hexToBytes(iv)), additionalData: ENCRYPTION_AAD },
+      key,
+      new Uint8Array(Buffer.from(ciphertext, "base64"))
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Derive an AES-GCM key from a PIN or password with scrypt
+ */
+const deriveAesKey = async (secret: string, salt: Uint8Array, params: ScryptParams): Promise<CryptoKey> => {
+  if (params.N > ENCRYPTION_CONFIG.maxScryptN || params.r > 32 || params.p > 16) {
+    throw new Error("Unsupported key derivation parameters");
+  }
+  const raw = await scryptAsync(secret.normalize("NFKC"), salt, { ...params, dkLen: ENCRYPTION_CONFIG.keyLength });
+  try {
+    return await importAesKey(raw);
+  } finally {
+    raw.fill(0);
+  }
+};
+
+/**
+ * AES-GCM ciphertext with what is needed to derive its key again
+ */
+interface SealedData {
+  ciphertext: string; // base64, authentication tag included
+  salt: string;
+  iv: string;
+  kdf: ScryptParams;
+}
+
+/**
+ * Encrypt text under a PIN or password
+ */
+const sealText = async (plaintext: string, secret: string): Promise<SealedData> => {
+  const salt = randomBytes(ENCRYPTION_CONFIG.saltLength);
+  const key = await deriveAesKey(secret, salt, ENCRYPTION_CONFIG.scrypt);
+  const { ciphertext, iv } = await aesEncrypt(key, new TextEncoder().encode(plaintext));
+  return { ciphertext, salt: bytesToHex(salt), iv, kdf: { ...ENCRYPTION_CONFIG.scrypt } };
+};
+
+/**
+ * Decrypt text sealed with sealText
+ * @returns The plaintext, or null if the PIN or password is wrong (or the data was changed)
+ */
+const openText = async (sealed: SealedData, secret: string): Promise<string | null> => {
+  const key = await deriveAesKey(secret, hexToBytes(sealed.salt), sealed.kdf);
+  const plaintext = await aesDecrypt(key, sealed.ciphertext, sealed.iv);
+  return plaintext ? new TextDecoder().decode(plaintext) : null;
+};
+
+/**
+ * Decrypt a CryptoJS AES-CBC payload (v1 wallets and backups)
+ * @returns The plaintext, or null if the key is wrong
+ */
+const openLegacyText = (ciphertext: string, key: CryptoJS.lib.WordArray, iv: string): string | null => {
+  try {
+    const decrypted = CryptoJS.AES.decrypt(ciphertext, key, {
+      iv: CryptoJS.enc.Hex.parse(iv),
+      mode: CryptoJS.mode.CBC,
+      padding: CryptoJS.pad.Pkcs7,
+    });
+    return decrypted.toString(CryptoJS.enc.Utf8) || null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Random data shaped like a sealed duress slot
+ * Every wallet stores one, so a real duress slot cannot be told apart from storage.
+ */
+const createFillerSlot = (): SealedData => ({
+  ciphertext: Buffer.from(randomBytes(ENCRYPTION_CONFIG.duressSlotSize + 16)).toString("base64"),
+  salt: bytesToHex(randomBytes(ENCRYPTION_CONFIG.saltLength)),
+  iv: bytesToHex(randomBytes(ENCRYPTION_CONFIG.ivLength)),
+  kdf: { ...ENCRYPTION_CONFIG.scrypt },
+});
+
+/**
+ * Duress slot plaintext naming the decoy wallet, padded to the slot size
+ * @returns null if the secret does not fit, as a longer slot would stand out from filler
+ */
+const createDuressSlotPlaintext = (decoyWalletId: string, secret: WalletSecret): string | null => {
+  const plaintext = JSON.stringify({ walletId: decoyWalletId, mnemonic: secret.mnemonic, passphrase: secret.passphrase });
+  const size = new TextEncoder().encode(plaintext).length;
+  if (size > ENCRYPTION_CONFIG.duressSlotSize) return null;
+  return plaintext + " ".repeat(ENCRYPTION_CONFIG.duressSlotSize - size);
+};
+
+/**
+ * Open a wallet's duress slot
+ * @returns The decoy wallet's secret, or null for a filler slot or another PIN
+ */
+const openDuressSlot = async (data: EncryptedWalletData, pin: string): Promise<UnlockedWalletSecret | null> => {
+  if (!data.secondary) return null;
+  const plaintext = await openText(data.secondary, pin);
+  if (!plaintext) return null;
+  try {
+    const slot = JSON.parse(plaintext) as Partial<UnlockedWalletSecret>;
+    if (typeof slot.walletId !== "string" || typeof slot.mnemonic !== "string") return null;
+    return {
+      walletId: slot.walletId,
+      mnemonic: slot.mnemonic,
+      ...(typeof slot.passphrase === "string" && slot.passphrase && { passphrase: slot.passphrase }),
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Open the duress slots of the other stored wallets with a PIN
+ * A duress PIN confirms actions in its decoy wallet like the decoy's own PIN,
+ * so nothing is written to the decoy and it can keep a duress PIN of its own.
+ * Every slot is tried, so the time taken does not depend on which one opens.
+ *
+ * @returns The wallet's secret if the PIN is the duress PIN of a wallet using it as decoy
+ */
+const openAsDecoy = async (walletId: string, pin: string): Promise<WalletSecret | null> => {
+  const storageKey = getWalletStorageKey(walletId);
+  const owners = new Map<string, string>();
+  for (const wallet of getWalletsList()) {
+    const key = getWalletStorageKey(wallet.id);
+    if (!wallet.watchOnly && key !== storageKey && !owners.has(key)) owners.set(key, wallet.id);
+  }
+
+  let secret: WalletSecret | null = null;
+  for (const ownerId of owners.values()) {
+    const data = getWalletData(ownerId);
+    const slot = data ? await openDuressSlot(data, pin) : null;
+    if (slot && getWalletStorageKey(slot.walletId) === storageKey) {
+      secret = { mnemonic: slot.mnemonic, ...(slot.passphrase && { passphrase: slot.passphrase }) };
+    }
+  }
+  return secret;
+};
+
+/**
+ * Encrypt a wallet secret in the current format
+ *
+ * @param secondary - Duress slot to keep; a filler slot is created if not provided
+ */
+const createWalletData = async (
+  secret: WalletSecret,
+  pin: string,
+  secondary?: SealedData
+): Promise<EncryptedWalletData> => {
+  const sealed = await sealText(serializeSecret(secret), pin);
+  return {
+    encryptedMnemonic: sealed.ciphertext,
+    salt: sealed.salt,
+    iv: sealed.iv,
+    kdf: sealed.kdf,
+    timestamp: Date.now(),
+    version: ENCRYPTION_CONFIG.version,
+    secondary: secondary || createFillerSlot(),
+  };
+};
+
+/**
+ * Decrypt a stored wallet payload of any version
+ * @returns The plaintext, or null if the PIN is wrong
+ */
+const openWalletData = async (data: EncryptedWalletData, pin: string): Promise<string | null> => {
+  if (data.version >= 2) {
+    if (!data.kdf) return null;
+    return openText({ ciphertext: data.encryptedMnemonic, salt: data.salt, iv: data.iv, kdf: data.kdf }, pin);
+  }
+  if (data.pinHash && !verifyPin(pin, data.pinHash)) {
+    return null;
+  }
+  return openLegacyText(data.encryptedMnemonic, deriveKey(pin, data.salt), data.iv);
+};
+
+/**
+ * Read the encrypted payload of a wallet
+ */
+const getWalletData = (walletId: string): EncryptedWalletData | null => {
+  const storedData = getStorageItem(getWalletStorageKey(walletId));
+  if (!storedData) return null;
+  try {
+    return JSON.parse(storedData) as EncryptedWalletData;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Change fields of a wallet's stored payload
+ */
+const updateWalletData = (walletId: string, changes: Partial<EncryptedWalletData>): boolean => {
+  const data = getWalletData(walletId);
+  if (!data) return false;
+  return setStorageItem(getWalletStorageKey(walletId), JSON.stringify({ ...data, ...changes }));
+};
+
 /**
  * Encrypt and save wallet mnemonic to localStorage
  * 
@@ -206,42 +650,23 @@ export const verifyPin = (pin: string, storedHash: string): boolean => {
  * @param walletAddress - The derived wallet address (for display without decryption)
  * @param walletName - Display name for the wallet
  * @param walletId - Optional wallet ID (generates new if not provided)
+ * @param passphrase - Optional BIP-39 passphrase, encrypted together with the mnemonic
  * @returns The wallet ID if successful, null if failed
  */
-export const encryptAndSaveWallet = (
+export const encryptAndSaveWallet = async (
   mnemonic: string,
   pin: string,
   walletAddress: string,
   walletName?: string,
-  walletId?: string
-): string | null => {
+  walletId?: string,
+  passphrase?: string
+): Promise<string | null> => {
   try {
     // Generate or use provided wallet ID
     const id = walletId || generateWalletId();
-    
-    // Generate cryptographic values
-    const salt = generateSalt();
-    const iv = generateIV();
-
-    // Derive encryption key from PIN
-    const key = deriveKey(pin, salt);
-
-    // Encrypt the mnemonic
-    const encrypted = CryptoJS.AES.encrypt(mnemonic, key, {
-      iv: CryptoJS.enc.Hex.parse(iv),
-      mode: CryptoJS.mode.CBC,
-      padding: CryptoJS.pad.Pkcs7,
-    });
 
-    // Prepare data for storage
-    const encryptedData: EncryptedWalletData = {
-      encryptedMnemonic: encrypted.toString(),
-      salt,
-      iv,
-      timestamp: Date.now(),
-      version: ENCRYPTION_CONFIG.version,
-      pinHash: hashPin(pin),
-    };
+    // Encrypt the mnemonic (and passphrase), keeping the duress slot on a PIN change
+    const encryptedData = await createWalletData({ mnemonic, passphrase }, pin, getWalletData(id)?.secondary);
 
     // Store encrypted wallet data with unique key
     const storageKey = getWalletStorageKey(id);
@@ -277,21 +702,83 @@ export const encryptAndSaveWallet = (
 };
 
 /**
- * Decrypt wallet mnemonic from localStorage
+ * Add another account of an existing wallet's mnemonic to the wallets list
+ * The new entry shares the encrypted mnemonic, so the same PIN unlocks it.
+ *
+ * @param walletId - Any account of the wallet
+ * @param accountAddress - First address of the new account (for display without decryption)
+ * @param accountIndex - CIP-1852 account index of the new account
+ * @param accountName - Display name for the account
+ * @returns The new account's wallet ID, or null if the wallet does not exist
+ */
+export const addWalletAccount = (
+  walletId: string,
+  accountAddress: string,
+  accountIndex: number,
+  accountName?: string
+): string | null => {
+  const wallet = getWalletsList().find((w) => w.id === walletId);
+  if (!wallet) return null;
+
+  const id = generateWalletId();
+  addWalletToList({
+    id,
+    name: accountName || `Account ${accountIndex + 1}`,
+    address: accountAddress,
+    network: wallet.network,
+    createdAt: Date.now(),
+    accountIndex,
+    mnemonicId: getMnemonicId(wallet),
+  });
+  setActiveWalletId(id);
+  return id;
+};
+
+/**
+ * Add a watch-only wallet to the wallets list
+ * Nothing is encrypted: the entry only holds public addresses.
+ *
+ * @param walletAddress - Watched address
+ * @param walletName - Display name for the wallet
+ * @param stakeAddress - Stake key whose addresses are followed
+ * @param handle - ADA Handle the wallet was added from
+ * @returns The new wallet ID
+ */
+export const addWatchOnlyWallet = (
+  walletAddress: string,
+  walletName?: string,
+  stakeAddress?: string,
+  handle?: string
+): string => {
+  const id = generateWalletId();
+  addWalletToList({
+    id,
+    name: walletName || handle || `Watch ${getWalletsList().length + 1}`,
+    address: walletAddress,
+    network: process.env.NEXT_PUBLIC_CARDANO_NETWORK || "preview",
+    createdAt: Date.now(),
+    watchOnly: true,
+    ...(stakeAddress && { stakeAddress }),
+    ...(handle && { handle }),
+  });
+  setActiveWalletId(id);
+  return id;
+};
+
+/**
+ * Decrypt wallet mnemonic and passphrase from localStorage
+ * Wallets stored in an older format are re-encrypted in the current one.
+ * A duress PIN opens its decoy wallet instead, reported through walletId.
  * 
- * @param pin - User's PIN for decryption
+ * @param unlock - User's PIN, or the biometric token if the wallet has biometric unlock
  * @param walletId - The wallet ID to decrypt (uses active wallet if not provided)
- * @returns The decrypted mnemonic or null if failed, or "LOCKED" if too many attempts
+ * @returns The decrypted secret or null if failed
  */
-export const decryptWallet = (pin: string, walletId?: string): string | null => {
+export const decryptWalletSecret = async (
+  unlock: WalletUnlock,
+  walletId?: string
+): Promise<UnlockedWalletSecret | null> => {
   try {
-    // Check for lockout first
-    if (isLockedOut()) {
-      const remaining = getLockoutRemaining();
-      console.error(`Account locked. Try again in ${remaining} seconds.`);
-      return null;
-    }
-
     // Get wallet ID
     const id = walletId || getActiveWalletId();
     if (!id) {
@@ -299,65 +786,107 @@ export const decryptWallet = (pin: string, walletId?: string): string | null =>
       return null;
     }
 
-    // Get encrypted data from storage
-    const storageKey = getWalletStorageKey(id);
-    const storedData = getStorageItem(storageKey);
-    if (!storedData) {
-      console.error("No wallet found in storage");
+    // Check for lockout first
+    if (isLockedOut(id)) {
+      const remaining = getLockoutRemaining(id);
+      console.error(`Wallet locked. Try again in ${remaining} seconds.`);
       return null;
     }
 
-    // Parse encrypted data
-    const encryptedData: EncryptedWalletData = JSON.parse(storedData);
+    if (typeof unlock !== "string") {
+      const secret = await openBiometricSecret(unlock.biometricToken, id);
+      if (!secret) return null;
+      resetPinAttempts(id);
+      return { ...secret, walletId: id };
+    }
 
-    // Verify PIN first with brute force protection
-    if (encryptedData.pinHash && !verifyPin(pin, encryptedData.pinHash)) {
-      const attemptsLeft = recordFailedAttempt();
-      console.error(`Invalid PIN. ${attemptsLeft} attempts remaining.`);
+    // Get encrypted data from storage
+    const encryptedData = getWalletData(id);
+    if (!encryptedData) {
+      console.error("No wallet found in storage");
+      return null;
+    }
+    if (encryptedData.version > ENCRYPTION_CONFIG.version) {
+      console.error(`Wallet storage version ${encryptedData.version} is not supported`);
       return null;
     }
 
-    // Derive the same key using stored salt
-    const key = deriveKey(pin, encryptedData.salt);
-
-    // Decrypt the mnemonic
-    const decrypted = CryptoJS.AES.decrypt(
-      encryptedData.encryptedMnemonic,
-      key,
-      {
-        iv: CryptoJS.enc.Hex.parse(encryptedData.iv),
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7,
+    // Authenticated decryption doubles as the PIN check. The duress slots are
+    // always tried as well, so every PIN takes the same time.
+    const plaintext = await openWalletData(encryptedData, unlock);
+    const decoy = await openDuressSlot(encryptedData, unlock);
+    const decoySecret = await openAsDecoy(id, unlock);
+    if ((!plaintext || plaintext.trim().length === 0) && decoy && getWalletInfo(decoy.walletId)) {
+      resetPinAttempts(id);
+      return decoy;
+    }
+    if ((!plaintext || plaintext.trim().length === 0) && decoySecret) {
+      resetPinAttempts(id);
+      return { ...decoySecret, walletId: id };
+    }
+    if (!plaintext || plaintext.trim().length === 0) {
+      if (recordFailedAttempt(id)) {
+        console.error("Too many failed PIN attempts. The wallet was erased.");
+      } else {
+        console.error(`Invalid PIN. ${getPinAttemptStatus(id).failedAttempts} failed attempts.`);
       }
-    );
-
-    // Convert to string
-    const mnemonic = decrypted.toString(CryptoJS.enc.Utf8);
-
-    // Validate decryption worked (mnemonic should not be empty)
-    if (!mnemonic || mnemonic.trim().length === 0) {
-      console.error("Decryption resulted in empty mnemonic - wrong PIN?");
-      recordFailedAttempt();
       return null;
     }
 
     // Validate mnemonic format (basic check: should have valid word count)
-    const wordCount = mnemonic.trim().split(/\s+/).length;
-    if (![12, 15, 18, 21, 24].includes(wordCount)) {
+    const secret = parseSecret(plaintext);
+    const wordCount = secret ? secret.mnemonic.trim().split(/\s+/).length : 0;
+    if (!secret || ![12, 15, 18, 21, 24].includes(wordCount)) {
       console.error("Decrypted data is not a valid mnemonic");
       return null;
     }
 
     // Reset failed attempts on successful unlock
-    resetPinAttempts();
+    resetPinAttempts(id);
 
-    return mnemonic;
+    // Migrate older formats now that the PIN is known
+    if (encryptedData.version < ENCRYPTION_CONFIG.version) {
+      try {
+        setStorageItem(getWalletStorageKey(id), JSON.stringify(await createWalletData(secret, unlock)));
+      } catch (error) {
+        console.error("Error migrating wallet storage:", error);
+      }
+    } else if (!encryptedData.secondary) {
+      updateWalletData(id, { secondary: createFillerSlot() });
+    }
+
+    return { ...secret, walletId: id };
   } catch (error) {
     console.error("Error decrypting wallet:", error);
     return null;
   }
 };
 
+/**
+ * Decrypt wallet mnemonic from localStorage
+ * 
+ * @param unlock - User's PIN, or the biometric token if the wallet has biometric unlock
+ * @param walletId - The wallet ID to decrypt (uses active wallet if not provided)
+ * @returns The decrypted mnemonic or null if failed
+ */
+export const decryptWallet = async (unlock: WalletUnlock, walletId?: string): Promise<string | null> => {
+  const id = walletId || getActiveWalletId();
+  const secret = await decryptWalletSecret(unlock, id || undefined);
+  // A duress PIN only opens its decoy, never confirms actions of the real wallet
+  return secret && secret.walletId === id ? secret.mnemonic : null;
+};
+
+/**
+ * Check a wallet's PIN (or biometric token) by decrypting it
+ * Failed PIN attempts count towards the lockout.
+ *
+ * @param unlock - PIN or biometric token to check
+ * @param walletId - The wallet ID (uses active wallet if not provided)
+ */
+export const verifyWalletPin = async (unlock: WalletUnlock, walletId?: string): Promise<boolean> => {
+  return (await decryptWallet(unlock, walletId)) !== null;
+};
+
 /**
  * Change wallet PIN
  * 
@@ -366,18 +895,18 @@ export const decryptWallet = (pin: string, walletId?: string): string | null =>
  * @param walletId - The wallet ID (uses active wallet if not provided)
  * @returns boolean indicating success
  */
-export const changeWalletPin = (
+export const changeWalletPin = async (
   oldPin: string,
   newPin: string,
   walletId?: string
-): boolean => {
+): Promise<boolean> => {
   try {
     const id = walletId || getActiveWalletId();
     if (!id) return false;
 
     // Decrypt with old PIN
-    const mnemonic = decryptWallet(oldPin, id);
-    if (!mnemonic) {
+    const secret = await decryptWalletSecret(oldPin, id);
+    if (!secret || secret.walletId !== id) {
       return false;
     }
 
@@ -387,12 +916,13 @@ export const changeWalletPin = (
     if (!wallet) return false;
 
     // Re-encrypt with new PIN
-    const result = encryptAndSaveWallet(
-      mnemonic,
+    const result = await encryptAndSaveWallet(
+      secret.mnemonic,
       newPin,
       wallet.address,
       wallet.name,
-      id
+      id,
+      secret.passphrase
     );
     return result !== null;
   } catch (error) {
@@ -410,15 +940,24 @@ export const deleteWallet = (walletId?: string): void => {
   const id = walletId || getActiveWalletId();
   if (!id) return;
 
-  // Remove encrypted data
   const storageKey = getWalletStorageKey(id);
-  removeStorageItem(storageKey);
+  const biometricKey = getBiometricStorageKey(id);
+  const attemptsKey = getAttemptsStorageKey(id);
+  setFrozenUtxos(id, []);
+  setLastReceiveIndex(id, null);
 
   // Remove from list
   removeWalletFromList(id);
 
-  // If this was the active wallet, set another one as active
+  // Remove encrypted data once no other account of the mnemonic uses it
   const wallets = getWalletsList();
+  if (!wallets.some((w) => getWalletStorageKey(w.id) === storageKey)) {
+    removeStorageItem(storageKey);
+    removeStorageItem(biometricKey);
+    removeStorageItem(attemptsKey);
+  }
+
+  // If this was the active wallet, set another one as active
   if (wallets.length > 0) {
     setActiveWalletId(wallets[0].id);
   }
@@ -432,9 +971,14 @@ export const deleteAllWallets = (): void => {
   wallets.forEach((wallet) => {
     const storageKey = getWalletStorageKey(wallet.id);
     removeStorageItem(storageKey);
+    removeStorageItem(getBiometricStorageKey(wallet.id));
+    removeStorageItem(getAttemptsStorageKey(wallet.id));
+    setFrozenUtxos(wallet.id, []);
+    setLastReceiveIndex(wallet.id, null);
   });
   removeStorageItem("cardano_wallets_list");
   removeStorageItem("cardano_active_wallet_id");
+  clearAddressBooks();
 };
 
 /**
@@ -459,62 +1003,570 @@ export const getStoredWalletAddress = (walletId?: string): string | null => {
 export const hasPinSet = (walletId?: string): boolean => {
   const id = walletId || getActiveWalletId();
   if (!id) return false;
+  return !!getWalletData(id)?.encryptedMnemonic;
+};
 
-  const storageKey = getWalletStorageKey(id);
-  const storedData = getStorageItem(storageKey);
-  if (!storedData) return false;
+/**
+ * Rename wallet
+ * 
+ * @param walletId - The wallet ID
+ * @param newName - New name for the wallet
+ */
+export const renameWallet = (walletId: string, newName: string): boolean => {
+  const wallets = getWalletsList();
+  const index = wallets.findIndex((w) => w.id === walletId);
+  if (index === -1) return false;
+
+  wallets[index].name = newName;
+  setStorageItem("cardano_wallets_list", JSON.stringify(wallets));
+  return true;
+};
+
+/**
+ * Get wallet info by ID
+ */
+export const getWalletInfo = (walletId: string): StoredWalletInfo | null => {
+  const wallets = getWalletsList();
+  return wallets.find((w) => w.id === walletId) || null;
+};
+
+// ================================
+// DURESS PIN
+// ================================
+
+/**
+ * Set a duress PIN for a wallet: entered instead of the PIN, it opens the decoy wallet
+ *
+ * The decoy's ID and secret are sealed under the duress PIN in the wallet's
+ * duress slot, which every wallet fills with random data otherwise. The decoy
+ * itself is left unchanged: the duress PIN confirms its transactions through
+ * this slot, and its own duress slot stays free for a duress PIN of its own.
+ * Slots have a fixed size: a decoy with a very long passphrase is refused.
+ *
+ * @param pin - Current PIN of the wallet
+ * @param duressPin - New duress PIN, different from the PIN
+ * @param decoyWalletId - Wallet to open with the duress PIN
+ * @param decoyPin - Current PIN of the decoy wallet
+ * @param walletId - The wallet ID (uses active wallet if not provided)
+ */
+export const setDuressPin = async (
+  pin: string,
+  duressPin: string,
+  decoyWalletId: string,
+  decoyPin: string,
+  walletId?: string
+): Promise<{ success: boolean; error?: string }> => {
+  const id = walletId || getActiveWalletId();
+  const decoyInfo = getWalletInfo(decoyWalletId);
+  if (!id || !decoyInfo || decoyInfo.watchOnly) {
+    return { success: false, error: "Choose a decoy wallet" };
+  }
+  if (getWalletStorageKey(decoyWalletId) === getWalletStorageKey(id)) {
+    return { success: false, error: "The decoy must be a wallet with another recovery phrase" };
+  }
+
+  const strength = validatePinStrength(duressPin);
+  if (!strength.valid) {
+    return { success: false, error: strength.error };
+  }
+  if (duressPin === pin) {
+    return { success: false, error: "The duress PIN must be different from your PIN" };
+  }
+
+  const secret = await decryptWalletSecret(pin, id);
+  if (!secret || secret.walletId !== id) {
+    return { success: false, error: "Invalid PIN" };
+  }
+  const decoySecret = await decryptWalletSecret(decoyPin, decoyWalletId);
+  if (!decoySecret || decoySecret.walletId !== decoyWalletId) {
+    return { success: false, error: "Invalid PIN for the decoy wallet" };
+  }
+
+  const plaintext = createDuressSlotPlaintext(decoyWalletId, decoySecret);
+  if (!plaintext) {
+    return { success: false, error: "The decoy wallet's passphrase is too long for a duress PIN" };
+  }
 
   try {
-    const encryptedData: EncryptedWalletData = JSON.parse(storedData);
-    return !!encryptedData.pinHash;
-  } catch {
+    const saved = updateWalletData(id, { secondary: await sealText(plaintext, duressPin) });
+    return saved ? { success: true } : { success: false, error: "Could not save the duress PIN" };
+  } catch (error) {
+    console.error("Error setting duress PIN:", error);
+    return { success: false, error: "Could not save the duress PIN" };
+  }
+};
+
+/**
+ * Remove a wallet's duress PIN by replacing its duress slot with filler
+ * The decoy wallet stops accepting the old duress PIN as well.
+ *
+ * @param pin - Current PIN of the wallet
+ * @param walletId - The wallet ID (uses active wallet if not provided)
+ * @returns boolean indicating success (false on a wrong PIN)
+ */
+export const removeDuressPin = async (pin: string, walletId?: string): Promise<boolean> => {
+  const id = walletId || getActiveWalletId();
+  if (!id) return false;
+
+  const secret = await decryptWalletSecret(pin, id);
+  if (!secret || secret.walletId !== id) return false;
+  return updateWalletData(id, { secondary: createFillerSlot() });
+};
+
+// ================================
+// BIOMETRIC UNLOCK
+// ================================
+
+/**
+ * Biometric unlock copy of a wallet secret
+ * The secret is encrypted under a random wallet key, and the wallet key under
+ * the biometric token Telegram keeps in the device's secure storage.
+ */
+interface BiometricWalletData {
+  wrappedKey: string; // base64, wallet key encrypted under the biometric token
+  keyIv: string;
+  encryptedSecret: string; // base64, wallet secret encrypted under the wallet key
+  iv: string;
+  timestamp: number;
+  version: number;
+}
+
+const BIOMETRIC_VERSION = 1;
+
+/**
+ * Create a random biometric token to store with Telegram's BiometricManager
+ */
+export const generateBiometricToken = (): string => {
+  return bytesToHex(randomBytes(ENCRYPTION_CONFIG.keyLength));
+};
+
+/**
+ * AES key of a biometric token
+ * Tokens are random, so a hash is enough to turn one into a key.
+ */
+const biometricTokenKey = (biometricToken: string): Promise<CryptoKey> => {
+  return importAesKey(sha256(new TextEncoder().encode(biometricToken)));
+};
+
+/**
+ * Decrypt a wallet secret with the biometric token
+ * @returns The secret, or null if the wallet has no biometric unlock or the token changed
+ */
+const openBiometricSecret = async (biometricToken: string, walletId: string): Promise<WalletSecret | null> => {
+  const stored = getStorageItem(getBiometricStorageKey(walletId));
+  if (!stored) {
+    console.error("Biometric unlock is not enabled for this wallet");
+    return null;
+  }
+
+  const data = JSON.parse(stored) as BiometricWalletData;
+  const walletKey = await aesDecrypt(await biometricTokenKey(biometricToken), data.wrappedKey, data.keyIv);
+  if (!walletKey) {
+    console.error("Biometric token does not match this wallet");
+    return null;
+  }
+
+  try {
+    const plaintext = await aesDecrypt(await importAesKey(walletKey), data.encryptedSecret, data.iv);
+    return plaintext ? parseSecret(new TextDecoder().decode(plaintext)) : null;
+  } finally {
+    walletKey.fill(0);
+  }
+};
+
+/**
+ * Check if a wallet can be unlocked with biometrics on this device
+ *
+ * @param walletId - The wallet ID (uses active wallet if not provided)
+ */
+export const hasBiometricUnlock = (walletId?: string): boolean => {
+  const id = walletId || getActiveWalletId();
+  if (!id) return false;
+  return getStorageItem(getBiometricStorageKey(id)) !== null;
+};
+
+/**
+ * Let a wallet be unlocked with biometrics as well as its PIN
+ * The PIN copy stays as it is, so the PIN keeps working as a fallback.
+ *
+ * @param pin - Current PIN of the wallet
+ * @param biometricToken - Token stored with Telegram's BiometricManager
+ * @param walletId - The wallet ID (uses active wallet if not provided)
+ * @returns boolean indicating success (false on a wrong PIN)
+ */
+export const enableBiometricUnlock = async (
+  pin: string,
+  biometricToken: string,
+  walletId?: string
+): Promise<boolean> => {
+  try {
+    const id = walletId || getActiveWalletId();
+    if (!id || !biometricToken) return false;
+
+    const secret = await decryptWalletSecret(pin, id);
+    if (!secret || secret.walletId !== id) return false;
+
+    const walletKey = randomBytes(ENCRYPTION_CONFIG.keyLength);
+    try {
+      const wrapped = await aesEncrypt(await biometricTokenKey(biometricToken), walletKey);
+      const sealed = await aesEncrypt(
+        await importAesKey(walletKey),
+        new TextEncoder().encode(serializeSecret(secret))
+      );
+      const data: BiometricWalletData = {
+        wrappedKey: wrapped.ciphertext,
+        keyIv: wrapped.iv,
+        encryptedSecret: sealed.ciphertext,
+        iv: sealed.iv,
+        timestamp: Date.now(),
+        version: BIOMETRIC_VERSION,
+      };
+      return setStorageItem(getBiometricStorageKey(id), JSON.stringify(data));
+    } finally {
+      walletKey.fill(0);
+    }
+  } catch (error) {
+    console.error("Error enabling biometric unlock:", error);
     return false;
   }
 };
 
 /**
- * Get encrypted wallet data for verification purposes (no decryption)
- * 
+ * Remove a wallet's biometric unlock copy; only its PIN unlocks it afterwards
+ *
  * @param walletId - The wallet ID (uses active wallet if not provided)
- * @returns Object containing pinHash for verification, or null if not found
  */
-export const getStoredWalletForVerification = (walletId?: string): { pinHash: string } | null => {
+export const disableBiometricUnlock = (walletId?: string): void => {
   const id = walletId || getActiveWalletId();
-  if (!id) return null;
+  if (!id) return;
+  removeStorageItem(getBiometricStorageKey(id));
+};
 
-  const storageKey = getWalletStorageKey(id);
-  const storedData = getStorageItem(storageKey);
-  if (!storedData) return null;
+// ================================
+// BACKUP FILES
+// ================================
+
+/**
+ * Backup file format
+ * Bump version when the payload changes; older versions must stay importable.
+ */
+const BACKUP_CONFIG = {
+  format: "cardano-wallet-backup",
+  version: 2, // v1: CryptoJS AES-CBC with PBKDF2, v2: AES-GCM with scrypt
+  minPasswordLength: 8,
+};
+
+// Networks whose address books are included in a backup
+const BACKUP_NETWORKS = ["mainnet", "preprod", "preview"];
+
+// Device settings included in a backup (the network follows the app, not the file)
+const BACKUP_SETTINGS_KEYS = ["cardano_fiat_currency", "cardano_balance_hidden"];
+
+/**
+ * Backup file as written to disk
+ * Only the format header is readable; everything else is in the ciphertext.
+ */
+export interface WalletBackupFile {
+  format: string;
+  version: number;
+  createdAt: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+  kdf?: ScryptParams; // v2
+}
+
+/**
+ * Wallet entry in a backup
+ * Accounts of one mnemonic each carry the secret; import shares it again.
+ */
+export interface WalletBackupEntry {
+  name: string;
+  address: string;
+  network: string;
+  createdAt: number;
+  accountIndex?: number; // CIP-1852 account the address is derived from
+  backedUp?: boolean; // false until the recovery phrase quiz is passed
+  watchOnly?: boolean;
+  stakeAddress?: string;
+  handle?: string;
+  secret?: WalletSecret; // Absent for watch-only wallets
+}
+
+/**
+ * Decrypted contents of a backup
+ */
+export interface WalletBackupContents {
+  createdAt: number;
+  wallets: WalletBackupEntry[];
+  addressBooks: Record<string, AddressBookEntry[]>;
+  settings: Record<string, string>;
+}
 
+export interface WalletBackupExport {
+  file: string; // JSON contents of the backup file
+  walletCount: number;
+  skipped: string[]; // Names of wallets protected by a different PIN
+}
+
+export interface WalletBackupImportResult {
+  success: boolean;
+  imported: number;
+  duplicates: number; // Already on this device (same address)
+  error?: string;
+}
+
+/**
+ * Validate a backup file password
+ */
+export const validateBackupPassword = (password: string): { valid: boolean; error?: string } => {
+  if (!password || password.length < BACKUP_CONFIG.minPasswordLength) {
+    return { valid: false, error: `Password must be at least ${BACKUP_CONFIG.minPasswordLength} characters` };
+  }
+  return { valid: true };
+};
+
+/**
+ * Decrypt a wallet's secret without counting failed attempts
+ * Used once the PIN has been checked against the active wallet.
+ */
+const readWalletSecret = async (pin: string, walletId: string): Promise<WalletSecret | null> => {
   try {
-    const encryptedData: EncryptedWalletData = JSON.parse(storedData);
-    if (!encryptedData.pinHash) return null;
-    return { pinHash: encryptedData.pinHash };
+    const encryptedData = getWalletData(walletId);
+    if (!encryptedData) return null;
+
+    const plaintext = await openWalletData(encryptedData, pin);
+    if (plaintext) return parseSecret(plaintext);
+
+    // The duress PIN of a decoy wallet opens it like its own PIN
+    return await openAsDecoy(walletId, pin);
   } catch {
     return null;
   }
 };
 
 /**
- * Rename wallet
- * 
- * @param walletId - The wallet ID
- * @param newName - New name for the wallet
+ * Export wallets to a password-encrypted backup file
+ *
+ * Wallets, names, account indexes, whether the recovery phrase was verified,
+ * watch-only entries, address books and settings are included. The PIN is checked against the exported (or active)
+ * wallet with the usual attempt limit; other wallets under a different PIN
+ * are skipped and listed in the result.
+ *
+ * @param pin - PIN of the wallet(s) to export
+ * @param password - Password protecting the backup file
+ * @param walletId - Export only this wallet (all wallets when not provided)
+ * @returns The backup, or null if the PIN or password is invalid
  */
-export const renameWallet = (walletId: string, newName: string): boolean => {
-  const wallets = getWalletsList();
-  const index = wallets.findIndex((w) => w.id === walletId);
-  if (index === -1) return false;
+export const exportWalletBackup = async (
+  pin: string,
+  password: string,
+  walletId?: string
+): Promise<WalletBackupExport | null> => {
+  try {
+    if (!validateBackupPassword(password).valid) {
+      return null;
+    }
 
-  wallets[index].name = newName;
-  setStorageItem("cardano_wallets_list", JSON.stringify(wallets));
-  return true;
+    const all = getWalletsList();
+    const selected = walletId ? all.filter((w) => w.id === walletId) : all;
+    const checkId = walletId || getActiveWalletId();
+    const checkWallet = selected.find((w) => w.id === checkId && !w.watchOnly) || selected.find((w) => !w.watchOnly);
+    if (selected.length === 0 || (checkWallet && !(await verifyWalletPin(pin, checkWallet.id)))) {
+      return null;
+    }
+
+    const wallets: WalletBackupEntry[] = [];
+    const skipped: string[] = [];
+    for (const wallet of selected) {
+      const secret = wallet.watchOnly ? undefined : await readWalletSecret(pin, wallet.id);
+      if (!wallet.watchOnly && !secret) {
+        skipped.push(wallet.name);
+        continue;
+      }
+      wallets.push({
+        name: wallet.name,
+        address: wallet.address,
+        network: wallet.network,
+        createdAt: wallet.createdAt,
+        ...(secret && { accountIndex: wallet.accountIndex || 0 }),
+        ...(!isWalletBackedUp(wallet.id) && { backedUp: false }),
+        ...(wallet.watchOnly && { watchOnly: true }),
+        ...(wallet.stakeAddress && { stakeAddress: wallet.stakeAddress }),
+        ...(wallet.handle && { handle: wallet.handle }),
+        ...(secret && { secret }),
+      });
+    }
+
+    const settings: Record<string, string> = {};
+    for (const key of BACKUP_SETTINGS_KEYS) {
+      const value = getStorageItem(key);
+      if (value !== null) settings[key] = value;
+    }
+
+    const contents: WalletBackupContents = {
+      createdAt: Date.now(),
+      wallets,
+      addressBooks: Object.fromEntries(BACKUP_NETWORKS.map((network) => [network, getAddressBook(network)])),
+      settings,
+    };
+
+    const sealed = await sealText(JSON.stringify(contents), password);
+    const file: WalletBackupFile = {
+      format: BACKUP_CONFIG.format,
+      version: BACKUP_CONFIG.version,
+      createdAt: contents.createdAt,
+      salt: sealed.salt,
+      iv: sealed.iv,
+      ciphertext: sealed.ciphertext,
+      kdf: sealed.kdf,
+    };
+
+    return { file: JSON.stringify(file, null, 2), walletCount: wallets.length, skipped };
+  } catch (error) {
+    console.error("Error exporting backup:", error);
+    return null;
+  }
 };
 
 /**
- * Get wallet info by ID
+ * Decrypt a backup file
+ *
+ * @param file - JSON contents of the backup file
+ * @param password - Password the backup was exported with
+ * @throws Error with a user-facing message if the file or password is invalid
  */
-export const getWalletInfo = (walletId: string): StoredWalletInfo | null => {
-  const wallets = getWalletsList();
-  return wallets.find((w) => w.id === walletId) || null;
+export const decryptWalletBackup = async (file: string, password: string): Promise<WalletBackupContents> => {
+  let backup: Partial<WalletBackupFile>;
+  try {
+    backup = JSON.parse(file);
+  } catch {
+    throw new Error("Not a wallet backup file");
+  }
+  if (backup.format !== BACKUP_CONFIG.format || !backup.salt || !backup.iv || !backup.ciphertext) {
+    throw new Error("Not a wallet backup file");
+  }
+  if (backup.version !== 1 && backup.version !== BACKUP_CONFIG.version) {
+    throw new Error(`Unsupported backup version ${backup.version}. Update the app to import it.`);
+  }
+
+  const plaintext =
+    backup.version === 1
+      ? openLegacyText(backup.ciphertext, deriveKey(password, backup.salt), backup.iv)
+      : backup.kdf
+        ? await openText({ ciphertext: backup.ciphertext, salt: backup.salt, iv: backup.iv, kdf: backup.kdf }, password)
+        : null;
+
+  let contents: WalletBackupContents | null = null;
+  try {
+    contents = plaintext ? JSON.parse(plaintext) : null;
+  } catch {
+    // Reported below
+  }
+  if (!Array.isArray(contents?.wallets)) {
+    throw new Error("Wrong password");
+  }
+
+  return contents;
+};
+
+/**
+ * Wallets of a backup already on this device (same address)
+ */
+export const getBackupDuplicates = (contents: WalletBackupContents): WalletBackupEntry[] => {
+  const addresses = new Set(getWalletsList().map((w) => w.address));
+  return contents.wallets.filter((w) => addresses.has(w.address));
+};
+
+/**
+ * Import a decrypted backup, re-encrypting every wallet under a new PIN
+ *
+ * Wallets whose address is already on this device are left alone. Accounts of
+ * the same mnemonic share one encrypted entry again. Contacts are added where
+ * the address is not saved yet, and settings are restored. The active wallet
+ * does not change.
+ *
+ * @param contents - Result of decryptWalletBackup
+ * @param pin - PIN for the imported wallets
+ */
+export const importWalletBackup = async (
+  contents: WalletBackupContents,
+  pin: string
+): Promise<WalletBackupImportResult> => {
+  const pinValidation = validatePinStrength(pin);
+  if (!pinValidation.valid) {
+    return { success: false, imported: 0, duplicates: 0, error: pinValidation.error };
+  }
+
+  const activeId = getActiveWalletId();
+  const duplicates = getBackupDuplicates(contents);
+  const mnemonicIds = new Map<string, string>(); // Secret -> entry holding it
+  let imported = 0;
+
+  try {
+    for (const entry of contents.wallets) {
+      if (duplicates.includes(entry)) continue;
+
+      let id: string | null;
+      if (entry.watchOnly || !entry.secret) {
+        id = addWatchOnlyWallet(entry.address, entry.name, entry.stakeAddress, entry.handle);
+      } else {
+        const secretKey = serializeSecret(entry.secret);
+        const mnemonicId = mnemonicIds.get(secretKey);
+        id = mnemonicId
+          ? addWalletAccount(mnemonicId, entry.address, entry.accountIndex || 0, entry.name)
+          : await encryptAndSaveWallet(
+              entry.secret.mnemonic,
+              pin,
+              entry.address,
+              entry.name,
+              undefined,
+              entry.secret.passphrase
+            );
+        if (id && !mnemonicId) mnemonicIds.set(secretKey, id);
+      }
+      if (!id) {
+        throw new Error(`Failed to import ${entry.name}`);
+      }
+
+      updateWalletInList(id, {
+        network: entry.network,
+        createdAt: entry.createdAt,
+        ...(entry.accountIndex && { accountIndex: entry.accountIndex }),
+      });
+      if (entry.backedUp === false) {
+        setWalletBackedUp(id, false);
+      }
+      imported++;
+    }
+
+    for (const [network, entries] of Object.entries(contents.addressBooks || {})) {
+      if (!BACKUP_NETWORKS.includes(network)) continue;
+      for (const entry of entries) {
+        if (!findContact(network, entry.address)) {
+          saveContact(network, entry);
+        }
+      }
+    }
+
+    for (const [key, value] of Object.entries(contents.settings || {})) {
+      if (BACKUP_SETTINGS_KEYS.includes(key)) {
+        setStorageItem(key, value);
+      }
+    }
+
+    return { success: true, imported, duplicates: duplicates.length };
+  } catch (error) {
+    console.error("Error importing backup:", error);
+    return {
+      success: false,
+      imported,
+      duplicates: duplicates.length,
+      error: error instanceof Error ? error.message : "Failed to import backup",
+    };
+  } finally {
+    const remaining = getWalletsList();
+    const restoreId = activeId && remaining.some((w) => w.id === activeId) ? activeId : remaining[0]?.id;
+    if (restoreId) setActiveWalletId(restoreId);
+  }
 };
@@ -21,6 +21,12 @@ export interface StoredWalletInfo {
   address: string;
   network: string;
   createdAt: number;
+  accountIndex?: number; // CIP-1852 account index (0 when absent)
+  mnemonicId?: string; // Entry holding the encrypted mnemonic this account derives from (own id when absent)
+  watchOnly?: boolean; // Added from an address without keys, nothing to decrypt or sign
+  stakeAddress?: string; // Watched stake key (watch-only wallets)
+  handle?: string; // ADA Handle the watch-only wallet was added from
+  backedUp?: boolean; // false for created wallets until the recovery phrase quiz is passed
 }
 
 /**
@@ -127,6 +133,57 @@ export const updateWalletInList = (walletId: string, updates: Partial<StoredWall
   return saveWalletsList(wallets);
 };
 
+/**
+ * ID of the entry whose encrypted mnemonic a wallet account uses
+ */
+export const getMnemonicId = (wallet: StoredWalletInfo): string => {
+  return wallet.mnemonicId || wallet.id;
+};
+
+/**
+ * Get all accounts derived from the same mnemonic as a wallet, by account index
+ */
+export const getWalletAccounts = (walletId: string): StoredWalletInfo[] => {
+  const wallets = getWalletsList();
+  const wallet = wallets.find((w) => w.id === walletId);
+  if (!wallet) return [];
+
+  const mnemonicId = getMnemonicId(wallet);
+  return wallets
+    .filter((w) => getMnemonicId(w) === mnemonicId)
+    .sort((a, b) => (a.accountIndex || 0) - (b.accountIndex || 0));
+};
+
+/**
+ * Lowest account index not yet used for a wallet's mnemonic
+ */
+export const getNextAccountIndex = (walletId: string): number => {
+  const used = new Set(getWalletAccounts(walletId).map((w) => w.accountIndex || 0));
+  let index = 0;
+  while (used.has(index)) index++;
+  return index;
+};
+
+/**
+ * Whether the recovery phrase behind a wallet has been verified
+ * Imported wallets count as backed up; the flag lives on the mnemonic's entry.
+ */
+export const isWalletBackedUp = (walletId: string): boolean => {
+  const wallets = getWalletsList();
+  const wallet = wallets.find((w) => w.id === walletId);
+  if (!wallet || wallet.watchOnly) return true;
+  return wallets.find((w) => w.id === getMnemonicId(wallet))?.backedUp !== false;
+};
+
+/**
+ * Record whether the recovery phrase behind a wallet has been verified
+ */
+export const setWalletBackedUp = (walletId: string, backedUp: boolean): boolean => {
+  const wallet = getWalletsList().find((w) => w.id === walletId);
+  if (!wallet) return false;
+  return updateWalletInList(getMnemonicId(wallet), { backedUp });
+};
+
 /**
  * Get active wallet ID
  */
@@ -166,3 +223,74 @@ export const hasStoredWallet = (): boolean => {
 export const getWalletCount = (): number => {
   return getWalletsList().length;
 };
+
+// ================================
+// FROZEN UTXOS (COIN CONTROL)
+// ================================
+
+/**
+ * Storage key for a wallet's frozen UTxO references
+ */
+const getFrozenUtxosKey = (walletId: string): string => `cardano_frozen_utxos_${walletId}`;
+
+/**
+ * Get frozen UTxO references ("txHash#index") for a wallet
+ */
+export const getFrozenUtxos = (walletId: string): string[] => {
+  const data = getStorageItem(getFrozenUtxosKey(walletId));
+  if (!data) return [];
+  try {
+    return JSON.parse(data);
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Save frozen UTxO references for a wallet
+ */
+export const setFrozenUtxos = (walletId: string, refs: string[]): boolean => {
+  if (refs.length === 0) {
+    return removeStorageItem(getFrozenUtxosKey(walletId));
+  }
+  return setStorageItem(getFrozenUtxosKey(walletId), JSON.stringify(refs));
+};
+
+/**
+ * Freeze or unfreeze a single UTxO
+ *
+ * @returns Updated list of frozen references
+ */
+export const toggleFrozenUtxo = (walletId: string, ref: string): string[] => {
+  const frozen = getFrozenUtxos(walletId);
+  const updated = frozen.includes(ref) ? frozen.filter((r) => r !== ref) : [...frozen, ref];
+  setFrozenUtxos(walletId, updated);
+  return updated;
+};
+
+// ================================
+// RECEIVE ADDRESSES
+// ================================
+
+const getReceiveIndexKey = (walletId: string): string => `cardano_receive_index_${walletId}`;
+
+/**
+ * Index of the external address last handed out as a fresh receive address
+ *
+ * @returns The index, or -1 if none was handed out yet
+ */
+export const getLastReceiveIndex = (walletId: string): number => {
+  const data = getStorageItem(getReceiveIndexKey(walletId));
+  const index = data === null ? NaN : Number(data);
+  return Number.isInteger(index) && index >= 0 ? index : -1;
+};
+
+/**
+ * Remember the last handed out receive address index (null clears it)
+ */
+export const setLastReceiveIndex = (walletId: string, index: number | null): boolean => {
+  if (index === null) {
+    return removeStorageItem(getReceiveIndexKey(walletId));
+  }
+  return setStorageItem(getReceiveIndexKey(walletId), String(index));
+};